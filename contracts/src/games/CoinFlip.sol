@@ -0,0 +1,379 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.16;
+
+import "../platform/RandomnessProvider.sol";
+import "../platform/Treasury.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+error CoinFlip__BetTooLow(uint256 sent, uint256 min);
+error CoinFlip__BetTooHigh(uint256 sent, uint256 max);
+error CoinFlip__NotProvider();
+error CoinFlip__AlreadySettled();
+error CoinFlip__InvalidSide(uint8 side);
+error CoinFlip__NotRefundable(uint256 betId);
+error CoinFlip__RefundTooEarly(uint256 refundableAt);
+error CoinFlip__BetNotFound();
+error CoinFlip__CallbackRetryPending(uint256 requestId);
+error CoinFlip__InvalidToken();
+
+/**
+ * @title  CoinFlip - Platform Integrated Coin Flip Game
+ * @author SC6107 Team
+ * @notice A heads-or-tails game using centralized RandomnessProvider and Treasury
+ * @dev Key features:
+ *      - Players bet on heads or tails
+ *      - Uses RandomnessProvider for provably fair randomness
+ *      - Integrated with Treasury for secure payouts
+ *      - State machine prevents double-settlement
+ *      - Stake is refundable if the VRF callback does not arrive within the refund timeout
+ *      - House edge: 2% (a win pays 1.96x the stake)
+ *      - Bets in ETH, or in an ERC-20 allowlisted by Treasury (placeTokenBet). Token bets are
+ *        bounded by the token's Treasury payout cap instead of minBet/maxBet.
+ *
+ * @dev IMPORTANT: Treasury Configuration Requirement
+ *      Treasury.maxPayoutPerTx MUST be >= maxBet * MULTIPLIER * (1 - HOUSE_EDGE)
+ *      Example: If maxBet = 1 ETH, then maxPayoutPerTx >= 1 * 2 * 0.98 = 1.96 ETH
+ *      Otherwise, payout will revert with Treasury.ExceedsMaxPayout error.
+ *      Treasury.setGameLimits must also give the game a maxLiability of at least one
+ *      max payout (1.96 ETH above), or placeBet reverts with Treasury.ExceedsMaxLiability.
+ */
+contract CoinFlip {
+	using SafeERC20 for IERC20;
+
+	/* Types */
+	enum BetStatus {
+		OPEN,
+		CALCULATING,
+		SETTLED,
+		REFUNDED
+	}
+
+	enum CoinSide {
+		HEADS,
+		TAILS
+	}
+
+	struct Bet {
+		uint256 betId;
+		BetStatus status;
+		address player;
+		uint256 amount;
+		CoinSide choice;     // Side the player bet on
+		CoinSide result;     // Flip result (only meaningful once SETTLED)
+		uint256 payout;      // Amount paid out (0 if lost)
+		uint64 timestamp;
+		address token;       // address(0) for ETH bets
+	}
+
+	/* State variables */
+	RandomnessProvider public immutable i_randomnessProvider;
+	Treasury public immutable i_treasury;
+
+	/* Game configuration */
+	uint256 private immutable i_minBet;
+	uint256 private immutable i_maxBet;
+	uint256 private immutable i_refundTimeout;          // Seconds after placement before a CALCULATING bet can be refunded
+
+	// Payout calculation constants
+	uint256 private constant MULTIPLIER = 2;           // 2x for correct call
+	uint256 private constant HOUSE_EDGE_BPS = 200;     // 2% house edge (200 basis points)
+	uint256 private constant BPS_BASE = 10000;         // Basis points denominator
+
+	uint256 public s_nextBetId;
+	mapping(uint256 => Bet) public s_bets;
+	mapping(uint256 => uint256) private s_requestIdToBetId; // Prevents double-settlement
+	mapping(uint256 => uint256) private s_betIdToRequestId; // Request to check for a pending retryCallback
+	mapping(address => uint256[]) private s_playerBets;     // Track player's bet history
+
+	/* Events */
+	event BetPlaced(uint256 indexed betId, address indexed player, uint256 amount, CoinSide choice, uint64 timestamp);
+	event RandomnessRequested(uint256 indexed betId, uint256 requestId);
+	event BetSettled(uint256 indexed betId, address indexed player, CoinSide result, bool won, uint256 payout);
+	event BetRefunded(uint256 indexed betId, address indexed player, uint256 amount);
+
+	/* Functions */
+	constructor(
+		address randomnessProvider,
+		address treasury,
+		uint256 minBet,
+		uint256 maxBet,
+		uint256 refundTimeout
+	) {
+		require(randomnessProvider != address(0), "Invalid provider");
+		require(treasury != address(0), "Invalid treasury");
+		require(minBet > 0, "Invalid min bet");
+		require(maxBet > minBet, "Max bet must be greater than min bet");
+		require(refundTimeout > 0, "Invalid refund timeout");
+
+		i_randomnessProvider = RandomnessProvider(randomnessProvider);
+		i_treasury = Treasury(payable(treasury));
+		i_minBet = minBet;
+		i_maxBet = maxBet;
+		i_refundTimeout = refundTimeout;
+
+		// Initialize bet counter (starts at 1)
+		s_nextBetId = 1;
+	}
+
+	/**
+	 * @notice Bet on the outcome of a coin flip
+	 * @param side 0 = heads, 1 = tails
+	 * @dev Immediately requests randomness after bet is placed.
+	 *      Bet amount is transferred to Treasury immediately (enters prize pool).
+	 */
+	function placeBet(uint8 side) external payable {
+		_placeBet(address(0), msg.value, side);
+	}
+
+	/**
+	 * @notice Bet on a coin flip in an ERC-20 allowlisted by Treasury
+	 * @param token The token to bet with (approve this contract for `amount` first)
+	 * @param amount Stake in token units
+	 * @param side 0 = heads, 1 = tails
+	 * @dev Reverts with Treasury.ExceedsMaxPayout if the potential payout exceeds the token's payout cap.
+	 */
+	function placeTokenBet(address token, uint256 amount, uint8 side) external {
+		if (token == address(0)) revert CoinFlip__InvalidToken();
+		_placeBet(token, amount, side);
+	}
+
+	function _placeBet(address token, uint256 amount, uint8 side) private {
+		if (side > uint8(CoinSide.TAILS)) revert CoinFlip__InvalidSide(side);
+
+		// Validate bet amount (ETH bets only; token bets are capped by Treasury's per-token limit)
+		if (token == address(0)) {
+			if (amount < i_minBet) revert CoinFlip__BetTooLow(amount, i_minBet);
+			if (amount > i_maxBet) revert CoinFlip__BetTooHigh(amount, i_maxBet);
+		} else if (amount == 0) {
+			revert CoinFlip__BetTooLow(0, 1);
+		}
+
+		// Create bet
+		uint256 betId = s_nextBetId++;
+		Bet storage bet = s_bets[betId];
+		bet.betId = betId;
+		bet.status = BetStatus.OPEN;
+		bet.player = msg.sender;
+		bet.amount = amount;
+		bet.choice = CoinSide(side);
+		bet.timestamp = uint64(block.timestamp);
+		bet.token = token;
+
+		// Track player's bet
+		s_playerBets[msg.sender].push(betId);
+
+		emit BetPlaced(betId, msg.sender, amount, bet.choice, bet.timestamp);
+
+		// Transfer bet amount to Treasury immediately (enters prize pool), and reserve the
+		// potential payout against this game's (or the token's) Treasury limits
+		if (token == address(0)) {
+			i_treasury.deposit{value: amount}();
+			i_treasury.reserveLiability(_payout(amount), amount);
+		} else {
+			// Routed through this contract so Treasury attributes the stake to the game
+			IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+			IERC20(token).forceApprove(address(i_treasury), amount);
+			i_treasury.depositToken(token, amount);
+			i_treasury.reserveTokenLiability(token, _payout(amount));
+		}
+
+		bet.status = BetStatus.CALCULATING;
+
+		// Request randomness from platform provider
+		uint256 requestId = i_randomnessProvider.requestRandomWords();
+		s_requestIdToBetId[requestId] = betId;
+		s_betIdToRequestId[betId] = requestId;
+
+		emit RandomnessRequested(betId, requestId);
+	}
+
+	/**
+	 * @dev Callback from RandomnessProvider. Only RandomnessProvider can call this.
+	 *
+	 * Flow (same as DiceGame):
+	 * - If player wins: Treasury pays out 1.96x the stake
+	 * - If player loses: Bet amount stays in Treasury (already transferred in placeBet)
+	 */
+	function fulfillRandomness(uint256 requestId, uint256 randomness) external {
+		if (msg.sender != address(i_randomnessProvider)) revert CoinFlip__NotProvider();
+
+		uint256 betId = s_requestIdToBetId[requestId];
+		if (betId == 0) revert CoinFlip__BetNotFound();
+
+		Bet storage bet = s_bets[betId];
+
+		// Prevent double settlement
+		if (bet.status != BetStatus.CALCULATING) revert CoinFlip__AlreadySettled();
+
+		/* Flip the coin: even = heads, odd = tails */
+		CoinSide result = CoinSide(randomness % 2);
+		bet.result = result;
+
+		bool won = result == bet.choice;
+		uint256 payoutAmount = won ? _payout(bet.amount) : 0;
+		bet.payout = payoutAmount;
+
+		// Update state before external call
+		bet.status = BetStatus.SETTLED;
+
+		// Clean up requestId mapping
+		delete s_requestIdToBetId[requestId];
+
+		// Release the liability reserved in placeBet before paying out of the allocation
+		_releaseLiability(bet.token, bet.amount);
+
+		if (won) {
+			_payoutFromTreasury(bet.token, bet.player, payoutAmount);
+		}
+
+		emit BetSettled(betId, bet.player, result, won, payoutAmount);
+	}
+
+	/**
+	 * @notice Refund a bet whose VRF callback never arrived
+	 * @param betId The bet to refund
+	 * @dev Callable by anyone once the refund timeout has passed; the stake always goes
+	 *      back to the player through Treasury. A late callback for a refunded bet reverts
+	 *      with CoinFlip__AlreadySettled.
+	 *      Reverts with CoinFlip__CallbackRetryPending while the provider holds the words of a
+	 *      failed callback: the outcome is already public, so only retryCallback can settle it.
+	 */
+	function claimRefund(uint256 betId) external {
+		Bet storage bet = s_bets[betId];
+		if (bet.player == address(0)) revert CoinFlip__BetNotFound();
+		if (bet.status != BetStatus.CALCULATING) revert CoinFlip__NotRefundable(betId);
+
+		uint256 refundableAt = uint256(bet.timestamp) + i_refundTimeout;
+		if (block.timestamp < refundableAt) revert CoinFlip__RefundTooEarly(refundableAt);
+
+		// The provider already published the words of a failed callback; only retryCallback may settle it
+		uint256 requestId = s_betIdToRequestId[betId];
+		if (i_randomnessProvider.hasFailedCallback(requestId)) revert CoinFlip__CallbackRetryPending(requestId);
+
+		// Update state before external call
+		bet.status = BetStatus.REFUNDED;
+
+		// Stake was deposited to Treasury in placeBet
+		_releaseLiability(bet.token, bet.amount);
+		_payoutFromTreasury(bet.token, bet.player, bet.amount);
+
+		emit BetRefunded(betId, bet.player, bet.amount);
+	}
+
+	function _releaseLiability(address token, uint256 stake) private {
+		if (token == address(0)) {
+			i_treasury.releaseLiability(_payout(stake), stake);
+		} else {
+			i_treasury.releaseTokenLiability(token, _payout(stake));
+		}
+	}
+
+	function _payoutFromTreasury(address token, address player, uint256 amount) private {
+		if (token == address(0)) {
+			i_treasury.payout(payable(player), amount);
+		} else {
+			i_treasury.payoutToken(token, player, amount);
+		}
+	}
+
+	function _payout(uint256 betAmount) private pure returns (uint256) {
+		return (betAmount * MULTIPLIER * (BPS_BASE - HOUSE_EDGE_BPS)) / BPS_BASE;
+	}
+
+	/* Getter functions */
+
+	/**
+	 * @notice Get bet details by ID
+	 */
+	function getBet(uint256 betId) external view returns (Bet memory) {
+		return s_bets[betId];
+	}
+
+	/**
+	 * @notice Get all bet IDs for a player
+	 */
+	function getPlayerBets(address player) external view returns (uint256[] memory) {
+		return s_playerBets[player];
+	}
+
+	/**
+	 * @notice Get player's bet count
+	 */
+	function getPlayerBetCount(address player) external view returns (uint256) {
+		return s_playerBets[player].length;
+	}
+
+	/**
+	 * @notice Get player's most recent bet
+	 */
+	function getPlayerRecentBet(address player) external view returns (Bet memory) {
+		uint256[] memory playerBets = s_playerBets[player];
+		if (playerBets.length == 0) {
+			return Bet(0, BetStatus.OPEN, address(0), 0, CoinSide.HEADS, CoinSide.HEADS, 0, 0, address(0));
+		}
+		uint256 lastBetId = playerBets[playerBets.length - 1];
+		return s_bets[lastBetId];
+	}
+
+	/**
+	 * @notice Get minimum bet amount
+	 */
+	function getMinBet() external view returns (uint256) {
+		return i_minBet;
+	}
+
+	/**
+	 * @notice Get maximum bet amount
+	 */
+	function getMaxBet() external view returns (uint256) {
+		return i_maxBet;
+	}
+
+	/**
+	 * @notice Get refund timeout (seconds after placement)
+	 */
+	function getRefundTimeout() external view returns (uint256) {
+		return i_refundTimeout;
+	}
+
+	/**
+	 * @notice Whether a bet can be refunded via claimRefund right now
+	 */
+	function isRefundable(uint256 betId) external view returns (bool) {
+		Bet storage bet = s_bets[betId];
+		return bet.status == BetStatus.CALCULATING && block.timestamp >= uint256(bet.timestamp) + i_refundTimeout
+			&& !i_randomnessProvider.hasFailedCallback(s_betIdToRequestId[betId]);
+	}
+
+	/**
+	 * @notice Get game configuration
+	 * @return minBet Minimum bet amount
+	 * @return maxBet Maximum bet amount
+	 * @return multiplier Win multiplier (2x)
+	 * @return houseEdgeBps House edge in basis points (200 = 2%)
+	 */
+	function getGameConfig() external view returns (
+		uint256 minBet,
+		uint256 maxBet,
+		uint256 multiplier,
+		uint256 houseEdgeBps
+	) {
+		return (i_minBet, i_maxBet, MULTIPLIER, HOUSE_EDGE_BPS);
+	}
+
+	/**
+	 * @notice Calculate expected payout for a bet amount
+	 * @return Expected payout if player wins (includes 2% house edge)
+	 */
+	function calculatePayout(uint256 betAmount) external pure returns (uint256) {
+		return _payout(betAmount);
+	}
+
+	/**
+	 * @notice Get current bet counter
+	 */
+	function getNextBetId() external view returns (uint256) {
+		return s_nextBetId;
+	}
+}
@@ -4,36 +4,62 @@ pragma solidity 0.8.16;
 
 import "../platform/RandomnessProvider.sol";
 import "../platform/Treasury.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
 error DiceGame__BetTooLow(uint256 sent, uint256 min);
 error DiceGame__BetTooHigh(uint256 sent, uint256 max);
 error DiceGame__NotProvider();
 error DiceGame__AlreadySettled();
 error DiceGame__InvalidChoice(uint8 choice);
+error DiceGame__InvalidTarget(uint8 target);
+error DiceGame__EmptyFaceSelection();
+error DiceGame__InvalidFaceMask(uint8 faceMask);
+error DiceGame__AllFacesSelected();
+error DiceGame__NotRefundable(uint256 betId);
+error DiceGame__RefundTooEarly(uint256 refundableAt);
 error DiceGame__BetNotFound();
+error DiceGame__CallbackRetryPending(uint256 requestId);
+error DiceGame__InvalidToken();
 
 /**
  * @title  DiceGame - Platform Integrated Dice Betting Game
  * @author SC6107 Team
  * @notice This contract is a platform-integrated dice game using centralized RandomnessProvider and Treasury
  * @dev Key features:
- *      - Players bet on dice outcome (1-6)
+ *      - Players bet on dice outcome (1-6), on a roll range (over/under a target),
+ *        or on a set of faces (bitmask, e.g. {1,3,5})
  *      - Uses RandomnessProvider for provably fair randomness
  *      - Integrated with Treasury for secure payouts
  *      - State machine prevents double-settlement
+ *      - Stake is refundable if the VRF callback does not arrive within the refund timeout
  *      - House edge: 2% (98% payout on wins)
+ *      - Bets in ETH, or in an ERC-20 allowlisted by Treasury (placeTokenBet). Token bets are
+ *        bounded by the token's Treasury payout cap instead of minBet/maxBet.
  * 
  * @dev IMPORTANT: Treasury Configuration Requirement
  *      Treasury.maxPayoutPerTx MUST be >= maxBet * MULTIPLIER * (1 - HOUSE_EDGE)
+ *      (exact bets have the highest multiplier, so they bound every range bet as well)
  *      Example: If maxBet = 1 ETH, then maxPayoutPerTx >= 1 * 6 * 0.98 = 5.88 ETH
  *      Otherwise, payout will revert with Treasury.ExceedsMaxPayout error.
+ *      Treasury.setGameLimits must also give the game a maxLiability of at least one
+ *      max payout (5.88 ETH above), or placeBet reverts with Treasury.ExceedsMaxLiability.
  */
 contract DiceGame {
+	using SafeERC20 for IERC20;
+
 	/* Types */
 	enum BetStatus {
 		OPEN,
 		CALCULATING,
-		SETTLED
+		SETTLED,
+		REFUNDED
+	}
+
+	enum BetMode {
+		EXACT,        // Win if dice == choice
+		ROLL_UNDER,   // Win if dice <= choice (target 1-5)
+		ROLL_OVER,    // Win if dice >= choice (target 2-6)
+		FACES         // Win if dice is in choice bitmask (bit 0 = face 1 ... bit 5 = face 6)
 	}
 
 	struct Bet {
@@ -41,10 +67,12 @@ contract DiceGame {
 		BetStatus status;
 		address player;
 		uint256 amount;
-		uint8 choice;        // Player's chosen number (1-6)
+		BetMode mode;        // Exact number or roll range
+		uint8 choice;        // Player's chosen number (1-6), range target, or face bitmask
 		uint8 diceResult;    // Actual dice result (1-6), 0 if not yet rolled
 		uint256 payout;      // Amount paid out (0 if lost)
 		uint64 timestamp;
+		address token;       // address(0) for ETH bets
 	}
 
 	/* State variables */
@@ -54,38 +82,47 @@ contract DiceGame {
 	/* Game configuration */
 	uint256 private immutable i_minBet;
 	uint256 private immutable i_maxBet;
+	uint256 private immutable i_refundTimeout;          // Seconds after placement before a CALCULATING bet can be refunded
 	
 	// Payout calculation constants
-	uint256 private constant MULTIPLIER = 6;           // 6x for correct guess
+	uint256 private constant MULTIPLIER = 6;           // 6x for correct guess (range bets: 6 / winning faces)
 	uint256 private constant HOUSE_EDGE_BPS = 200;     // 2% house edge (200 basis points)
 	uint256 private constant BPS_BASE = 10000;         // Basis points denominator
+	uint8 private constant MAX_UNDER_TARGET = 5;       // "roll <= 6" would always win
+	uint8 private constant MIN_OVER_TARGET = 2;        // "roll >= 1" would always win
+	uint8 private constant ALL_FACES_MASK = 0x3F;      // Faces 1-6 (selecting all would always win)
 	
 	uint256 public s_nextBetId;
 	mapping(uint256 => Bet) public s_bets;
 	mapping(uint256 => uint256) private s_requestIdToBetId; // Prevents double-settlement
+	mapping(uint256 => uint256) private s_betIdToRequestId; // Request to check for a pending retryCallback
 	mapping(address => uint256[]) private s_playerBets;     // Track player's bet history
 
 	/* Events */
-	event BetPlaced(uint256 indexed betId, address indexed player, uint256 amount, uint8 choice, uint64 timestamp);
+	event BetPlaced(uint256 indexed betId, address indexed player, uint256 amount, BetMode mode, uint8 choice, uint64 timestamp);
 	event RandomnessRequested(uint256 indexed betId, uint256 requestId);
 	event BetSettled(uint256 indexed betId, address indexed player, uint8 diceResult, bool won, uint256 payout);
+	event BetRefunded(uint256 indexed betId, address indexed player, uint256 amount);
 
 	/* Functions */
 	constructor(
 		address randomnessProvider,
 		address treasury,
 		uint256 minBet,
-		uint256 maxBet
+		uint256 maxBet,
+		uint256 refundTimeout
 	) {
 		require(randomnessProvider != address(0), "Invalid provider");
 		require(treasury != address(0), "Invalid treasury");
 		require(minBet > 0, "Invalid min bet");
 		require(maxBet > minBet, "Max bet must be greater than min bet");
+		require(refundTimeout > 0, "Invalid refund timeout");
 
 		i_randomnessProvider = RandomnessProvider(randomnessProvider);
 		i_treasury = Treasury(payable(treasury));
 		i_minBet = minBet;
 		i_maxBet = maxBet;
+		i_refundTimeout = refundTimeout;
 
 		// Initialize bet counter (starts at 1)
 		s_nextBetId = 1;
@@ -98,12 +135,55 @@ contract DiceGame {
 	 *      Bet amount is transferred to Treasury immediately (enters prize pool).
 	 */
 	function placeBet(uint8 choice) external payable {
-		// Validate choice
-		if (choice < 1 || choice > 6) revert DiceGame__InvalidChoice(choice);
+		_placeBet(address(0), msg.value, BetMode.EXACT, choice);
+	}
+
+	/**
+	 * @notice Place an over/under bet on a roll range
+	 * @param target The range boundary (ROLL_UNDER: 1-5, ROLL_OVER: 2-6), inclusive
+	 * @param rollOver True to win on dice >= target, false to win on dice <= target
+	 * @dev Payout multiplier is derived from the win probability: 6 / winning faces,
+	 *      with the same house edge as exact bets.
+	 */
+	function placeRangeBet(uint8 target, bool rollOver) external payable {
+		_placeBet(address(0), msg.value, rollOver ? BetMode.ROLL_OVER : BetMode.ROLL_UNDER, target);
+	}
+
+	/**
+	 * @notice Place a bet covering several faces at once
+	 * @param faceMask Bitmask of covered faces: bit 0 = face 1 ... bit 5 = face 6 (e.g. {1,3,5} = 0x15)
+	 * @dev Covering k faces pays 6 / k with the same house edge as exact bets.
+	 *      Between 1 and 5 faces must be selected.
+	 */
+	function placeMultiFaceBet(uint8 faceMask) external payable {
+		_placeBet(address(0), msg.value, BetMode.FACES, faceMask);
+	}
+
+	/**
+	 * @notice Place a bet of any mode in an ERC-20 allowlisted by Treasury
+	 * @param token The token to bet with (approve this contract for `amount` first)
+	 * @param amount Stake in token units
+	 * @param mode Bet mode (EXACT, ROLL_UNDER, ROLL_OVER, FACES)
+	 * @param choice Chosen number (EXACT), range target, or face bitmask (FACES)
+	 * @dev The stake moves to Treasury through this contract. Reverts with
+	 *      Treasury.ExceedsMaxPayout if the potential payout exceeds the token's payout cap.
+	 */
+	function placeTokenBet(address token, uint256 amount, BetMode mode, uint8 choice) external {
+		if (token == address(0)) revert DiceGame__InvalidToken();
+		_placeBet(token, amount, mode, choice);
+	}
+
+	function _placeBet(address token, uint256 amount, BetMode mode, uint8 choice) private {
+		// Validate choice (reverts on invalid number / target)
+		_winningFaces(mode, choice);
 		
-		// Validate bet amount
-		if (msg.value < i_minBet) revert DiceGame__BetTooLow(msg.value, i_minBet);
-		if (msg.value > i_maxBet) revert DiceGame__BetTooHigh(msg.value, i_maxBet);
+		// Validate bet amount (ETH bets only; token bets are capped by Treasury's per-token limit)
+		if (token == address(0)) {
+			if (amount < i_minBet) revert DiceGame__BetTooLow(amount, i_minBet);
+			if (amount > i_maxBet) revert DiceGame__BetTooHigh(amount, i_maxBet);
+		} else if (amount == 0) {
+			revert DiceGame__BetTooLow(0, 1);
+		}
 
 		// Create bet
 		uint256 betId = s_nextBetId++;
@@ -111,17 +191,30 @@ contract DiceGame {
 		bet.betId = betId;
 		bet.status = BetStatus.OPEN;
 		bet.player = msg.sender;
-		bet.amount = msg.value;
+		bet.amount = amount;
+		bet.mode = mode;
 		bet.choice = choice;
 		bet.timestamp = uint64(block.timestamp);
+		bet.token = token;
 
 		// Track player's bet
 		s_playerBets[msg.sender].push(betId);
 
-		emit BetPlaced(betId, msg.sender, msg.value, choice, bet.timestamp);
+		emit BetPlaced(betId, msg.sender, amount, mode, choice, bet.timestamp);
 
-		// Transfer bet amount to Treasury immediately (enters prize pool)
-		i_treasury.deposit{value: msg.value}();
+		// Transfer bet amount to Treasury immediately (enters prize pool), and reserve the
+		// potential payout against this game's (or the token's) Treasury limits
+		uint256 potentialPayout = _payout(amount, _winningFaces(mode, choice));
+		if (token == address(0)) {
+			i_treasury.deposit{value: amount}();
+			i_treasury.reserveLiability(potentialPayout, amount);
+		} else {
+			// Routed through this contract so Treasury attributes the stake to the game
+			IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+			IERC20(token).forceApprove(address(i_treasury), amount);
+			i_treasury.depositToken(token, amount);
+			i_treasury.reserveTokenLiability(token, potentialPayout);
+		}
 
 		// Immediately request randomness (similar to Raffle's performUpkeep)
 		bet.status = BetStatus.CALCULATING;
@@ -129,6 +222,7 @@ contract DiceGame {
 		// Request randomness from platform provider
 		uint256 requestId = i_randomnessProvider.requestRandomWords();
 		s_requestIdToBetId[requestId] = betId;
+		s_betIdToRequestId[betId] = requestId;
 
 		emit RandomnessRequested(betId, requestId);
 	}
@@ -162,13 +256,13 @@ contract DiceGame {
 		bet.diceResult = diceResult;
 
 		/* Determine win/loss */
-		bool won = (diceResult == bet.choice);
+		bool won = _isWin(bet.mode, bet.choice, diceResult);
 		uint256 payoutAmount = 0;
+		// Calculate payout: betAmount * 6 / winningFaces * 0.98 (2% house edge)
+		uint256 reserved = _payout(bet.amount, _winningFaces(bet.mode, bet.choice));
 
 		if (won) {
-			// Calculate payout: betAmount * 6 * 0.98 (2% house edge)
-			uint256 grossPayout = bet.amount * MULTIPLIER;
-			payoutAmount = (grossPayout * (BPS_BASE - HOUSE_EDGE_BPS)) / BPS_BASE;
+			payoutAmount = reserved;
 			bet.payout = payoutAmount;
 		} else {
 			// Player lost - bet amount stays in Treasury (already transferred in placeBet)
@@ -181,14 +275,102 @@ contract DiceGame {
 		// Clean up requestId mapping
 		delete s_requestIdToBetId[requestId];
 
+		// Release the liability reserved in placeBet before paying out of the allocation
+		_releaseLiability(bet.token, reserved, bet.amount);
+
 		// If won, payout through Treasury (external call after state update)
 		if (won) {
-			i_treasury.payout(payable(bet.player), payoutAmount);
+			_payoutFromTreasury(bet.token, bet.player, payoutAmount);
 		}
 
 		emit BetSettled(betId, bet.player, diceResult, won, payoutAmount);
 	}
 
+	/**
+	 * @notice Refund a bet whose VRF callback never arrived
+	 * @param betId The bet to refund
+	 * @dev Callable by anyone once the refund timeout has passed; the stake always goes
+	 *      back to the player through Treasury. A late callback for a refunded bet reverts
+	 *      with DiceGame__AlreadySettled, so the bet can never be both refunded and paid.
+	 *      Reverts with DiceGame__CallbackRetryPending while the provider holds the words of a
+	 *      failed callback: the outcome is already public, so only retryCallback can settle it.
+	 */
+	function claimRefund(uint256 betId) external {
+		Bet storage bet = s_bets[betId];
+		if (bet.player == address(0)) revert DiceGame__BetNotFound();
+		if (bet.status != BetStatus.CALCULATING) revert DiceGame__NotRefundable(betId);
+
+		uint256 refundableAt = uint256(bet.timestamp) + i_refundTimeout;
+		if (block.timestamp < refundableAt) revert DiceGame__RefundTooEarly(refundableAt);
+
+		// The provider already published the words of a failed callback; only retryCallback may settle it
+		uint256 requestId = s_betIdToRequestId[betId];
+		if (i_randomnessProvider.hasFailedCallback(requestId)) revert DiceGame__CallbackRetryPending(requestId);
+
+		// Update state before external call
+		bet.status = BetStatus.REFUNDED;
+
+		// Stake was deposited to Treasury in placeBet
+		_releaseLiability(bet.token, _payout(bet.amount, _winningFaces(bet.mode, bet.choice)), bet.amount);
+		_payoutFromTreasury(bet.token, bet.player, bet.amount);
+
+		emit BetRefunded(betId, bet.player, bet.amount);
+	}
+
+	function _releaseLiability(address token, uint256 amount, uint256 stake) private {
+		if (token == address(0)) {
+			i_treasury.releaseLiability(amount, stake);
+		} else {
+			i_treasury.releaseTokenLiability(token, amount);
+		}
+	}
+
+	function _payoutFromTreasury(address token, address player, uint256 amount) private {
+		if (token == address(0)) {
+			i_treasury.payout(payable(player), amount);
+		} else {
+			i_treasury.payoutToken(token, player, amount);
+		}
+	}
+
+	/**
+	 * @dev Number of dice faces that win for a bet. Reverts if the choice/target is invalid.
+	 */
+	function _winningFaces(BetMode mode, uint8 choice) private pure returns (uint256) {
+		if (mode == BetMode.ROLL_UNDER) {
+			if (choice < 1 || choice > MAX_UNDER_TARGET) revert DiceGame__InvalidTarget(choice);
+			return choice;
+		}
+		if (mode == BetMode.ROLL_OVER) {
+			if (choice < MIN_OVER_TARGET || choice > 6) revert DiceGame__InvalidTarget(choice);
+			return 7 - choice;
+		}
+		if (mode == BetMode.FACES) {
+			if (choice == 0) revert DiceGame__EmptyFaceSelection();
+			if (choice & ~ALL_FACES_MASK != 0) revert DiceGame__InvalidFaceMask(choice);
+			if (choice == ALL_FACES_MASK) revert DiceGame__AllFacesSelected();
+			uint256 faces = 0;
+			for (uint8 mask = choice; mask != 0; mask >>= 1) {
+				faces += mask & 1;
+			}
+			return faces;
+		}
+		if (choice < 1 || choice > 6) revert DiceGame__InvalidChoice(choice);
+		return 1;
+	}
+
+	function _isWin(BetMode mode, uint8 choice, uint8 diceResult) private pure returns (bool) {
+		if (mode == BetMode.ROLL_UNDER) return diceResult <= choice;
+		if (mode == BetMode.ROLL_OVER) return diceResult >= choice;
+		if (mode == BetMode.FACES) return (choice >> (diceResult - 1)) & 1 == 1;
+		return diceResult == choice;
+	}
+
+	function _payout(uint256 betAmount, uint256 winningFaces) private pure returns (uint256) {
+		uint256 grossPayout = betAmount * MULTIPLIER;
+		return (grossPayout * (BPS_BASE - HOUSE_EDGE_BPS)) / (BPS_BASE * winningFaces);
+	}
+
 	/* Getter functions */
 	
 	/**
@@ -218,7 +400,7 @@ contract DiceGame {
 	function getPlayerRecentBet(address player) external view returns (Bet memory) {
 		uint256[] memory playerBets = s_playerBets[player];
 		if (playerBets.length == 0) {
-			return Bet(0, BetStatus.OPEN, address(0), 0, 0, 0, 0, 0);
+			return Bet(0, BetStatus.OPEN, address(0), 0, BetMode.EXACT, 0, 0, 0, 0, address(0));
 		}
 		uint256 lastBetId = playerBets[playerBets.length - 1];
 		return s_bets[lastBetId];
@@ -238,30 +420,52 @@ contract DiceGame {
 		return i_maxBet;
 	}
 
+	/**
+	 * @notice Get refund timeout (seconds after placement)
+	 */
+	function getRefundTimeout() external view returns (uint256) {
+		return i_refundTimeout;
+	}
+
+	/**
+	 * @notice Whether a bet can be refunded via claimRefund right now
+	 */
+	function isRefundable(uint256 betId) external view returns (bool) {
+		Bet storage bet = s_bets[betId];
+		return bet.status == BetStatus.CALCULATING && block.timestamp >= uint256(bet.timestamp) + i_refundTimeout
+			&& !i_randomnessProvider.hasFailedCallback(s_betIdToRequestId[betId]);
+	}
+
 	/**
 	 * @notice Get game configuration
 	 * @return minBet Minimum bet amount
 	 * @return maxBet Maximum bet amount
 	 * @return multiplier Win multiplier (6x)
 	 * @return houseEdgeBps House edge in basis points (200 = 2%)
+	 * @return maxUnderTarget Highest valid ROLL_UNDER target (5)
+	 * @return minOverTarget Lowest valid ROLL_OVER target (2)
+	 * @dev Range bets pay multiplier / winning faces, e.g. "roll <= 2" pays 3x before house edge.
 	 */
 	function getGameConfig() external view returns (
 		uint256 minBet,
 		uint256 maxBet,
 		uint256 multiplier,
-		uint256 houseEdgeBps
+		uint256 houseEdgeBps,
+		uint8 maxUnderTarget,
+		uint8 minOverTarget
 	) {
-		return (i_minBet, i_maxBet, MULTIPLIER, HOUSE_EDGE_BPS);
+		return (i_minBet, i_maxBet, MULTIPLIER, HOUSE_EDGE_BPS, MAX_UNDER_TARGET, MIN_OVER_TARGET);
 	}
 
 	/**
 	 * @notice Calculate expected payout for a bet amount
 	 * @param betAmount The bet amount to calculate payout for
+	 * @param mode Bet mode (EXACT, ROLL_UNDER, ROLL_OVER, FACES)
+	 * @param choice Chosen number (EXACT), range target, or face bitmask (FACES)
 	 * @return Expected payout if player wins (includes 2% house edge)
 	 */
-	function calculatePayout(uint256 betAmount) external pure returns (uint256) {
-		uint256 grossPayout = betAmount * MULTIPLIER;
-		return (grossPayout * (BPS_BASE - HOUSE_EDGE_BPS)) / BPS_BASE;
+	function calculatePayout(uint256 betAmount, BetMode mode, uint8 choice) external pure returns (uint256) {
+		return _payout(betAmount, _winningFaces(mode, choice));
 	}
 
 	/**
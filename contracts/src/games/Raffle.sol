@@ -3,19 +3,37 @@
 pragma solidity ^0.8.16;
 
 import "@chainlink/contracts/src/v0.8/automation/interfaces/AutomationCompatibleInterface.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "../platform/RandomnessProvider.sol";
 import "../platform/Treasury.sol";
 
-error Raffle__NotEnoughETHEntered();
+error Raffle__InvalidTicketCount();
+error Raffle__IncorrectPayment(uint256 expected);
 error Raffle__NotOpen();
 error Raffle__UpkeepNotNeeded(
 	uint256 currentBalance,
-	uint256 numPlayers,
+	uint256 numEntries,
 	uint256 raffleState
 );
 error Raffle__NotProvider();
 error Raffle__AlreadySettled();
 error Raffle__NoPlayers();
+error Raffle__NotCalculating();
+error Raffle__RequestNotTimedOut(uint256 timeoutAt);
+error Raffle__MaxRequestAttemptsReached();
+error Raffle__CancelNotAllowed();
+error Raffle__NotCancelled();
+error Raffle__NothingToRefund();
+error Raffle__RefundFailed();
+error Raffle__InvalidPrizeSplits();
+error Raffle__RoundInProgress();
+error Raffle__RoundFull(uint256 maxPlayers);
+error Raffle__InvalidPlayerLimits();
+error Raffle__TokenNotAccepted(address token);
+error Raffle__WrongToken(address roundToken);
+error Raffle__TokenAmountMismatch(uint256 expected, uint256 received);
+error Raffle__CallbackRetryPending(uint256 requestId);
 
 /**
  * @title  RaffleGame - Platform Integrated Lottery
@@ -26,22 +44,48 @@ error Raffle__NoPlayers();
  *      - Added round-based system with state machine
  *      - Integrated with Treasury for secure payouts
  *      - Added double-settlement prevention via requestId mapping
+ *      - VRF recovery: a timed-out request can be re-requested, and a stuck round can be
+ *        cancelled (by owner, or by anyone once re-requests are exhausted) with entrant refunds
+ *      - Multiple winners: the prize pool is split across tiers (basis points), one VRF word per
+ *        tier, and each player wins at most one tier
+ *      - Multi-ticket entry: each purchase is stored as one ticket range, not one slot per ticket
+ *      - Platform rake: a fixed share of each prize pool is retained in Treasury at settlement
+ *      - Player limits: a round draws only once it has minPlayers distinct players, and accepts
+ *        at most maxPlayers distinct players
+ *      - Token rounds: a round is played in ETH or in one ERC-20 allowlisted by Treasury, fixed by
+ *        its first entry (enterRaffleWithToken); the owner sets each token's ticket price
  */
-contract Raffle is AutomationCompatibleInterface {
+contract Raffle is AutomationCompatibleInterface, Ownable {
+	using SafeERC20 for IERC20;
+
 	/* Types */
 	enum RaffleState {
 		OPEN,
 		CALCULATING,
-		SETTLED
+		SETTLED,
+		CANCELLED
+	}
+
+	/// @dev Tickets [previous entry's endTicket, endTicket) belong to player
+	struct TicketRange {
+		address player;
+		uint256 endTicket;
 	}
 
 	struct Round {
 		uint256 roundId;
 		RaffleState state;
 		uint64 startTime;
-		address[] players;
-		address winner;
+		TicketRange[] entries;   // Ordered by ticket number; consecutive buys by one player are merged
+		uint256 totalTickets;
+		uint256 playerCount;     // Distinct players holding tickets
+		address[] winners;       // Ordered by tier (index 0 = first place)
+		uint256[] prizes;        // Prize paid to winners[i]
 		uint256 prizePool;
+		uint256 requestId;       // Current VRF request (0 if none)
+		uint64 requestTime;      // When the current request was sent
+		uint8 requestAttempts;   // Number of VRF requests sent for this round
+		address token;           // Currency of the prize pool, address(0) for ETH
 	}
 
 	/* State variables */
@@ -51,32 +95,62 @@ contract Raffle is AutomationCompatibleInterface {
 	/* Lottery variables */
 	uint256 private immutable i_entranceFee;
 	uint256 private immutable i_interval;
+	uint256 private immutable i_vrfTimeout; // Seconds to wait for a VRF callback before recovery is allowed
+	uint256 private immutable i_rakeBps;    // Share of the prize pool kept by Treasury (basis points)
+	uint256 private constant MAX_RAKE_BPS = 2000; // 20% cap
+	uint8 private constant MAX_REQUEST_ATTEMPTS = 3;
+	uint256 private constant BPS_DENOMINATOR = 10000;
+	uint256 private constant MAX_WINNERS = 5; // Bounded by the VRF callback gas limit
+	uint256 private constant MAX_REDRAWS = 4; // Redraws of an earlier winner's ticket before walking the entries
+	uint16[] private s_prizeSplitsBps; // Share of the prize pool per tier, sums to BPS_DENOMINATOR
+	uint256 private s_minPlayers; // Distinct players required before a draw
+	uint256 private s_maxPlayers; // Distinct players allowed per round (0 = no cap)
+	mapping(address => uint256) private s_tokenEntranceFees; // Ticket price per ERC-20 (0 = not accepted)
 	
 	uint256 public s_currentRoundId;
 	mapping(uint256 => Round) public s_rounds;
 	mapping(uint256 => uint256) private s_requestIdToRoundId; // Prevents double-settlement
+	mapping(uint256 => mapping(address => uint256)) private s_contributions; // roundId => player => amount entered (round's currency)
+	mapping(uint256 => mapping(address => uint256)) private s_ticketCounts; // roundId => player => tickets held
 
 	/* Events */
-	event RaffleEntered(uint256 indexed roundId, address indexed player, uint256 amount);
+	event RaffleEntered(uint256 indexed roundId, address indexed player, uint256 tickets, uint256 amount);
 	event RandomnessRequested(uint256 indexed roundId, uint256 requestId);
-	event WinnerPicked(uint256 indexed roundId, address indexed winner, uint256 amount);
+	event WinnerPicked(uint256 indexed roundId, address indexed winner, uint256 amount, uint8 rank);
 	event RoundStarted(uint256 indexed roundId, uint64 startTime);
+	event RandomnessReRequested(uint256 indexed roundId, uint256 oldRequestId, uint256 newRequestId);
+	event RoundCancelled(uint256 indexed roundId, address indexed cancelledBy, uint256 prizePool);
+	event RefundClaimed(uint256 indexed roundId, address indexed player, uint256 amount);
+	event PrizeSplitsUpdated(uint16[] splitsBps);
+	event RakeCollected(uint256 indexed roundId, uint256 amount);
+	event PlayerLimitsUpdated(uint256 minPlayers, uint256 maxPlayers);
+	event TokenEntranceFeeUpdated(address indexed token, uint256 entranceFee);
 
 	/* Functions */
 	constructor(
 		address randomnessProvider,
 		address treasury,
 		uint256 entranceFee,
-		uint256 interval
+		uint256 interval,
+		uint256 vrfTimeout,
+		uint256 rakeBps
 	) {
 		require(randomnessProvider != address(0), "Invalid provider");
 		require(treasury != address(0), "Invalid treasury");
 		require(entranceFee > 0, "Invalid entrance fee");
+		require(vrfTimeout > 0, "Invalid VRF timeout");
+		require(rakeBps <= MAX_RAKE_BPS, "Rake too high");
 
 		i_randomnessProvider = RandomnessProvider(randomnessProvider);
 		i_treasury = Treasury(payable(treasury));
 		i_entranceFee = entranceFee;
 		i_interval = interval;
+		i_vrfTimeout = vrfTimeout;
+		i_rakeBps = rakeBps;
+
+		// Single winner takes the whole pool until the owner configures tiers
+		s_prizeSplitsBps.push(uint16(BPS_DENOMINATOR));
+		s_minPlayers = 1;
 
 		// Initialize first round
 		s_currentRoundId = 1;
@@ -87,16 +161,65 @@ contract Raffle is AutomationCompatibleInterface {
 		emit RoundStarted(1, uint64(block.timestamp));
 	}
 
-	function enterRaffle() external payable {
+	/**
+	 * @notice Buy one or more tickets in the current round
+	 * @param tickets Number of tickets; msg.value must be exactly tickets * entrance fee
+	 */
+	function enterRaffle(uint256 tickets) external payable {
+		uint256 cost = tickets * i_entranceFee;
+		if (msg.value != cost) revert Raffle__IncorrectPayment(cost);
+		_enter(address(0), tickets, cost);
+	}
+
+	/**
+	 * @notice Buy tickets with an ERC-20 (approve this contract for tickets * token entrance fee first)
+	 * @param token A token with an entrance fee set here and allowlisted by Treasury
+	 * @param tickets Number of tickets
+	 * @dev Only allowed if the current round has no entries yet or is already played in `token`.
+	 *      The tickets are only recorded once exactly `cost` has arrived, so fee-on-transfer tokens revert.
+	 */
+	function enterRaffleWithToken(address token, uint256 tickets) external {
+		uint256 fee = s_tokenEntranceFees[token];
+		if (token == address(0) || fee == 0 || !i_treasury.isTokenAllowed(token)) revert Raffle__TokenNotAccepted(token);
+
+		uint256 cost = tickets * fee;
+		uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+		IERC20(token).safeTransferFrom(msg.sender, address(this), cost);
+		uint256 received = IERC20(token).balanceOf(address(this)) - balanceBefore;
+		if (received != cost) revert Raffle__TokenAmountMismatch(cost, received);
+
+		_enter(token, tickets, cost);
+	}
+
+	function _enter(address token, uint256 tickets, uint256 cost) private {
 		Round storage round = s_rounds[s_currentRoundId];
 
 		if (round.state != RaffleState.OPEN) revert Raffle__NotOpen();
-		if (msg.value < i_entranceFee) revert Raffle__NotEnoughETHEntered();
+		if (tickets == 0) revert Raffle__InvalidTicketCount();
+		if (round.entries.length == 0) {
+			round.token = token;
+		} else if (round.token != token) {
+			revert Raffle__WrongToken(round.token);
+		}
+
+		if (s_ticketCounts[s_currentRoundId][msg.sender] == 0) {
+			if (s_maxPlayers != 0 && round.playerCount >= s_maxPlayers) revert Raffle__RoundFull(s_maxPlayers);
+			round.playerCount++;
+		}
+
+		round.totalTickets += tickets;
+		uint256 numEntries = round.entries.length;
+		if (numEntries > 0 && round.entries[numEntries - 1].player == msg.sender) {
+			round.entries[numEntries - 1].endTicket = round.totalTickets;
+		} else {
+			round.entries.push(TicketRange({player: msg.sender, endTicket: round.totalTickets}));
+		}
 
-		round.players.push(msg.sender);
-		round.prizePool += msg.value;
+		round.prizePool += cost;
+		s_contributions[s_currentRoundId][msg.sender] += cost;
+		s_ticketCounts[s_currentRoundId][msg.sender] += tickets;
 
-		emit RaffleEntered(s_currentRoundId, msg.sender, msg.value);
+		emit RaffleEntered(s_currentRoundId, msg.sender, tickets, cost);
 	}
 
 	/**
@@ -105,7 +228,7 @@ contract Raffle is AutomationCompatibleInterface {
 	 * the following should be true for this to return true:
 	 * 1. The time interval has passed between raffle runs.
 	 * 2. The lottery is open.
-	 * 3. There is at least one player.
+	 * 3. At least `minPlayers` distinct players have entered.
 	 */
 	function checkUpkeep(
 		bytes memory /*checkData*/
@@ -123,13 +246,13 @@ contract Raffle is AutomationCompatibleInterface {
 		bool isOpen = round.state == RaffleState.OPEN;
 		bool isIntervalPassed = (block.timestamp - round.startTime) >
 			i_interval;
-		bool hasPlayer = (round.players.length > 0);
+		bool hasEnoughPlayers = (round.playerCount >= s_minPlayers);
 		
 		// Only trigger upkeep if all conditions are met
-		// If time passed but no players, round stays OPEN (can still accept entries)
+		// If time passed but too few players, round stays OPEN (can still accept entries)
 		bool upkeepNeeded = (isOpen &&
 			isIntervalPassed &&
-			hasPlayer);
+			hasEnoughPlayers);
 
 		return (upkeepNeeded, "0x0");
 	}
@@ -145,11 +268,11 @@ contract Raffle is AutomationCompatibleInterface {
 
 		Round storage round = s_rounds[s_currentRoundId];
 
-		// If time passed but no players, reset the timer and keep round OPEN
+		// If time passed but fewer than minPlayers entered, reset the timer and keep round OPEN
 		// This allows the round to continue accepting entries
 		if (round.state == RaffleState.OPEN && 
 		    (block.timestamp - round.startTime) > i_interval && 
-		    round.players.length == 0) {
+		    round.playerCount < s_minPlayers) {
 			// Reset timer to allow more time for players to join
 			round.startTime = uint64(block.timestamp);
 			return; // Exit early, round stays OPEN
@@ -158,31 +281,145 @@ contract Raffle is AutomationCompatibleInterface {
 		if (!isUpkeepNeeded) {
 			revert Raffle__UpkeepNotNeeded(
 				round.prizePool,
-				round.players.length,
+				round.entries.length,
 				uint256(round.state)
 			);
 		}
-		if (round.players.length == 0) revert Raffle__NoPlayers();
+		if (round.entries.length == 0) revert Raffle__NoPlayers();
 
 		round.state = RaffleState.CALCULATING;
 
-		// Request randomness from platform provider
-		uint256 requestId = i_randomnessProvider.requestRandomWords();
-		s_requestIdToRoundId[requestId] = s_currentRoundId;
+		_requestRandomness(round);
+	}
 
-		emit RandomnessRequested(s_currentRoundId, requestId);
+	/**
+	 * @notice Re-request randomness for the current round if the VRF callback never arrived
+	 * @dev Callable by anyone once the VRF timeout has passed. The stale requestId is unbound,
+	 *      so a late callback for it can no longer settle the round. Not allowed while the
+	 *      provider holds the words of a failed callback (Raffle__CallbackRetryPending).
+	 */
+	function reRequestRandomness() external {
+		Round storage round = s_rounds[s_currentRoundId];
+		_requireTimedOut(round);
+		if (round.requestAttempts >= MAX_REQUEST_ATTEMPTS) revert Raffle__MaxRequestAttemptsReached();
+
+		uint256 oldRequestId = round.requestId;
+		delete s_requestIdToRoundId[oldRequestId];
+
+		uint256 newRequestId = _requestRandomness(round);
+
+		emit RandomnessReRequested(s_currentRoundId, oldRequestId, newRequestId);
+	}
+
+	/**
+	 * @notice Cancel a round stuck in CALCULATING and open the next one
+	 * @dev The owner may cancel once the VRF timeout has passed; anyone may cancel once
+	 *      all re-request attempts have also timed out. Entrants withdraw their stake
+	 *      with claimRefund (pull payments, so one reverting entrant cannot block others).
+	 *      Not allowed while the provider holds the words of a failed callback.
+	 */
+	function cancelRound() external {
+		uint256 roundId = s_currentRoundId;
+		Round storage round = s_rounds[roundId];
+		_requireTimedOut(round);
+		if (msg.sender != owner() && round.requestAttempts < MAX_REQUEST_ATTEMPTS) {
+			revert Raffle__CancelNotAllowed();
+		}
+
+		round.state = RaffleState.CANCELLED;
+		delete s_requestIdToRoundId[round.requestId];
+
+		emit RoundCancelled(roundId, msg.sender, round.prizePool);
+
+		_startNextRound();
+	}
+
+	/**
+	 * @notice Configure the number of winners and their share of the prize pool
+	 * @dev Only allowed while the current round is OPEN with no entries, so every entrant
+	 *      knows the splits they are playing for. Tier i pays prizePool * splitsBps[i] / 10000.
+	 * @param splitsBps Share per tier in basis points (first place first), e.g. [6000, 3000, 1000]
+	 */
+	function setPrizeSplits(uint16[] calldata splitsBps) external onlyOwner {
+		Round storage round = s_rounds[s_currentRoundId];
+		if (round.state != RaffleState.OPEN || round.entries.length > 0) revert Raffle__RoundInProgress();
+		if (splitsBps.length == 0 || splitsBps.length > MAX_WINNERS) revert Raffle__InvalidPrizeSplits();
+
+		uint256 total;
+		for (uint256 i = 0; i < splitsBps.length; i++) {
+			if (splitsBps[i] == 0) revert Raffle__InvalidPrizeSplits();
+			total += splitsBps[i];
+		}
+		if (total != BPS_DENOMINATOR) revert Raffle__InvalidPrizeSplits();
+
+		s_prizeSplitsBps = splitsBps;
+
+		emit PrizeSplitsUpdated(splitsBps);
+	}
+
+	/**
+	 * @notice Configure how many distinct players a round needs before drawing, and how many it accepts
+	 * @dev Same restriction as setPrizeSplits: only while the current round is OPEN with no entries.
+	 *      Requires 1 <= minPlayers <= maxPlayers, or maxPlayers == 0 for no cap.
+	 * @param minPlayers Distinct players required before a draw (at least 1)
+	 * @param maxPlayers Distinct players allowed per round, 0 for no cap
+	 */
+	function setPlayerLimits(uint256 minPlayers, uint256 maxPlayers) external onlyOwner {
+		Round storage round = s_rounds[s_currentRoundId];
+		if (round.state != RaffleState.OPEN || round.entries.length > 0) revert Raffle__RoundInProgress();
+		if (minPlayers == 0 || (maxPlayers != 0 && maxPlayers < minPlayers)) revert Raffle__InvalidPlayerLimits();
+
+		s_minPlayers = minPlayers;
+		s_maxPlayers = maxPlayers;
+
+		emit PlayerLimitsUpdated(minPlayers, maxPlayers);
+	}
+
+	/**
+	 * @notice Set the ticket price in an ERC-20, or 0 to stop accepting it
+	 * @dev Applies to later entries; the token must also be allowlisted by Treasury
+	 */
+	function setTokenEntranceFee(address token, uint256 entranceFee) external onlyOwner {
+		if (token == address(0)) revert Raffle__TokenNotAccepted(token);
+		s_tokenEntranceFees[token] = entranceFee;
+
+		emit TokenEntranceFeeUpdated(token, entranceFee);
+	}
+
+	/**
+	 * @notice Withdraw your entries from a cancelled round
+	 * @param roundId The cancelled round
+	 */
+	function claimRefund(uint256 roundId) external {
+		if (s_rounds[roundId].state != RaffleState.CANCELLED) revert Raffle__NotCancelled();
+
+		uint256 amount = s_contributions[roundId][msg.sender];
+		if (amount == 0) revert Raffle__NothingToRefund();
+
+		// Update state before external call
+		s_contributions[roundId][msg.sender] = 0;
+
+		address token = s_rounds[roundId].token;
+		if (token != address(0)) {
+			IERC20(token).safeTransfer(msg.sender, amount);
+		} else {
+			(bool sent, ) = payable(msg.sender).call{value: amount}("");
+			if (!sent) revert Raffle__RefundFailed();
+		}
+
+		emit RefundClaimed(roundId, msg.sender, amount);
 	}
 
 	/**
 	 * @dev This is the callback function that RandomnessProvider calls
-	 * to provide the random number. Only RandomnessProvider can call this.
+	 * with one random word per prize tier. Only RandomnessProvider can call this.
 	 * 
 	 * Security improvements:
 	 * - Only RandomnessProvider can call (prevents manipulation)
 	 * - State machine prevents double-settlement
 	 * - Funds routed through Treasury (audit trail + centralized security)
 	 */
-	function fulfillRandomness(uint256 requestId, uint256 randomness) external {
+	function fulfillRandomWords(uint256 requestId, uint256[] calldata randomWords) external {
 		if (msg.sender != address(i_randomnessProvider)) revert Raffle__NotProvider();
 
 		uint256 roundId = s_requestIdToRoundId[requestId];
@@ -191,24 +428,175 @@ contract Raffle is AutomationCompatibleInterface {
 		// Prevent double settlement
 		if (round.state != RaffleState.CALCULATING) revert Raffle__AlreadySettled();
 
-		/* Calculate a winner */
-		uint256 indexOfWinner = randomness % round.players.length;
-		address currentWinner = round.players[indexOfWinner];
-		round.winner = currentWinner;
-		round.state = RaffleState.SETTLED;
+		/* Calculate winners */
+		uint256 numWinners = _numWinners(round);
+		address[] memory winners = _drawWinners(round, roundId, randomWords, numWinners);
+		// Rake stays in Treasury; winners split the rest
+		uint256 rake = (round.prizePool * i_rakeBps) / BPS_DENOMINATOR;
+		uint256[] memory prizes = _splitPrizePool(round.prizePool - rake, numWinners);
 
-		uint256 winnersPrize = round.prizePool;
+		for (uint256 i = 0; i < numWinners; i++) {
+			round.winners.push(winners[i]);
+			round.prizes.push(prizes[i]);
+		}
+		round.state = RaffleState.SETTLED;
 
 		// Transfer funds to Treasury first
-		(bool sent, ) = payable(address(i_treasury)).call{value: winnersPrize}("");
-		require(sent, "Failed to send to treasury");
+		address token = round.token;
+		if (token != address(0)) {
+			IERC20(token).forceApprove(address(i_treasury), round.prizePool);
+			i_treasury.depositToken(token, round.prizePool);
+		} else {
+			// Attributed to this game, so the pool and prizes show up in its Treasury P&L
+			i_treasury.deposit{value: round.prizePool}();
+		}
 
-		// Then payout through Treasury (centralized payout management)
-		i_treasury.payout(payable(currentWinner), winnersPrize);
+		if (rake > 0) {
+			emit RakeCollected(roundId, rake);
+		}
 
-		emit WinnerPicked(roundId, currentWinner, winnersPrize);
+		// Then payout through Treasury (centralized payout management)
+		for (uint256 i = 0; i < numWinners; i++) {
+			address winner = round.winners[i];
+			if (prizes[i] > 0) {
+				if (token != address(0)) {
+					i_treasury.payoutToken(token, winner, prizes[i]);
+				} else {
+					i_treasury.payout(payable(winner), prizes[i]);
+				}
+			}
+			emit WinnerPicked(roundId, winner, prizes[i], uint8(i + 1));
+		}
 
 		/* Start new round */
+		_startNextRound();
+	}
+
+	function _requestRandomness(Round storage round) private returns (uint256 requestId) {
+		// Request one word per prize tier from platform provider
+		requestId = i_randomnessProvider.requestRandomWords(uint32(_numWinners(round)));
+		s_requestIdToRoundId[requestId] = s_currentRoundId;
+
+		round.requestId = requestId;
+		round.requestTime = uint64(block.timestamp);
+		round.requestAttempts++;
+
+		emit RandomnessRequested(s_currentRoundId, requestId);
+	}
+
+	/**
+	 * @dev With fewer players than tiers, only as many tiers as players are paid
+	 */
+	function _numWinners(Round storage round) private view returns (uint256) {
+		uint256 numWinners = s_prizeSplitsBps.length;
+		return round.playerCount < numWinners ? round.playerCount : numWinners;
+	}
+
+	/**
+	 * @dev Draws one winner per word from the tickets of players who have not won yet, so a
+	 *      player holding most tickets still takes at most one tier. A ticket of an earlier winner
+	 *      is redrawn from a rehashed word up to MAX_REDRAWS times, then the remaining tickets are
+	 *      indexed by walking the entries. Either way the pick is uniform over the remaining
+	 *      tickets; the walk is O(entries) but only runs when earlier winners hold most tickets.
+	 */
+	function _drawWinners(
+		Round storage round,
+		uint256 roundId,
+		uint256[] calldata randomWords,
+		uint256 count
+	) private view returns (address[] memory winners) {
+		winners = new address[](count);
+		uint256 wonTickets; // Tickets held by winners drawn so far
+
+		for (uint256 i = 0; i < count; i++) {
+			uint256 word = randomWords[i];
+			address winner;
+			for (uint256 attempt = 0; attempt <= MAX_REDRAWS; attempt++) {
+				address candidate = _ticketOwner(round, word % round.totalTickets);
+				if (!_isWinner(winners, i, candidate)) {
+					winner = candidate;
+					break;
+				}
+				word = uint256(keccak256(abi.encode(word)));
+			}
+			if (winner == address(0)) {
+				winner = _remainingTicketOwner(round, winners, i, word % (round.totalTickets - wonTickets));
+			}
+			winners[i] = winner;
+			wonTickets += s_ticketCounts[roundId][winner];
+		}
+	}
+
+	/**
+	 * @dev Owner of the `ticket`-th ticket when tickets of the first `numWinners` winners are skipped
+	 */
+	function _remainingTicketOwner(
+		Round storage round,
+		address[] memory winners,
+		uint256 numWinners,
+		uint256 ticket
+	) private view returns (address) {
+		uint256 rangeStart;
+		uint256 numEntries = round.entries.length;
+		for (uint256 e = 0; e < numEntries; e++) {
+			TicketRange storage entry = round.entries[e];
+			if (!_isWinner(winners, numWinners, entry.player)) {
+				uint256 rangeSize = entry.endTicket - rangeStart;
+				if (ticket < rangeSize) return entry.player;
+				ticket -= rangeSize;
+			}
+			rangeStart = entry.endTicket;
+		}
+		revert Raffle__NoPlayers(); // Unreachable: fewer winners than players
+	}
+
+	function _isWinner(address[] memory winners, uint256 numWinners, address player) private pure returns (bool) {
+		for (uint256 k = 0; k < numWinners; k++) {
+			if (winners[k] == player) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * @dev Binary search for the ticket range containing `ticket`
+	 */
+	function _ticketOwner(Round storage round, uint256 ticket) private view returns (address) {
+		uint256 low = 0;
+		uint256 high = round.entries.length - 1;
+		while (low < high) {
+			uint256 mid = (low + high) / 2;
+			if (round.entries[mid].endTicket > ticket) {
+				high = mid;
+			} else {
+				low = mid + 1;
+			}
+		}
+		return round.entries[low].player;
+	}
+
+	/**
+	 * @dev Tier i gets netPool * split[i] / 10000. First place also receives rounding dust
+	 *      and the share of any tier left unfilled because there were fewer tickets than tiers.
+	 */
+	function _splitPrizePool(uint256 netPool, uint256 numWinners) private view returns (uint256[] memory prizes) {
+		prizes = new uint256[](numWinners);
+		uint256 distributed;
+		for (uint256 i = 1; i < numWinners; i++) {
+			prizes[i] = (netPool * s_prizeSplitsBps[i]) / BPS_DENOMINATOR;
+			distributed += prizes[i];
+		}
+		prizes[0] = netPool - distributed;
+	}
+
+	function _requireTimedOut(Round storage round) private view {
+		if (round.state != RaffleState.CALCULATING) revert Raffle__NotCalculating();
+		uint256 timeoutAt = uint256(round.requestTime) + i_vrfTimeout;
+		if (block.timestamp < timeoutAt) revert Raffle__RequestNotTimedOut(timeoutAt);
+		// The provider already published the words of a failed callback; only retryCallback may settle it
+		if (i_randomnessProvider.hasFailedCallback(round.requestId)) revert Raffle__CallbackRetryPending(round.requestId);
+	}
+
+	function _startNextRound() private {
 		s_currentRoundId++;
 		Round storage newRound = s_rounds[s_currentRoundId];
 		newRound.roundId = s_currentRoundId;
@@ -223,17 +611,54 @@ contract Raffle is AutomationCompatibleInterface {
 		return i_entranceFee;
 	}
 
+	/**
+	 * @notice Player of the entry (ticket range) at `index`
+	 */
 	function getPlayer(uint256 roundId, uint256 index) external view returns (address) {
-		return s_rounds[roundId].players[index];
+		return s_rounds[roundId].entries[index].player;
+	}
+
+	function getTicketOwner(uint256 roundId, uint256 ticket) external view returns (address) {
+		Round storage round = s_rounds[roundId];
+		require(ticket < round.totalTickets, "Invalid ticket");
+		return _ticketOwner(round, ticket);
+	}
+
+	function getTotalTickets() external view returns (uint256) {
+		return s_rounds[s_currentRoundId].totalTickets;
+	}
+
+	function getPlayerTickets(uint256 roundId, address player) external view returns (uint256) {
+		return s_ticketCounts[roundId][player];
 	}
 
+	/**
+	 * @notice First-place winner of the previous round (0x0 if none)
+	 */
 	function getRecentWinner() external view returns (address) {
 		if (s_currentRoundId > 1) {
-			return s_rounds[s_currentRoundId - 1].winner;
+			address[] storage winners = s_rounds[s_currentRoundId - 1].winners;
+			if (winners.length > 0) return winners[0];
 		}
 		return address(0);
 	}
 
+	/**
+	 * @notice Winners of a round and the prize each received, ordered by tier
+	 */
+	function getWinners(uint256 roundId) external view returns (address[] memory winners, uint256[] memory prizes) {
+		Round storage round = s_rounds[roundId];
+		return (round.winners, round.prizes);
+	}
+
+	function getPrizeSplits() external view returns (uint16[] memory) {
+		return s_prizeSplitsBps;
+	}
+
+	function getMaxWinners() external pure returns (uint256) {
+		return MAX_WINNERS;
+	}
+
 	function getRaffleState() external view returns (RaffleState) {
 		return s_rounds[s_currentRoundId].state;
 	}
@@ -242,22 +667,79 @@ contract Raffle is AutomationCompatibleInterface {
 		return s_rounds[s_currentRoundId].startTime;
 	}
 
+	/**
+	 * @notice Number of distinct players in the current round
+	 */
 	function getNumberOfPlayers() external view returns (uint256) {
-		return s_rounds[s_currentRoundId].players.length;
+		return s_rounds[s_currentRoundId].playerCount;
+	}
+
+	/**
+	 * @return minPlayers Distinct players required before a draw
+	 * @return maxPlayers Distinct players allowed per round (0 = no cap)
+	 */
+	function getPlayerLimits() external view returns (uint256 minPlayers, uint256 maxPlayers) {
+		return (s_minPlayers, s_maxPlayers);
 	}
 
 	function getInterval() external view returns (uint256) {
 		return i_interval;
 	}
 
+	function getVrfTimeout() external view returns (uint256) {
+		return i_vrfTimeout;
+	}
+
+	/**
+	 * @notice Get raffle configuration
+	 * @return entranceFee Price of one ticket
+	 * @return interval Minimum round duration before a draw (seconds)
+	 * @return vrfTimeout Seconds before a pending VRF request can be recovered
+	 * @return rakeBps Share of the prize pool retained by Treasury (basis points)
+	 */
+	function getRaffleConfig() external view returns (
+		uint256 entranceFee,
+		uint256 interval,
+		uint256 vrfTimeout,
+		uint256 rakeBps
+	) {
+		return (i_entranceFee, i_interval, i_vrfTimeout, i_rakeBps);
+	}
+
+	function getMaxRequestAttempts() external pure returns (uint8) {
+		return MAX_REQUEST_ATTEMPTS;
+	}
+
+	/**
+	 * @notice Ticket price in `token` (0 if not accepted)
+	 */
+	function getTokenEntranceFee(address token) external view returns (uint256) {
+		return s_tokenEntranceFees[token];
+	}
+
+	/**
+	 * @notice Currency of a round's prize pool, address(0) for ETH
+	 */
+	function getRoundToken(uint256 roundId) external view returns (address) {
+		return s_rounds[roundId].token;
+	}
+
+	/**
+	 * @notice Amount a player entered into a round, in the round's currency (refundable if the round
+	 *         was cancelled and not yet claimed)
+	 */
+	function getContribution(uint256 roundId, address player) external view returns (uint256) {
+		return s_contributions[roundId][player];
+	}
+
 	/**
 	 * @notice Get current round information
 	 * @return roundId Current round ID
 	 * @return state Current round state
 	 * @return startTime When the round started
-	 * @return playerCount Number of players in current round
+	 * @return playerCount Number of distinct players in current round
 	 * @return prizePool Total ETH in prize pool
-	 * @return winner Winner address (0x0 if not settled)
+	 * @return totalTickets Tickets sold in current round
 	 */
 	function getCurrentRound() external view returns (
 		uint256 roundId,
@@ -265,16 +747,16 @@ contract Raffle is AutomationCompatibleInterface {
 		uint64 startTime,
 		uint256 playerCount,
 		uint256 prizePool,
-		address winner
+		uint256 totalTickets
 	) {
 		Round storage round = s_rounds[s_currentRoundId];
 		return (
 			round.roundId,
 			round.state,
 			round.startTime,
-			round.players.length,
+			round.playerCount,
 			round.prizePool,
-			round.winner
+			round.totalTickets
 		);
 	}
 
@@ -0,0 +1,507 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.16;
+
+import "../platform/RandomnessProvider.sol";
+import "../platform/Treasury.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+error Roulette__NoBets();
+error Roulette__TooManyBets(uint256 count, uint256 max);
+error Roulette__InvalidBet(uint256 index);
+error Roulette__BetTooLow(uint256 index, uint256 amount, uint256 min);
+error Roulette__SpinTooHigh(uint256 total, uint256 max);
+error Roulette__IncorrectPayment(uint256 expected);
+error Roulette__ExceedsMaxPayout(uint256 maxPayout, uint256 maxPayoutPerTx);
+error Roulette__InsufficientTreasury(uint256 maxPayout, uint256 available);
+error Roulette__NotProvider();
+error Roulette__AlreadySettled();
+error Roulette__NotRefundable(uint256 spinId);
+error Roulette__RefundTooEarly(uint256 refundableAt);
+error Roulette__SpinNotFound();
+error Roulette__CallbackRetryPending(uint256 requestId);
+error Roulette__InvalidToken();
+
+/**
+ * @title  Roulette - Platform Integrated European Roulette
+ * @author SC6107 Team
+ * @notice A single-zero roulette wheel (0-36) using centralized RandomnessProvider and Treasury
+ * @dev Key features:
+ *      - One spin settles a list of bets placed together (inside and outside bets)
+ *      - Inside bets: straight (one number), split (two adjacent numbers)
+ *      - Outside bets: red/black, odd/even, dozens, columns (all lose on 0)
+ *      - Uses a single RandomnessProvider word per spin: result = randomness % 37
+ *      - Integrated with Treasury for secure payouts (one payout per spin)
+ *      - Solvency check at placement: the worst-case payout of the spin must fit within
+ *        Treasury.maxPayoutPerTx and the Treasury balance
+ *      - Stake is refundable if the VRF callback does not arrive within the refund timeout
+ *      - Spins in ETH, or in an ERC-20 allowlisted by Treasury (placeTokenBets). Token spins are
+ *        bounded by the token's Treasury payout cap and bankroll instead of minBet/maxBet.
+ *      - House edge comes from the zero pocket (1/37 ≈ 2.7%), standard European payouts
+ *
+ * @dev Payout table (total returned to the player, stake included):
+ *      STRAIGHT 36x (35:1), SPLIT 18x (17:1), DOZEN/COLUMN 3x (2:1),
+ *      RED/BLACK/ODD/EVEN 2x (1:1)
+ */
+contract Roulette {
+	using SafeERC20 for IERC20;
+
+	/* Types */
+	enum SpinStatus {
+		OPEN,
+		CALCULATING,
+		SETTLED,
+		REFUNDED
+	}
+
+	enum BetType {
+		STRAIGHT,     // number: 0-36
+		SPLIT,        // number + splitNumber: two adjacent numbers on the table
+		RED,
+		BLACK,
+		ODD,
+		EVEN,
+		DOZEN,        // number: 1 = 1-12, 2 = 13-24, 3 = 25-36
+		COLUMN        // number: 1 = 1,4,..,34; 2 = 2,5,..,35; 3 = 3,6,..,36
+	}
+
+	struct Bet {
+		BetType betType;
+		uint8 number;        // Straight/split number, or dozen/column index (1-3); unused for even-money bets
+		uint8 splitNumber;   // Second number of a split bet; unused otherwise
+		uint256 amount;
+	}
+
+	struct Spin {
+		uint256 spinId;
+		SpinStatus status;
+		address player;
+		uint256 totalAmount; // Sum of all bet amounts on this spin
+		uint256 maxPayout;   // Worst-case payout over all 37 pockets (checked at placement)
+		uint8 result;        // Winning pocket (0-36), only meaningful once SETTLED
+		uint256 payout;      // Amount paid out (0 if every bet lost)
+		uint64 timestamp;
+		address token;       // address(0) for ETH spins
+	}
+
+	/* State variables */
+	RandomnessProvider public immutable i_randomnessProvider;
+	Treasury public immutable i_treasury;
+
+	/* Game configuration */
+	uint256 private immutable i_minBet;                 // Minimum amount per individual bet
+	uint256 private immutable i_maxBet;                 // Maximum total amount per spin
+	uint256 private immutable i_refundTimeout;          // Seconds after placement before a CALCULATING spin can be refunded
+
+	uint8 private constant POCKETS = 37;                // 0-36
+	uint256 private constant MAX_BETS_PER_SPIN = 10;
+	// Bit n set = number n is red
+	uint256 private constant RED_NUMBERS_MASK = 0x154aad52aa;
+
+	uint256 public s_nextSpinId;
+	mapping(uint256 => Spin) public s_spins;
+	mapping(uint256 => Bet[]) private s_spinBets;
+	mapping(uint256 => uint256) private s_requestIdToSpinId; // Prevents double-settlement
+	mapping(uint256 => uint256) private s_spinIdToRequestId; // Request to check for a pending retryCallback
+	mapping(address => uint256[]) private s_playerSpins;     // Track player's spin history
+
+	/* Events */
+	event SpinPlaced(uint256 indexed spinId, address indexed player, uint256 totalAmount, uint256 betCount, uint64 timestamp);
+	event RandomnessRequested(uint256 indexed spinId, uint256 requestId);
+	event SpinSettled(uint256 indexed spinId, address indexed player, uint8 result, uint256 payout);
+	event SpinRefunded(uint256 indexed spinId, address indexed player, uint256 amount);
+
+	/* Functions */
+	constructor(
+		address randomnessProvider,
+		address treasury,
+		uint256 minBet,
+		uint256 maxBet,
+		uint256 refundTimeout
+	) {
+		require(randomnessProvider != address(0), "Invalid provider");
+		require(treasury != address(0), "Invalid treasury");
+		require(minBet > 0, "Invalid min bet");
+		require(maxBet > minBet, "Max bet must be greater than min bet");
+		require(refundTimeout > 0, "Invalid refund timeout");
+
+		i_randomnessProvider = RandomnessProvider(randomnessProvider);
+		i_treasury = Treasury(payable(treasury));
+		i_minBet = minBet;
+		i_maxBet = maxBet;
+		i_refundTimeout = refundTimeout;
+
+		// Initialize spin counter (starts at 1)
+		s_nextSpinId = 1;
+	}
+
+	/**
+	 * @notice Place a list of bets settled by a single spin
+	 * @param bets Bets on this spin; msg.value must equal the sum of their amounts
+	 * @dev Every bet must be at least minBet and the spin total at most maxBet.
+	 *      The worst-case payout must fit within Treasury.maxPayoutPerTx and the Treasury
+	 *      balance (stake included), otherwise the spin reverts before any funds move.
+	 *      It is then reserved as liability, so the game's Treasury limits must cover it too.
+	 */
+	function placeBets(Bet[] calldata bets) external payable {
+		_placeBets(address(0), bets);
+	}
+
+	/**
+	 * @notice Place a list of bets in an ERC-20 allowlisted by Treasury, settled by a single spin
+	 * @param token The token to bet with (approve this contract for the sum of the bet amounts first)
+	 * @param bets Bets on this spin, amounts in token units
+	 * @dev Same solvency checks as placeBets against the token's Treasury payout cap and bankroll.
+	 *      Token spins have no minBet/maxBet; every bet must be non-zero.
+	 */
+	function placeTokenBets(address token, Bet[] calldata bets) external {
+		if (token == address(0)) revert Roulette__InvalidToken();
+		_placeBets(token, bets);
+	}
+
+	function _placeBets(address token, Bet[] calldata bets) private {
+		if (bets.length == 0) revert Roulette__NoBets();
+		if (bets.length > MAX_BETS_PER_SPIN) revert Roulette__TooManyBets(bets.length, MAX_BETS_PER_SPIN);
+
+		// Bet limits apply to ETH spins only; token spins are capped by Treasury's per-token limits
+		uint256 minBet = token == address(0) ? i_minBet : 1;
+		uint256 total;
+		for (uint256 i = 0; i < bets.length; i++) {
+			if (!_isValidBet(bets[i])) revert Roulette__InvalidBet(i);
+			if (bets[i].amount < minBet) revert Roulette__BetTooLow(i, bets[i].amount, minBet);
+			total += bets[i].amount;
+		}
+		if (token == address(0)) {
+			if (total > i_maxBet) revert Roulette__SpinTooHigh(total, i_maxBet);
+			if (msg.value != total) revert Roulette__IncorrectPayment(total);
+		}
+
+		// Solvency: the best pocket for the player must still be payable
+		uint256 maxPayout = _maxPayout(bets);
+		(uint256 maxPayoutPerTx, uint256 treasuryBalance) = _treasuryLimits(token);
+		if (maxPayoutPerTx != 0 && maxPayout > maxPayoutPerTx) {
+			revert Roulette__ExceedsMaxPayout(maxPayout, maxPayoutPerTx);
+		}
+		uint256 available = treasuryBalance + total;
+		if (maxPayout > available) revert Roulette__InsufficientTreasury(maxPayout, available);
+
+		// Create spin
+		uint256 spinId = s_nextSpinId++;
+		Spin storage spin = s_spins[spinId];
+		spin.spinId = spinId;
+		spin.status = SpinStatus.OPEN;
+		spin.player = msg.sender;
+		spin.totalAmount = total;
+		spin.maxPayout = maxPayout;
+		spin.timestamp = uint64(block.timestamp);
+		spin.token = token;
+
+		Bet[] storage spinBets = s_spinBets[spinId];
+		for (uint256 i = 0; i < bets.length; i++) {
+			spinBets.push(bets[i]);
+		}
+
+		// Track player's spin
+		s_playerSpins[msg.sender].push(spinId);
+
+		emit SpinPlaced(spinId, msg.sender, total, bets.length, spin.timestamp);
+
+		// Transfer stake to Treasury immediately, and reserve the worst-case payout against this
+		// game's (or the token's) Treasury limits
+		if (token == address(0)) {
+			i_treasury.deposit{value: total}();
+			i_treasury.reserveLiability(maxPayout, total);
+		} else {
+			// Routed through this contract so Treasury attributes the stake to the game
+			IERC20(token).safeTransferFrom(msg.sender, address(this), total);
+			IERC20(token).forceApprove(address(i_treasury), total);
+			i_treasury.depositToken(token, total);
+			i_treasury.reserveTokenLiability(token, maxPayout);
+		}
+
+		spin.status = SpinStatus.CALCULATING;
+
+		// Request randomness from platform provider
+		uint256 requestId = i_randomnessProvider.requestRandomWords();
+		s_requestIdToSpinId[requestId] = spinId;
+		s_spinIdToRequestId[spinId] = requestId;
+
+		emit RandomnessRequested(spinId, requestId);
+	}
+
+	/**
+	 * @dev Callback from RandomnessProvider. Only RandomnessProvider can call this.
+	 *
+	 * Flow:
+	 * - result = randomness % 37
+	 * - Every bet on the spin is settled against the result; winnings are summed
+	 *   and paid in a single Treasury.payout call
+	 * - Losing stakes stay in Treasury (already transferred in placeBets)
+	 */
+	function fulfillRandomness(uint256 requestId, uint256 randomness) external {
+		if (msg.sender != address(i_randomnessProvider)) revert Roulette__NotProvider();
+
+		uint256 spinId = s_requestIdToSpinId[requestId];
+		if (spinId == 0) revert Roulette__SpinNotFound();
+
+		Spin storage spin = s_spins[spinId];
+
+		// Prevent double settlement
+		if (spin.status != SpinStatus.CALCULATING) revert Roulette__AlreadySettled();
+
+		uint8 result = uint8(randomness % POCKETS);
+		uint256 payoutAmount = _spinPayout(s_spinBets[spinId], result);
+
+		// Update state before external call
+		spin.result = result;
+		spin.payout = payoutAmount;
+		spin.status = SpinStatus.SETTLED;
+
+		// Clean up requestId mapping
+		delete s_requestIdToSpinId[requestId];
+
+		// Release the liability reserved in placeBets before paying out of the allocation
+		_releaseLiability(spin);
+
+		if (payoutAmount > 0) {
+			_payoutFromTreasury(spin.token, spin.player, payoutAmount);
+		}
+
+		emit SpinSettled(spinId, spin.player, result, payoutAmount);
+	}
+
+	/**
+	 * @notice Refund a spin whose VRF callback never arrived
+	 * @param spinId The spin to refund
+	 * @dev Callable by anyone once the refund timeout has passed; the full stake always goes
+	 *      back to the player through Treasury. A late callback for a refunded spin reverts
+	 *      with Roulette__AlreadySettled.
+	 *      Reverts with Roulette__CallbackRetryPending while the provider holds the words of a
+	 *      failed callback: the outcome is already public, so only retryCallback can settle it.
+	 */
+	function claimRefund(uint256 spinId) external {
+		Spin storage spin = s_spins[spinId];
+		if (spin.player == address(0)) revert Roulette__SpinNotFound();
+		if (spin.status != SpinStatus.CALCULATING) revert Roulette__NotRefundable(spinId);
+
+		uint256 refundableAt = uint256(spin.timestamp) + i_refundTimeout;
+		if (block.timestamp < refundableAt) revert Roulette__RefundTooEarly(refundableAt);
+
+		// The provider already published the words of a failed callback; only retryCallback may settle it
+		uint256 requestId = s_spinIdToRequestId[spinId];
+		if (i_randomnessProvider.hasFailedCallback(requestId)) revert Roulette__CallbackRetryPending(requestId);
+
+		// Update state before external call
+		spin.status = SpinStatus.REFUNDED;
+
+		// Stake was deposited to Treasury in placeBets
+		_releaseLiability(spin);
+		_payoutFromTreasury(spin.token, spin.player, spin.totalAmount);
+
+		emit SpinRefunded(spinId, spin.player, spin.totalAmount);
+	}
+
+	function _releaseLiability(Spin storage spin) private {
+		if (spin.token == address(0)) {
+			i_treasury.releaseLiability(spin.maxPayout, spin.totalAmount);
+		} else {
+			i_treasury.releaseTokenLiability(spin.token, spin.maxPayout);
+		}
+	}
+
+	function _payoutFromTreasury(address token, address player, uint256 amount) private {
+		if (token == address(0)) {
+			i_treasury.payout(payable(player), amount);
+		} else {
+			i_treasury.payoutToken(token, player, amount);
+		}
+	}
+
+	/**
+	 * @dev Treasury's per-payout cap and balance in the spin's currency
+	 */
+	function _treasuryLimits(address token) private view returns (uint256 maxPayoutPerTx, uint256 balance) {
+		if (token == address(0)) return (i_treasury.maxPayoutPerTx(), address(i_treasury).balance);
+		return (i_treasury.getTokenConfig(token).maxPayoutPerTx, IERC20(token).balanceOf(address(i_treasury)));
+	}
+
+	/**
+	 * @dev Checks the bet's selection for its type. Splits must be two numbers that touch
+	 *      on the table: horizontal neighbours in a row, vertical neighbours (n, n+3),
+	 *      or 0 with 1, 2 or 3.
+	 */
+	function _isValidBet(Bet calldata bet) private pure returns (bool) {
+		if (bet.betType == BetType.STRAIGHT) {
+			return bet.number < POCKETS;
+		}
+		if (bet.betType == BetType.SPLIT) {
+			uint8 low = bet.number < bet.splitNumber ? bet.number : bet.splitNumber;
+			uint8 high = bet.number < bet.splitNumber ? bet.splitNumber : bet.number;
+			if (high >= POCKETS) return false;
+			if (low == 0) return high >= 1 && high <= 3;
+			return (high == low + 1 && low % 3 != 0) || high == low + 3;
+		}
+		if (bet.betType == BetType.DOZEN || bet.betType == BetType.COLUMN) {
+			return bet.number >= 1 && bet.number <= 3;
+		}
+		// Even-money bets carry no selection
+		return true;
+	}
+
+	function _wins(BetType betType, uint8 number, uint8 splitNumber, uint8 result) private pure returns (bool) {
+		if (betType == BetType.STRAIGHT) return result == number;
+		if (betType == BetType.SPLIT) return result == number || result == splitNumber;
+
+		// Every outside bet loses on zero
+		if (result == 0) return false;
+
+		if (betType == BetType.RED) return _isRed(result);
+		if (betType == BetType.BLACK) return !_isRed(result);
+		if (betType == BetType.ODD) return result % 2 == 1;
+		if (betType == BetType.EVEN) return result % 2 == 0;
+		if (betType == BetType.DOZEN) return (result - 1) / 12 + 1 == number;
+		return (result - 1) % 3 + 1 == number; // COLUMN
+	}
+
+	function _isRed(uint8 number) private pure returns (bool) {
+		return (RED_NUMBERS_MASK >> number) & 1 == 1;
+	}
+
+	/**
+	 * @dev Total returned per unit staked (stake included), e.g. 36 for a straight bet (35:1)
+	 */
+	function _multiplier(BetType betType) private pure returns (uint256) {
+		if (betType == BetType.STRAIGHT) return 36;
+		if (betType == BetType.SPLIT) return 18;
+		if (betType == BetType.DOZEN || betType == BetType.COLUMN) return 3;
+		return 2;
+	}
+
+	function _spinPayout(Bet[] storage bets, uint8 result) private view returns (uint256 total) {
+		for (uint256 i = 0; i < bets.length; i++) {
+			Bet storage bet = bets[i];
+			if (_wins(bet.betType, bet.number, bet.splitNumber, result)) {
+				total += bet.amount * _multiplier(bet.betType);
+			}
+		}
+	}
+
+	/**
+	 * @dev Worst case for the house: the highest total payout over every pocket
+	 */
+	function _maxPayout(Bet[] calldata bets) private pure returns (uint256 maxPayout) {
+		for (uint8 result = 0; result < POCKETS; result++) {
+			uint256 total;
+			for (uint256 i = 0; i < bets.length; i++) {
+				if (_wins(bets[i].betType, bets[i].number, bets[i].splitNumber, result)) {
+					total += bets[i].amount * _multiplier(bets[i].betType);
+				}
+			}
+			if (total > maxPayout) maxPayout = total;
+		}
+	}
+
+	/* Getter functions */
+
+	/**
+	 * @notice Get spin details by ID
+	 */
+	function getSpin(uint256 spinId) external view returns (Spin memory) {
+		return s_spins[spinId];
+	}
+
+	/**
+	 * @notice Get the list of bets placed on a spin
+	 */
+	function getSpinBets(uint256 spinId) external view returns (Bet[] memory) {
+		return s_spinBets[spinId];
+	}
+
+	/**
+	 * @notice Get all spin IDs for a player
+	 */
+	function getPlayerSpins(address player) external view returns (uint256[] memory) {
+		return s_playerSpins[player];
+	}
+
+	/**
+	 * @notice Get player's spin count
+	 */
+	function getPlayerSpinCount(address player) external view returns (uint256) {
+		return s_playerSpins[player].length;
+	}
+
+	/**
+	 * @notice Get minimum amount per bet
+	 */
+	function getMinBet() external view returns (uint256) {
+		return i_minBet;
+	}
+
+	/**
+	 * @notice Get maximum total amount per spin
+	 */
+	function getMaxBet() external view returns (uint256) {
+		return i_maxBet;
+	}
+
+	/**
+	 * @notice Get maximum number of bets per spin
+	 */
+	function getMaxBetsPerSpin() external pure returns (uint256) {
+		return MAX_BETS_PER_SPIN;
+	}
+
+	/**
+	 * @notice Get refund timeout (seconds after placement)
+	 */
+	function getRefundTimeout() external view returns (uint256) {
+		return i_refundTimeout;
+	}
+
+	/**
+	 * @notice Whether a spin can be refunded via claimRefund right now
+	 */
+	function isRefundable(uint256 spinId) external view returns (bool) {
+		Spin storage spin = s_spins[spinId];
+		return spin.status == SpinStatus.CALCULATING && block.timestamp >= uint256(spin.timestamp) + i_refundTimeout
+			&& !i_randomnessProvider.hasFailedCallback(s_spinIdToRequestId[spinId]);
+	}
+
+	/**
+	 * @notice Get the payout multiplier (stake included) for a bet type
+	 */
+	function getPayoutMultiplier(BetType betType) external pure returns (uint256) {
+		return _multiplier(betType);
+	}
+
+	/**
+	 * @notice Get the payout table, indexed by BetType
+	 */
+	function getPayoutTable() external pure returns (uint256[8] memory table) {
+		for (uint8 i = 0; i < 8; i++) {
+			table[i] = _multiplier(BetType(i));
+		}
+	}
+
+	/**
+	 * @notice Whether a number is red (0 is neither red nor black)
+	 */
+	function isRed(uint8 number) external pure returns (bool) {
+		return number != 0 && number < POCKETS && _isRed(number);
+	}
+
+	/**
+	 * @notice Worst-case payout of a list of bets, as checked by placeBets
+	 */
+	function calculateMaxPayout(Bet[] calldata bets) external pure returns (uint256) {
+		return _maxPayout(bets);
+	}
+
+	/**
+	 * @notice Get current spin counter
+	 */
+	function getNextSpinId() external view returns (uint256) {
+		return s_nextSpinId;
+	}
+}
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.16;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockERC20
+ * @notice Freely mintable ERC-20 for testing token bankrolls and token bets
+ * @dev Can block recipients like a stablecoin blocklist, for testing Treasury's token pull-payment fallback,
+ *      and burn a fee on transfers, for testing that fee-on-transfer tokens are rejected.
+ */
+contract MockERC20 is ERC20 {
+    mapping(address => bool) public s_blocked;
+    uint256 public s_transferFeeBps;
+
+    constructor(string memory name, string memory symbol) ERC20(name, symbol) {}
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    function setBlocked(address account, bool blocked) external {
+        s_blocked[account] = blocked;
+    }
+
+    function setTransferFeeBps(uint256 feeBps) external {
+        s_transferFeeBps = feeBps;
+    }
+
+    function _transfer(address from, address to, uint256 amount) internal override {
+        uint256 fee = (amount * s_transferFeeBps) / 10_000;
+        if (fee != 0) _burn(from, fee);
+        super._transfer(from, to, amount - fee);
+    }
+
+    function _beforeTokenTransfer(address, address to, uint256) internal view override {
+        require(!s_blocked[to], "Recipient blocked");
+    }
+}
@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.16;
+
+import "../platform/RandomnessProvider.sol";
+
+/**
+ * @title RandomWordsGameMock
+ * @notice Minimal game for testing both RandomnessProvider callback paths
+ * @dev Records the words delivered for each request and which callback delivered them.
+ *      Callbacks can be made to revert to exercise the provider's failed-callback handling.
+ */
+contract RandomWordsGameMock is IRandomGame, IRandomWordsGame {
+    RandomnessProvider public immutable i_randomnessProvider;
+
+    mapping(uint256 => uint256[]) private s_words;
+    mapping(uint256 => bool) public s_usedMultiWordCallback;
+    bool public s_shouldRevert;
+
+    event WordsReceived(uint256 indexed requestId, uint256 count, bool multiWord);
+
+    constructor(address randomnessProvider) {
+        i_randomnessProvider = RandomnessProvider(randomnessProvider);
+    }
+
+    function setShouldRevert(bool shouldRevert) external {
+        s_shouldRevert = shouldRevert;
+    }
+
+    function requestSingle() external returns (uint256) {
+        return i_randomnessProvider.requestRandomWords();
+    }
+
+    function requestMany(uint32 numWords) external returns (uint256) {
+        return i_randomnessProvider.requestRandomWords(numWords);
+    }
+
+    function fulfillRandomness(uint256 requestId, uint256 randomness) external override {
+        require(msg.sender == address(i_randomnessProvider), "Not provider");
+        require(!s_shouldRevert, "Callback disabled");
+        s_words[requestId].push(randomness);
+        emit WordsReceived(requestId, 1, false);
+    }
+
+    function fulfillRandomWords(uint256 requestId, uint256[] calldata randomWords) external override {
+        require(msg.sender == address(i_randomnessProvider), "Not provider");
+        require(!s_shouldRevert, "Callback disabled");
+        s_words[requestId] = randomWords;
+        s_usedMultiWordCallback[requestId] = true;
+        emit WordsReceived(requestId, randomWords.length, true);
+    }
+
+    function getWords(uint256 requestId) external view returns (uint256[] memory) {
+        return s_words[requestId];
+    }
+}
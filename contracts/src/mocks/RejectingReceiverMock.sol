@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.16;
+
+/**
+ * @title RejectingReceiverMock
+ * @notice Player contract that rejects (or gas-griefs) incoming ETH, for testing Treasury's pull-payment fallback
+ * @dev Forwards arbitrary calls so it can enter games and claim payouts as msg.sender.
+ */
+contract RejectingReceiverMock {
+    enum Mode {
+        REJECT,
+        BURN_GAS,
+        ACCEPT
+    }
+
+    Mode public s_mode;
+
+    function setMode(Mode mode) external {
+        s_mode = mode;
+    }
+
+    function execute(address target, bytes calldata data) external payable returns (bytes memory) {
+        (bool ok, bytes memory result) = target.call{value: msg.value}(data);
+        if (!ok) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+        return result;
+    }
+
+    receive() external payable {
+        if (s_mode == Mode.REJECT) revert("ETH rejected");
+        if (s_mode == Mode.BURN_GAS) {
+            while (true) {}
+        }
+    }
+}
@@ -17,6 +17,7 @@ contract VRFCoordinatorMock {
         address requester;
         uint32 numWords;
         bool fulfilled;
+        bool nativePayment; // decoded from extraArgs
     }
     
     mapping(uint256 => Request) public s_requests;
@@ -56,7 +57,8 @@ contract VRFCoordinatorMock {
             subId: req.subId,
             requester: msg.sender,
             numWords: req.numWords,
-            fulfilled: false
+            fulfilled: false,
+            nativePayment: _decodeNativePayment(req.extraArgs)
         });
         
         emit RandomWordsRequested(
@@ -109,7 +111,7 @@ contract VRFCoordinatorMock {
             randomWords[0],
             request.subId,
             0, // payment (not tracked in mock)
-            true, // nativePayment
+            request.nativePayment,
             success
         );
     }
@@ -146,7 +148,7 @@ contract VRFCoordinatorMock {
             randomWords[0],
             request.subId,
             0,
-            true,
+            request.nativePayment,
             success
         );
     }
@@ -158,14 +160,26 @@ contract VRFCoordinatorMock {
         uint256 subId,
         address requester,
         uint32 numWords,
-        bool fulfilled
+        bool fulfilled,
+        bool nativePayment
     ) {
         Request memory request = s_requests[requestId];
         return (
             request.subId,
             request.requester,
             request.numWords,
-            request.fulfilled
+            request.fulfilled,
+            request.nativePayment
         );
     }
+
+    /**
+     * @dev Mirrors the v2.5 coordinator: empty extraArgs means LINK billing,
+     *      otherwise they must be tagged ExtraArgsV1
+     */
+    function _decodeNativePayment(bytes calldata extraArgs) private pure returns (bool) {
+        if (extraArgs.length == 0) return false;
+        require(bytes4(extraArgs[:4]) == VRFV2PlusClient.EXTRA_ARGS_V1_TAG, "Invalid extraArgs tag");
+        return abi.decode(extraArgs[4:], (VRFV2PlusClient.ExtraArgsV1)).nativePayment;
+    }
 }
@@ -0,0 +1,293 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.16;
+
+import "@chainlink/contracts/src/v0.8/shared/access/ConfirmedOwner.sol";
+import "./RandomnessProvider.sol";
+
+error CommitRevealRandomnessProvider__NotGame(address caller);
+error CommitRevealRandomnessProvider__NotOperator(address caller);
+error CommitRevealRandomnessProvider__ZeroAddress();
+error CommitRevealRandomnessProvider__InvalidRevealDelay(uint64 revealDelay);
+error CommitRevealRandomnessProvider__InvalidSeedHash();
+error CommitRevealRandomnessProvider__NoCommittedSeed();
+error CommitRevealRandomnessProvider__RequestNotFound(uint256 requestId);
+error CommitRevealRandomnessProvider__AlreadyFulfilled(uint256 requestId);
+error CommitRevealRandomnessProvider__RevealTooEarly(uint256 requestId, uint64 revealBlock);
+error CommitRevealRandomnessProvider__RevealExpired(uint256 requestId, uint64 revealBlock);
+error CommitRevealRandomnessProvider__InvalidSeed(uint256 requestId);
+error CommitRevealRandomnessProvider__InvalidNumWords(uint32 numWords);
+
+/**
+ * @title CommitRevealRandomnessProvider
+ * @notice Drop-in replacement for RandomnessProvider on networks without Chainlink VRF
+ *         (and for demos on a plain `hardhat node`)
+ * @dev Games use the same requestRandomWords() -> IRandomGame.fulfillRandomness flow, or
+ *      requestRandomWords(numWords) -> IRandomWordsGame.fulfillRandomWords.
+ *      - The operator commits keccak256(seed) hashes ahead of time; each request takes the next one.
+ *      - Once the request's reveal block is mined, anyone holding the seed calls reveal().
+ *      - randomness = keccak256(seed, blockhash(revealBlock), requestId): the operator fixed the
+ *        seed before the bet and could not know the block hash, players never see the seed.
+ *        Multi-word requests expand it to keccak256(randomness, i) for word i.
+ *      - The operator can still withhold a reveal it dislikes; games' refund timeouts cover that.
+ *        Use Chainlink VRF wherever it is available.
+ */
+contract CommitRevealRandomnessProvider is ConfirmedOwner {
+    struct Request {
+        address requester;
+        uint64 requestBlock;
+        uint64 revealBlock;
+        uint256 seedIndex;
+        bool fulfilled;
+        uint256 randomness;
+        uint32 numWords;   // 0 for a single-word requestRandomWords() request
+    }
+
+    uint64 constant MAX_REVEAL_DELAY = 200;
+    uint32 constant MAX_NUM_WORDS = 500; // Same limit as RandomnessProvider
+    // blockhash() only covers the most recent 256 blocks
+    uint64 constant BLOCKHASH_WINDOW = 256;
+
+    address public s_operator;
+    uint64 public s_revealDelay;
+
+    mapping(address => bool) public isGame;
+
+    // Committed seed hashes, consumed in order by requests
+    bytes32[] private s_seedHashes;
+    uint256 private s_nextSeedIndex;
+
+    uint256 private s_requestCounter;
+    mapping(uint256 => Request) private s_requests;
+    // Unrevealed request IDs; s_pendingIndex stores position + 1 (0 = not pending)
+    uint256[] private s_pendingRequestIds;
+    mapping(uint256 => uint256) private s_pendingIndex;
+
+    event RequestSent(uint256 indexed requestId, address indexed requester, uint256 seedIndex, uint64 revealBlock);
+    event RandomnessFulfilled(uint256 indexed requestId, address indexed requester, uint256 randomness);
+    event SeedsCommitted(uint256 firstIndex, uint256 count);
+    event GameAuthorized(address indexed game, bool allowed);
+    event OperatorUpdated(address indexed operator);
+    event RevealDelayUpdated(uint64 revealDelay);
+
+    /**
+     * @param operator Account that commits seed hashes and runs the reveal script
+     * @param revealDelay Blocks after the request whose hash is mixed into the randomness (1-200)
+     */
+    constructor(address operator, uint64 revealDelay) ConfirmedOwner(msg.sender) {
+        _setOperator(operator);
+        _setRevealDelay(revealDelay);
+    }
+
+    modifier onlyGame() {
+        if (!isGame[msg.sender]) revert CommitRevealRandomnessProvider__NotGame(msg.sender);
+        _;
+    }
+
+    modifier onlyOperator() {
+        if (msg.sender != s_operator) revert CommitRevealRandomnessProvider__NotOperator(msg.sender);
+        _;
+    }
+
+    /**
+     * @notice Register or remove a game allowed to request randomness
+     */
+    function setGame(address game, bool allowed) external onlyOwner {
+        if (game == address(0)) revert CommitRevealRandomnessProvider__ZeroAddress();
+        isGame[game] = allowed;
+        emit GameAuthorized(game, allowed);
+    }
+
+    /**
+     * @notice Change the account allowed to commit seed hashes
+     */
+    function setOperator(address operator) external onlyOwner {
+        _setOperator(operator);
+    }
+
+    /**
+     * @notice Set how many blocks after a request its reveal block is; applies to new requests
+     */
+    function setRevealDelay(uint64 revealDelay) external onlyOwner {
+        _setRevealDelay(revealDelay);
+    }
+
+    /**
+     * @notice Queue seed hashes for future requests
+     * @param seedHashes keccak256(abi.encodePacked(seed)) for each seed, in the order they will be used
+     */
+    function commitSeeds(bytes32[] calldata seedHashes) external onlyOperator {
+        uint256 firstIndex = s_seedHashes.length;
+        for (uint256 i = 0; i < seedHashes.length; i++) {
+            if (seedHashes[i] == bytes32(0)) revert CommitRevealRandomnessProvider__InvalidSeedHash();
+            s_seedHashes.push(seedHashes[i]);
+        }
+        emit SeedsCommitted(firstIndex, seedHashes.length);
+    }
+
+    /**
+     * @notice Request a single word, delivered through IRandomGame.fulfillRandomness on reveal
+     * @dev Reverts when the operator has no committed seed left
+     */
+    function requestRandomWords() external onlyGame returns (uint256 requestId) {
+        return _request(0);
+    }
+
+    /**
+     * @notice Request `numWords` words, delivered through IRandomWordsGame.fulfillRandomWords on reveal
+     * @dev Reverts when the operator has no committed seed left
+     */
+    function requestRandomWords(uint32 numWords) external onlyGame returns (uint256 requestId) {
+        if (numWords == 0 || numWords > MAX_NUM_WORDS) revert CommitRevealRandomnessProvider__InvalidNumWords(numWords);
+        return _request(numWords);
+    }
+
+    function _request(uint32 numWords) private returns (uint256 requestId) {
+        uint256 seedIndex = s_nextSeedIndex;
+        if (seedIndex >= s_seedHashes.length) revert CommitRevealRandomnessProvider__NoCommittedSeed();
+        s_nextSeedIndex = seedIndex + 1;
+
+        requestId = ++s_requestCounter;
+        uint64 revealBlock = uint64(block.number) + s_revealDelay;
+        s_requests[requestId] = Request({
+            requester: msg.sender,
+            requestBlock: uint64(block.number),
+            revealBlock: revealBlock,
+            seedIndex: seedIndex,
+            fulfilled: false,
+            randomness: 0,
+            numWords: numWords
+        });
+        s_pendingRequestIds.push(requestId);
+        s_pendingIndex[requestId] = s_pendingRequestIds.length;
+        emit RequestSent(requestId, msg.sender, seedIndex, revealBlock);
+    }
+
+    /**
+     * @notice Reveal the seed committed for a request and deliver its randomness to the game
+     * @dev Callable by anyone with the seed, once the reveal block is mined and while its hash
+     *      is still available. A reverting game callback reverts the reveal so it can be retried.
+     */
+    function reveal(uint256 requestId, bytes32 seed) external {
+        Request storage request = s_requests[requestId];
+        if (request.requester == address(0)) revert CommitRevealRandomnessProvider__RequestNotFound(requestId);
+        if (request.fulfilled) revert CommitRevealRandomnessProvider__AlreadyFulfilled(requestId);
+        if (block.number <= request.revealBlock) {
+            revert CommitRevealRandomnessProvider__RevealTooEarly(requestId, request.revealBlock);
+        }
+        if (block.number > request.revealBlock + BLOCKHASH_WINDOW) {
+            revert CommitRevealRandomnessProvider__RevealExpired(requestId, request.revealBlock);
+        }
+        if (keccak256(abi.encodePacked(seed)) != s_seedHashes[request.seedIndex]) {
+            revert CommitRevealRandomnessProvider__InvalidSeed(requestId);
+        }
+
+        uint256 randomness = uint256(keccak256(abi.encodePacked(seed, blockhash(request.revealBlock), requestId)));
+        request.fulfilled = true;
+        request.randomness = randomness;
+        _removePending(requestId);
+        emit RandomnessFulfilled(requestId, request.requester, randomness);
+
+        if (request.numWords == 0) {
+            IRandomGame(request.requester).fulfillRandomness(requestId, randomness);
+            return;
+        }
+        uint256[] memory randomWords = new uint256[](request.numWords);
+        for (uint256 i = 0; i < randomWords.length; i++) {
+            randomWords[i] = uint256(keccak256(abi.encode(randomness, i)));
+        }
+        IRandomWordsGame(request.requester).fulfillRandomWords(requestId, randomWords);
+    }
+
+    function _removePending(uint256 requestId) private {
+        uint256 index = s_pendingIndex[requestId];
+        if (index == 0) return;
+
+        uint256 lastRequestId = s_pendingRequestIds[s_pendingRequestIds.length - 1];
+        s_pendingRequestIds[index - 1] = lastRequestId;
+        s_pendingIndex[lastRequestId] = index;
+        s_pendingRequestIds.pop();
+        delete s_pendingIndex[requestId];
+    }
+
+    function _setOperator(address operator) private {
+        if (operator == address(0)) revert CommitRevealRandomnessProvider__ZeroAddress();
+        s_operator = operator;
+        emit OperatorUpdated(operator);
+    }
+
+    function _setRevealDelay(uint64 revealDelay) private {
+        if (revealDelay == 0 || revealDelay > MAX_REVEAL_DELAY) {
+            revert CommitRevealRandomnessProvider__InvalidRevealDelay(revealDelay);
+        }
+        s_revealDelay = revealDelay;
+        emit RevealDelayUpdated(revealDelay);
+    }
+
+    /**
+     * @notice Request details, including which committed seed it uses (all zero if unknown)
+     */
+    function getRequest(uint256 requestId) external view returns (Request memory) {
+        return s_requests[requestId];
+    }
+
+    /**
+     * @notice Whether randomness has been revealed for a request
+     */
+    function isFulfilled(uint256 requestId) external view returns (bool) {
+        return s_requests[requestId].fulfilled;
+    }
+
+    /**
+     * @notice Always false: a reverting game callback reverts the reveal, so no failed
+     *         callback is ever stored (same interface as RandomnessProvider for the games)
+     */
+    function hasFailedCallback(uint256) external pure returns (bool) {
+        return false;
+    }
+
+    /**
+     * @notice Number of requests made so far (request IDs are 1..count)
+     */
+    function getRequestCount() external view returns (uint256) {
+        return s_requestCounter;
+    }
+
+    /**
+     * @notice Number of requests still waiting for a reveal (expired ones stay listed)
+     */
+    function getPendingRequestCount() external view returns (uint256) {
+        return s_pendingRequestIds.length;
+    }
+
+    /**
+     * @notice Page of pending request IDs, for the admin live log (same as RandomnessProvider)
+     * @dev Order is not stable: revealed requests are swapped out with the last entry
+     * @param offset Index of the first entry to return
+     * @param limit Maximum number of entries to return
+     */
+    function getPendingRequests(uint256 offset, uint256 limit) external view returns (uint256[] memory page) {
+        uint256 total = s_pendingRequestIds.length;
+        if (offset >= total) return new uint256[](0);
+
+        uint256 end = limit > total - offset ? total : offset + limit;
+        page = new uint256[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = s_pendingRequestIds[i];
+        }
+    }
+
+    function getSeedHash(uint256 seedIndex) external view returns (bytes32) {
+        return s_seedHashes[seedIndex];
+    }
+
+    function getCommittedSeedCount() external view returns (uint256) {
+        return s_seedHashes.length;
+    }
+
+    /**
+     * @notice Committed seeds not yet assigned to a request
+     */
+    function getAvailableSeedCount() external view returns (uint256) {
+        return s_seedHashes.length - s_nextSeedIndex;
+    }
+}
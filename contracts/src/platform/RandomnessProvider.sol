@@ -8,48 +8,371 @@ interface IRandomGame {
     function fulfillRandomness(uint256 requestId, uint256 randomness) external;
 }
 
+/**
+ * @notice Callback for games that request several words via requestRandomWords(uint32)
+ */
+interface IRandomWordsGame {
+    function fulfillRandomWords(uint256 requestId, uint256[] calldata randomWords) external;
+}
+
+error RandomnessProvider__InvalidNumWords(uint32 numWords);
+error RandomnessProvider__NotGame(address caller);
+error RandomnessProvider__ZeroAddress();
+error RandomnessProvider__InvalidKeyHash();
+error RandomnessProvider__InvalidCallbackGasLimit(uint32 gasLimit);
+error RandomnessProvider__InvalidRequestConfirmations(uint16 confirmations);
+error RandomnessProvider__NoFailedCallback(uint256 requestId);
+
 contract RandomnessProvider is VRFConsumerBaseV2Plus {
+    /**
+     * @notice On-chain audit record of a randomness request
+     * @dev randomness is the first delivered word; multi-word requests deliver numWords words
+     */
+    struct RequestRecord {
+        address requester;
+        uint64 requestBlock;
+        uint64 requestTimestamp;
+        uint32 numWords;
+        bool fulfilled;
+        uint256 randomness;
+    }
+
     uint256 immutable s_subscriptionId;
-    bytes32 immutable i_keyHash;
-    uint32 immutable i_callbackGasLimit;
-    uint16 constant REQUEST_CONFIRMATIONS = 3;
     uint32 constant NUM_WORDS = 1;
+    uint32 constant MAX_NUM_WORDS = 500; // VRF v2.5 coordinator limit
+
+    // Bounds enforced by the VRF v2.5 coordinator
+    uint16 constant MIN_REQUEST_CONFIRMATIONS = 3;
+    uint16 constant MAX_REQUEST_CONFIRMATIONS = 200;
+    uint32 constant MIN_CALLBACK_GAS_LIMIT = 50_000;
+    uint32 constant MAX_CALLBACK_GAS_LIMIT = 2_500_000;
+
+    // Gas kept back from the game callback so a failure can still be recorded
+    uint256 constant CALLBACK_GAS_RESERVE = 40_000;
+    uint256 constant STORE_WORD_GAS = 25_000;
+
+    // VRF request parameters (owner-tunable, no redeploy needed)
+    bytes32 public s_keyHash;
+    uint32 public s_callbackGasLimit;
+    uint16 public s_requestConfirmations;
+    bool public s_nativePayment;
+    // Per-game callback gas limit override (0 = use s_callbackGasLimit)
+    mapping(address => uint32) public s_gameCallbackGasLimit;
 
+    // Only registered games may request randomness (and receive callbacks)
+    mapping(address => bool) public isGame;
     mapping(uint256 => address) public s_requestIdToAddress;
-    event RequestSent(uint256 indexed requestId, address indexed requester);
+    // Requests made via requestRandomWords(uint32) are answered with every word
+    mapping(uint256 => bool) public s_multiWordRequests;
+    // Words delivered by VRF whose game callback reverted, kept for retryCallback
+    mapping(uint256 => uint256[]) private s_failedCallbackWords;
+    mapping(uint256 => RequestRecord) private s_requests;
+    // Unfulfilled request IDs; s_pendingIndex stores position + 1 (0 = not pending)
+    uint256[] private s_pendingRequestIds;
+    mapping(uint256 => uint256) private s_pendingIndex;
+    event RequestSent(uint256 indexed requestId, address indexed requester, bool nativePayment);
+    event RandomnessFulfilled(uint256 indexed requestId, address indexed requester, uint256 randomness);
+    event GameAuthorized(address indexed game, bool allowed);
+    event KeyHashUpdated(bytes32 keyHash);
+    event CallbackGasLimitUpdated(uint32 gasLimit);
+    event RequestConfirmationsUpdated(uint16 confirmations);
+    event NativePaymentUpdated(bool nativePayment);
+    event GameCallbackGasLimitUpdated(address indexed game, uint32 gasLimit);
+    event CallbackFailed(uint256 indexed requestId, address indexed game, bytes reason);
+    event CallbackRetried(uint256 indexed requestId, address indexed game);
 
     constructor(
         uint256 subscriptionId,
         address vrfCoordinator,
         bytes32 keyHash,
-        uint32 callbackGasLimit
+        uint32 callbackGasLimit,
+        bool nativePayment
     ) VRFConsumerBaseV2Plus(vrfCoordinator) {
         s_subscriptionId = subscriptionId;
-        i_keyHash = keyHash;
-        i_callbackGasLimit = callbackGasLimit;
+        _setKeyHash(keyHash);
+        _setCallbackGasLimit(callbackGasLimit);
+        s_requestConfirmations = MIN_REQUEST_CONFIRMATIONS;
+        _setNativePayment(nativePayment);
+    }
+
+    modifier onlyGame() {
+        if (!isGame[msg.sender]) revert RandomnessProvider__NotGame(msg.sender);
+        _;
+    }
+
+    /**
+     * @notice Register or remove a game allowed to request randomness
+     */
+    function setGame(address game, bool allowed) external onlyOwner {
+        if (game == address(0)) revert RandomnessProvider__ZeroAddress();
+        isGame[game] = allowed;
+        emit GameAuthorized(game, allowed);
+    }
+
+    /**
+     * @notice Set the gas lane used for new requests
+     */
+    function setKeyHash(bytes32 keyHash) external onlyOwner {
+        _setKeyHash(keyHash);
+    }
+
+    /**
+     * @notice Set the default callback gas limit for new requests
+     */
+    function setCallbackGasLimit(uint32 gasLimit) external onlyOwner {
+        _setCallbackGasLimit(gasLimit);
     }
 
-    function requestRandomWords() external returns (uint256 requestId) {
+    /**
+     * @notice Set the number of block confirmations before VRF responds (3-200)
+     */
+    function setRequestConfirmations(uint16 confirmations) external onlyOwner {
+        if (confirmations < MIN_REQUEST_CONFIRMATIONS || confirmations > MAX_REQUEST_CONFIRMATIONS) {
+            revert RandomnessProvider__InvalidRequestConfirmations(confirmations);
+        }
+        s_requestConfirmations = confirmations;
+        emit RequestConfirmationsUpdated(confirmations);
+    }
+
+    /**
+     * @notice Pay for requests in native ETH (true) or LINK (false)
+     * @dev The subscription must hold a balance in the chosen currency or VRF will not respond
+     */
+    function setNativePayment(bool nativePayment) external onlyOwner {
+        _setNativePayment(nativePayment);
+    }
+
+    /**
+     * @notice Give a game its own callback gas limit, e.g. a multi-bet game with a heavier callback
+     * @param gasLimit Override for this game; 0 removes the override
+     */
+    function setGameCallbackGasLimit(address game, uint32 gasLimit) external onlyOwner {
+        if (game == address(0)) revert RandomnessProvider__ZeroAddress();
+        if (gasLimit != 0) _checkCallbackGasLimit(gasLimit);
+        s_gameCallbackGasLimit[game] = gasLimit;
+        emit GameCallbackGasLimitUpdated(game, gasLimit);
+    }
+
+    /**
+     * @notice Request a single word, delivered through IRandomGame.fulfillRandomness
+     */
+    function requestRandomWords() external onlyGame returns (uint256 requestId) {
+        return _requestRandomWords(NUM_WORDS);
+    }
+
+    /**
+     * @notice Request `numWords` independent words, delivered through IRandomWordsGame.fulfillRandomWords
+     * @dev The caller's callback gas grows with numWords; callbackGasLimit must cover it.
+     */
+    function requestRandomWords(uint32 numWords) external onlyGame returns (uint256 requestId) {
+        if (numWords == 0 || numWords > MAX_NUM_WORDS) revert RandomnessProvider__InvalidNumWords(numWords);
+        requestId = _requestRandomWords(numWords);
+        s_multiWordRequests[requestId] = true;
+    }
+
+    function _requestRandomWords(uint32 numWords) private returns (uint256 requestId) {
         // VRF V2.5 使用新的请求格式
         requestId = s_vrfCoordinator.requestRandomWords(
             VRFV2PlusClient.RandomWordsRequest({
-                keyHash: i_keyHash,
+                keyHash: s_keyHash,
                 subId: s_subscriptionId,
-                requestConfirmations: REQUEST_CONFIRMATIONS,
-                callbackGasLimit: i_callbackGasLimit,
-                numWords: NUM_WORDS,
+                requestConfirmations: s_requestConfirmations,
+                callbackGasLimit: getCallbackGasLimit(msg.sender),
+                numWords: numWords,
                 extraArgs: VRFV2PlusClient._argsToBytes(
-                    VRFV2PlusClient.ExtraArgsV1({nativePayment: true}) // 使用 ETH 支付
+                    VRFV2PlusClient.ExtraArgsV1({nativePayment: s_nativePayment})
                 )
             })
         );
         s_requestIdToAddress[requestId] = msg.sender;
-        emit RequestSent(requestId, msg.sender);
+        s_requests[requestId] = RequestRecord({
+            requester: msg.sender,
+            requestBlock: uint64(block.number),
+            requestTimestamp: uint64(block.timestamp),
+            numWords: numWords,
+            fulfilled: false,
+            randomness: 0
+        });
+        s_pendingRequestIds.push(requestId);
+        s_pendingIndex[requestId] = s_pendingRequestIds.length;
+        emit RequestSent(requestId, msg.sender, s_nativePayment);
         return requestId;
     }
 
+    /**
+     * @notice Re-deliver randomness whose game callback previously reverted
+     * @dev Callable by anyone once the cause is fixed (e.g. Treasury unpaused or limit raised).
+     *      The stored words are cleared first; if the game reverts again the whole call
+     *      reverts and they stay stored for a later retry.
+     */
+    function retryCallback(uint256 requestId) external {
+        uint256[] memory randomWords = s_failedCallbackWords[requestId];
+        if (randomWords.length == 0) revert RandomnessProvider__NoFailedCallback(requestId);
+
+        address gameAddress = s_requestIdToAddress[requestId];
+        delete s_failedCallbackWords[requestId];
+
+        if (s_multiWordRequests[requestId]) {
+            IRandomWordsGame(gameAddress).fulfillRandomWords(requestId, randomWords);
+        } else {
+            IRandomGame(gameAddress).fulfillRandomness(requestId, randomWords[0]);
+        }
+        emit CallbackRetried(requestId, gameAddress);
+    }
+
+    function _setKeyHash(bytes32 keyHash) private {
+        if (keyHash == bytes32(0)) revert RandomnessProvider__InvalidKeyHash();
+        s_keyHash = keyHash;
+        emit KeyHashUpdated(keyHash);
+    }
+
+    function _setCallbackGasLimit(uint32 gasLimit) private {
+        _checkCallbackGasLimit(gasLimit);
+        s_callbackGasLimit = gasLimit;
+        emit CallbackGasLimitUpdated(gasLimit);
+    }
+
+    function _setNativePayment(bool nativePayment) private {
+        s_nativePayment = nativePayment;
+        emit NativePaymentUpdated(nativePayment);
+    }
+
+    function _checkCallbackGasLimit(uint32 gasLimit) private pure {
+        if (gasLimit < MIN_CALLBACK_GAS_LIMIT || gasLimit > MAX_CALLBACK_GAS_LIMIT) {
+            revert RandomnessProvider__InvalidCallbackGasLimit(gasLimit);
+        }
+    }
+
+    /**
+     * @dev Never reverts because of the game: a reverting callback would make VRF drop the
+     *      randomness for good. On failure the words are stored and CallbackFailed is emitted
+     *      so retryCallback can deliver them later. Enough gas is held back to record the
+     *      failure even if the game runs out of gas.
+     */
     function fulfillRandomWords(uint256 requestId, uint256[] calldata randomWords) internal override {
         address gameAddress = s_requestIdToAddress[requestId];
-        IRandomGame(gameAddress).fulfillRandomness(requestId, randomWords[0]);
+
+        RequestRecord storage record = s_requests[requestId];
+        record.fulfilled = true;
+        record.randomness = randomWords[0];
+        _removePending(requestId);
+        emit RandomnessFulfilled(requestId, gameAddress, randomWords[0]);
+
+        uint256 reserve = CALLBACK_GAS_RESERVE + randomWords.length * STORE_WORD_GAS;
+        uint256 gasForGame = gasleft() > reserve ? gasleft() - reserve : 0;
+
+        if (s_multiWordRequests[requestId]) {
+            try IRandomWordsGame(gameAddress).fulfillRandomWords{gas: gasForGame}(requestId, randomWords) {
+                return;
+            } catch (bytes memory reason) {
+                _recordFailedCallback(requestId, gameAddress, randomWords, reason);
+            }
+        } else {
+            try IRandomGame(gameAddress).fulfillRandomness{gas: gasForGame}(requestId, randomWords[0]) {
+                return;
+            } catch (bytes memory reason) {
+                _recordFailedCallback(requestId, gameAddress, randomWords, reason);
+            }
+        }
+    }
+
+    function _removePending(uint256 requestId) private {
+        uint256 index = s_pendingIndex[requestId];
+        if (index == 0) return;
+
+        uint256 lastRequestId = s_pendingRequestIds[s_pendingRequestIds.length - 1];
+        s_pendingRequestIds[index - 1] = lastRequestId;
+        s_pendingIndex[lastRequestId] = index;
+        s_pendingRequestIds.pop();
+        delete s_pendingIndex[requestId];
+    }
+
+    function _recordFailedCallback(
+        uint256 requestId,
+        address gameAddress,
+        uint256[] calldata randomWords,
+        bytes memory reason
+    ) private {
+        s_failedCallbackWords[requestId] = randomWords;
+        emit CallbackFailed(requestId, gameAddress, reason);
+    }
+
+    /**
+     * @notice Callback gas limit used for requests from `game` (its override, or the default)
+     */
+    function getCallbackGasLimit(address game) public view returns (uint32) {
+        uint32 gameGasLimit = s_gameCallbackGasLimit[game];
+        return gameGasLimit != 0 ? gameGasLimit : s_callbackGasLimit;
+    }
+
+    /**
+     * @notice Whether a request's callback failed and its words await retryCallback
+     * @dev The words are public once stored, so games must not let the request be refunded,
+     *      cancelled or re-requested while this is true.
+     */
+    function hasFailedCallback(uint256 requestId) external view returns (bool) {
+        return s_failedCallbackWords[requestId].length != 0;
+    }
+
+    /**
+     * @notice Words stored for a failed callback (empty if none is pending)
+     */
+    function getFailedCallbackWords(uint256 requestId) external view returns (uint256[] memory) {
+        return s_failedCallbackWords[requestId];
+    }
+
+    /**
+     * @notice Audit record of a request (all fields zero if unknown)
+     */
+    function getRequest(uint256 requestId) external view returns (RequestRecord memory) {
+        return s_requests[requestId];
+    }
+
+    /**
+     * @notice Whether VRF has delivered randomness for a request
+     */
+    function isFulfilled(uint256 requestId) external view returns (bool) {
+        return s_requests[requestId].fulfilled;
+    }
+
+    /**
+     * @notice Number of requests still waiting for VRF
+     */
+    function getPendingRequestCount() external view returns (uint256) {
+        return s_pendingRequestIds.length;
+    }
+
+    /**
+     * @notice Page of pending request IDs, for the admin live log
+     * @dev Order is not stable: fulfilled requests are swapped out with the last entry
+     * @param offset Index of the first entry to return
+     * @param limit Maximum number of entries to return
+     */
+    function getPendingRequests(uint256 offset, uint256 limit) external view returns (uint256[] memory page) {
+        uint256 total = s_pendingRequestIds.length;
+        if (offset >= total) return new uint256[](0);
+
+        uint256 end = limit > total - offset ? total : offset + limit;
+        page = new uint256[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = s_pendingRequestIds[i];
+        }
+    }
+
+    /**
+     * @notice Current VRF request parameters
+     */
+    function getVrfConfig()
+        external
+        view
+        returns (
+            uint256 subscriptionId,
+            bytes32 keyHash,
+            uint32 callbackGasLimit,
+            uint16 requestConfirmations,
+            bool nativePayment
+        )
+    {
+        return (s_subscriptionId, s_keyHash, s_callbackGasLimit, s_requestConfirmations, s_nativePayment);
     }
 }
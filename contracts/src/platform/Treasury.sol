@@ -1,106 +1,1267 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.16;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
 /**
  * @title Treasury
- * @notice Platform treasury that holds ETH and allows authorized games to payout winners.
- *         - onlyOwner: manage games, pause, set limits, withdraw.
- *         - onlyGame: payout to winners.
+ * @notice Platform treasury that holds ETH and allowlisted ERC-20s and allows authorized games to payout winners.
+ *         Admin powers are split across AccessControl roles:
+ *         - PAUSER_ROLE: pause/unpause, release or void held payouts (never timelocked).
+ *         - GAME_MANAGER_ROLE: authorize and remove games (setGame).
+ *         - RISK_MANAGER_ROLE: game limits (ETH and per token), maxPayoutPerTx, the ETH and per-token payout budgets, the
+ *           token allowlist and the LP withdraw cooldown.
+ *         - TREASURER_ROLE: adminWithdraw, adminWithdrawToken.
+ *         - DEFAULT_ADMIN_ROLE: grant/revoke roles and set the timelock delay.
+ *         - onlyGame: reserve liability for open bets, payout to winners.
+ * @dev Each game gets a bankroll allocation and a maximum outstanding liability:
+ *      - liability: potential payouts of the game's open bets, reserved when a bet is placed
+ *        and released on settlement or refund. Capped by maxLiability, and the liability of
+ *        all games together is capped by the Treasury balance.
+ *      - allocation: how much of the bankroll the game may lose. Its payouts plus outstanding
+ *        liability may never exceed what it deposited plus its allocation, so a game that
+ *        keeps winning can only spend its own profits, never other games' share.
+ *
+ *      Liquidity providers bankroll the house through ERC-4626-style shares:
+ *      - totalAssets = balance - stakes of open bets, so share value follows house P&L (lost stakes,
+ *        raffle rake) and an open bet is worth about its stake to the house: its expected payout at
+ *        a small house edge. Pricing it as a win would undervalue shares while bets are open and
+ *        dilute incumbent LPs. The worst case (totalLiability) still bounds what can leave: a
+ *        redemption that would dip into it reverts until bets settle.
+ *      - Exits go through requestRedeem -> redeem after withdrawCooldown. Requested shares stay
+ *        exposed to P&L during the cooldown, so an LP cannot front-run a large pending payout.
+ *      - Entries wait out the same cooldown once shares exist: depositLiquidity -> completeDeposit,
+ *        priced at completion. Pending deposit ETH is outside totalAssets, so an LP cannot enter
+ *        just before a known settlement (e.g. retrying a losing bet's callback) and share its stake.
+ *      - Plain deposit()/receive() from non-games are donations to the share holders.
+ *      - Deposits and payouts of authorized games are attributed to them (deposited/paidOut),
+ *        which doubles as per-game ETH profit & loss: getGameProfitAndLoss.
+ *
+ *      ERC-20 bankrolls are kept apart from the ETH accounting above: each allowlisted token has
+ *      its own maxPayoutPerTx and outstanding liability, is funded with depositToken and is not
+ *      part of the LP shares. Games get a per-token allocation and maxLiability (setGameTokenLimits),
+ *      deposit token stakes through depositToken and are held to the same checks as for ETH,
+ *      including the pull-payment fallback (pendingTokenWithdrawals).
+ *
+ *      Circuit breaker: ETH payouts are also metered against a rolling payoutBudget per payoutWindow.
+ *      The meter drains linearly at payoutBudget per payoutWindow, so at most payoutBudget can go out
+ *      in a burst and sustained outflow is capped at payoutBudget per window. A payout that would
+ *      overflow the budget pauses the Treasury (CircuitBreakerTripped) and is held for review
+ *      (PayoutHeld). Until a pauser unpauses, every further payout is metered and held the same way,
+ *      so a settlement paying several winners does not revert halfway and roll the pause back.
+ *      Token payouts are metered the same way against a budget per token, in its own units
+ *      (setTokenPayoutBudget), and trip the same breaker. A pauser releases each held payout to
+ *      its recipient's pending withdrawals (releaseHeldPayout) or voids it back into the bankroll
+ *      (voidHeldPayout); unpausing does neither, so held payouts wait for a decision.
+ *
+ *      Admin actions that move funds or change game parameters (setGame, setGameLimits, setGameTokenLimits,
+ *      setMaxPayoutPerTx, setPayoutBudget, setTokenPayoutBudget, setToken, setWithdrawCooldown, setTimelockDelay,
+ *      adminWithdraw, adminWithdrawToken) are timelocked once timelockDelay is non-zero: a holder of the
+ *      function's role queues the call, players and LPs see OperationQueued, and it can only be
+ *      executed after the delay. A zero delay allows direct calls for initial setup. pause()/unpause() always take effect immediately.
  */
-contract Treasury is Ownable, Pausable {
-    mapping(address => bool) public isGame;
+contract Treasury is AccessControl, Pausable {
+    using SafeERC20 for IERC20;
+
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant GAME_MANAGER_ROLE = keccak256("GAME_MANAGER_ROLE");
+    bytes32 public constant RISK_MANAGER_ROLE = keccak256("RISK_MANAGER_ROLE");
+    bytes32 public constant TREASURER_ROLE = keccak256("TREASURER_ROLE");
+
+    struct GameConfig {
+        bool authorized;
+        uint256 allocation;   // Bankroll the game may lose, on top of its own deposits
+        uint256 maxLiability; // Cap on outstanding reserved liability
+        uint256 liability;    // Currently reserved for open bets
+        uint256 openStakes;   // Stakes of those bets, which totalAssets excludes until they settle
+        uint256 deposited;    // Stakes and pools received from the game (total in)
+        uint256 paidOut;      // Payouts and refunds made for the game (total out)
+    }
+
+    mapping(address => GameConfig) private s_games;
+    // Every game ever configured, so the admin page can list them
+    address[] private s_gameList;
+    mapping(address => bool) private s_listed;
+    uint256 public totalLiability;
+    uint256 public totalOpenStakes;
 
     // Max payout allowed per single transaction
     uint256 public maxPayoutPerTx;
 
+    // Gas forwarded with a payout push, so a recipient cannot burn the game's callback gas
+    uint256 public constant PAYOUT_GAS_LIMIT = 50_000;
+
+    uint256 public constant MAX_PAYOUT_WINDOW = 7 days;
+
+    // Rolling cap on ETH payouts (0 = circuit breaker disabled)
+    uint256 public payoutBudget;
+    uint256 public payoutWindow;
+    // Outflow meter as of s_outflowUpdatedAt; drains at payoutBudget per payoutWindow
+    uint256 private s_windowOutflow;
+    uint256 private s_outflowUpdatedAt;
+    // Set when a payout overflows the budget; cleared by unpause
+    bool public breakerTripped;
+
+    struct TokenConfig {
+        bool allowed;          // New deposits and bets accepted
+        uint256 maxPayoutPerTx; // 0 = no cap
+        uint256 liability;     // Reserved for open bets across all games
+        uint256 pendingWithdrawals; // Unclaimed payouts, which belong to their recipients
+        uint256 heldPayouts;   // Payouts held by the circuit breaker, awaiting review
+    }
+
+    struct GameTokenConfig {
+        uint256 allocation;   // Token bankroll the game may lose, on top of its own deposits
+        uint256 maxLiability; // Cap on outstanding reserved liability
+        uint256 liability;    // Currently reserved for open bets
+        uint256 deposited;    // Stakes and pools received from the game (total in)
+        uint256 paidOut;      // Payouts and refunds made for the game (total out)
+    }
+
+    struct PayoutMeter {
+        uint256 budget;    // Rolling cap in the token's units (0 = circuit breaker disabled)
+        uint256 window;
+        uint256 outflow;   // As of updatedAt; drains at budget per window
+        uint256 updatedAt;
+    }
+
+    mapping(address => TokenConfig) private s_tokens;
+    mapping(address => PayoutMeter) private s_tokenMeters;
+    // Every token ever configured, so the admin page can list them
+    address[] private s_tokenList;
+    mapping(address => bool) private s_tokenListed;
+    // game => token => limits and flows of the game's token bets
+    mapping(address => mapping(address => GameTokenConfig)) private s_gameTokens;
+
+    // Payouts whose push failed, claimable by the recipient (claimPayout)
+    mapping(address => uint256) public pendingWithdrawals;
+    uint256 public totalPendingWithdrawals;
+    // token => recipient => token payouts whose transfer failed (claimTokenPayout)
+    mapping(address => mapping(address => uint256)) public pendingTokenWithdrawals;
+
+    struct HeldPayout {
+        address game;
+        address token;   // address(0) for ETH
+        address account;
+        uint256 amount;
+    }
+
+    // Payouts held by the tripped circuit breaker until a pauser releases or voids them
+    uint256 private s_heldPayoutCounter;
+    mapping(uint256 => HeldPayout) private s_heldPayouts;
+    // Held payout ids awaiting review, for the admin page (index + 1, 0 = absent)
+    uint256[] private s_heldPayoutIds;
+    mapping(uint256 => uint256) private s_heldPayoutIndex;
+    // ETH of held payouts, kept out of the free balance until reviewed
+    uint256 public totalHeldPayouts;
+
+    struct RedeemRequest {
+        uint256 shares;
+        uint64 unlockTime;
+    }
+
+    struct DepositRequest {
+        uint256 assets;
+        uint64 unlockTime;
+    }
+
+    uint256 public constant MAX_WITHDRAW_COOLDOWN = 30 days;
+
+    // LP shares (non-transferable)
+    mapping(address => uint256) private s_shares;
+    uint256 public totalShares;
+    // Shares waiting out the cooldown; still counted in totalShares but not in s_shares
+    mapping(address => RedeemRequest) private s_redeemRequests;
+    // ETH waiting out the entry cooldown; kept out of the free balance until it buys shares
+    mapping(address => DepositRequest) private s_depositRequests;
+    uint256 public totalPendingDeposits;
+    uint256 public withdrawCooldown = 1 days;
+
+    enum OperationStatus {
+        NONE,
+        PENDING,
+        EXECUTED,
+        CANCELLED
+    }
+
+    struct Operation {
+        bytes data;         // Calldata of a timelocked function on this contract
+        uint64 eta;         // Earliest execution time announced when queued
+        uint64 queuedAt;    // Queue time; the current timelockDelay must also have passed since
+        OperationStatus status;
+    }
+
+    uint256 public constant MAX_TIMELOCK_DELAY = 30 days;
+
+    uint256 public timelockDelay;
+    uint256 private s_operationCounter;
+    mapping(uint256 => Operation) private s_operations;
+    // Queued operations not yet executed or cancelled, for the admin page (index + 1, 0 = absent)
+    uint256[] private s_pendingOperationIds;
+    mapping(uint256 => uint256) private s_pendingOperationIndex;
+
     event Deposited(address indexed from, uint256 amount);
+    event GameDeposited(address indexed game, uint256 amount, uint256 deposited);
     event GameAuthorized(address indexed game, bool allowed);
+    event GameLimitsUpdated(address indexed game, uint256 allocation, uint256 maxLiability);
+    event LiabilityReserved(address indexed game, uint256 amount, uint256 liability);
+    event LiabilityReleased(address indexed game, uint256 amount, uint256 liability);
     event MaxPayoutPerTxUpdated(uint256 maxPayoutPerTx);
+    event PayoutBudgetUpdated(uint256 payoutBudget, uint256 payoutWindow);
+    event CircuitBreakerTripped(address indexed game, uint256 amount, uint256 windowOutflow, uint256 payoutBudget);
+    event TokenPayoutBudgetUpdated(address indexed token, uint256 payoutBudget, uint256 payoutWindow);
+    event TokenCircuitBreakerTripped(
+        address indexed game,
+        address indexed token,
+        uint256 amount,
+        uint256 windowOutflow,
+        uint256 payoutBudget
+    );
     event PaidOut(address indexed game, address indexed to, uint256 amount);
+    event PayoutDeferred(address indexed game, address indexed to, uint256 amount);
+    event PayoutClaimed(address indexed account, address indexed receiver, uint256 amount);
+    event PayoutHeld(
+        uint256 indexed heldPayoutId,
+        address indexed game,
+        address indexed token,
+        address account,
+        uint256 amount
+    );
+    event HeldPayoutReleased(uint256 indexed heldPayoutId, address indexed account, address indexed token, uint256 amount);
+    event HeldPayoutVoided(uint256 indexed heldPayoutId, address indexed account, address indexed token, uint256 amount);
+    event TokenConfigured(address indexed token, bool allowed, uint256 maxPayoutPerTx);
+    event TokenDeposited(address indexed from, address indexed token, uint256 amount);
+    event GameTokenDeposited(address indexed game, address indexed token, uint256 amount, uint256 deposited);
+    event GameTokenLimitsUpdated(address indexed game, address indexed token, uint256 allocation, uint256 maxLiability);
+    event TokenLiabilityReserved(address indexed game, address indexed token, uint256 amount, uint256 liability);
+    event TokenLiabilityReleased(address indexed game, address indexed token, uint256 amount, uint256 liability);
+    event TokenPaidOut(address indexed game, address indexed token, address indexed to, uint256 amount);
+    event TokenPayoutDeferred(address indexed game, address indexed token, address indexed to, uint256 amount);
+    event TokenPayoutClaimed(address indexed account, address indexed token, address receiver, uint256 amount);
+    event TokenAdminWithdrawn(address indexed token, address indexed to, uint256 amount);
     event AdminWithdrawn(address indexed to, uint256 amount);
+    event LiquidityDeposited(address indexed sender, address indexed receiver, uint256 assets, uint256 shares);
+    event DepositRequested(address indexed provider, uint256 assets, uint64 unlockTime);
+    event DepositCancelled(address indexed provider, uint256 assets);
+    event RedeemRequested(address indexed provider, uint256 shares, uint64 unlockTime);
+    event RedeemCancelled(address indexed provider, uint256 shares);
+    event LiquidityRedeemed(address indexed provider, address indexed receiver, uint256 assets, uint256 shares);
+    event WithdrawCooldownUpdated(uint256 withdrawCooldown);
+    event TimelockDelayUpdated(uint256 timelockDelay);
+    event OperationQueued(uint256 indexed operationId, bytes data, uint64 eta);
+    event OperationExecuted(uint256 indexed operationId);
+    event OperationCancelled(uint256 indexed operationId);
 
     error NotGame();
     error ZeroAddress();
     error AmountZero();
     error ExceedsMaxPayout(uint256 amount, uint256 maxAllowed);
     error InsufficientTreasuryBalance(uint256 required, uint256 available);
+    error ExceedsMaxLiability(uint256 amount, uint256 available);
+    error ExceedsGameAllocation(uint256 amount, uint256 available);
+    error ReleaseExceedsLiability(uint256 amount, uint256 liability);
+    error ReleaseExceedsOpenStakes(uint256 stake, uint256 openStakes);
+    error GameHasOpenBets(address game);
+    error ZeroShares();
+    error InsufficientShares(uint256 shares, uint256 available);
+    error NoRedeemRequest();
+    error RedeemLocked(uint64 unlockTime);
+    error NoDepositRequest();
+    error DepositLocked(uint64 unlockTime);
+    error InvalidWithdrawCooldown(uint256 withdrawCooldown);
+    error TimelockRequired();
+    error InvalidTimelockDelay(uint256 timelockDelay);
+    error NotTimelockedOperation(bytes4 selector);
+    error OperationNotPending(uint256 operationId);
+    error OperationNotReady(uint256 operationId, uint64 eta);
+    error NothingToClaim();
+    error TokenNotAllowed(address token);
+    error TokenAmountMismatch(uint256 expected, uint256 received);
+    error InvalidPayoutWindow(uint256 payoutWindow);
+    error HeldPayoutNotFound(uint256 heldPayoutId);
 
+    /**
+     * @dev The deployer starts with every role; deploy scripts hand them to the configured accounts
+     */
     constructor(uint256 _maxPayoutPerTx) {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+        _grantRole(GAME_MANAGER_ROLE, msg.sender);
+        _grantRole(RISK_MANAGER_ROLE, msg.sender);
+        _grantRole(TREASURER_ROLE, msg.sender);
         maxPayoutPerTx = _maxPayoutPerTx;
         emit MaxPayoutPerTxUpdated(_maxPayoutPerTx);
     }
 
     // Allow receiving ETH directly
     receive() external payable {
-        emit Deposited(msg.sender, msg.value);
+        _recordDeposit();
     }
 
     function deposit() external payable {
         if (msg.value == 0) revert AmountZero();
-        emit Deposited(msg.sender, msg.value);
+        _recordDeposit();
     }
 
     modifier onlyGame() {
-        if (!isGame[msg.sender]) revert NotGame();
+        if (!s_games[msg.sender].authorized) revert NotGame();
         _;
     }
 
-    function setGame(address game, bool allowed) external onlyOwner {
+    /**
+     * @dev Direct call by a `role` holder while timelockDelay is zero, otherwise only through executeOperation
+     */
+    modifier timelocked(bytes32 role) {
+        if (msg.sender != address(this)) {
+            _checkRole(role);
+            if (timelockDelay != 0) revert TimelockRequired();
+        }
+        _;
+    }
+
+    /**
+     * @notice Queue a timelocked call, executable after timelockDelay
+     * @dev Raising the delay also delays operations already queued, so one queued while the
+     *      timelock was off does not stay instantly executable
+     * @param data Calldata of setGame, setGameLimits, setGameTokenLimits, setMaxPayoutPerTx, setPayoutBudget,
+     *        setTokenPayoutBudget, setToken, setWithdrawCooldown, setTimelockDelay, adminWithdraw or
+     *        adminWithdrawToken; the caller needs that function's role
+     */
+    function queueOperation(bytes calldata data) external returns (uint256 operationId) {
+        bytes4 selector = data.length >= 4 ? bytes4(data[:4]) : bytes4(0);
+        _checkRole(_operationRole(selector));
+
+        operationId = ++s_operationCounter;
+        uint64 eta = uint64(block.timestamp + timelockDelay);
+        s_operations[operationId] = Operation({
+            data: data,
+            eta: eta,
+            queuedAt: uint64(block.timestamp),
+            status: OperationStatus.PENDING
+        });
+        s_pendingOperationIds.push(operationId);
+        s_pendingOperationIndex[operationId] = s_pendingOperationIds.length;
+        emit OperationQueued(operationId, data, eta);
+    }
+
+    /**
+     * @notice Execute a queued operation once its eta and the current timelockDelay since queueing have passed
+     * @dev Needs the operation's role. Reverts with the operation's own error if the call fails,
+     *      leaving it queued.
+     */
+    function executeOperation(uint256 operationId) external {
+        Operation storage operation = s_operations[operationId];
+        if (operation.status != OperationStatus.PENDING) revert OperationNotPending(operationId);
+        _checkRole(_operationRole(bytes4(operation.data)));
+        uint64 eta = uint64(operation.queuedAt + timelockDelay);
+        if (eta < operation.eta) eta = operation.eta;
+        if (block.timestamp < eta) revert OperationNotReady(operationId, eta);
+
+        operation.status = OperationStatus.EXECUTED;
+        _removePendingOperation(operationId);
+
+        (bool ok, bytes memory reason) = address(this).call(operation.data);
+        if (!ok) {
+            assembly {
+                revert(add(reason, 32), mload(reason))
+            }
+        }
+        emit OperationExecuted(operationId);
+    }
+
+    /**
+     * @notice Drop a queued operation; callable by the operation's role or the admin
+     */
+    function cancelOperation(uint256 operationId) external {
+        Operation storage operation = s_operations[operationId];
+        if (operation.status != OperationStatus.PENDING) revert OperationNotPending(operationId);
+        if (!hasRole(DEFAULT_ADMIN_ROLE, msg.sender)) _checkRole(_operationRole(bytes4(operation.data)));
+
+        operation.status = OperationStatus.CANCELLED;
+        _removePendingOperation(operationId);
+        emit OperationCancelled(operationId);
+    }
+
+    /**
+     * @notice Set the delay between queueing and executing timelocked operations (0 disables the timelock)
+     */
+    function setTimelockDelay(uint256 _timelockDelay) external timelocked(DEFAULT_ADMIN_ROLE) {
+        if (_timelockDelay > MAX_TIMELOCK_DELAY) revert InvalidTimelockDelay(_timelockDelay);
+        timelockDelay = _timelockDelay;
+        emit TimelockDelayUpdated(_timelockDelay);
+    }
+
+    /**
+     * @notice Authorize or remove a game
+     * @dev Payouts need authorization, so a game cannot be removed while it has liability reserved
+     *      for open bets in ETH or any token. To stop new bets first, set its maxLiability to 0.
+     */
+    function setGame(address game, bool allowed) external timelocked(GAME_MANAGER_ROLE) {
         if (game == address(0)) revert ZeroAddress();
-        isGame[game] = allowed;
+        if (!allowed) {
+            if (s_games[game].liability != 0) revert GameHasOpenBets(game);
+            for (uint256 i = 0; i < s_tokenList.length; i++) {
+                if (s_gameTokens[game][s_tokenList[i]].liability != 0) revert GameHasOpenBets(game);
+            }
+        }
+        _trackGame(game);
+        s_games[game].authorized = allowed;
         emit GameAuthorized(game, allowed);
     }
 
-    function setMaxPayoutPerTx(uint256 _maxPayoutPerTx) external onlyOwner {
+    /**
+     * @notice Set a game's bankroll allocation and maximum outstanding liability
+     * @dev Limits below current usage block new bets. An allocation lowered below the open
+     *      liability also makes those bets' payouts revert until it is raised again.
+     */
+    function setGameLimits(
+        address game,
+        uint256 allocation,
+        uint256 maxLiability
+    ) external timelocked(RISK_MANAGER_ROLE) {
+        if (game == address(0)) revert ZeroAddress();
+        _trackGame(game);
+        GameConfig storage config = s_games[game];
+        config.allocation = allocation;
+        config.maxLiability = maxLiability;
+        emit GameLimitsUpdated(game, allocation, maxLiability);
+    }
+
+    function setMaxPayoutPerTx(uint256 _maxPayoutPerTx) external timelocked(RISK_MANAGER_ROLE) {
         maxPayoutPerTx = _maxPayoutPerTx;
         emit MaxPayoutPerTxUpdated(_maxPayoutPerTx);
     }
 
-    function pause() external onlyOwner {
+    /**
+     * @notice Cap total ETH payouts to `_payoutBudget` per rolling `_payoutWindow` (0 budget disables)
+     * @dev Outflow already recorded keeps draining at the old rate up to now
+     */
+    function setPayoutBudget(uint256 _payoutBudget, uint256 _payoutWindow) external timelocked(RISK_MANAGER_ROLE) {
+        if (_payoutBudget != 0 && (_payoutWindow == 0 || _payoutWindow > MAX_PAYOUT_WINDOW)) {
+            revert InvalidPayoutWindow(_payoutWindow);
+        }
+        s_windowOutflow = windowOutflow();
+        s_outflowUpdatedAt = block.timestamp;
+        payoutBudget = _payoutBudget;
+        payoutWindow = _payoutWindow;
+        emit PayoutBudgetUpdated(_payoutBudget, _payoutWindow);
+    }
+
+    /**
+     * @notice Cap total payouts in `token` to `budget` per rolling `window` (0 budget disables)
+     * @dev Same semantics as setPayoutBudget, in the token's own units
+     */
+    function setTokenPayoutBudget(address token, uint256 budget, uint256 window) external timelocked(RISK_MANAGER_ROLE) {
+        if (token == address(0)) revert ZeroAddress();
+        if (budget != 0 && (window == 0 || window > MAX_PAYOUT_WINDOW)) revert InvalidPayoutWindow(window);
+        PayoutMeter storage meter = s_tokenMeters[token];
+        meter.outflow = tokenWindowOutflow(token);
+        meter.updatedAt = block.timestamp;
+        meter.budget = budget;
+        meter.window = window;
+        emit TokenPayoutBudgetUpdated(token, budget, window);
+    }
+
+    function setWithdrawCooldown(uint256 _withdrawCooldown) external timelocked(RISK_MANAGER_ROLE) {
+        if (_withdrawCooldown > MAX_WITHDRAW_COOLDOWN) revert InvalidWithdrawCooldown(_withdrawCooldown);
+        withdrawCooldown = _withdrawCooldown;
+        emit WithdrawCooldownUpdated(_withdrawCooldown);
+    }
+
+    /**
+     * @notice Allowlist an ERC-20 for bets and deposits, with its own per-transaction payout cap
+     * @dev Delisting stops new deposits and bets; open bets in the token can still settle
+     */
+    function setToken(address token, bool allowed, uint256 tokenMaxPayoutPerTx) external timelocked(RISK_MANAGER_ROLE) {
+        if (token == address(0)) revert ZeroAddress();
+        TokenConfig storage config = s_tokens[token];
+        config.allowed = allowed;
+        config.maxPayoutPerTx = tokenMaxPayoutPerTx;
+        if (!s_tokenListed[token]) {
+            s_tokenListed[token] = true;
+            s_tokenList.push(token);
+        }
+        emit TokenConfigured(token, allowed, tokenMaxPayoutPerTx);
+    }
+
+    /**
+     * @notice Set a game's allocation and maximum outstanding liability in `token`
+     * @dev Same semantics as setGameLimits, against the game's deposits and payouts in that token
+     */
+    function setGameTokenLimits(
+        address game,
+        address token,
+        uint256 allocation,
+        uint256 maxLiability
+    ) external timelocked(RISK_MANAGER_ROLE) {
+        if (game == address(0) || token == address(0)) revert ZeroAddress();
+        _trackGame(game);
+        GameTokenConfig storage config = s_gameTokens[game][token];
+        config.allocation = allocation;
+        config.maxLiability = maxLiability;
+        emit GameTokenLimitsUpdated(game, token, allocation, maxLiability);
+    }
+
+    function pause() external onlyRole(PAUSER_ROLE) {
         _pause();
     }
 
-    function unpause() external onlyOwner {
+    /**
+     * @dev Also resets the payout meters (ETH and every token) and the tripped breaker, so payouts
+     *      resume with a full budget after a circuit breaker review. Held payouts stay held until
+     *      released or voided.
+     */
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        breakerTripped = false;
+        s_windowOutflow = 0;
+        s_outflowUpdatedAt = block.timestamp;
+        for (uint256 i = 0; i < s_tokenList.length; i++) {
+            PayoutMeter storage meter = s_tokenMeters[s_tokenList[i]];
+            meter.outflow = 0;
+            meter.updatedAt = block.timestamp;
+        }
         _unpause();
     }
 
+    /**
+     * @notice Release a payout held by the circuit breaker to its recipient
+     * @dev Credited to pendingWithdrawals (or pendingTokenWithdrawals), claimable once unpaused
+     */
+    function releaseHeldPayout(uint256 heldPayoutId) external onlyRole(PAUSER_ROLE) {
+        HeldPayout memory held = _takeHeldPayout(heldPayoutId);
+        if (held.token == address(0)) {
+            pendingWithdrawals[held.account] += held.amount;
+            totalPendingWithdrawals += held.amount;
+        } else {
+            pendingTokenWithdrawals[held.token][held.account] += held.amount;
+            s_tokens[held.token].pendingWithdrawals += held.amount;
+        }
+        emit HeldPayoutReleased(heldPayoutId, held.account, held.token, held.amount);
+    }
+
+    /**
+     * @notice Void a payout held by the circuit breaker, e.g. one won with compromised randomness
+     * @dev The amount returns to the bankroll and is taken off the game's paidOut, so it no longer
+     *      counts against the game's allocation
+     */
+    function voidHeldPayout(uint256 heldPayoutId) external onlyRole(PAUSER_ROLE) {
+        HeldPayout memory held = _takeHeldPayout(heldPayoutId);
+        if (held.token == address(0)) {
+            s_games[held.game].paidOut -= held.amount;
+        } else {
+            s_gameTokens[held.game][held.token].paidOut -= held.amount;
+        }
+        emit HeldPayoutVoided(heldPayoutId, held.account, held.token, held.amount);
+    }
+
+    /**
+     * @notice Reserve the worst-case payout of a new bet. Callable only by authorized game contracts.
+     * @param amount Worst-case payout, held back from redemptions and withdrawals
+     * @param stake The bet's stake, kept out of totalAssets until the bet settles
+     * @dev Games deposit the stake first, so it already counts towards their allocation.
+     */
+    function reserveLiability(uint256 amount, uint256 stake) external onlyGame whenNotPaused {
+        if (amount == 0) revert AmountZero();
+        GameConfig storage config = s_games[msg.sender];
+
+        uint256 liabilityRoom = config.liability >= config.maxLiability ? 0 : config.maxLiability - config.liability;
+        if (amount > liabilityRoom) revert ExceedsMaxLiability(amount, liabilityRoom);
+
+        uint256 allocationRoom = _availableAllocation(config);
+        if (amount > allocationRoom) revert ExceedsGameAllocation(amount, allocationRoom);
+
+        uint256 bal = _freeBalance();
+        if (totalLiability + amount > bal) revert InsufficientTreasuryBalance(totalLiability + amount, bal);
+
+        config.liability += amount;
+        totalLiability += amount;
+        config.openStakes += stake;
+        totalOpenStakes += stake;
+        emit LiabilityReserved(msg.sender, amount, config.liability);
+    }
+
+    /**
+     * @notice Release liability and stake reserved by the caller once a bet is settled or refunded
+     * @dev Only lowers the caller's own reservation; games cannot be removed while they hold one
+     */
+    function releaseLiability(uint256 amount, uint256 stake) external {
+        GameConfig storage config = s_games[msg.sender];
+        if (amount > config.liability) revert ReleaseExceedsLiability(amount, config.liability);
+        if (stake > config.openStakes) revert ReleaseExceedsOpenStakes(stake, config.openStakes);
+
+        config.liability -= amount;
+        totalLiability -= amount;
+        config.openStakes -= stake;
+        totalOpenStakes -= stake;
+        emit LiabilityReleased(msg.sender, amount, config.liability);
+    }
+
     /**
      * @notice Payout winner. Callable only by authorized game contracts.
+     * @dev Enforces the global per-transaction cap and the game's bankroll allocation.
+     *      If the recipient rejects ETH (or runs out of PAYOUT_GAS_LIMIT), the amount is credited to
+     *      pendingWithdrawals instead of reverting, so a bad recipient cannot block settlement.
+     *      A payout that overflows the rolling payout budget trips the circuit breaker: the Treasury
+     *      pauses and the amount is held for review (PayoutHeld). It does not revert, so the pause sticks.
+     *      While the breaker is tripped, later payouts are metered and held too instead of reverting,
+     *      so the rest of the same settlement cannot roll the pause back. A manual pause still reverts.
      */
-    function payout(address payable to, uint256 amount) external onlyGame whenNotPaused {
+    function payout(address payable to, uint256 amount) external onlyGame {
+        if (!breakerTripped) _requireNotPaused();
         if (to == address(0)) revert ZeroAddress();
         if (amount == 0) revert AmountZero();
         if (maxPayoutPerTx != 0 && amount > maxPayoutPerTx) {
             revert ExceedsMaxPayout(amount, maxPayoutPerTx);
         }
 
-        uint256 bal = address(this).balance;
+        GameConfig storage config = s_games[msg.sender];
+        // Liability is released before payout, so the room excludes this payout's own reservation
+        uint256 allocationRoom = _availableAllocation(config);
+        if (amount > allocationRoom) revert ExceedsGameAllocation(amount, allocationRoom);
+
+        uint256 bal = _freeBalance();
         if (bal < amount) revert InsufficientTreasuryBalance(amount, bal);
 
-        (bool ok, ) = to.call{value: amount}("");
-        require(ok, "TREASURY_PAYOUT_FAILED");
-        emit PaidOut(msg.sender, to, amount);
+        config.paidOut += amount;
+
+        if (payoutBudget != 0) {
+            uint256 outflow = windowOutflow() + amount;
+            s_windowOutflow = outflow;
+            s_outflowUpdatedAt = block.timestamp;
+            if (outflow > payoutBudget && !breakerTripped) {
+                breakerTripped = true;
+                _pause();
+                emit CircuitBreakerTripped(msg.sender, amount, outflow, payoutBudget);
+            }
+        }
+
+        if (breakerTripped) {
+            _holdPayout(address(0), to, amount);
+            return;
+        }
+
+        (bool ok, ) = to.call{value: amount, gas: PAYOUT_GAS_LIMIT}("");
+        if (ok) {
+            emit PaidOut(msg.sender, to, amount);
+        } else {
+            pendingWithdrawals[to] += amount;
+            totalPendingWithdrawals += amount;
+            emit PayoutDeferred(msg.sender, to, amount);
+        }
+    }
+
+    /**
+     * @notice Claim payouts that could not be pushed to the caller
+     * @param receiver Where to send them; lets a contract that rejects ETH claim to another address
+     */
+    function claimPayout(address payable receiver) external whenNotPaused returns (uint256 amount) {
+        if (receiver == address(0)) revert ZeroAddress();
+        amount = pendingWithdrawals[msg.sender];
+        if (amount == 0) revert NothingToClaim();
+
+        pendingWithdrawals[msg.sender] = 0;
+        totalPendingWithdrawals -= amount;
+
+        (bool ok, ) = receiver.call{value: amount}("");
+        require(ok, "TREASURY_CLAIM_FAILED");
+        emit PayoutClaimed(msg.sender, receiver, amount);
     }
 
     /**
-     * @notice Owner withdraw (e.g., funding management on testnet).
+     * @notice Pull `amount` of an allowlisted token from the caller into the bankroll
+     * @dev Deposits of authorized games are attributed to them, like ETH deposits, and may be in a
+     *      delisted token so open bets still settle. Reverts if the bankroll does not grow by exactly
+     *      `amount` (fee-on-transfer tokens).
      */
-    function adminWithdraw(address payable to, uint256 amount) external onlyOwner {
+    function depositToken(address token, uint256 amount) external whenNotPaused {
+        GameConfig storage game = s_games[msg.sender];
+        if (!s_tokens[token].allowed && !game.authorized) revert TokenNotAllowed(token);
+        if (amount == 0) revert AmountZero();
+
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        uint256 received = IERC20(token).balanceOf(address(this)) - balanceBefore;
+        if (received != amount) revert TokenAmountMismatch(amount, received);
+
+        if (game.authorized) {
+            GameTokenConfig storage config = s_gameTokens[msg.sender][token];
+            config.deposited += amount;
+            emit GameTokenDeposited(msg.sender, token, amount, config.deposited);
+        } else {
+            emit TokenDeposited(msg.sender, token, amount);
+        }
+    }
+
+    /**
+     * @notice Reserve the potential payout of a token bet
+     * @dev Same checks as reserveLiability, against the game's limits in `token`, plus the token's
+     *      maxPayoutPerTx. Games deposit the stake first, so it already counts towards their allocation.
+     */
+    function reserveTokenLiability(address token, uint256 amount) external onlyGame whenNotPaused {
+        TokenConfig storage config = s_tokens[token];
+        if (!config.allowed) revert TokenNotAllowed(token);
+        if (amount == 0) revert AmountZero();
+        if (config.maxPayoutPerTx != 0 && amount > config.maxPayoutPerTx) {
+            revert ExceedsMaxPayout(amount, config.maxPayoutPerTx);
+        }
+
+        GameTokenConfig storage game = s_gameTokens[msg.sender][token];
+        uint256 liabilityRoom = game.liability >= game.maxLiability ? 0 : game.maxLiability - game.liability;
+        if (amount > liabilityRoom) revert ExceedsMaxLiability(amount, liabilityRoom);
+
+        uint256 allocationRoom = _availableAllocation(game);
+        if (amount > allocationRoom) revert ExceedsGameAllocation(amount, allocationRoom);
+
+        uint256 bal = _freeTokenBalance(token);
+        if (config.liability + amount > bal) revert InsufficientTreasuryBalance(config.liability + amount, bal);
+
+        config.liability += amount;
+        game.liability += amount;
+        emit TokenLiabilityReserved(msg.sender, token, amount, game.liability);
+    }
+
+    /**
+     * @notice Release token liability reserved by the caller once a bet is settled or refunded
+     */
+    function releaseTokenLiability(address token, uint256 amount) external {
+        GameTokenConfig storage game = s_gameTokens[msg.sender][token];
+        if (amount > game.liability) revert ReleaseExceedsLiability(amount, game.liability);
+
+        game.liability -= amount;
+        s_tokens[token].liability -= amount;
+        emit TokenLiabilityReleased(msg.sender, token, amount, game.liability);
+    }
+
+    /**
+     * @notice Pay a token prize. Callable only by authorized game contracts.
+     * @dev Enforces the token's per-transaction cap and the game's allocation in the token, like payout.
+     *      If the transfer fails (e.g. a token that blocks the recipient), the amount is credited to
+     *      pendingTokenWithdrawals instead of reverting, so a bad recipient cannot block settlement.
+     *      Metered against the token's payout budget: overflowing it trips the circuit breaker, and
+     *      while it is tripped the amount is held for review, as for ETH payouts.
+     */
+    function payoutToken(address token, address to, uint256 amount) external onlyGame {
+        if (!breakerTripped) _requireNotPaused();
         if (to == address(0)) revert ZeroAddress();
         if (amount == 0) revert AmountZero();
+        TokenConfig storage config = s_tokens[token];
+        if (config.maxPayoutPerTx != 0 && amount > config.maxPayoutPerTx) {
+            revert ExceedsMaxPayout(amount, config.maxPayoutPerTx);
+        }
 
-        uint256 bal = address(this).balance;
+        GameTokenConfig storage game = s_gameTokens[msg.sender][token];
+        // Liability is released before payout, so the room excludes this payout's own reservation
+        uint256 allocationRoom = _availableAllocation(game);
+        if (amount > allocationRoom) revert ExceedsGameAllocation(amount, allocationRoom);
+
+        uint256 bal = _freeTokenBalance(token);
         if (bal < amount) revert InsufficientTreasuryBalance(amount, bal);
 
+        game.paidOut += amount;
+
+        PayoutMeter storage meter = s_tokenMeters[token];
+        if (meter.budget != 0) {
+            uint256 outflow = tokenWindowOutflow(token) + amount;
+            meter.outflow = outflow;
+            meter.updatedAt = block.timestamp;
+            if (outflow > meter.budget && !breakerTripped) {
+                breakerTripped = true;
+                _pause();
+                emit TokenCircuitBreakerTripped(msg.sender, token, amount, outflow, meter.budget);
+            }
+        }
+
+        if (breakerTripped) {
+            _holdPayout(token, to, amount);
+            return;
+        }
+
+        (bool ok, bytes memory data) = token.call(abi.encodeCall(IERC20.transfer, (to, amount)));
+        if (ok && (data.length == 0 || abi.decode(data, (bool)))) {
+            emit TokenPaidOut(msg.sender, token, to, amount);
+        } else {
+            pendingTokenWithdrawals[token][to] += amount;
+            config.pendingWithdrawals += amount;
+            emit TokenPayoutDeferred(msg.sender, token, to, amount);
+        }
+    }
+
+    /**
+     * @notice Claim token payouts that could not be transferred to the caller
+     * @param receiver Where to send them; lets an account the token blocks claim to another address
+     */
+    function claimTokenPayout(address token, address receiver) external whenNotPaused returns (uint256 amount) {
+        if (receiver == address(0)) revert ZeroAddress();
+        amount = pendingTokenWithdrawals[token][msg.sender];
+        if (amount == 0) revert NothingToClaim();
+
+        pendingTokenWithdrawals[token][msg.sender] = 0;
+        s_tokens[token].pendingWithdrawals -= amount;
+
+        IERC20(token).safeTransfer(receiver, amount);
+        emit TokenPayoutClaimed(msg.sender, token, receiver, amount);
+    }
+
+    /**
+     * @notice Deposit ETH as house liquidity for `receiver`
+     * @dev Once shares exist the deposit waits out withdrawCooldown and `receiver` turns it into
+     *      shares with completeDeposit, so nobody can buy in just before a settlement they can
+     *      trigger. Adding to a pending deposit restarts its cooldown. Returns 0 shares when queued.
+     */
+    function depositLiquidity(address receiver) external payable whenNotPaused returns (uint256 shares) {
+        if (receiver == address(0)) revert ZeroAddress();
+        if (msg.value == 0) revert AmountZero();
+
+        // With no shares and no bankroll there is nobody to front-run
+        if (withdrawCooldown == 0 || (totalShares == 0 && totalAssets() == msg.value)) {
+            return _mintShares(receiver, msg.value);
+        }
+
+        DepositRequest storage request = s_depositRequests[receiver];
+        request.assets += msg.value;
+        request.unlockTime = uint64(block.timestamp + withdrawCooldown);
+        totalPendingDeposits += msg.value;
+        emit DepositRequested(receiver, request.assets, request.unlockTime);
+    }
+
+    /**
+     * @notice Mint shares for the caller's pending deposit once its cooldown has passed
+     * @dev Priced at completion, so P&L during the cooldown stays with the incumbent LPs
+     */
+    function completeDeposit() external whenNotPaused returns (uint256 shares) {
+        DepositRequest memory request = s_depositRequests[msg.sender];
+        if (request.assets == 0) revert NoDepositRequest();
+        if (block.timestamp < request.unlockTime) revert DepositLocked(request.unlockTime);
+
+        delete s_depositRequests[msg.sender];
+        totalPendingDeposits -= request.assets;
+        shares = _mintShares(msg.sender, request.assets);
+    }
+
+    /**
+     * @notice Refund the caller's pending deposit
+     */
+    function cancelDeposit() external {
+        uint256 assets = s_depositRequests[msg.sender].assets;
+        if (assets == 0) revert NoDepositRequest();
+
+        delete s_depositRequests[msg.sender];
+        totalPendingDeposits -= assets;
+
+        (bool ok, ) = msg.sender.call{value: assets}("");
+        require(ok, "TREASURY_REFUND_FAILED");
+        emit DepositCancelled(msg.sender, assets);
+    }
+
+    /**
+     * @notice Lock shares for redemption; they can be redeemed once withdrawCooldown has passed
+     * @dev Adding to an existing request restarts its cooldown
+     */
+    function requestRedeem(uint256 shares) external {
+        if (shares == 0) revert AmountZero();
+        uint256 available = s_shares[msg.sender];
+        if (shares > available) revert InsufficientShares(shares, available);
+
+        s_shares[msg.sender] = available - shares;
+        RedeemRequest storage request = s_redeemRequests[msg.sender];
+        request.shares += shares;
+        request.unlockTime = uint64(block.timestamp + withdrawCooldown);
+        emit RedeemRequested(msg.sender, request.shares, request.unlockTime);
+    }
+
+    /**
+     * @notice Return the caller's requested shares to their balance
+     */
+    function cancelRedeem() external {
+        uint256 shares = s_redeemRequests[msg.sender].shares;
+        if (shares == 0) revert NoRedeemRequest();
+
+        delete s_redeemRequests[msg.sender];
+        s_shares[msg.sender] += shares;
+        emit RedeemCancelled(msg.sender, shares);
+    }
+
+    /**
+     * @notice Burn the caller's requested shares after the cooldown and send their value to `receiver`
+     * @dev Shares are valued at redemption time, so P&L during the cooldown is shared with other LPs.
+     *      Reverts while paying it out would leave less than the worst case of open bets.
+     */
+    function redeem(address payable receiver) external whenNotPaused returns (uint256 assets) {
+        if (receiver == address(0)) revert ZeroAddress();
+        RedeemRequest memory request = s_redeemRequests[msg.sender];
+        if (request.shares == 0) revert NoRedeemRequest();
+        if (block.timestamp < request.unlockTime) revert RedeemLocked(request.unlockTime);
+
+        assets = _convertToAssets(request.shares, totalAssets());
+        if (assets == 0) revert AmountZero();
+        uint256 bal = _freeBalance();
+        if (bal < assets + totalLiability) revert InsufficientTreasuryBalance(assets + totalLiability, bal);
+
+        delete s_redeemRequests[msg.sender];
+        totalShares -= request.shares;
+
+        (bool ok, ) = receiver.call{value: assets}("");
+        require(ok, "TREASURY_REDEEM_FAILED");
+        emit LiquidityRedeemed(msg.sender, receiver, assets, request.shares);
+    }
+
+    /**
+     * @notice Treasurer withdraw (e.g., funding management on testnet).
+     * @dev Cannot dip into funds reserved for open bets or owed to players. Once LPs hold shares
+     *      only the house shares' value can be withdrawn; the shares covering `amount` are burned.
+     */
+    function adminWithdraw(address payable to, uint256 amount) external timelocked(TREASURER_ROLE) {
+        if (to == address(0)) revert ZeroAddress();
+        if (amount == 0) revert AmountZero();
+        if (totalShares != 0) {
+            // Rounded up, so LPs never cover part of the withdrawal
+            uint256 assets = totalAssets();
+            uint256 shares = (amount * (totalShares + 1) + assets) / (assets + 1);
+            uint256 houseShares = s_shares[address(this)];
+            if (shares > houseShares) revert InsufficientShares(shares, houseShares);
+            s_shares[address(this)] = houseShares - shares;
+            totalShares -= shares;
+        }
+
+        uint256 bal = _freeBalance();
+        if (bal < amount + totalLiability) revert InsufficientTreasuryBalance(amount + totalLiability, bal);
+
         (bool ok, ) = to.call{value: amount}("");
         require(ok, "TREASURY_WITHDRAW_FAILED");
         emit AdminWithdrawn(to, amount);
     }
 
+    /**
+     * @notice Treasurer withdraw of a token bankroll
+     * @dev Cannot dip into the token's liability reserved for open bets or its unclaimed payouts
+     */
+    function adminWithdrawToken(address token, address to, uint256 amount) external timelocked(TREASURER_ROLE) {
+        if (to == address(0)) revert ZeroAddress();
+        if (amount == 0) revert AmountZero();
+
+        uint256 liability = s_tokens[token].liability;
+        uint256 bal = _freeTokenBalance(token);
+        if (bal < amount + liability) revert InsufficientTreasuryBalance(amount + liability, bal);
+
+        IERC20(token).safeTransfer(to, amount);
+        emit TokenAdminWithdrawn(token, to, amount);
+    }
+
+    /**
+     * @dev Role required to queue, execute or cancel a timelocked call; reverts for other selectors
+     */
+    function _operationRole(bytes4 selector) private pure returns (bytes32) {
+        if (selector == this.setGame.selector) return GAME_MANAGER_ROLE;
+        if (
+            selector == this.setGameLimits.selector ||
+            selector == this.setGameTokenLimits.selector ||
+            selector == this.setMaxPayoutPerTx.selector ||
+            selector == this.setPayoutBudget.selector ||
+            selector == this.setTokenPayoutBudget.selector ||
+            selector == this.setToken.selector ||
+            selector == this.setWithdrawCooldown.selector
+        ) return RISK_MANAGER_ROLE;
+        if (selector == this.adminWithdraw.selector || selector == this.adminWithdrawToken.selector) {
+            return TREASURER_ROLE;
+        }
+        if (selector == this.setTimelockDelay.selector) return DEFAULT_ADMIN_ROLE;
+        revert NotTimelockedOperation(selector);
+    }
+
+    function _removePendingOperation(uint256 operationId) private {
+        uint256 index = s_pendingOperationIndex[operationId];
+        if (index == 0) return;
+
+        uint256 lastOperationId = s_pendingOperationIds[s_pendingOperationIds.length - 1];
+        s_pendingOperationIds[index - 1] = lastOperationId;
+        s_pendingOperationIndex[lastOperationId] = index;
+        s_pendingOperationIds.pop();
+        delete s_pendingOperationIndex[operationId];
+    }
+
+    function _recordDeposit() private {
+        GameConfig storage config = s_games[msg.sender];
+        if (config.authorized) {
+            config.deposited += msg.value;
+            emit GameDeposited(msg.sender, msg.value, config.deposited);
+        } else {
+            emit Deposited(msg.sender, msg.value);
+        }
+    }
+
+    /**
+     * @dev Mints shares for `amount` of ETH already counted in totalAssets, priced against the
+     *      assets before it (virtual share and asset of 1 each, so the first deposit cannot be
+     *      inflated by a donation). When the first LP enters a funded Treasury, the existing
+     *      bankroll is first minted as house shares held by the Treasury itself, so it keeps its
+     *      value and stays withdrawable by the treasurer.
+     */
+    function _mintShares(address receiver, uint256 amount) private returns (uint256 shares) {
+        uint256 assets = totalAssets();
+        uint256 assetsBefore = assets > amount ? assets - amount : 0;
+        if (totalShares == 0 && assetsBefore != 0) {
+            s_shares[address(this)] = assetsBefore;
+            totalShares = assetsBefore;
+            emit LiquidityDeposited(address(this), address(this), assetsBefore, assetsBefore);
+        }
+
+        shares = _convertToShares(amount, assetsBefore);
+        if (shares == 0) revert ZeroShares();
+
+        s_shares[receiver] += shares;
+        totalShares += shares;
+        emit LiquidityDeposited(msg.sender, receiver, amount, shares);
+    }
+
+    function _convertToShares(uint256 assets, uint256 assetsBefore) private view returns (uint256) {
+        return (assets * (totalShares + 1)) / (assetsBefore + 1);
+    }
+
+    function _convertToAssets(uint256 shares, uint256 assets) private view returns (uint256) {
+        return (shares * (assets + 1)) / (totalShares + 1);
+    }
+
+    function _trackGame(address game) private {
+        if (s_listed[game]) return;
+        s_listed[game] = true;
+        s_gameList.push(game);
+    }
+
+    /**
+     * @dev deposited + allocation - paidOut - liability, floored at zero
+     */
+    function _availableAllocation(GameConfig storage config) private view returns (uint256) {
+        uint256 budget = config.deposited + config.allocation;
+        uint256 used = config.paidOut + config.liability;
+        return budget > used ? budget - used : 0;
+    }
+
+    function _availableAllocation(GameTokenConfig storage config) private view returns (uint256) {
+        uint256 budget = config.deposited + config.allocation;
+        uint256 used = config.paidOut + config.liability;
+        return budget > used ? budget - used : 0;
+    }
+
+    /**
+     * @dev A payout meter's outflow once it has drained at budget per window since updatedAt
+     */
+    function _drainedOutflow(
+        uint256 outflow,
+        uint256 updatedAt,
+        uint256 budget,
+        uint256 window
+    ) private view returns (uint256) {
+        if (window == 0) return outflow;
+        uint256 drained = ((block.timestamp - updatedAt) * budget) / window;
+        return drained >= outflow ? 0 : outflow - drained;
+    }
+
+    /**
+     * @dev Balance minus unclaimed payouts, which belong to their recipients, held payouts awaiting review
+     *      and LP deposits waiting out their cooldown
+     */
+    function _freeBalance() private view returns (uint256) {
+        uint256 bal = address(this).balance;
+        uint256 reserved = totalPendingWithdrawals + totalHeldPayouts + totalPendingDeposits;
+        return bal > reserved ? bal - reserved : 0;
+    }
+
+    function _freeTokenBalance(address token) private view returns (uint256) {
+        uint256 bal = IERC20(token).balanceOf(address(this));
+        TokenConfig storage config = s_tokens[token];
+        uint256 reserved = config.pendingWithdrawals + config.heldPayouts;
+        return bal > reserved ? bal - reserved : 0;
+    }
+
+    /**
+     * @dev Record a payout of the calling game held by the tripped circuit breaker
+     */
+    function _holdPayout(address token, address account, uint256 amount) private {
+        uint256 heldPayoutId = ++s_heldPayoutCounter;
+        s_heldPayouts[heldPayoutId] = HeldPayout({game: msg.sender, token: token, account: account, amount: amount});
+        s_heldPayoutIds.push(heldPayoutId);
+        s_heldPayoutIndex[heldPayoutId] = s_heldPayoutIds.length;
+        if (token == address(0)) {
+            totalHeldPayouts += amount;
+        } else {
+            s_tokens[token].heldPayouts += amount;
+        }
+        emit PayoutHeld(heldPayoutId, msg.sender, token, account, amount);
+    }
+
+    /**
+     * @dev Remove a held payout awaiting review and return it
+     */
+    function _takeHeldPayout(uint256 heldPayoutId) private returns (HeldPayout memory held) {
+        uint256 index = s_heldPayoutIndex[heldPayoutId];
+        if (index == 0) revert HeldPayoutNotFound(heldPayoutId);
+        held = s_heldPayouts[heldPayoutId];
+
+        uint256 lastHeldPayoutId = s_heldPayoutIds[s_heldPayoutIds.length - 1];
+        s_heldPayoutIds[index - 1] = lastHeldPayoutId;
+        s_heldPayoutIndex[lastHeldPayoutId] = index;
+        s_heldPayoutIds.pop();
+        delete s_heldPayoutIndex[heldPayoutId];
+        delete s_heldPayouts[heldPayoutId];
+
+        if (held.token == address(0)) {
+            totalHeldPayouts -= held.amount;
+        } else {
+            s_tokens[held.token].heldPayouts -= held.amount;
+        }
+    }
+
+    function isGame(address game) external view returns (bool) {
+        return s_games[game].authorized;
+    }
+
+    function getGameConfig(address game) external view returns (GameConfig memory) {
+        return s_games[game];
+    }
+
+    /**
+     * @notice Allocation used by a game (net losses plus open liability) and what is left of it
+     */
+    function getAllocationUsage(address game) external view returns (uint256 used, uint256 available) {
+        GameConfig storage config = s_games[game];
+        uint256 spent = config.paidOut + config.liability;
+        used = spent > config.deposited ? spent - config.deposited : 0;
+        available = _availableAllocation(config);
+    }
+
+    /**
+     * @notice A game's ETH flows through the Treasury, from the house's point of view
+     * @return totalIn Stakes and pools the game deposited
+     * @return totalOut Payouts and refunds made for the game
+     * @return net totalIn - totalOut (positive = house profit)
+     */
+    function getGameProfitAndLoss(address game) external view returns (uint256 totalIn, uint256 totalOut, int256 net) {
+        GameConfig storage config = s_games[game];
+        totalIn = config.deposited;
+        totalOut = config.paidOut;
+        net = int256(totalIn) - int256(totalOut);
+    }
+
+    function getGames() external view returns (address[] memory) {
+        return s_gameList;
+    }
+
+    /**
+     * @notice ETH payouts counted against the rolling budget right now
+     */
+    function windowOutflow() public view returns (uint256) {
+        return _drainedOutflow(s_windowOutflow, s_outflowUpdatedAt, payoutBudget, payoutWindow);
+    }
+
+    /**
+     * @notice ETH that can still be paid out before the circuit breaker trips (max uint if disabled)
+     */
+    function remainingPayoutBudget() external view returns (uint256) {
+        if (payoutBudget == 0) return type(uint256).max;
+        uint256 outflow = windowOutflow();
+        return outflow >= payoutBudget ? 0 : payoutBudget - outflow;
+    }
+
+    function getTokenPayoutBudget(address token) external view returns (uint256 budget, uint256 window) {
+        PayoutMeter storage meter = s_tokenMeters[token];
+        return (meter.budget, meter.window);
+    }
+
+    /**
+     * @notice Payouts in `token` counted against its rolling budget right now
+     */
+    function tokenWindowOutflow(address token) public view returns (uint256) {
+        PayoutMeter storage meter = s_tokenMeters[token];
+        return _drainedOutflow(meter.outflow, meter.updatedAt, meter.budget, meter.window);
+    }
+
+    /**
+     * @notice Amount of `token` that can still be paid out before the circuit breaker trips (max uint if disabled)
+     */
+    function remainingTokenPayoutBudget(address token) external view returns (uint256) {
+        uint256 budget = s_tokenMeters[token].budget;
+        if (budget == 0) return type(uint256).max;
+        uint256 outflow = tokenWindowOutflow(token);
+        return outflow >= budget ? 0 : budget - outflow;
+    }
+
     function treasuryBalance() external view returns (uint256) {
         return address(this).balance;
     }
+
+    function isTokenAllowed(address token) external view returns (bool) {
+        return s_tokens[token].allowed;
+    }
+
+    function getTokenConfig(address token) external view returns (TokenConfig memory) {
+        return s_tokens[token];
+    }
+
+    function getTokens() external view returns (address[] memory) {
+        return s_tokenList;
+    }
+
+    function getGameTokenConfig(address game, address token) external view returns (GameTokenConfig memory) {
+        return s_gameTokens[game][token];
+    }
+
+    function tokenBalance(address token) external view returns (uint256) {
+        return IERC20(token).balanceOf(address(this));
+    }
+
+    /**
+     * @notice ETH backing LP shares: the balance minus stakes of open bets and unclaimed payouts
+     */
+    function totalAssets() public view returns (uint256) {
+        uint256 bal = _freeBalance();
+        return bal > totalOpenStakes ? bal - totalOpenStakes : 0;
+    }
+
+    function convertToShares(uint256 assets) external view returns (uint256) {
+        return _convertToShares(assets, totalAssets());
+    }
+
+    function convertToAssets(uint256 shares) external view returns (uint256) {
+        return _convertToAssets(shares, totalAssets());
+    }
+
+    /**
+     * @notice Shares held by an LP, excluding shares locked in a redeem request
+     */
+    function sharesOf(address provider) external view returns (uint256) {
+        return s_shares[provider];
+    }
+
+    function getRedeemRequest(address provider) external view returns (RedeemRequest memory) {
+        return s_redeemRequests[provider];
+    }
+
+    function getDepositRequest(address provider) external view returns (DepositRequest memory) {
+        return s_depositRequests[provider];
+    }
+
+    function getOperation(uint256 operationId) external view returns (Operation memory) {
+        return s_operations[operationId];
+    }
+
+    /**
+     * @notice IDs of queued operations that were neither executed nor cancelled
+     */
+    function getPendingOperationIds() external view returns (uint256[] memory) {
+        return s_pendingOperationIds;
+    }
+
+    function getHeldPayout(uint256 heldPayoutId) external view returns (HeldPayout memory) {
+        return s_heldPayouts[heldPayoutId];
+    }
+
+    /**
+     * @notice Ids of payouts held by the circuit breaker that still await release or void
+     */
+    function getHeldPayoutIds() external view returns (uint256[] memory) {
+        return s_heldPayoutIds;
+    }
 }
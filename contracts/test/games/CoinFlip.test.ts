@@ -0,0 +1,531 @@
+import { expect } from "chai";
+import { ethers, network, deployments } from "hardhat";
+import { BigNumber } from "ethers";
+
+// Inline to avoid module resolution issues
+const developmentChains = ["hardhat", "localhost"];
+
+// CoinFlip.CoinSide
+const HEADS = 0;
+const TAILS = 1;
+
+async function mustRevert(p: Promise<any>, contains?: string) {
+  try {
+    await p;
+    expect.fail("Expected revert, but tx succeeded");
+  } catch (e: any) {
+    const msg = String(e?.message || "");
+    if (contains) {
+      expect(msg).to.include(contains);
+    }
+  }
+}
+
+function bnEq(a: BigNumber, b: BigNumber, label?: string) {
+  const ok = a.eq(b);
+  if (!ok) {
+    throw new Error(
+      `${label ?? "BigNumber mismatch"}: expected ${b.toString()}, got ${a.toString()}`
+    );
+  }
+}
+
+// RandomnessProvider catches a reverting game callback and emits CallbackFailed instead
+function findCallbackFailed(receipt: any, provider: any) {
+  return receipt.logs
+    .filter((log: any) => log.address === provider.address)
+    .map((log: any) => provider.interface.parseLog(log))
+    .find((parsed: any) => parsed.name === "CallbackFailed");
+}
+
+// Impersonate the RandomnessProvider and deliver a fixed random value to the game
+async function fulfillAsProvider(game: any, providerAddress: string, requestId: any, randomness: number) {
+  await network.provider.request({
+    method: "hardhat_impersonateAccount",
+    params: [providerAddress],
+  });
+  await network.provider.send("hardhat_setBalance", [
+    providerAddress,
+    ethers.utils.parseEther("1.0").toHexString(),
+  ]);
+  const providerSigner = await ethers.getSigner(providerAddress);
+  try {
+    return await (await game.connect(providerSigner).fulfillRandomness(requestId, randomness)).wait();
+  } finally {
+    await network.provider.request({
+      method: "hardhat_stopImpersonatingAccount",
+      params: [providerAddress],
+    });
+  }
+}
+
+describe("CoinFlip Contract Tests", function () {
+  let coinFlip: any;
+  let randomnessProvider: any;
+  let treasury: any;
+  let vrfCoordinatorMock: any;
+  let player1: any;
+  let player2: any;
+  let player3: any;
+
+  // Values set by scripts/05-deploy-coinflip.ts
+  const minBet = ethers.utils.parseEther("0.001");
+  const maxBet = ethers.utils.parseEther("1");
+  const refundTimeout = 3600; // 1 hour
+
+  async function placeBet(player: any, side: number, amount: BigNumber) {
+    const tx = await coinFlip.connect(player).placeBet(side, { value: amount });
+    const receipt = await tx.wait();
+    const randomnessEvent = receipt.events.find((e: any) => e.event === "RandomnessRequested");
+    return { betId: randomnessEvent.args.betId, requestId: randomnessEvent.args.requestId, receipt };
+  }
+
+  beforeEach(async function () {
+    await deployments.fixture(["CoinFlip"]);
+
+    [, player1, player2, player3] = await ethers.getSigners();
+
+    coinFlip = await ethers.getContract("CoinFlip");
+    randomnessProvider = await ethers.getContract("RandomnessProvider");
+    treasury = await ethers.getContract("Treasury");
+
+    // Get VRF Mock if on local network
+    if (developmentChains.includes(network.name)) {
+      vrfCoordinatorMock = await ethers.getContract("VRFCoordinatorMock");
+    }
+  });
+
+  describe("Deployment", function () {
+    it("should set correct min and max bet", async function () {
+      bnEq(await coinFlip.getMinBet(), minBet, "Min bet");
+      bnEq(await coinFlip.getMaxBet(), maxBet, "Max bet");
+    });
+
+    it("should set refund timeout", async function () {
+      expect((await coinFlip.getRefundTimeout()).toString()).to.equal(String(refundTimeout));
+    });
+
+    it("should initialize bet counter to 1", async function () {
+      expect((await coinFlip.getNextBetId()).toString()).to.equal("1");
+    });
+
+    it("should have correct game config", async function () {
+      const config = await coinFlip.getGameConfig();
+      bnEq(config.minBet, minBet, "Config min bet");
+      bnEq(config.maxBet, maxBet, "Config max bet");
+      expect(config.multiplier.toString()).to.equal("2");
+      expect(config.houseEdgeBps.toString()).to.equal("200"); // 2%
+    });
+
+    it("should be authorized in Treasury by the deploy script", async function () {
+      expect(await treasury.isGame(coinFlip.address)).to.be.true;
+    });
+  });
+
+  describe("Place Bet - Success Cases", function () {
+    it("should allow player to place bet with valid side and amount", async function () {
+      const betAmount = ethers.utils.parseEther("0.1");
+      const { receipt } = await placeBet(player1, TAILS, betAmount);
+
+      const betPlacedEvent = receipt.events.find((e: any) => e.event === "BetPlaced");
+      expect(betPlacedEvent).to.not.be.undefined;
+      expect(betPlacedEvent.args.betId.toString()).to.equal("1");
+      expect(betPlacedEvent.args.player).to.equal(player1.address);
+      bnEq(betPlacedEvent.args.amount, betAmount, "Bet amount");
+      expect(betPlacedEvent.args.choice).to.equal(TAILS);
+
+      const randomnessEvent = receipt.events.find((e: any) => e.event === "RandomnessRequested");
+      expect(randomnessEvent).to.not.be.undefined;
+      expect(randomnessEvent.args.betId.toString()).to.equal("1");
+      expect(randomnessEvent.args.requestId).to.not.be.undefined;
+    });
+
+    it("should correctly bind requestId to betId", async function () {
+      const betAmount = ethers.utils.parseEther("0.1");
+      const { betId } = await placeBet(player1, HEADS, betAmount);
+
+      const bet = await coinFlip.getBet(betId);
+      expect(bet.player).to.equal(player1.address);
+      bnEq(bet.amount, betAmount, "Stored bet amount");
+      expect(bet.choice).to.equal(HEADS);
+      expect(bet.status).to.equal(1); // CALCULATING
+    });
+
+    it("should transfer bet amount to Treasury immediately", async function () {
+      const treasuryBalanceBefore = await ethers.provider.getBalance(treasury.address);
+      const betAmount = ethers.utils.parseEther("0.1");
+
+      await placeBet(player1, HEADS, betAmount);
+
+      const treasuryBalanceAfter = await ethers.provider.getBalance(treasury.address);
+      bnEq(treasuryBalanceAfter.sub(treasuryBalanceBefore), betAmount, "Treasury received bet");
+    });
+
+    it("should track player's bet history", async function () {
+      await placeBet(player1, HEADS, minBet);
+      await placeBet(player1, TAILS, minBet);
+
+      const playerBets = await coinFlip.getPlayerBets(player1.address);
+      expect(playerBets.length).to.equal(2);
+      expect(playerBets[0].toString()).to.equal("1");
+      expect(playerBets[1].toString()).to.equal("2");
+
+      expect((await coinFlip.getPlayerBetCount(player1.address)).toString()).to.equal("2");
+    });
+  });
+
+  describe("Place Bet - Validation", function () {
+    it("should revert if side is not heads or tails", async function () {
+      await mustRevert(
+        coinFlip.connect(player1).placeBet(2, { value: minBet }),
+        "CoinFlip__InvalidSide"
+      );
+    });
+
+    it("should revert if bet amount is too low", async function () {
+      await mustRevert(
+        coinFlip.connect(player1).placeBet(HEADS, { value: minBet.sub(1) }),
+        "CoinFlip__BetTooLow"
+      );
+    });
+
+    it("should revert if bet amount is too high", async function () {
+      await mustRevert(
+        coinFlip.connect(player1).placeBet(HEADS, { value: maxBet.add(1) }),
+        "CoinFlip__BetTooHigh"
+      );
+    });
+  });
+
+  describe("Fulfill Randomness - Win Path", function () {
+    it("should settle winning heads bet and pay 1.96x (deterministic)", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      const betAmount = ethers.utils.parseEther("0.1");
+      const { betId, requestId } = await placeBet(player1, HEADS, betAmount);
+      const playerBalanceBefore = await ethers.provider.getBalance(player1.address);
+
+      // Even randomness = heads
+      const receipt = await fulfillAsProvider(coinFlip, randomnessProvider.address, requestId, 42);
+
+      const bet = await coinFlip.getBet(betId);
+      expect(bet.status).to.equal(2); // SETTLED
+      expect(bet.result).to.equal(HEADS);
+
+      // 0.1 * 2 * 0.98 = 0.196 ETH
+      const expectedPayout = betAmount.mul(2).mul(98).div(100);
+      bnEq(bet.payout, expectedPayout, "Payout amount");
+
+      const playerBalanceAfter = await ethers.provider.getBalance(player1.address);
+      bnEq(playerBalanceAfter.sub(playerBalanceBefore), expectedPayout, "Player received payout");
+
+      const settledEvent = receipt.events.find((e: any) => e.event === "BetSettled");
+      expect(settledEvent.args.betId.toString()).to.equal("1");
+      expect(settledEvent.args.player).to.equal(player1.address);
+      expect(settledEvent.args.result).to.equal(HEADS);
+      expect(settledEvent.args.won).to.be.true;
+      bnEq(settledEvent.args.payout, expectedPayout, "Event payout");
+    });
+
+    it("should settle winning tails bet through the VRF mock (deterministic)", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      const { betId, requestId } = await placeBet(player1, TAILS, minBet);
+
+      // Odd randomness = tails
+      await vrfCoordinatorMock.fulfillRandomWordsWithOverride(requestId, randomnessProvider.address, [7]);
+
+      const bet = await coinFlip.getBet(betId);
+      expect(bet.status).to.equal(2); // SETTLED
+      expect(bet.result).to.equal(TAILS);
+      bnEq(bet.payout, minBet.mul(2).mul(98).div(100), "Payout amount");
+    });
+  });
+
+  describe("Fulfill Randomness - Lose Path", function () {
+    it("should settle losing bet with zero payout (deterministic)", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      const { betId, requestId } = await placeBet(player1, TAILS, ethers.utils.parseEther("0.1"));
+      const treasuryBalanceBefore = await ethers.provider.getBalance(treasury.address);
+
+      const receipt = await fulfillAsProvider(coinFlip, randomnessProvider.address, requestId, 10);
+
+      const bet = await coinFlip.getBet(betId);
+      expect(bet.status).to.equal(2); // SETTLED
+      expect(bet.result).to.equal(HEADS);
+      expect(bet.payout.toString()).to.equal("0");
+
+      const settledEvent = receipt.events.find((e: any) => e.event === "BetSettled");
+      expect(settledEvent.args.won).to.be.false;
+
+      // Stake already sits in Treasury
+      const treasuryBalanceAfter = await ethers.provider.getBalance(treasury.address);
+      bnEq(treasuryBalanceAfter, treasuryBalanceBefore, "Treasury balance unchanged");
+    });
+  });
+
+  describe("Fulfill Randomness - Security", function () {
+    it("should revert if non-provider calls fulfillRandomness", async function () {
+      await placeBet(player1, HEADS, minBet);
+
+      await mustRevert(
+        coinFlip.connect(player2).fulfillRandomness(1, 12345),
+        "CoinFlip__NotProvider"
+      );
+    });
+
+    it("should revert if trying to fulfill non-existent requestId", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      await mustRevert(
+        fulfillAsProvider(coinFlip, randomnessProvider.address, 99999, 12345),
+        "CoinFlip__BetNotFound"
+      );
+    });
+
+    it("should revert if trying to settle already settled bet", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      const { requestId } = await placeBet(player1, HEADS, minBet);
+      await fulfillAsProvider(coinFlip, randomnessProvider.address, requestId, 2);
+
+      // requestId mapping was deleted on settlement
+      await mustRevert(
+        fulfillAsProvider(coinFlip, randomnessProvider.address, requestId, 2),
+        "CoinFlip__BetNotFound"
+      );
+    });
+  });
+
+  describe("Refund Stuck Bets", function () {
+    it("should revert refund before timeout", async function () {
+      const { betId } = await placeBet(player1, HEADS, minBet);
+
+      expect(await coinFlip.isRefundable(betId)).to.be.false;
+      await mustRevert(coinFlip.connect(player1).claimRefund(betId), "CoinFlip__RefundTooEarly");
+    });
+
+    it("should refund stake to player after timeout (callable by anyone)", async function () {
+      const betAmount = ethers.utils.parseEther("0.1");
+      const { betId } = await placeBet(player1, HEADS, betAmount);
+
+      await network.provider.send("evm_increaseTime", [refundTimeout]);
+      await network.provider.send("evm_mine", []);
+      expect(await coinFlip.isRefundable(betId)).to.be.true;
+
+      const playerBalanceBefore = await ethers.provider.getBalance(player1.address);
+
+      const tx = await coinFlip.connect(player2).claimRefund(betId);
+      const receipt = await tx.wait();
+
+      const refundEvent = receipt.events.find((e: any) => e.event === "BetRefunded");
+      expect(refundEvent.args.player).to.equal(player1.address);
+      bnEq(refundEvent.args.amount, betAmount, "Refund amount");
+
+      expect((await coinFlip.getBet(betId)).status).to.equal(3); // REFUNDED
+      bnEq((await ethers.provider.getBalance(player1.address)).sub(playerBalanceBefore), betAmount, "Player refunded");
+
+      await mustRevert(coinFlip.connect(player1).claimRefund(betId), "CoinFlip__NotRefundable");
+    });
+
+    it("should not settle a refunded bet when the VRF callback arrives late", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      const { betId, requestId } = await placeBet(player1, HEADS, minBet);
+
+      await network.provider.send("evm_increaseTime", [refundTimeout]);
+      await network.provider.send("evm_mine", []);
+      await coinFlip.connect(player1).claimRefund(betId);
+
+      const tx = await vrfCoordinatorMock.fulfillRandomWordsWithOverride(requestId, randomnessProvider.address, [0]);
+      const receipt = await tx.wait();
+      expect(findCallbackFailed(receipt, randomnessProvider)).to.not.be.undefined;
+
+      const bet = await coinFlip.getBet(betId);
+      expect(bet.status).to.equal(3); // still REFUNDED
+      expect(bet.payout.toString()).to.equal("0");
+    });
+
+    it("should not refund a bet whose failed callback awaits retryCallback", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      // Payout cap below the 1.96 ETH win makes the callback revert; the words are then public
+      const maxPayoutPerTx = await treasury.maxPayoutPerTx();
+      const { betId, requestId } = await placeBet(player1, HEADS, maxBet);
+      await treasury.setMaxPayoutPerTx(ethers.utils.parseEther("0.1"));
+      const tx = await vrfCoordinatorMock.fulfillRandomWordsWithOverride(requestId, randomnessProvider.address, [0]);
+      expect(findCallbackFailed(await tx.wait(), randomnessProvider)).to.not.be.undefined;
+      expect(await randomnessProvider.hasFailedCallback(requestId)).to.be.true;
+
+      await network.provider.send("evm_increaseTime", [refundTimeout]);
+      await network.provider.send("evm_mine", []);
+      expect(await coinFlip.isRefundable(betId)).to.be.false;
+      await mustRevert(coinFlip.connect(player1).claimRefund(betId), "CoinFlip__CallbackRetryPending");
+
+      await treasury.setMaxPayoutPerTx(maxPayoutPerTx);
+      await (await randomnessProvider.retryCallback(requestId)).wait();
+      expect(await randomnessProvider.hasFailedCallback(requestId)).to.be.false;
+      expect((await coinFlip.getBet(betId)).status).to.equal(2); // SETTLED
+    });
+
+    it("should revert refund for non-existent bet", async function () {
+      await mustRevert(coinFlip.connect(player1).claimRefund(99), "CoinFlip__BetNotFound");
+    });
+  });
+
+  describe("Treasury Integration", function () {
+    it("should revert if Treasury maxPayoutPerTx is too low (deterministic)", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      // 1 ETH * 2 * 0.98 = 1.96 ETH exceeds 0.1 ETH
+      await treasury.setMaxPayoutPerTx(ethers.utils.parseEther("0.1"));
+      const { requestId } = await placeBet(player1, HEADS, maxBet);
+
+      await mustRevert(fulfillAsProvider(coinFlip, randomnessProvider.address, requestId, 0));
+    });
+
+    it("should revert if CoinFlip is not authorized in Treasury (deterministic)", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      // Payout needs authorization, so the game cannot be removed while a bet is open
+      const { requestId } = await placeBet(player1, HEADS, minBet);
+      await mustRevert(treasury.setGame(coinFlip.address, false), "GameHasOpenBets");
+      await fulfillAsProvider(coinFlip, randomnessProvider.address, requestId, 0);
+
+      // Reserving liability in placeBet needs authorization
+      await treasury.setGame(coinFlip.address, false);
+      await mustRevert(placeBet(player2, HEADS, minBet), "NotGame");
+    });
+  });
+
+  describe("Getter Functions", function () {
+    it("should calculate payout correctly", async function () {
+      const betAmount = ethers.utils.parseEther("1");
+      bnEq(await coinFlip.calculatePayout(betAmount), ethers.utils.parseEther("1.96"), "Calculated payout");
+    });
+
+    it("should return player's recent bet", async function () {
+      await placeBet(player1, HEADS, minBet);
+      await placeBet(player1, TAILS, minBet);
+
+      const recentBet = await coinFlip.getPlayerRecentBet(player1.address);
+      expect(recentBet.betId.toString()).to.equal("2");
+      expect(recentBet.choice).to.equal(TAILS);
+    });
+
+    it("should return empty bet for player with no history", async function () {
+      const recentBet = await coinFlip.getPlayerRecentBet(player3.address);
+      expect(recentBet.betId.toString()).to.equal("0");
+      expect(recentBet.player).to.equal(ethers.constants.AddressZero);
+    });
+  });
+
+  describe("Multiple Bets", function () {
+    it("should handle multiple concurrent bets from different players", async function () {
+      await placeBet(player1, HEADS, minBet);
+      await placeBet(player2, TAILS, minBet);
+      await placeBet(player3, HEADS, minBet);
+
+      const bet1 = await coinFlip.getBet(1);
+      const bet2 = await coinFlip.getBet(2);
+      const bet3 = await coinFlip.getBet(3);
+
+      expect(bet1.player).to.equal(player1.address);
+      expect(bet2.player).to.equal(player2.address);
+      expect(bet3.player).to.equal(player3.address);
+
+      expect(bet1.choice).to.equal(HEADS);
+      expect(bet2.choice).to.equal(TAILS);
+      expect(bet3.choice).to.equal(HEADS);
+    });
+  });
+
+  describe("Token Bets", function () {
+    let token: any;
+    const stake = ethers.utils.parseEther("10");
+
+    beforeEach(async function () {
+      // Allowlisted, funded and given CoinFlip limits in Treasury by the deploy scripts
+      token = await ethers.getContract("MockToken");
+      await (await token.mint(player1.address, ethers.utils.parseEther("100"))).wait();
+      await (await token.connect(player1).approve(coinFlip.address, ethers.constants.MaxUint256)).wait();
+    });
+
+    async function placeTokenBet(amount: BigNumber, side: number) {
+      const receipt = await (await coinFlip.connect(player1).placeTokenBet(token.address, amount, side)).wait();
+      return receipt.events.find((e: any) => e.event === "RandomnessRequested").args;
+    }
+
+    it("should take the stake in tokens and pay a win in tokens", async function () {
+      const treasuryBefore = await token.balanceOf(treasury.address);
+      const { betId, requestId } = await placeTokenBet(stake, HEADS);
+
+      const bet = await coinFlip.getBet(betId);
+      expect(bet.token).to.equal(token.address);
+      bnEq(await token.balanceOf(treasury.address), treasuryBefore.add(stake), "Stake in Treasury");
+      const expectedPayout = stake.mul(2).mul(98).div(100);
+      bnEq((await treasury.getGameTokenConfig(coinFlip.address, token.address)).liability, expectedPayout, "Token liability");
+
+      // 2 % 2 = 0 -> heads -> win
+      await fulfillAsProvider(coinFlip, randomnessProvider.address, requestId, 2);
+
+      bnEq(await token.balanceOf(player1.address), ethers.utils.parseEther("90").add(expectedPayout), "Player tokens");
+      const config = await treasury.getGameTokenConfig(coinFlip.address, token.address);
+      bnEq(config.liability, BigNumber.from(0), "Liability released");
+      bnEq(config.deposited, stake, "Token deposits");
+      bnEq(config.paidOut, expectedPayout, "Token payouts");
+    });
+
+    it("should refund a stuck token bet in tokens", async function () {
+      const { betId } = await placeTokenBet(stake, TAILS);
+
+      await network.provider.send("evm_increaseTime", [refundTimeout]);
+      await network.provider.send("evm_mine", []);
+      await (await coinFlip.connect(player2).claimRefund(betId)).wait();
+
+      expect((await coinFlip.getBet(betId)).status).to.equal(3); // REFUNDED
+      bnEq(await token.balanceOf(player1.address), ethers.utils.parseEther("100"), "Player refunded");
+    });
+
+    it("should reject tokens Treasury does not allow and payouts above the token cap", async function () {
+      const Token = await ethers.getContractFactory("MockERC20");
+      const unlisted = await Token.deploy("Unlisted", "NOPE");
+      await unlisted.deployed();
+      await (await unlisted.mint(player1.address, stake)).wait();
+      await (await unlisted.connect(player1).approve(coinFlip.address, stake)).wait();
+
+      await mustRevert(
+        coinFlip.connect(player1).placeTokenBet(ethers.constants.AddressZero, stake, HEADS),
+        "CoinFlip__InvalidToken"
+      );
+      await mustRevert(coinFlip.connect(player1).placeTokenBet(unlisted.address, stake, HEADS), "TokenNotAllowed");
+      await mustRevert(coinFlip.connect(player1).placeTokenBet(token.address, 0, HEADS), "CoinFlip__BetTooLow");
+
+      // 1000 CHIP payout cap: 600 CHIP would pay 1176
+      await (await token.mint(player1.address, ethers.utils.parseEther("600"))).wait();
+      await mustRevert(
+        coinFlip.connect(player1).placeTokenBet(token.address, ethers.utils.parseEther("600"), HEADS),
+        "ExceedsMaxPayout"
+      );
+    });
+  });
+});
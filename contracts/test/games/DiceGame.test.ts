@@ -5,6 +5,17 @@ import { BigNumber } from "ethers";
 // Inline to avoid module resolution issues
 const developmentChains = ["hardhat", "localhost"];
 
+// DiceGame.BetMode
+const EXACT = 0;
+const ROLL_UNDER = 1;
+const ROLL_OVER = 2;
+const FACES = 3;
+
+// Bitmask for FACES bets: bit 0 = face 1 ... bit 5 = face 6
+function faceMask(faces: number[]) {
+  return faces.reduce((mask, face) => mask | (1 << (face - 1)), 0);
+}
+
 async function mustRevert(p: Promise<any>, contains?: string) {
   try {
     await p;
@@ -26,6 +37,35 @@ function bnEq(a: BigNumber, b: BigNumber, label?: string) {
   }
 }
 
+// RandomnessProvider catches a reverting game callback and emits CallbackFailed instead
+function findCallbackFailed(receipt: any, provider: any) {
+  return receipt.logs
+    .filter((log: any) => log.address === provider.address)
+    .map((log: any) => provider.interface.parseLog(log))
+    .find((parsed: any) => parsed.name === "CallbackFailed");
+}
+
+// Impersonate the RandomnessProvider and deliver a fixed random value to the game
+async function fulfillAsProvider(game: any, providerAddress: string, requestId: any, randomness: number) {
+  await network.provider.request({
+    method: "hardhat_impersonateAccount",
+    params: [providerAddress],
+  });
+  await network.provider.send("hardhat_setBalance", [
+    providerAddress,
+    ethers.utils.parseEther("1.0").toHexString(),
+  ]);
+  const providerSigner = await ethers.getSigner(providerAddress);
+  try {
+    return await (await game.connect(providerSigner).fulfillRandomness(requestId, randomness)).wait();
+  } finally {
+    await network.provider.request({
+      method: "hardhat_stopImpersonatingAccount",
+      params: [providerAddress],
+    });
+  }
+}
+
 describe("DiceGame Contract Tests", function () {
   let diceGame: any;
   let randomnessProvider: any;
@@ -38,6 +78,7 @@ describe("DiceGame Contract Tests", function () {
 
   const minBet = ethers.utils.parseEther("0.001");
   const maxBet = ethers.utils.parseEther("1");
+  const refundTimeout = 3600; // 1 hour
 
   beforeEach(async function () {
     await deployments.fixture(["all"]);
@@ -53,13 +94,20 @@ describe("DiceGame Contract Tests", function () {
       randomnessProvider.address,
       treasury.address,
       minBet,
-      maxBet
+      maxBet,
+      refundTimeout
     );
     await diceGame.deployed();
 
     // Authorize DiceGame as a game in Treasury
     await treasury.setGame(diceGame.address, true);
 
+    // Give DiceGame room for several max-bet wins (5.88 ETH each) at once
+    await treasury.setGameLimits(diceGame.address, ethers.utils.parseEther("20"), ethers.utils.parseEther("20"));
+
+    // Register DiceGame in RandomnessProvider
+    await randomnessProvider.setGame(diceGame.address, true);
+
     // Set Treasury maxPayoutPerTx to support max bet payout (1 ETH * 6 * 0.98 = 5.88 ETH)
     // Set to 10 ETH for safety margin
     await treasury.setMaxPayoutPerTx(ethers.utils.parseEther("10"));
@@ -82,6 +130,10 @@ describe("DiceGame Contract Tests", function () {
       bnEq(await diceGame.getMaxBet(), maxBet, "Max bet");
     });
 
+    it("should set refund timeout", async function () {
+      expect((await diceGame.getRefundTimeout()).toString()).to.equal(String(refundTimeout));
+    });
+
     it("should initialize bet counter to 1", async function () {
       const nextBetId = await diceGame.getNextBetId();
       expect(nextBetId.toString()).to.equal("1");
@@ -93,6 +145,8 @@ describe("DiceGame Contract Tests", function () {
       bnEq(config.maxBet, maxBet, "Config max bet");
       expect(config.multiplier.toString()).to.equal("6");
       expect(config.houseEdgeBps.toString()).to.equal("200"); // 2%
+      expect(config.maxUnderTarget).to.equal(5);
+      expect(config.minOverTarget).to.equal(2);
     });
   });
 
@@ -110,6 +164,7 @@ describe("DiceGame Contract Tests", function () {
       expect(betPlacedEvent.args.betId.toString()).to.equal("1");
       expect(betPlacedEvent.args.player).to.equal(player1.address);
       bnEq(betPlacedEvent.args.amount, betAmount, "Bet amount");
+      expect(betPlacedEvent.args.mode).to.equal(EXACT);
       expect(betPlacedEvent.args.choice).to.equal(choice);
 
       // Check RandomnessRequested event
@@ -158,6 +213,37 @@ describe("DiceGame Contract Tests", function () {
       const betCount = await diceGame.getPlayerBetCount(player1.address);
       expect(betCount.toString()).to.equal("2");
     });
+
+    it("should allow player to place a range bet", async function () {
+      const betAmount = ethers.utils.parseEther("0.1");
+
+      const tx = await diceGame.connect(player1).placeRangeBet(4, true, { value: betAmount });
+      const receipt = await tx.wait();
+
+      const betPlacedEvent = receipt.events.find((e: any) => e.event === "BetPlaced");
+      expect(betPlacedEvent.args.mode).to.equal(ROLL_OVER);
+      expect(betPlacedEvent.args.choice).to.equal(4);
+
+      const bet = await diceGame.getBet(1);
+      expect(bet.mode).to.equal(ROLL_OVER);
+      expect(bet.choice).to.equal(4);
+      expect(bet.status).to.equal(1); // CALCULATING
+    });
+
+    it("should allow player to place a multi-face bet", async function () {
+      const mask = faceMask([1, 3, 5]);
+
+      const tx = await diceGame.connect(player1).placeMultiFaceBet(mask, { value: minBet });
+      const receipt = await tx.wait();
+
+      const betPlacedEvent = receipt.events.find((e: any) => e.event === "BetPlaced");
+      expect(betPlacedEvent.args.mode).to.equal(FACES);
+      expect(betPlacedEvent.args.choice).to.equal(mask);
+
+      const bet = await diceGame.getBet(1);
+      expect(bet.mode).to.equal(FACES);
+      expect(bet.choice).to.equal(0x15);
+    });
   });
 
   describe("Place Bet - Validation", function () {
@@ -175,6 +261,48 @@ describe("DiceGame Contract Tests", function () {
       );
     });
 
+    it("should revert if roll-under target is 6 (always wins)", async function () {
+      await mustRevert(
+        diceGame.connect(player1).placeRangeBet(6, false, { value: minBet }),
+        "DiceGame__InvalidTarget"
+      );
+    });
+
+    it("should revert if roll-over target is 1 (always wins)", async function () {
+      await mustRevert(
+        diceGame.connect(player1).placeRangeBet(1, true, { value: minBet }),
+        "DiceGame__InvalidTarget"
+      );
+    });
+
+    it("should revert if range target is 0", async function () {
+      await mustRevert(
+        diceGame.connect(player1).placeRangeBet(0, false, { value: minBet }),
+        "DiceGame__InvalidTarget"
+      );
+    });
+
+    it("should revert if no face is selected", async function () {
+      await mustRevert(
+        diceGame.connect(player1).placeMultiFaceBet(0, { value: minBet }),
+        "DiceGame__EmptyFaceSelection"
+      );
+    });
+
+    it("should revert if face mask has bits beyond face 6", async function () {
+      await mustRevert(
+        diceGame.connect(player1).placeMultiFaceBet(0x41, { value: minBet }),
+        "DiceGame__InvalidFaceMask"
+      );
+    });
+
+    it("should revert if all six faces are selected", async function () {
+      await mustRevert(
+        diceGame.connect(player1).placeMultiFaceBet(faceMask([1, 2, 3, 4, 5, 6]), { value: minBet }),
+        "DiceGame__AllFacesSelected"
+      );
+    });
+
     it("should revert if bet amount is too low", async function () {
       const tooLow = minBet.sub(1);
       await mustRevert(
@@ -305,6 +433,84 @@ describe("DiceGame Contract Tests", function () {
       expect(bet.status).to.equal(2); // SETTLED
       expect(bet.diceResult).to.equal(5);
     });
+
+    it("should settle winning roll-under bet with probability-based payout (deterministic)", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      const betAmount = ethers.utils.parseEther("0.1");
+
+      // "roll <= 2": 2 winning faces -> 3x multiplier
+      const tx = await diceGame.connect(player1).placeRangeBet(2, false, { value: betAmount });
+      const receipt = await tx.wait();
+      const requestId = receipt.events.find((e: any) => e.event === "RandomnessRequested").args.requestId;
+
+      const playerBalanceBefore = await ethers.provider.getBalance(player1.address);
+
+      // Fixed randomness: dice = 2 (boundary is inclusive)
+      const fulfillReceipt = await fulfillAsProvider(diceGame, randomnessProvider.address, requestId, 1);
+
+      const settledEvent = fulfillReceipt.events.find((e: any) => e.event === "BetSettled");
+      expect(settledEvent.args.diceResult).to.equal(2);
+      expect(settledEvent.args.won).to.be.true;
+
+      // Expected payout: 0.1 * 6 / 2 * 0.98 = 0.294 ETH
+      const expectedPayout = betAmount.mul(6).mul(98).div(100).div(2);
+      const bet = await diceGame.getBet(1);
+      expect(bet.status).to.equal(2); // SETTLED
+      bnEq(bet.payout, expectedPayout, "Roll-under payout");
+
+      const playerBalanceAfter = await ethers.provider.getBalance(player1.address);
+      bnEq(playerBalanceAfter.sub(playerBalanceBefore), expectedPayout, "Player received payout");
+    });
+
+    it("should settle winning roll-over bet with probability-based payout (deterministic)", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      const betAmount = ethers.utils.parseEther("0.1");
+
+      // "roll >= 4": 3 winning faces -> 2x multiplier
+      const tx = await diceGame.connect(player1).placeRangeBet(4, true, { value: betAmount });
+      const receipt = await tx.wait();
+      const requestId = receipt.events.find((e: any) => e.event === "RandomnessRequested").args.requestId;
+
+      // Fixed randomness: dice = 6
+      await fulfillAsProvider(diceGame, randomnessProvider.address, requestId, 5);
+
+      // Expected payout: 0.1 * 6 / 3 * 0.98 = 0.196 ETH
+      const expectedPayout = betAmount.mul(6).mul(98).div(100).div(3);
+      const bet = await diceGame.getBet(1);
+      expect(bet.diceResult).to.equal(6);
+      bnEq(bet.payout, expectedPayout, "Roll-over payout");
+    });
+
+    it("should settle winning multi-face bet with 6/k payout (deterministic)", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      const betAmount = ethers.utils.parseEther("0.1");
+
+      // {1,3,5}: 3 faces -> 2x multiplier
+      const tx = await diceGame.connect(player1).placeMultiFaceBet(faceMask([1, 3, 5]), { value: betAmount });
+      const receipt = await tx.wait();
+      const requestId = receipt.events.find((e: any) => e.event === "RandomnessRequested").args.requestId;
+
+      // Fixed randomness: dice = 5
+      const fulfillReceipt = await fulfillAsProvider(diceGame, randomnessProvider.address, requestId, 4);
+
+      const settledEvent = fulfillReceipt.events.find((e: any) => e.event === "BetSettled");
+      expect(settledEvent.args.diceResult).to.equal(5);
+      expect(settledEvent.args.won).to.be.true;
+
+      // Expected payout: 0.1 * 6 / 3 * 0.98 = 0.196 ETH
+      const expectedPayout = betAmount.mul(6).mul(98).div(100).div(3);
+      bnEq(settledEvent.args.payout, expectedPayout, "Multi-face payout");
+      bnEq((await diceGame.getBet(1)).payout, expectedPayout, "Stored multi-face payout");
+    });
   });
 
   describe("Fulfill Randomness - Lose Path", function () {
@@ -359,6 +565,64 @@ describe("DiceGame Contract Tests", function () {
       const treasuryBalanceAfter = await ethers.provider.getBalance(treasury.address);
       bnEq(treasuryBalanceAfter, treasuryBalanceBefore, "Treasury balance unchanged");
     });
+
+    it("should settle losing roll-under bet with zero payout (deterministic)", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      // "roll <= 2", dice = 3 just misses the boundary
+      const tx = await diceGame.connect(player1).placeRangeBet(2, false, { value: ethers.utils.parseEther("0.1") });
+      const receipt = await tx.wait();
+      const requestId = receipt.events.find((e: any) => e.event === "RandomnessRequested").args.requestId;
+
+      const treasuryBalanceBefore = await ethers.provider.getBalance(treasury.address);
+      const fulfillReceipt = await fulfillAsProvider(diceGame, randomnessProvider.address, requestId, 2);
+
+      const settledEvent = fulfillReceipt.events.find((e: any) => e.event === "BetSettled");
+      expect(settledEvent.args.diceResult).to.equal(3);
+      expect(settledEvent.args.won).to.be.false;
+
+      const bet = await diceGame.getBet(1);
+      expect(bet.status).to.equal(2); // SETTLED
+      expect(bet.payout.toString()).to.equal("0");
+      bnEq(await ethers.provider.getBalance(treasury.address), treasuryBalanceBefore, "Treasury balance unchanged");
+    });
+
+    it("should settle losing roll-over bet with zero payout (deterministic)", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      // "roll >= 4", dice = 1
+      const tx = await diceGame.connect(player1).placeRangeBet(4, true, { value: ethers.utils.parseEther("0.1") });
+      const receipt = await tx.wait();
+      const requestId = receipt.events.find((e: any) => e.event === "RandomnessRequested").args.requestId;
+
+      await fulfillAsProvider(diceGame, randomnessProvider.address, requestId, 0);
+
+      const bet = await diceGame.getBet(1);
+      expect(bet.diceResult).to.equal(1);
+      expect(bet.payout.toString()).to.equal("0");
+    });
+
+    it("should settle losing multi-face bet with zero payout (deterministic)", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      // {1,3,5}, dice = 2
+      const tx = await diceGame.connect(player1).placeMultiFaceBet(faceMask([1, 3, 5]), { value: minBet });
+      const receipt = await tx.wait();
+      const requestId = receipt.events.find((e: any) => e.event === "RandomnessRequested").args.requestId;
+
+      const fulfillReceipt = await fulfillAsProvider(diceGame, randomnessProvider.address, requestId, 1);
+
+      const settledEvent = fulfillReceipt.events.find((e: any) => e.event === "BetSettled");
+      expect(settledEvent.args.diceResult).to.equal(2);
+      expect(settledEvent.args.won).to.be.false;
+      expect((await diceGame.getBet(1)).payout.toString()).to.equal("0");
+    });
   });
 
   describe("Fulfill Randomness - Security", function () {
@@ -445,10 +709,161 @@ describe("DiceGame Contract Tests", function () {
         params: [randomnessProvider.address],
       });
     });
+
+    it("should settle a winning bet whose player contract burns the payout gas", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      const Receiver = await ethers.getContractFactory("RejectingReceiverMock");
+      const receiver = await Receiver.deploy();
+      await receiver.deployed();
+      await (await receiver.setMode(1)).wait(); // BURN_GAS
+
+      const betAmount = ethers.utils.parseEther("0.1");
+      const receipt = await (
+        await receiver.execute(diceGame.address, diceGame.interface.encodeFunctionData("placeBet", [3]), {
+          value: betAmount,
+        })
+      ).wait();
+      const requested = receipt.logs
+        .filter((log: any) => log.address === diceGame.address)
+        .map((log: any) => diceGame.interface.parseLog(log))
+        .find((parsed: any) => parsed.name === "RandomnessRequested");
+
+      // dice = 2 % 6 + 1 = 3 -> win
+      await fulfillAsProvider(diceGame, randomnessProvider.address, requested.args.requestId, 2);
+
+      const bet = await diceGame.getBet(requested.args.betId);
+      expect(bet.status).to.equal(2); // SETTLED
+      const expectedPayout = betAmount.mul(6).mul(98).div(100);
+      bnEq(await treasury.pendingWithdrawals(receiver.address), expectedPayout, "Payout credited");
+    });
+  });
+
+  describe("Refund Stuck Bets", function () {
+    async function placeStuckBet(betAmount: BigNumber) {
+      // Randomness is requested from VRFCoordinatorMock but never fulfilled
+      const tx = await diceGame.connect(player1).placeBet(3, { value: betAmount });
+      const receipt = await tx.wait();
+      const randomnessEvent = receipt.events.find((e: any) => e.event === "RandomnessRequested");
+      return { betId: randomnessEvent.args.betId, requestId: randomnessEvent.args.requestId };
+    }
+
+    it("should revert refund before timeout", async function () {
+      const { betId } = await placeStuckBet(ethers.utils.parseEther("0.1"));
+
+      expect(await diceGame.isRefundable(betId)).to.be.false;
+      await mustRevert(diceGame.connect(player1).claimRefund(betId), "DiceGame__RefundTooEarly");
+    });
+
+    it("should refund stake to player after timeout (callable by anyone)", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      const betAmount = ethers.utils.parseEther("0.1");
+      const { betId } = await placeStuckBet(betAmount);
+
+      await network.provider.send("evm_increaseTime", [refundTimeout]);
+      await network.provider.send("evm_mine", []);
+      expect(await diceGame.isRefundable(betId)).to.be.true;
+
+      const playerBalanceBefore = await ethers.provider.getBalance(player1.address);
+      const treasuryBalanceBefore = await ethers.provider.getBalance(treasury.address);
+
+      // A third party triggers the refund, so player balance changes by exactly the stake
+      const tx = await diceGame.connect(player2).claimRefund(betId);
+      const receipt = await tx.wait();
+
+      const refundEvent = receipt.events.find((e: any) => e.event === "BetRefunded");
+      expect(refundEvent).to.not.be.undefined;
+      expect(refundEvent.args.betId.toString()).to.equal(betId.toString());
+      expect(refundEvent.args.player).to.equal(player1.address);
+      bnEq(refundEvent.args.amount, betAmount, "Refund amount");
+
+      const bet = await diceGame.getBet(betId);
+      expect(bet.status).to.equal(3); // REFUNDED
+
+      bnEq((await ethers.provider.getBalance(player1.address)).sub(playerBalanceBefore), betAmount, "Player refunded");
+      bnEq(treasuryBalanceBefore.sub(await ethers.provider.getBalance(treasury.address)), betAmount, "Treasury paid refund");
+    });
+
+    it("should not allow double refund", async function () {
+      const { betId } = await placeStuckBet(minBet);
+
+      await network.provider.send("evm_increaseTime", [refundTimeout]);
+      await network.provider.send("evm_mine", []);
+      await diceGame.connect(player1).claimRefund(betId);
+
+      await mustRevert(diceGame.connect(player1).claimRefund(betId), "DiceGame__NotRefundable");
+    });
+
+    it("should not settle a refunded bet when the VRF callback arrives late", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      const { betId, requestId } = await placeStuckBet(ethers.utils.parseEther("0.1"));
+
+      await network.provider.send("evm_increaseTime", [refundTimeout]);
+      await network.provider.send("evm_mine", []);
+      await diceGame.connect(player1).claimRefund(betId);
+
+      // Late fulfillment: game callback reverts (AlreadySettled) and the provider records the failure
+      const tx = await vrfCoordinatorMock.fulfillRandomWordsWithOverride(requestId, randomnessProvider.address, [2]);
+      const receipt = await tx.wait();
+      expect(findCallbackFailed(receipt, randomnessProvider)).to.not.be.undefined;
+
+      const bet = await diceGame.getBet(betId);
+      expect(bet.status).to.equal(3); // still REFUNDED
+      expect(bet.payout.toString()).to.equal("0");
+    });
+
+    it("should not refund a settled bet", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      const { betId, requestId } = await placeStuckBet(minBet);
+      await vrfCoordinatorMock.fulfillRandomWordsWithOverride(requestId, randomnessProvider.address, [0]);
+
+      await network.provider.send("evm_increaseTime", [refundTimeout]);
+      await network.provider.send("evm_mine", []);
+
+      expect(await diceGame.isRefundable(betId)).to.be.false;
+      await mustRevert(diceGame.connect(player1).claimRefund(betId), "DiceGame__NotRefundable");
+    });
+
+    it("should not refund a bet whose failed callback awaits retryCallback", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      // The 0.588 ETH win exceeds the cap, so the callback reverts and its word becomes public
+      const { betId, requestId } = await placeStuckBet(ethers.utils.parseEther("0.1"));
+      await treasury.setMaxPayoutPerTx(ethers.utils.parseEther("0.1"));
+      const tx = await vrfCoordinatorMock.fulfillRandomWordsWithOverride(requestId, randomnessProvider.address, [2]);
+      expect(findCallbackFailed(await tx.wait(), randomnessProvider)).to.not.be.undefined;
+      expect(await randomnessProvider.hasFailedCallback(requestId)).to.be.true;
+
+      await network.provider.send("evm_increaseTime", [refundTimeout]);
+      await network.provider.send("evm_mine", []);
+      expect(await diceGame.isRefundable(betId)).to.be.false;
+      await mustRevert(diceGame.connect(player1).claimRefund(betId), "DiceGame__CallbackRetryPending");
+
+      await treasury.setMaxPayoutPerTx(ethers.utils.parseEther("10"));
+      await (await randomnessProvider.retryCallback(requestId)).wait();
+      expect((await diceGame.getBet(betId)).status).to.equal(2); // SETTLED
+    });
+
+    it("should revert refund for non-existent bet", async function () {
+      await mustRevert(diceGame.connect(player1).claimRefund(99), "DiceGame__BetNotFound");
+    });
   });
 
   describe("Treasury Integration", function () {
-    it("should revert if Treasury maxPayoutPerTx is too low (deterministic)", async function () {
+    it("should revert if Treasury maxPayoutPerTx is too low and recover via retryCallback (deterministic)", async function () {
       if (!developmentChains.includes(network.name)) {
         this.skip();
       }
@@ -490,9 +905,49 @@ describe("DiceGame Contract Tests", function () {
         method: "hardhat_stopImpersonatingAccount",
         params: [randomnessProvider.address],
       });
+
+      // Through the coordinator the provider catches the revert and keeps the word
+      const fulfillTx = await vrfCoordinatorMock.fulfillRandomWordsWithOverride(
+        requestId,
+        randomnessProvider.address,
+        [fixedRandomness]
+      );
+      const failedEvent = findCallbackFailed(await fulfillTx.wait(), randomnessProvider);
+      expect(failedEvent).to.not.be.undefined;
+      expect(failedEvent.args.game).to.equal(diceGame.address);
+      expect((await diceGame.getBet(1)).status).to.equal(1); // CALCULATING
+      const storedWords = await randomnessProvider.getFailedCallbackWords(requestId);
+      expect(storedWords.length).to.equal(1);
+      bnEq(storedWords[0], BigNumber.from(fixedRandomness), "Stored word");
+
+      // Raise the limit and let anyone re-deliver the stored word
+      await treasury.setMaxPayoutPerTx(ethers.utils.parseEther("10"));
+      const playerBalanceBefore = await ethers.provider.getBalance(player1.address);
+      const retryTx = await randomnessProvider.connect(player2).retryCallback(requestId);
+      const retryReceipt = await retryTx.wait();
+      const retriedEvent = retryReceipt.events.find((e: any) => e.event === "CallbackRetried");
+      expect(retriedEvent.args.game).to.equal(diceGame.address);
+
+      const bet = await diceGame.getBet(1);
+      expect(bet.status).to.equal(2); // SETTLED
+      expect(bet.diceResult).to.equal(choice);
+      const expectedPayout = maxBet.mul(6).mul(98).div(100);
+      bnEq(bet.payout, expectedPayout, "Recovered payout");
+      bnEq(
+        await ethers.provider.getBalance(player1.address),
+        playerBalanceBefore.add(expectedPayout),
+        "Player balance after retry"
+      );
+
+      // The stored word is consumed by a successful retry
+      expect((await randomnessProvider.getFailedCallbackWords(requestId)).length).to.equal(0);
+      await mustRevert(
+        randomnessProvider.retryCallback(requestId),
+        "RandomnessProvider__NoFailedCallback"
+      );
     });
 
-    it("should revert if DiceGame is not authorized in Treasury (deterministic)", async function () {
+    it("should require Treasury authorization and keep it while a bet is open (deterministic)", async function () {
       if (!developmentChains.includes(network.name)) {
         this.skip();
       }
@@ -503,43 +958,107 @@ describe("DiceGame Contract Tests", function () {
         randomnessProvider.address,
         treasury.address,
         minBet,
-        maxBet
+        maxBet,
+        refundTimeout
       );
       await unauthorizedGame.deployed();
+      // Randomness requests are allowed; only Treasury access is missing
+      await randomnessProvider.setGame(unauthorizedGame.address, true);
 
-      // Place bet on unauthorized game
+      // Bets cannot even be placed: reserving liability requires authorization
       const choice = 3;
-      const tx = await unauthorizedGame.connect(player1).placeBet(choice, { value: minBet });
-      const receipt = await tx.wait();
+      await mustRevert(unauthorizedGame.connect(player1).placeBet(choice, { value: minBet }), "NotGame");
+
+      // Once authorized, the game cannot be removed while its bet holds liability: it could not pay out
+      await treasury.setGame(unauthorizedGame.address, true);
+      await treasury.setGameLimits(unauthorizedGame.address, ethers.utils.parseEther("20"), ethers.utils.parseEther("20"));
+      const receipt = await (await unauthorizedGame.connect(player1).placeBet(choice, { value: minBet })).wait();
+      await mustRevert(treasury.setGame(unauthorizedGame.address, false), "GameHasOpenBets");
 
       const randomnessEvent = receipt.events.find((e: any) => e.event === "RandomnessRequested");
       const requestId = randomnessEvent.args.requestId;
 
-      // Impersonate provider
-      await network.provider.request({
-        method: "hardhat_impersonateAccount",
-        params: [randomnessProvider.address],
-      });
-      const providerSigner = await ethers.getSigner(randomnessProvider.address);
-      
-      // Fund the provider account for gas (using hardhat_setBalance)
-      await network.provider.send("hardhat_setBalance", [
-        randomnessProvider.address,
-        ethers.utils.parseEther("1.0").toHexString(),
-      ]);
-
       // Use fixed randomness that will make player win (dice = 3)
       const fixedRandomness = 2; // 2 % 6 + 1 = 3
+      await vrfCoordinatorMock.fulfillRandomWordsWithOverride(requestId, randomnessProvider.address, [fixedRandomness]);
 
-      // This should revert because unauthorizedGame is not authorized in Treasury
-      await mustRevert(
-        unauthorizedGame.connect(providerSigner).fulfillRandomness(requestId, fixedRandomness)
+      const bet = await unauthorizedGame.getBet(1);
+      expect(bet.status).to.equal(2); // SETTLED
+      expect(bet.diceResult).to.equal(choice);
+      bnEq(bet.payout, minBet.mul(6).mul(98).div(100), "Payout");
+
+      // Settled, so it can be removed now
+      await treasury.setGame(unauthorizedGame.address, false);
+      await mustRevert(unauthorizedGame.connect(player2).placeBet(choice, { value: minBet }), "NotGame");
+    });
+  });
+
+  describe("Payout Circuit Breaker", function () {
+    it("should pause Treasury during a burst of wins and hold the rest until review (deterministic)", async function () {
+      if (!developmentChains.includes(network.name)) {
+        this.skip();
+      }
+
+      // Each winning 0.1 ETH exact bet pays 0.588 ETH; the budget covers two of them per hour
+      const betAmount = ethers.utils.parseEther("0.1");
+      const winPayout = betAmount.mul(6).mul(98).div(100);
+      const budget = winPayout.mul(2).add(ethers.utils.parseEther("0.01"));
+      await treasury.setPayoutBudget(budget, 3600);
+
+      const choice = 4;
+      const fixedRandomness = 3; // 3 % 6 + 1 = 4
+      const requestIds: any[] = [];
+      for (const player of [player1, player2, player3, player1]) {
+        const receipt = await (await diceGame.connect(player).placeBet(choice, { value: betAmount })).wait();
+        requestIds.push(receipt.events.find((e: any) => e.event === "RandomnessRequested").args.requestId);
+      }
+
+      // Two wins fit in the budget and are paid directly
+      for (const requestId of requestIds.slice(0, 2)) {
+        await (await vrfCoordinatorMock.fulfillRandomWordsWithOverride(requestId, randomnessProvider.address, [fixedRandomness])).wait();
+      }
+      expect(await treasury.paused()).to.equal(false);
+
+      // The third win overflows it: the bet settles, its payout is held and Treasury pauses
+      const player3Before = await ethers.provider.getBalance(player3.address);
+      const trippedTx = await vrfCoordinatorMock.fulfillRandomWordsWithOverride(
+        requestIds[2],
+        randomnessProvider.address,
+        [fixedRandomness]
+      );
+      const tripped = (await trippedTx.wait()).logs
+        .filter((log: any) => log.address === treasury.address)
+        .map((log: any) => treasury.interface.parseLog(log))
+        .find((parsed: any) => parsed.name === "CircuitBreakerTripped");
+      expect(tripped.args.game).to.equal(diceGame.address);
+      bnEq(tripped.args.amount, winPayout, "Tripping payout");
+      expect(await treasury.paused()).to.equal(true);
+      expect((await diceGame.getBet(3)).status).to.equal(2); // SETTLED
+      bnEq(await treasury.totalHeldPayouts(), winPayout, "Held payout");
+      bnEq(await ethers.provider.getBalance(player3.address), player3Before, "Nothing sent while tripped");
+
+      // Further wins still settle while tripped, but are held as well; new bets are stopped
+      const heldTx = await vrfCoordinatorMock.fulfillRandomWordsWithOverride(
+        requestIds[3],
+        randomnessProvider.address,
+        [fixedRandomness]
       );
+      expect(findCallbackFailed(await heldTx.wait(), randomnessProvider)).to.be.undefined;
+      const bet = await diceGame.getBet(4);
+      expect(bet.status).to.equal(2); // SETTLED
+      bnEq(bet.payout, winPayout, "Held win");
+      bnEq(await treasury.totalHeldPayouts(), winPayout.mul(2), "Second held payout");
+      await mustRevert(diceGame.connect(player2).placeBet(choice, { value: betAmount }), "Pausable: paused");
 
-      await network.provider.request({
-        method: "hardhat_stopImpersonatingAccount",
-        params: [randomnessProvider.address],
-      });
+      // After review the pauser releases the held payouts and unpauses, so they are claimable
+      for (const heldPayoutId of await treasury.getHeldPayoutIds()) {
+        await (await treasury.releaseHeldPayout(heldPayoutId)).wait();
+      }
+      await (await treasury.unpause()).wait();
+      for (const player of [player3, player1]) {
+        await (await treasury.connect(player).claimPayout(player.address)).wait();
+        bnEq(await treasury.pendingWithdrawals(player.address), BigNumber.from(0), "Claimed");
+      }
     });
   });
 
@@ -562,10 +1081,36 @@ describe("DiceGame Contract Tests", function () {
       const betAmount = ethers.utils.parseEther("1");
       const expectedPayout = betAmount.mul(6).mul(98).div(100); // 5.88 ETH
 
-      const calculatedPayout = await diceGame.calculatePayout(betAmount);
+      const calculatedPayout = await diceGame.calculatePayout(betAmount, EXACT, 3);
       bnEq(calculatedPayout, expectedPayout, "Calculated payout");
     });
 
+    it("should calculate range payouts from win probability", async function () {
+      const betAmount = ethers.utils.parseEther("1");
+      const exactPayout = betAmount.mul(6).mul(98).div(100);
+
+      // roll <= 1 is as likely as an exact guess
+      bnEq(await diceGame.calculatePayout(betAmount, ROLL_UNDER, 1), exactPayout, "Roll <= 1");
+      // roll <= 3 and roll >= 4 both have 3 winning faces
+      bnEq(await diceGame.calculatePayout(betAmount, ROLL_UNDER, 3), exactPayout.div(3), "Roll <= 3");
+      bnEq(await diceGame.calculatePayout(betAmount, ROLL_OVER, 4), exactPayout.div(3), "Roll >= 4");
+      // roll >= 2 has 5 winning faces
+      bnEq(await diceGame.calculatePayout(betAmount, ROLL_OVER, 2), exactPayout.div(5), "Roll >= 2");
+
+      await mustRevert(diceGame.calculatePayout(betAmount, ROLL_OVER, 1), "DiceGame__InvalidTarget");
+    });
+
+    it("should calculate multi-face payouts as 6/k", async function () {
+      const betAmount = ethers.utils.parseEther("1");
+      const exactPayout = betAmount.mul(6).mul(98).div(100);
+
+      bnEq(await diceGame.calculatePayout(betAmount, FACES, faceMask([6])), exactPayout, "1 face");
+      bnEq(await diceGame.calculatePayout(betAmount, FACES, faceMask([2, 4])), exactPayout.div(2), "2 faces");
+      bnEq(await diceGame.calculatePayout(betAmount, FACES, faceMask([1, 2, 3, 4, 5])), exactPayout.div(5), "5 faces");
+
+      await mustRevert(diceGame.calculatePayout(betAmount, FACES, 0), "DiceGame__EmptyFaceSelection");
+    });
+
     it("should return player's recent bet", async function () {
       await diceGame.connect(player1).placeBet(1, { value: minBet });
       await diceGame.connect(player1).placeBet(2, { value: minBet });
@@ -603,4 +1148,84 @@ describe("DiceGame Contract Tests", function () {
       expect(bet3.choice).to.equal(3);
     });
   });
+
+  describe("Token Bets", function () {
+    let token: any;
+    const stake = ethers.utils.parseEther("10");
+
+    beforeEach(async function () {
+      // Allowlisted and funded in Treasury by the deploy scripts; limits for this test's DiceGame
+      token = await ethers.getContract("MockToken");
+      await (
+        await treasury.setGameTokenLimits(
+          diceGame.address,
+          token.address,
+          ethers.utils.parseEther("1000"),
+          ethers.utils.parseEther("2000")
+        )
+      ).wait();
+      await (await token.mint(player1.address, ethers.utils.parseEther("100"))).wait();
+      await (await token.connect(player1).approve(diceGame.address, ethers.constants.MaxUint256)).wait();
+    });
+
+    async function placeTokenBet(amount: BigNumber, choice: number) {
+      const receipt = await (await diceGame.connect(player1).placeTokenBet(token.address, amount, EXACT, choice)).wait();
+      return receipt.events.find((e: any) => e.event === "RandomnessRequested").args;
+    }
+
+    it("should take the stake in tokens and pay a win in tokens", async function () {
+      const treasuryBefore = await token.balanceOf(treasury.address);
+      const { betId, requestId } = await placeTokenBet(stake, 3);
+
+      const bet = await diceGame.getBet(betId);
+      expect(bet.token).to.equal(token.address);
+      bnEq(await token.balanceOf(treasury.address), treasuryBefore.add(stake), "Stake in Treasury");
+      const expectedPayout = stake.mul(6).mul(98).div(100);
+      bnEq((await treasury.getGameTokenConfig(diceGame.address, token.address)).liability, expectedPayout, "Token liability");
+
+      // dice = 2 % 6 + 1 = 3 -> win
+      await fulfillAsProvider(diceGame, randomnessProvider.address, requestId, 2);
+
+      bnEq(await token.balanceOf(player1.address), ethers.utils.parseEther("90").add(expectedPayout), "Player tokens");
+      bnEq((await treasury.getGameTokenConfig(diceGame.address, token.address)).liability, BigNumber.from(0), "Liability released");
+      bnEq((await diceGame.getBet(betId)).payout, expectedPayout, "Bet payout");
+      // The stake and payout are attributed to DiceGame in its token P&L
+      const config = await treasury.getGameTokenConfig(diceGame.address, token.address);
+      bnEq(config.deposited, stake, "Token deposits");
+      bnEq(config.paidOut, expectedPayout, "Token payouts");
+    });
+
+    it("should refund a stuck token bet in tokens", async function () {
+      const { betId } = await placeTokenBet(stake, 3);
+
+      await network.provider.send("evm_increaseTime", [refundTimeout]);
+      await network.provider.send("evm_mine", []);
+      await (await diceGame.connect(player2).claimRefund(betId)).wait();
+
+      expect((await diceGame.getBet(betId)).status).to.equal(3); // REFUNDED
+      bnEq(await token.balanceOf(player1.address), ethers.utils.parseEther("100"), "Player refunded");
+    });
+
+    it("should reject tokens Treasury does not allow and payouts above the token cap", async function () {
+      const Token = await ethers.getContractFactory("MockERC20");
+      const unlisted = await Token.deploy("Unlisted", "NOPE");
+      await unlisted.deployed();
+      await (await unlisted.mint(player1.address, stake)).wait();
+      await (await unlisted.connect(player1).approve(diceGame.address, stake)).wait();
+
+      await mustRevert(
+        diceGame.connect(player1).placeTokenBet(ethers.constants.AddressZero, stake, EXACT, 3),
+        "DiceGame__InvalidToken"
+      );
+      await mustRevert(diceGame.connect(player1).placeTokenBet(unlisted.address, stake, EXACT, 3), "TokenNotAllowed");
+      await mustRevert(diceGame.connect(player1).placeTokenBet(token.address, 0, EXACT, 3), "DiceGame__BetTooLow");
+
+      // 1000 CHIP payout cap: 200 CHIP on one face would pay 1176
+      await (await token.mint(player1.address, ethers.utils.parseEther("200"))).wait();
+      await mustRevert(
+        diceGame.connect(player1).placeTokenBet(token.address, ethers.utils.parseEther("200"), EXACT, 3),
+        "ExceedsMaxPayout"
+      );
+    });
+  });
 });
@@ -27,6 +27,14 @@ function bnEq(a: BigNumber, b: BigNumber, label?: string) {
   }
 }
 
+// RandomnessProvider catches a reverting game callback and emits CallbackFailed instead
+function findCallbackFailed(receipt: any, provider: any) {
+  return receipt.logs
+    .filter((log: any) => log.address === provider.address)
+    .map((log: any) => provider.interface.parseLog(log))
+    .find((parsed: any) => parsed.name === "CallbackFailed");
+}
+
 describe("Raffle Contract Tests", function () {
   let raffle: any;
   let randomnessProvider: any;
@@ -39,6 +47,11 @@ describe("Raffle Contract Tests", function () {
 
   const entranceFee = ethers.utils.parseEther("0.01");
   const interval = 60; // 60 seconds
+  const vrfTimeout = 600; // 10 minutes
+  const rakeBps = 500; // 5%
+
+  // Prize pool left for winners after the Treasury rake
+  const netOf = (pool: BigNumber) => pool.sub(pool.mul(rakeBps).div(10000));
 
   beforeEach(async function () {
     await deployments.fixture(["all"]);
@@ -54,12 +67,14 @@ describe("Raffle Contract Tests", function () {
     const subscriptionId = "1";
     const keyHash = "0x787d74caea10b2b357790d5b5247c2f63d1d91572a9846f780606e4d953677ae";
     const callbackGasLimit = 500000;
+    const nativePayment = true;
     
     randomnessProvider = await RandomnessProvider.deploy(
       subscriptionId,
       vrfCoordinatorMock.address,
       keyHash,
-      callbackGasLimit
+      callbackGasLimit,
+      nativePayment
     );
     await randomnessProvider.deployed();
     
@@ -69,13 +84,18 @@ describe("Raffle Contract Tests", function () {
       randomnessProvider.address,
       treasury.address,
       entranceFee,
-      interval
+      interval,
+      vrfTimeout,
+      rakeBps
     );
     await raffle.deployed();
 
     // Authorize Raffle as a game in Treasury
     await treasury.setGame(raffle.address, true);
 
+    // Register Raffle in RandomnessProvider
+    await randomnessProvider.setGame(raffle.address, true);
+
     // Fund Treasury
     await owner.sendTransaction({
       to: treasury.address,
@@ -94,6 +114,22 @@ describe("Raffle Contract Tests", function () {
       bnEq(await raffle.getInterval(), BigNumber.from(interval), "Interval");
     });
 
+    it("should expose the raffle config", async function () {
+      const config = await raffle.getRaffleConfig();
+      bnEq(config.entranceFee, entranceFee, "Entrance fee");
+      bnEq(config.interval, BigNumber.from(interval), "Interval");
+      bnEq(config.vrfTimeout, BigNumber.from(vrfTimeout), "VRF timeout");
+      bnEq(config.rakeBps, BigNumber.from(rakeBps), "Rake");
+    });
+
+    it("should reject a rake above the cap", async function () {
+      const Raffle = await ethers.getContractFactory("Raffle");
+      await mustRevert(
+        Raffle.deploy(randomnessProvider.address, treasury.address, entranceFee, interval, vrfTimeout, 2001),
+        "Rake too high"
+      );
+    });
+
     it("should have initial round in OPEN state", async function () {
       const round = await raffle.getCurrentRound();
       expect(round.state.toString()).to.equal("0"); // OPEN = 0
@@ -102,7 +138,7 @@ describe("Raffle Contract Tests", function () {
 
   describe("Enter Raffle", function () {
     it("should allow players to enter with correct fee", async function () {
-      const tx = await raffle.connect(player1).enterRaffle({ value: entranceFee });
+      const tx = await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
       const receipt = await tx.wait();
       
       // Check event was emitted
@@ -111,20 +147,77 @@ describe("Raffle Contract Tests", function () {
       expect(event.args.roundId.toString()).to.equal("1");
       expect(event.args.player).to.equal(player1.address);
       bnEq(event.args.amount, entranceFee, "Event amount");
+      expect(event.args.tickets.toString()).to.equal("1");
 
       expect((await raffle.getNumberOfPlayers()).toString()).to.equal("1");
     });
 
     it("should revert if entrance fee is too low", async function () {
       await mustRevert(
-        raffle.connect(player1).enterRaffle({ value: entranceFee.div(2) }),
-        "Raffle__NotEnoughETHEntered"
+        raffle.connect(player1).enterRaffle(1, { value: entranceFee.div(2) }),
+        "Raffle__IncorrectPayment"
       );
     });
 
+    it("should revert on overpayment", async function () {
+      await mustRevert(
+        raffle.connect(player1).enterRaffle(1, { value: entranceFee.mul(2) }),
+        "Raffle__IncorrectPayment"
+      );
+    });
+
+    it("should revert when buying zero tickets", async function () {
+      await mustRevert(raffle.connect(player1).enterRaffle(0, { value: 0 }), "Raffle__InvalidTicketCount");
+    });
+
+    it("should buy multiple tickets in one transaction", async function () {
+      const tx = await raffle.connect(player1).enterRaffle(5, { value: entranceFee.mul(5) });
+      const receipt = await tx.wait();
+
+      const event = receipt.events.find((e: any) => e.event === "RaffleEntered");
+      expect(event.args.tickets.toString()).to.equal("5");
+      bnEq(event.args.amount, entranceFee.mul(5), "Event amount");
+
+      expect((await raffle.getTotalTickets()).toString()).to.equal("5");
+      expect((await raffle.getPlayerTickets(1, player1.address)).toString()).to.equal("5");
+      expect((await raffle.getNumberOfPlayers()).toString()).to.equal("1");
+
+      const round = await raffle.getCurrentRound();
+      bnEq(round.prizePool, entranceFee.mul(5), "Prize pool");
+      expect(round.totalTickets.toString()).to.equal("5");
+    });
+
+    it("should record tickets as ranges and merge consecutive buys", async function () {
+      await raffle.connect(player1).enterRaffle(2, { value: entranceFee.mul(2) });
+      await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
+      await raffle.connect(player2).enterRaffle(3, { value: entranceFee.mul(3) });
+      await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
+
+      // player1 [0,3), player2 [3,6), player1 [6,7)
+      expect((await raffle.getNumberOfPlayers()).toString()).to.equal("2");
+      expect((await raffle.getTotalTickets()).toString()).to.equal("7");
+      expect((await raffle.getPlayerTickets(1, player1.address)).toString()).to.equal("4");
+      expect((await raffle.getPlayerTickets(1, player2.address)).toString()).to.equal("3");
+
+      const owners = [];
+      for (let t = 0; t < 7; t++) {
+        owners.push(await raffle.getTicketOwner(1, t));
+      }
+      expect(owners).to.deep.equal([
+        player1.address,
+        player1.address,
+        player1.address,
+        player2.address,
+        player2.address,
+        player2.address,
+        player1.address,
+      ]);
+      await mustRevert(raffle.getTicketOwner(1, 7), "Invalid ticket");
+    });
+
     it("should revert if raffle is not open", async function () {
       // Enter players
-      await raffle.connect(player1).enterRaffle({ value: entranceFee });
+      await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
       
       // Fast forward time
       await network.provider.send("evm_increaseTime", [interval + 1]);
@@ -135,15 +228,15 @@ describe("Raffle Contract Tests", function () {
 
       // Now try to enter - should fail
       await mustRevert(
-        raffle.connect(player2).enterRaffle({ value: entranceFee }),
+        raffle.connect(player2).enterRaffle(1, { value: entranceFee }),
         "Raffle__NotOpen"
       );
     });
 
     it("should accumulate prize pool correctly", async function () {
-      await raffle.connect(player1).enterRaffle({ value: entranceFee });
-      await raffle.connect(player2).enterRaffle({ value: entranceFee });
-      await raffle.connect(player3).enterRaffle({ value: entranceFee });
+      await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
+      await raffle.connect(player2).enterRaffle(1, { value: entranceFee });
+      await raffle.connect(player3).enterRaffle(1, { value: entranceFee });
 
       const round = await raffle.getCurrentRound();
       bnEq(round.prizePool, entranceFee.mul(3), "Prize pool");
@@ -152,7 +245,7 @@ describe("Raffle Contract Tests", function () {
 
   describe("Upkeep", function () {
     it("should return false if time has not passed", async function () {
-      await raffle.connect(player1).enterRaffle({ value: entranceFee });
+      await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
 
       const [upkeepNeeded] = await raffle.checkUpkeep("0x");
       expect(upkeepNeeded).to.be.false;
@@ -167,7 +260,7 @@ describe("Raffle Contract Tests", function () {
     });
 
     it("should return true when all conditions are met", async function () {
-      await raffle.connect(player1).enterRaffle({ value: entranceFee });
+      await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
       
       await network.provider.send("evm_increaseTime", [interval + 1]);
       await network.provider.send("evm_mine", []);
@@ -177,12 +270,78 @@ describe("Raffle Contract Tests", function () {
     });
   });
 
+  describe("Player Limits", function () {
+    it("should default to one player minimum and no cap", async function () {
+      const limits = await raffle.getPlayerLimits();
+      expect(limits.minPlayers.toString()).to.equal("1");
+      expect(limits.maxPlayers.toString()).to.equal("0");
+    });
+
+    it("should let the owner configure player limits", async function () {
+      const tx = await raffle.setPlayerLimits(2, 3);
+      const receipt = await tx.wait();
+      const event = receipt.events.find((e: any) => e.event === "PlayerLimitsUpdated");
+      expect(event.args.minPlayers.toString()).to.equal("2");
+      expect(event.args.maxPlayers.toString()).to.equal("3");
+    });
+
+    it("should reject invalid player limits", async function () {
+      await mustRevert(raffle.connect(player1).setPlayerLimits(2, 3), "Ownable: caller is not the owner");
+      await mustRevert(raffle.setPlayerLimits(0, 3), "Raffle__InvalidPlayerLimits");
+      await mustRevert(raffle.setPlayerLimits(3, 2), "Raffle__InvalidPlayerLimits");
+
+      await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
+      await mustRevert(raffle.setPlayerLimits(2, 3), "Raffle__RoundInProgress");
+    });
+
+    it("should extend the round until minPlayers is reached", async function () {
+      await raffle.setPlayerLimits(2, 0);
+      // One player with many tickets is still one player
+      await raffle.connect(player1).enterRaffle(3, { value: entranceFee.mul(3) });
+
+      await network.provider.send("evm_increaseTime", [interval + 1]);
+      await network.provider.send("evm_mine", []);
+
+      const [upkeepNeeded] = await raffle.checkUpkeep("0x");
+      expect(upkeepNeeded).to.be.false;
+
+      // performUpkeep resets the timer instead of drawing
+      const startBefore = await raffle.getLastRaffleTime();
+      await raffle.performUpkeep("0x");
+      expect((await raffle.getRaffleState()).toString()).to.equal("0"); // still OPEN
+      expect((await raffle.getLastRaffleTime()).gt(startBefore)).to.be.true;
+
+      await raffle.connect(player2).enterRaffle(1, { value: entranceFee });
+      await network.provider.send("evm_increaseTime", [interval + 1]);
+      await network.provider.send("evm_mine", []);
+
+      const [upkeepNow] = await raffle.checkUpkeep("0x");
+      expect(upkeepNow).to.be.true;
+    });
+
+    it("should reject new players beyond maxPlayers", async function () {
+      await raffle.setPlayerLimits(1, 2);
+      await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
+      await raffle.connect(player2).enterRaffle(1, { value: entranceFee });
+
+      await mustRevert(
+        raffle.connect(player3).enterRaffle(1, { value: entranceFee }),
+        "Raffle__RoundFull"
+      );
+
+      // Existing players can still buy more tickets
+      await raffle.connect(player1).enterRaffle(2, { value: entranceFee.mul(2) });
+      expect((await raffle.getNumberOfPlayers()).toString()).to.equal("2");
+      expect((await raffle.getTotalTickets()).toString()).to.equal("4");
+    });
+  });
+
   describe("Complete Flow (with VRF Mock)", function () {
     it("should complete full round: enter → draw → payout", async function () {
       // Players enter
-      await raffle.connect(player1).enterRaffle({ value: entranceFee });
-      await raffle.connect(player2).enterRaffle({ value: entranceFee });
-      await raffle.connect(player3).enterRaffle({ value: entranceFee });
+      await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
+      await raffle.connect(player2).enterRaffle(1, { value: entranceFee });
+      await raffle.connect(player3).enterRaffle(1, { value: entranceFee });
 
       // Fast forward time
       await network.provider.send("evm_increaseTime", [interval + 1]);
@@ -205,10 +364,11 @@ describe("Raffle Contract Tests", function () {
       // Check winner was picked
       const round = await raffle.getRound(1);
       expect(round.state.toString()).to.equal("2"); // SETTLED = 2
-      expect(round.winner).to.not.equal(ethers.constants.AddressZero);
+      expect(round.winners.length).to.equal(1);
+      bnEq(round.prizes[0], netOf(entranceFee.mul(3)), "Single winner takes the net pool");
 
       // Verify winner is one of the players
-      const winner = round.winner;
+      const winner = round.winners[0];
       const isValidWinner = [player1.address, player2.address, player3.address].includes(winner);
       expect(isValidWinner).to.be.true;
 
@@ -220,22 +380,443 @@ describe("Raffle Contract Tests", function () {
     });
   });
 
+  describe("Rake", function () {
+    it("should retain the rake in Treasury when a round settles", async function () {
+      await raffle.connect(player1).enterRaffle(2, { value: entranceFee.mul(2) });
+      await raffle.connect(player2).enterRaffle(2, { value: entranceFee.mul(2) });
+      const pool = entranceFee.mul(4);
+      const rake = pool.mul(rakeBps).div(10000);
+      const treasuryBefore = await ethers.provider.getBalance(treasury.address);
+
+      await network.provider.send("evm_increaseTime", [interval + 1]);
+      await network.provider.send("evm_mine", []);
+      const tx = await raffle.performUpkeep("0x");
+      const receipt = await tx.wait();
+      const requestId = receipt.events.find((e: any) => e.event === "RandomnessRequested").args.requestId;
+      const fulfillReceipt = await (
+        await vrfCoordinatorMock.fulfillRandomWords(requestId, randomnessProvider.address)
+      ).wait();
+
+      const treasuryAfter = await ethers.provider.getBalance(treasury.address);
+      bnEq(treasuryAfter.sub(treasuryBefore), rake, "Treasury keeps the rake");
+
+      const [, prizes] = await raffle.getWinners(1);
+      bnEq(prizes[0], pool.sub(rake), "Winner gets the net pool");
+
+      const rakeTopic = raffle.interface.getEventTopic("RakeCollected");
+      const rakeLog = fulfillReceipt.logs.find(
+        (l: any) => l.address === raffle.address && l.topics[0] === rakeTopic
+      );
+      expect(rakeLog).to.not.be.undefined;
+      const args = raffle.interface.parseLog(rakeLog).args;
+      expect(args.roundId.toString()).to.equal("1");
+      bnEq(args.amount, rake, "RakeCollected amount");
+
+      // The pool is deposited as the raffle's own, so the rake is its Treasury profit
+      const pnl = await treasury.getGameProfitAndLoss(raffle.address);
+      bnEq(pnl.totalIn, pool, "Raffle total in");
+      bnEq(pnl.totalOut, pool.sub(rake), "Raffle total out");
+      bnEq(pnl.net, rake, "Raffle net");
+    });
+  });
+
+  describe("Multiple Winners", function () {
+    const splits = [6000, 3000, 1000];
+
+    // Settle the round with one word per prize tier
+    async function drawRound(words: number[]) {
+      await network.provider.send("evm_increaseTime", [interval + 1]);
+      await network.provider.send("evm_mine", []);
+      const tx = await raffle.performUpkeep("0x");
+      const receipt = await tx.wait();
+      const requestId = receipt.events.find((e: any) => e.event === "RandomnessRequested").args.requestId;
+      const fulfillTx = await vrfCoordinatorMock.fulfillRandomWordsWithOverride(
+        requestId,
+        randomnessProvider.address,
+        words
+      );
+      return fulfillTx.wait();
+    }
+
+    it("should default to a single winner taking the whole pool", async function () {
+      const current = await raffle.getPrizeSplits();
+      expect(current.map((x: any) => Number(x))).to.deep.equal([10000]);
+    });
+
+    it("should let the owner configure prize splits", async function () {
+      const tx = await raffle.setPrizeSplits(splits);
+      const receipt = await tx.wait();
+      expect(receipt.events.find((e: any) => e.event === "PrizeSplitsUpdated")).to.not.be.undefined;
+
+      const current = await raffle.getPrizeSplits();
+      expect(current.map((x: any) => Number(x))).to.deep.equal(splits);
+    });
+
+    it("should reject invalid prize splits", async function () {
+      await mustRevert(raffle.connect(player1).setPrizeSplits(splits), "Ownable: caller is not the owner");
+      await mustRevert(raffle.setPrizeSplits([]), "Raffle__InvalidPrizeSplits");
+      await mustRevert(raffle.setPrizeSplits([6000, 3000]), "Raffle__InvalidPrizeSplits");
+      await mustRevert(raffle.setPrizeSplits([10000, 0]), "Raffle__InvalidPrizeSplits");
+      await mustRevert(
+        raffle.setPrizeSplits([5000, 2000, 1000, 1000, 500, 500]),
+        "Raffle__InvalidPrizeSplits"
+      );
+    });
+
+    it("should not change splits once the round has entries", async function () {
+      await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
+      await mustRevert(raffle.setPrizeSplits(splits), "Raffle__RoundInProgress");
+    });
+
+    it("should pay distinct winners per tier", async function () {
+      await raffle.setPrizeSplits(splits);
+      const players = [player1, player2, player3];
+      for (const p of players) {
+        await raffle.connect(p).enterRaffle(1, { value: entranceFee });
+      }
+      const pool = netOf(entranceFee.mul(3));
+      const balancesBefore = await Promise.all(players.map((p) => p.getBalance()));
+
+      const receipt = await drawRound([12345, 23456, 34567]);
+
+      const round = await raffle.getRound(1);
+      expect(round.state).to.equal(2); // SETTLED
+      expect(round.winners.length).to.equal(3);
+      expect(new Set(round.winners).size).to.equal(3); // one tier per player
+
+      const [winners, prizes] = await raffle.getWinners(1);
+      expect(winners).to.deep.equal(round.winners);
+      bnEq(prizes[0], pool.mul(6000).div(10000), "First place");
+      bnEq(prizes[1], pool.mul(3000).div(10000), "Second place");
+      bnEq(prizes[2], pool.mul(1000).div(10000), "Third place");
+
+      // Each winner received their prize
+      for (let i = 0; i < players.length; i++) {
+        const tier = winners.indexOf(players[i].address);
+        const balanceAfter = await players[i].getBalance();
+        bnEq(balanceAfter.sub(balancesBefore[i]), prizes[tier], `Player ${i + 1} prize`);
+      }
+
+      // One WinnerPicked per tier, emitted through the provider callback
+      const winnerTopic = raffle.interface.getEventTopic("WinnerPicked");
+      const picked = receipt.logs
+        .filter((l: any) => l.address === raffle.address && l.topics[0] === winnerTopic)
+        .map((l: any) => raffle.interface.parseLog(l).args);
+      expect(picked.length).to.equal(3);
+      picked.forEach((args: any, i: number) => {
+        expect(args.rank).to.equal(i + 1);
+        expect(args.winner).to.equal(winners[i]);
+        bnEq(args.amount, prizes[i], `WinnerPicked amount ${i + 1}`);
+      });
+
+      expect(await raffle.getRecentWinner()).to.equal(winners[0]);
+    });
+
+    it("should request one word per tier, capped at the number of players", async function () {
+      await raffle.setPrizeSplits(splits);
+      await raffle.connect(player1).enterRaffle(5, { value: entranceFee.mul(5) });
+      await raffle.connect(player2).enterRaffle(1, { value: entranceFee });
+      await network.provider.send("evm_increaseTime", [interval + 1]);
+      await network.provider.send("evm_mine", []);
+
+      const receipt = await (await raffle.performUpkeep("0x")).wait();
+      const requestId = receipt.events.find((e: any) => e.event === "RandomnessRequested").args.requestId;
+      const request = await vrfCoordinatorMock.getRequest(requestId);
+      expect(request.numWords).to.equal(2);
+    });
+
+    it("should give unfilled tiers to first place when players are short", async function () {
+      await raffle.setPrizeSplits(splits);
+      await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
+      await raffle.connect(player2).enterRaffle(1, { value: entranceFee });
+      const pool = netOf(entranceFee.mul(2));
+
+      await drawRound([777, 778]);
+
+      const [winners, prizes] = await raffle.getWinners(1);
+      expect(winners.length).to.equal(2);
+      expect(winners[0]).to.not.equal(winners[1]);
+      bnEq(prizes[1], pool.mul(3000).div(10000), "Second place");
+      bnEq(prizes[0], pool.sub(prizes[1]), "First place keeps the rest");
+    });
+
+    it("should pay the owner of the drawn ticket", async function () {
+      await raffle.connect(player1).enterRaffle(3, { value: entranceFee.mul(3) });
+      await raffle.connect(player2).enterRaffle(4, { value: entranceFee.mul(4) });
+      await raffle.connect(player3).enterRaffle(1, { value: entranceFee });
+
+      const word = 424242;
+      const expected = await raffle.getTicketOwner(1, word % 8);
+
+      await drawRound([word]);
+
+      const [winners, prizes] = await raffle.getWinners(1);
+      expect(winners).to.deep.equal([expected]);
+      bnEq(prizes[0], netOf(entranceFee.mul(8)), "Whole net pool");
+    });
+
+    it("should not let a player holding most tickets take two tiers", async function () {
+      await raffle.setPrizeSplits([5000, 3000, 2000]);
+      // Ticket 0 is player1's, then player2 holds 97 of the 100 tickets
+      await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
+      await raffle.connect(player2).enterRaffle(97, { value: entranceFee.mul(97) });
+      await raffle.connect(player3).enterRaffle(2, { value: entranceFee.mul(2) });
+
+      // Every word lands on player2's ticket 1: tier 2 redraws onto player3 (ticket 98), and
+      // tier 3 exhausts its redraws on earlier winners and walks the entries to player1
+      await drawRound([1, 1, 1]);
+
+      const [winners] = await raffle.getWinners(1);
+      expect(winners).to.deep.equal([player2.address, player3.address, player1.address]);
+    });
+
+    it("should hold every prize once one trips the payout circuit breaker", async function () {
+      await raffle.setPrizeSplits([5000, 5000]);
+      await raffle.connect(player1).enterRaffle(50, { value: entranceFee.mul(50) });
+      await raffle.connect(player2).enterRaffle(50, { value: entranceFee.mul(50) });
+      // A 1 ETH pool pays two prizes of 0.475 ETH after the rake; the first alone overflows the budget
+      await treasury.setPayoutBudget(ethers.utils.parseEther("0.4"), 3600);
+      const prize = netOf(entranceFee.mul(100)).div(2);
+      const balancesBefore = await Promise.all([player1, player2].map((p) => p.getBalance()));
+
+      const receipt = await drawRound([1, 2]);
+
+      // The draw settles instead of reverting on the second prize, and the pause sticks
+      expect(findCallbackFailed(receipt, randomnessProvider)).to.be.undefined;
+      expect((await raffle.getRound(1)).state).to.equal(2); // SETTLED
+      expect(await treasury.paused()).to.equal(true);
+      expect(await treasury.breakerTripped()).to.equal(true);
+
+      // Both prizes are metered (less a few seconds of drain)
+      expect((await treasury.windowOutflow()).gt(prize.mul(2).sub(ethers.utils.parseEther("0.001")))).to.equal(true);
+
+      // Each prize is held for review instead of paid
+      const heldIds = await treasury.getHeldPayoutIds();
+      const [winners] = await raffle.getWinners(1);
+      expect(heldIds.length).to.equal(2);
+      for (let i = 0; i < heldIds.length; i++) {
+        const held = await treasury.getHeldPayout(heldIds[i]);
+        expect(held.game).to.equal(raffle.address);
+        expect(held.account).to.equal(winners[i]);
+        bnEq(held.amount, prize, `Prize ${i + 1} held`);
+      }
+      const players = [player1, player2];
+      for (let i = 0; i < players.length; i++) {
+        bnEq(await players[i].getBalance(), balancesBefore[i], `Player ${i + 1} not paid`);
+      }
+    });
+
+    it("should draw distinct players for any randomness", async function () {
+      await raffle.setPrizeSplits([4000, 3000, 2000, 1000]);
+      const signers = await ethers.getSigners();
+      for (const s of signers.slice(1, 6)) {
+        await raffle.connect(s).enterRaffle(1, { value: entranceFee });
+      }
+
+      for (let roundId = 1; roundId <= 4; roundId++) {
+        if (roundId > 1) {
+          for (const s of signers.slice(1, 6)) {
+            await raffle.connect(s).enterRaffle(1, { value: entranceFee });
+          }
+        }
+        await drawRound([1, 2, 3, 4].map((i) => roundId * 1000003 + i));
+        const [winners] = await raffle.getWinners(roundId);
+        expect(winners.length).to.equal(4);
+        expect(new Set(winners).size).to.equal(4);
+      }
+    });
+  });
+
+  describe("Round Recovery (unfulfilled VRF request)", function () {
+    // Enter players and start a draw whose request is never fulfilled on the mock
+    async function startStuckDraw() {
+      await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
+      await raffle.connect(player2).enterRaffle(2, { value: entranceFee.mul(2) });
+      await network.provider.send("evm_increaseTime", [interval + 1]);
+      await network.provider.send("evm_mine", []);
+
+      const tx = await raffle.performUpkeep("0x");
+      const receipt = await tx.wait();
+      return receipt.events.find((e: any) => e.event === "RandomnessRequested").args.requestId;
+    }
+
+    async function passVrfTimeout() {
+      await network.provider.send("evm_increaseTime", [vrfTimeout]);
+      await network.provider.send("evm_mine", []);
+    }
+
+    it("should record the pending request on the round", async function () {
+      const requestId = await startStuckDraw();
+
+      const round = await raffle.getRound(1);
+      expect(round.requestId.toString()).to.equal(requestId.toString());
+      expect(round.requestAttempts).to.equal(1);
+      bnEq(await raffle.getVrfTimeout(), BigNumber.from(vrfTimeout), "VRF timeout");
+    });
+
+    it("should revert re-request before timeout", async function () {
+      await startStuckDraw();
+      await mustRevert(raffle.connect(player3).reRequestRandomness(), "Raffle__RequestNotTimedOut");
+    });
+
+    it("should revert re-request when round is not calculating", async function () {
+      await mustRevert(raffle.reRequestRandomness(), "Raffle__NotCalculating");
+    });
+
+    it("should re-request after timeout and ignore the stale request", async function () {
+      const oldRequestId = await startStuckDraw();
+      await passVrfTimeout();
+
+      // Anyone can re-request
+      const tx = await raffle.connect(player3).reRequestRandomness();
+      const receipt = await tx.wait();
+      const reRequestEvent = receipt.events.find((e: any) => e.event === "RandomnessReRequested");
+      expect(reRequestEvent.args.roundId.toString()).to.equal("1");
+      expect(reRequestEvent.args.oldRequestId.toString()).to.equal(oldRequestId.toString());
+      const newRequestId = reRequestEvent.args.newRequestId;
+      expect(newRequestId.toString()).to.not.equal(oldRequestId.toString());
+
+      // Stale request arrives late: callback fails, round is not settled
+      const staleTx = await vrfCoordinatorMock.fulfillRandomWords(oldRequestId, randomnessProvider.address);
+      const staleReceipt = await staleTx.wait();
+      expect(findCallbackFailed(staleReceipt, randomnessProvider)).to.not.be.undefined;
+      expect((await raffle.getRound(1)).state).to.equal(1); // still CALCULATING
+
+      // New request settles the round
+      await vrfCoordinatorMock.fulfillRandomWords(newRequestId, randomnessProvider.address);
+      const round = await raffle.getRound(1);
+      expect(round.state).to.equal(2); // SETTLED
+      expect(round.requestAttempts).to.equal(2);
+      expect([player1.address, player2.address]).to.include(round.winners[0]);
+    });
+
+    it("should stop re-requesting after max attempts", async function () {
+      await startStuckDraw();
+      const maxAttempts = await raffle.getMaxRequestAttempts();
+
+      for (let i = 1; i < maxAttempts; i++) {
+        await passVrfTimeout();
+        await raffle.reRequestRandomness();
+      }
+
+      await passVrfTimeout();
+      await mustRevert(raffle.reRequestRandomness(), "Raffle__MaxRequestAttemptsReached");
+    });
+
+    it("should revert cancel before timeout, even for owner", async function () {
+      await startStuckDraw();
+      await mustRevert(raffle.connect(owner).cancelRound(), "Raffle__RequestNotTimedOut");
+    });
+
+    it("should only let the owner cancel while re-requests remain", async function () {
+      await startStuckDraw();
+      await passVrfTimeout();
+
+      await mustRevert(raffle.connect(player3).cancelRound(), "Raffle__CancelNotAllowed");
+
+      const tx = await raffle.connect(owner).cancelRound();
+      const receipt = await tx.wait();
+      const cancelEvent = receipt.events.find((e: any) => e.event === "RoundCancelled");
+      expect(cancelEvent.args.roundId.toString()).to.equal("1");
+      expect(cancelEvent.args.cancelledBy).to.equal(owner.address);
+      bnEq(cancelEvent.args.prizePool, entranceFee.mul(3), "Cancelled prize pool");
+
+      expect((await raffle.getRound(1)).state).to.equal(3); // CANCELLED
+      expect((await raffle.s_currentRoundId()).toString()).to.equal("2");
+      expect((await raffle.getCurrentRound()).state).to.equal(0); // OPEN
+    });
+
+    it("should let anyone cancel once re-requests are exhausted", async function () {
+      const requestIds = [await startStuckDraw()];
+      const maxAttempts = await raffle.getMaxRequestAttempts();
+      for (let i = 1; i < maxAttempts; i++) {
+        await passVrfTimeout();
+        const receipt = await (await raffle.reRequestRandomness()).wait();
+        requestIds.push(receipt.events.find((e: any) => e.event === "RandomnessReRequested").args.newRequestId);
+      }
+      await passVrfTimeout();
+
+      await raffle.connect(player3).cancelRound();
+      expect((await raffle.getRound(1)).state).to.equal(3); // CANCELLED
+
+      // Late fulfillment of the last request cannot settle the cancelled round
+      const lateTx = await vrfCoordinatorMock.fulfillRandomWords(requestIds[requestIds.length - 1], randomnessProvider.address);
+      const lateReceipt = await lateTx.wait();
+      expect(findCallbackFailed(lateReceipt, randomnessProvider)).to.not.be.undefined;
+      expect((await raffle.getRound(1)).state).to.equal(3);
+    });
+
+    it("should not re-request or cancel while a failed callback awaits retryCallback", async function () {
+      const requestId = await startStuckDraw();
+
+      // A paused Treasury makes the callback revert; the provider stores the now public word
+      await (await treasury.pause()).wait();
+      const failedTx = await vrfCoordinatorMock.fulfillRandomWords(requestId, randomnessProvider.address);
+      expect(findCallbackFailed(await failedTx.wait(), randomnessProvider)).to.not.be.undefined;
+      expect(await randomnessProvider.hasFailedCallback(requestId)).to.be.true;
+      await passVrfTimeout();
+
+      await mustRevert(raffle.connect(player3).reRequestRandomness(), "Raffle__CallbackRetryPending");
+      await mustRevert(raffle.connect(owner).cancelRound(), "Raffle__CallbackRetryPending");
+
+      await (await treasury.unpause()).wait();
+      await (await randomnessProvider.retryCallback(requestId)).wait();
+      expect((await raffle.getRound(1)).state).to.equal(2); // SETTLED
+    });
+
+    it("should refund every entrant of a cancelled round exactly once", async function () {
+      await startStuckDraw();
+      await passVrfTimeout();
+      await raffle.connect(owner).cancelRound();
+
+      for (const [player, amount] of [
+        [player1, entranceFee],
+        [player2, entranceFee.mul(2)],
+      ] as const) {
+        bnEq(await raffle.getContribution(1, player.address), amount, "Contribution");
+
+        const balanceBefore = await ethers.provider.getBalance(player.address);
+        const tx = await raffle.connect(player).claimRefund(1);
+        const receipt = await tx.wait();
+        const gasCost = receipt.gasUsed.mul(receipt.effectiveGasPrice);
+
+        const refundEvent = receipt.events.find((e: any) => e.event === "RefundClaimed");
+        bnEq(refundEvent.args.amount, amount, "Refund event amount");
+        bnEq(
+          (await ethers.provider.getBalance(player.address)).add(gasCost).sub(balanceBefore),
+          amount,
+          "Refunded amount"
+        );
+
+        await mustRevert(raffle.connect(player).claimRefund(1), "Raffle__NothingToRefund");
+      }
+
+      await mustRevert(raffle.connect(player3).claimRefund(1), "Raffle__NothingToRefund");
+      bnEq(await ethers.provider.getBalance(raffle.address), BigNumber.from(0), "Raffle balance drained");
+    });
+
+    it("should not refund rounds that were not cancelled", async function () {
+      await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
+      await mustRevert(raffle.connect(player1).claimRefund(1), "Raffle__NotCancelled");
+    });
+  });
+
   describe("Security", function () {
-    it("should prevent non-provider from calling fulfillRandomness", async function () {
-      await raffle.connect(player1).enterRaffle({ value: entranceFee });
+    it("should prevent non-provider from calling fulfillRandomWords", async function () {
+      await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
       await network.provider.send("evm_increaseTime", [interval + 1]);
       await network.provider.send("evm_mine", []);
       await raffle.performUpkeep("0x");
 
-      // Try to call fulfillRandomness as a regular user
+      // Try to call fulfillRandomWords as a regular user
       await mustRevert(
-        raffle.connect(player1).fulfillRandomness(1, 999),
+        raffle.connect(player1).fulfillRandomWords(1, [999]),
         "Raffle__NotProvider"
       );
     });
 
     it("should prevent double settlement", async function () {
-      await raffle.connect(player1).enterRaffle({ value: entranceFee });
+      await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
       await network.provider.send("evm_increaseTime", [interval + 1]);
       await network.provider.send("evm_mine", []);
 
@@ -253,5 +834,111 @@ describe("Raffle Contract Tests", function () {
         "Request already fulfilled"
       );
     });
+
+    it("should settle the round and credit a winner contract that rejects ETH", async function () {
+      const Receiver = await ethers.getContractFactory("RejectingReceiverMock");
+      const receiver = await Receiver.deploy(); // rejects ETH by default
+      await receiver.deployed();
+
+      // Sole entrant, so it is the winner
+      await receiver.execute(raffle.address, raffle.interface.encodeFunctionData("enterRaffle", [1]), {
+        value: entranceFee,
+      });
+      await network.provider.send("evm_increaseTime", [interval + 1]);
+      await network.provider.send("evm_mine", []);
+
+      const receipt = await (await raffle.performUpkeep("0x")).wait();
+      const requestId = receipt.events.find((e: any) => e.event === "RandomnessRequested").args.requestId;
+      const fulfillReceipt = await (
+        await vrfCoordinatorMock.fulfillRandomWords(requestId, randomnessProvider.address)
+      ).wait();
+      expect(findCallbackFailed(fulfillReceipt, randomnessProvider)).to.be.undefined;
+
+      const round = await raffle.getRound(1);
+      expect(round.state.toString()).to.equal("2"); // SETTLED
+      expect(round.winners[0]).to.equal(receiver.address);
+      bnEq(await treasury.pendingWithdrawals(receiver.address), netOf(entranceFee), "Prize credited");
+      expect((await raffle.s_currentRoundId()).toString()).to.equal("2");
+
+      // The winner claims its prize to an address that accepts ETH
+      const before = await ethers.provider.getBalance(player1.address);
+      await receiver.execute(treasury.address, treasury.interface.encodeFunctionData("claimPayout", [player1.address]));
+      bnEq((await ethers.provider.getBalance(player1.address)).sub(before), netOf(entranceFee), "Prize claimed");
+    });
+  });
+
+  describe("Token Rounds", function () {
+    let token: any;
+    const tokenFee = ethers.utils.parseEther("10");
+
+    beforeEach(async function () {
+      // Allowlisted and funded in Treasury by the deploy scripts
+      token = await ethers.getContract("MockToken");
+      await raffle.setTokenEntranceFee(token.address, tokenFee);
+      for (const player of [player1, player2]) {
+        await (await token.mint(player.address, ethers.utils.parseEther("100"))).wait();
+        await (await token.connect(player).approve(raffle.address, ethers.constants.MaxUint256)).wait();
+      }
+    });
+
+    async function drawRound() {
+      await network.provider.send("evm_increaseTime", [interval + 1]);
+      await network.provider.send("evm_mine", []);
+      const receipt = await (await raffle.performUpkeep("0x")).wait();
+      return receipt.events.find((e: any) => e.event === "RandomnessRequested").args.requestId;
+    }
+
+    it("should play a round in the token of its first entry and pay the winner in tokens", async function () {
+      await mustRevert(raffle.connect(player1).enterRaffleWithToken(player3.address, 1), "Raffle__TokenNotAccepted");
+      await mustRevert(
+        raffle.connect(player1).setTokenEntranceFee(token.address, 1),
+        "Ownable: caller is not the owner"
+      );
+
+      await raffle.connect(player1).enterRaffleWithToken(token.address, 2);
+      expect(await raffle.getRoundToken(1)).to.equal(token.address);
+      // Currencies cannot be mixed within a round
+      await mustRevert(raffle.connect(player2).enterRaffle(1, { value: entranceFee }), "Raffle__WrongToken");
+      await raffle.connect(player2).enterRaffleWithToken(token.address, 1);
+
+      const pool = tokenFee.mul(3);
+      bnEq(await token.balanceOf(raffle.address), pool, "Pool held by Raffle");
+
+      const requestId = await drawRound();
+      await vrfCoordinatorMock.fulfillRandomWords(requestId, randomnessProvider.address);
+
+      const round = await raffle.getRound(1);
+      expect(round.state.toString()).to.equal("2"); // SETTLED
+      const winner = round.winners[0];
+      const before = ethers.utils.parseEther("100").sub(winner === player1.address ? tokenFee.mul(2) : tokenFee);
+      bnEq(await token.balanceOf(winner), before.add(netOf(pool)), "Winner paid in tokens");
+      bnEq(await token.balanceOf(raffle.address), BigNumber.from(0), "Pool moved to Treasury");
+
+      // The next round starts without a currency
+      expect(await raffle.getRoundToken(2)).to.equal(ethers.constants.AddressZero);
+      await raffle.connect(player1).enterRaffle(1, { value: entranceFee });
+    });
+
+    it("should reject tokens that deliver less than the ticket cost", async function () {
+      // 1% burned on every transfer
+      await (await token.setTransferFeeBps(100)).wait();
+      await mustRevert(raffle.connect(player1).enterRaffleWithToken(token.address, 1), "Raffle__TokenAmountMismatch");
+
+      expect(await raffle.getRoundToken(1)).to.equal(ethers.constants.AddressZero);
+      bnEq(await token.balanceOf(raffle.address), BigNumber.from(0), "Nothing taken");
+      bnEq(await raffle.getContribution(1, player1.address), BigNumber.from(0), "No entry recorded");
+    });
+
+    it("should refund a cancelled token round in tokens", async function () {
+      await raffle.connect(player1).enterRaffleWithToken(token.address, 3);
+      await drawRound();
+
+      await network.provider.send("evm_increaseTime", [vrfTimeout]);
+      await network.provider.send("evm_mine", []);
+      await raffle.cancelRound();
+
+      await raffle.connect(player1).claimRefund(1);
+      bnEq(await token.balanceOf(player1.address), ethers.utils.parseEther("100"), "Tokens refunded");
+    });
   });
 });
@@ -0,0 +1,510 @@
+import { expect } from "chai";
+import { ethers, network, deployments } from "hardhat";
+import { BigNumber } from "ethers";
+
+// Inline to avoid module resolution issues
+const developmentChains = ["hardhat", "localhost"];
+
+// Roulette.BetType
+const STRAIGHT = 0;
+const SPLIT = 1;
+const RED = 2;
+const BLACK = 3;
+const ODD = 4;
+const EVEN = 5;
+const DOZEN = 6;
+const COLUMN = 7;
+
+// Roulette.SpinStatus
+const CALCULATING = 1;
+const SETTLED = 2;
+const REFUNDED = 3;
+
+async function mustRevert(p: Promise<any>, contains?: string) {
+  try {
+    await p;
+    expect.fail("Expected revert, but tx succeeded");
+  } catch (e: any) {
+    const msg = String(e?.message || "");
+    if (contains) {
+      expect(msg).to.include(contains);
+    }
+  }
+}
+
+function bnEq(a: BigNumber, b: BigNumber, label?: string) {
+  const ok = a.eq(b);
+  if (!ok) {
+    throw new Error(
+      `${label ?? "BigNumber mismatch"}: expected ${b.toString()}, got ${a.toString()}`
+    );
+  }
+}
+
+// RandomnessProvider catches a reverting game callback and emits CallbackFailed instead
+function findCallbackFailed(receipt: any, provider: any) {
+  return receipt.logs
+    .filter((log: any) => log.address === provider.address)
+    .map((log: any) => provider.interface.parseLog(log))
+    .find((parsed: any) => parsed.name === "CallbackFailed");
+}
+
+function bet(betType: number, amount: BigNumber, number = 0, splitNumber = 0) {
+  return { betType, number, splitNumber, amount };
+}
+
+function totalOf(bets: { amount: BigNumber }[]) {
+  return bets.reduce((sum, b) => sum.add(b.amount), BigNumber.from(0));
+}
+
+describe("Roulette Contract Tests", function () {
+  let roulette: any;
+  let randomnessProvider: any;
+  let treasury: any;
+  let vrfCoordinatorMock: any;
+  let deployer: any;
+  let player1: any;
+  let player2: any;
+
+  // Values set by scripts/06-deploy-roulette.ts
+  const minBet = ethers.utils.parseEther("0.001");
+  const maxBet = ethers.utils.parseEther("0.1");
+  const refundTimeout = 3600; // 1 hour
+
+  async function placeBets(player: any, bets: any[], value?: BigNumber) {
+    const tx = await roulette.connect(player).placeBets(bets, { value: value ?? totalOf(bets) });
+    const receipt = await tx.wait();
+    const randomnessEvent = receipt.events.find((e: any) => e.event === "RandomnessRequested");
+    return { spinId: randomnessEvent.args.spinId, requestId: randomnessEvent.args.requestId, receipt };
+  }
+
+  // Deliver a fixed word through the VRF mock; result = word % 37
+  async function spinTo(requestId: BigNumber, word: number) {
+    const tx = await vrfCoordinatorMock.fulfillRandomWordsWithOverride(requestId, randomnessProvider.address, [word]);
+    const receipt = await tx.wait();
+    // SpinSettled is emitted by Roulette during the mock fulfil; parse it from the raw logs
+    const settled = receipt.logs
+      .filter((log: any) => log.address === roulette.address)
+      .map((log: any) => roulette.interface.parseLog(log))
+      .find((parsed: any) => parsed.name === "SpinSettled");
+    return { receipt, settled };
+  }
+
+  beforeEach(async function () {
+    if (!developmentChains.includes(network.name)) {
+      this.skip();
+    }
+
+    await deployments.fixture(["Roulette"]);
+
+    [deployer, player1, player2] = await ethers.getSigners();
+
+    roulette = await ethers.getContract("Roulette");
+    randomnessProvider = await ethers.getContract("RandomnessProvider");
+    treasury = await ethers.getContract("Treasury");
+    vrfCoordinatorMock = await ethers.getContract("VRFCoordinatorMock");
+  });
+
+  describe("Deployment", function () {
+    it("should set correct min and max bet", async function () {
+      bnEq(await roulette.getMinBet(), minBet, "Min bet");
+      bnEq(await roulette.getMaxBet(), maxBet, "Max bet");
+    });
+
+    it("should set refund timeout and spin counter", async function () {
+      expect((await roulette.getRefundTimeout()).toString()).to.equal(String(refundTimeout));
+      expect((await roulette.getNextSpinId()).toString()).to.equal("1");
+      expect((await roulette.getMaxBetsPerSpin()).toString()).to.equal("10");
+    });
+
+    it("should expose the European payout table", async function () {
+      const table = await roulette.getPayoutTable();
+      expect(table.map((m: BigNumber) => m.toNumber())).to.deep.equal([36, 18, 2, 2, 2, 2, 3, 3]);
+      expect((await roulette.getPayoutMultiplier(STRAIGHT)).toString()).to.equal("36");
+    });
+
+    it("should classify red and black numbers", async function () {
+      expect(await roulette.isRed(0)).to.be.false;
+      expect(await roulette.isRed(1)).to.be.true;
+      expect(await roulette.isRed(2)).to.be.false;
+      expect(await roulette.isRed(19)).to.be.true;
+      expect(await roulette.isRed(36)).to.be.true;
+      expect(await roulette.isRed(35)).to.be.false;
+    });
+
+    it("should be authorized in Treasury by the deploy script", async function () {
+      expect(await treasury.isGame(roulette.address)).to.be.true;
+    });
+  });
+
+  describe("Place Bets", function () {
+    it("should record a spin with its bet list", async function () {
+      const bets = [
+        bet(STRAIGHT, minBet, 17),
+        bet(SPLIT, minBet, 17, 20),
+        bet(RED, minBet.mul(2)),
+      ];
+      const { spinId, receipt } = await placeBets(player1, bets);
+
+      const placed = receipt.events.find((e: any) => e.event === "SpinPlaced");
+      expect(placed.args.player).to.equal(player1.address);
+      expect(placed.args.betCount.toString()).to.equal("3");
+      bnEq(placed.args.totalAmount, minBet.mul(4), "Total amount");
+
+      const spin = await roulette.getSpin(spinId);
+      expect(spin.status).to.equal(CALCULATING);
+      expect(spin.player).to.equal(player1.address);
+      bnEq(spin.totalAmount, minBet.mul(4), "Spin total");
+
+      const stored = await roulette.getSpinBets(spinId);
+      expect(stored.length).to.equal(3);
+      expect(stored[1].betType).to.equal(SPLIT);
+      expect(stored[1].number).to.equal(17);
+      expect(stored[1].splitNumber).to.equal(20);
+    });
+
+    it("should transfer the stake to Treasury", async function () {
+      const before = await ethers.provider.getBalance(treasury.address);
+      const bets = [bet(ODD, minBet), bet(DOZEN, minBet, 2)];
+      await placeBets(player1, bets);
+      const after = await ethers.provider.getBalance(treasury.address);
+      bnEq(after.sub(before), minBet.mul(2), "Treasury increase");
+    });
+
+    it("should store the worst-case payout of the spin", async function () {
+      // 17 wins straight (36x) and the split (18x) and is odd (2x)
+      const bets = [bet(STRAIGHT, minBet, 17), bet(SPLIT, minBet, 17, 20), bet(ODD, minBet)];
+      const expected = minBet.mul(36 + 18 + 2);
+      bnEq(await roulette.calculateMaxPayout(bets), expected, "Max payout view");
+
+      const { spinId } = await placeBets(player1, bets);
+      bnEq((await roulette.getSpin(spinId)).maxPayout, expected, "Stored max payout");
+    });
+
+    it("should track player spins", async function () {
+      await placeBets(player1, [bet(RED, minBet)]);
+      await placeBets(player1, [bet(BLACK, minBet)]);
+      await placeBets(player2, [bet(EVEN, minBet)]);
+
+      const spins = await roulette.getPlayerSpins(player1.address);
+      expect(spins.map((id: BigNumber) => id.toString())).to.deep.equal(["1", "2"]);
+      expect((await roulette.getPlayerSpinCount(player2.address)).toString()).to.equal("1");
+    });
+  });
+
+  describe("Validation", function () {
+    it("should reject an empty bet list", async function () {
+      await mustRevert(roulette.connect(player1).placeBets([], { value: 0 }), "Roulette__NoBets");
+    });
+
+    it("should reject more than the maximum number of bets", async function () {
+      const bets = Array.from({ length: 11 }, (_, i) => bet(STRAIGHT, minBet, i));
+      await mustRevert(placeBets(player1, bets), "Roulette__TooManyBets");
+    });
+
+    it("should reject a straight bet above 36", async function () {
+      await mustRevert(placeBets(player1, [bet(STRAIGHT, minBet, 37)]), "Roulette__InvalidBet");
+    });
+
+    it("should reject splits that are not adjacent", async function () {
+      await mustRevert(placeBets(player1, [bet(SPLIT, minBet, 3, 4)]), "Roulette__InvalidBet"); // row break
+      await mustRevert(placeBets(player1, [bet(SPLIT, minBet, 5, 7)]), "Roulette__InvalidBet");
+      await mustRevert(placeBets(player1, [bet(SPLIT, minBet, 0, 4)]), "Roulette__InvalidBet");
+      await mustRevert(placeBets(player1, [bet(SPLIT, minBet, 8, 8)]), "Roulette__InvalidBet");
+      await mustRevert(placeBets(player1, [bet(SPLIT, minBet, 36, 39)]), "Roulette__InvalidBet");
+    });
+
+    it("should accept horizontal, vertical and zero splits", async function () {
+      await placeBets(player1, [
+        bet(SPLIT, minBet, 1, 2),
+        bet(SPLIT, minBet, 5, 2),
+        bet(SPLIT, minBet, 0, 3),
+        bet(SPLIT, minBet, 33, 36),
+      ]);
+      expect((await roulette.getPlayerSpinCount(player1.address)).toString()).to.equal("1");
+    });
+
+    it("should reject dozen and column indexes outside 1-3", async function () {
+      await mustRevert(placeBets(player1, [bet(DOZEN, minBet, 0)]), "Roulette__InvalidBet");
+      await mustRevert(placeBets(player1, [bet(COLUMN, minBet, 4)]), "Roulette__InvalidBet");
+    });
+
+    it("should reject a bet below the minimum", async function () {
+      await mustRevert(
+        placeBets(player1, [bet(RED, minBet), bet(BLACK, minBet.sub(1))]),
+        "Roulette__BetTooLow"
+      );
+    });
+
+    it("should reject a spin total above the maximum", async function () {
+      await mustRevert(
+        placeBets(player1, [bet(RED, maxBet), bet(BLACK, minBet)]),
+        "Roulette__SpinTooHigh"
+      );
+    });
+
+    it("should reject a payment that does not match the bet total", async function () {
+      const bets = [bet(RED, minBet), bet(BLACK, minBet)];
+      await mustRevert(placeBets(player1, bets, minBet), "Roulette__IncorrectPayment");
+      await mustRevert(placeBets(player1, bets, minBet.mul(3)), "Roulette__IncorrectPayment");
+    });
+  });
+
+  describe("Solvency", function () {
+    it("should reject a spin whose worst case exceeds Treasury.maxPayoutPerTx", async function () {
+      await (await treasury.connect(deployer).setMaxPayoutPerTx(ethers.utils.parseEther("1"))).wait();
+
+      // 0.03 ETH straight can pay 1.08 ETH
+      await mustRevert(
+        placeBets(player1, [bet(STRAIGHT, ethers.utils.parseEther("0.03"), 7)]),
+        "Roulette__ExceedsMaxPayout"
+      );
+
+      // Same stake on red only pays 0.06 ETH
+      await placeBets(player1, [bet(RED, ethers.utils.parseEther("0.03"))]);
+    });
+
+    it("should reject a spin the Treasury balance cannot cover", async function () {
+      // The deployer redeems its LP shares, draining the bankroll
+      await (await treasury.connect(deployer).requestRedeem(await treasury.sharesOf(deployer.address))).wait();
+      await network.provider.send("evm_increaseTime", [(await treasury.withdrawCooldown()).toNumber()]);
+      await (await treasury.connect(deployer).redeem(deployer.address)).wait();
+
+      await mustRevert(
+        placeBets(player1, [bet(STRAIGHT, minBet, 7)]),
+        "Roulette__InsufficientTreasury"
+      );
+
+      // An even-money bet is covered by its own stake plus 0.001 ETH
+      await (await deployer.sendTransaction({ to: treasury.address, value: minBet })).wait();
+      await placeBets(player1, [bet(RED, minBet)]);
+    });
+  });
+
+  describe("Settlement", function () {
+    it("should pay a straight bet 36x", async function () {
+      const { spinId, requestId } = await placeBets(player1, [bet(STRAIGHT, minBet, 17)]);
+      const balanceBefore = await ethers.provider.getBalance(player1.address);
+
+      const { settled } = await spinTo(requestId, 17);
+
+      const spin = await roulette.getSpin(spinId);
+      expect(spin.status).to.equal(SETTLED);
+      expect(spin.result).to.equal(17);
+      bnEq(spin.payout, minBet.mul(36), "Straight payout");
+      expect(settled.args.result).to.equal(17);
+      bnEq(settled.args.payout, minBet.mul(36), "Event payout");
+
+      const balanceAfter = await ethers.provider.getBalance(player1.address);
+      bnEq(balanceAfter.sub(balanceBefore), minBet.mul(36), "Player balance increase");
+    });
+
+    it("should reduce the word modulo 37", async function () {
+      const { spinId, requestId } = await placeBets(player1, [bet(STRAIGHT, minBet, 5)]);
+      await spinTo(requestId, 37 * 3 + 5);
+      expect((await roulette.getSpin(spinId)).result).to.equal(5);
+    });
+
+    it("should settle every bet on the spin against one result", async function () {
+      const bets = [
+        bet(STRAIGHT, minBet, 17),   // win 36x
+        bet(SPLIT, minBet, 16, 17),  // win 18x
+        bet(RED, minBet),            // 17 is black: lose
+        bet(BLACK, minBet),          // win 2x
+        bet(ODD, minBet),            // win 2x
+        bet(EVEN, minBet),           // lose
+        bet(DOZEN, minBet, 2),       // 13-24: win 3x
+        bet(COLUMN, minBet, 2),      // 2,5,..,17,..: win 3x
+        bet(COLUMN, minBet, 1),      // lose
+      ];
+      const { spinId, requestId } = await placeBets(player1, bets);
+      await spinTo(requestId, 17);
+
+      bnEq((await roulette.getSpin(spinId)).payout, minBet.mul(36 + 18 + 2 + 2 + 3 + 3), "Combined payout");
+    });
+
+    it("should pay red, even, third dozen and third column on 36", async function () {
+      const bets = [bet(RED, minBet), bet(EVEN, minBet), bet(DOZEN, minBet, 3), bet(COLUMN, minBet, 3), bet(ODD, minBet)];
+      const { spinId, requestId } = await placeBets(player1, bets);
+      await spinTo(requestId, 36);
+
+      bnEq((await roulette.getSpin(spinId)).payout, minBet.mul(2 + 2 + 3 + 3), "Outside payout");
+    });
+
+    it("should lose every outside bet on zero", async function () {
+      const bets = [
+        bet(RED, minBet),
+        bet(BLACK, minBet),
+        bet(ODD, minBet),
+        bet(EVEN, minBet),
+        bet(DOZEN, minBet, 1),
+        bet(COLUMN, minBet, 1),
+      ];
+      const { spinId, requestId } = await placeBets(player1, bets);
+      const treasuryBefore = await ethers.provider.getBalance(treasury.address);
+
+      const { settled } = await spinTo(requestId, 0);
+
+      const spin = await roulette.getSpin(spinId);
+      expect(spin.status).to.equal(SETTLED);
+      expect(spin.result).to.equal(0);
+      expect(spin.payout.toString()).to.equal("0");
+      expect(settled.args.payout.toString()).to.equal("0");
+
+      // Stakes stay in Treasury
+      const treasuryAfter = await ethers.provider.getBalance(treasury.address);
+      bnEq(treasuryAfter, treasuryBefore, "Treasury unchanged");
+    });
+
+    it("should pay a straight bet on zero", async function () {
+      const { spinId, requestId } = await placeBets(player1, [bet(STRAIGHT, minBet, 0), bet(SPLIT, minBet, 0, 2)]);
+      await spinTo(requestId, 0);
+      bnEq((await roulette.getSpin(spinId)).payout, minBet.mul(36 + 18), "Zero payout");
+    });
+
+    it("should reject a callback from anyone but the provider", async function () {
+      const { requestId } = await placeBets(player1, [bet(RED, minBet)]);
+      await mustRevert(roulette.connect(player1).fulfillRandomness(requestId, 1), "Roulette__NotProvider");
+    });
+
+    it("should not settle a spin twice", async function () {
+      const { requestId } = await placeBets(player1, [bet(RED, minBet)]);
+      await spinTo(requestId, 1);
+      // The VRF mock rejects a second fulfilment of the same request
+      await mustRevert(spinTo(requestId, 1), "Request already fulfilled");
+    });
+  });
+
+  describe("Refund", function () {
+    it("should not refund before the timeout", async function () {
+      const { spinId } = await placeBets(player1, [bet(RED, minBet)]);
+      expect(await roulette.isRefundable(spinId)).to.be.false;
+      await mustRevert(roulette.connect(player1).claimRefund(spinId), "Roulette__RefundTooEarly");
+    });
+
+    it("should refund the full stake after the timeout", async function () {
+      const bets = [bet(RED, minBet), bet(STRAIGHT, minBet.mul(2), 9)];
+      const { spinId, requestId } = await placeBets(player1, bets);
+
+      await network.provider.send("evm_increaseTime", [refundTimeout]);
+      await network.provider.send("evm_mine", []);
+      expect(await roulette.isRefundable(spinId)).to.be.true;
+
+      const balanceBefore = await ethers.provider.getBalance(player1.address);
+      // Anyone can trigger the refund; the stake goes to the player
+      const receipt = await (await roulette.connect(player2).claimRefund(spinId)).wait();
+      const balanceAfter = await ethers.provider.getBalance(player1.address);
+      bnEq(balanceAfter.sub(balanceBefore), minBet.mul(3), "Refund amount");
+
+      const refunded = receipt.events.find((e: any) => e.event === "SpinRefunded");
+      bnEq(refunded.args.amount, minBet.mul(3), "Event amount");
+      expect((await roulette.getSpin(spinId)).status).to.equal(REFUNDED);
+
+      // A late callback cannot settle the refunded spin
+      const { receipt: lateReceipt } = await spinTo(requestId, 9);
+      expect(findCallbackFailed(lateReceipt, randomnessProvider)).to.not.be.undefined;
+      const spin = await roulette.getSpin(spinId);
+      expect(spin.status).to.equal(REFUNDED);
+      expect(spin.payout.toString()).to.equal("0");
+    });
+
+    it("should not refund a spin whose failed callback awaits retryCallback", async function () {
+      const { spinId, requestId } = await placeBets(player1, [bet(STRAIGHT, minBet, 17)]);
+
+      // A paused Treasury makes the winning callback revert; the provider stores the public word
+      await (await treasury.connect(deployer).pause()).wait();
+      const { receipt } = await spinTo(requestId, 17);
+      expect(findCallbackFailed(receipt, randomnessProvider)).to.not.be.undefined;
+      expect(await randomnessProvider.hasFailedCallback(requestId)).to.be.true;
+
+      await network.provider.send("evm_increaseTime", [refundTimeout]);
+      await network.provider.send("evm_mine", []);
+      expect(await roulette.isRefundable(spinId)).to.be.false;
+      await mustRevert(roulette.claimRefund(spinId), "Roulette__CallbackRetryPending");
+
+      await (await treasury.connect(deployer).unpause()).wait();
+      await (await randomnessProvider.retryCallback(requestId)).wait();
+      const spin = await roulette.getSpin(spinId);
+      expect(spin.status).to.equal(SETTLED);
+      bnEq(spin.payout, minBet.mul(36), "Payout after retry");
+    });
+
+    it("should not refund a settled or unknown spin", async function () {
+      const { spinId, requestId } = await placeBets(player1, [bet(RED, minBet)]);
+      await spinTo(requestId, 1);
+      await network.provider.send("evm_increaseTime", [refundTimeout]);
+      await network.provider.send("evm_mine", []);
+
+      await mustRevert(roulette.claimRefund(spinId), "Roulette__NotRefundable");
+      await mustRevert(roulette.claimRefund(99), "Roulette__SpinNotFound");
+    });
+  });
+
+  describe("Token Spins", function () {
+    let token: any;
+    const chip = ethers.utils.parseEther("1");
+
+    beforeEach(async function () {
+      // Allowlisted, funded and given Roulette limits in Treasury by the deploy scripts
+      token = await ethers.getContract("MockToken");
+      await (await token.mint(player1.address, chip.mul(100))).wait();
+      await (await token.connect(player1).approve(roulette.address, ethers.constants.MaxUint256)).wait();
+    });
+
+    async function placeTokenBets(bets: any[]) {
+      const receipt = await (await roulette.connect(player1).placeTokenBets(token.address, bets)).wait();
+      return receipt.events.find((e: any) => e.event === "RandomnessRequested").args;
+    }
+
+    it("should take the stake in tokens and pay the spin's winnings in tokens", async function () {
+      const treasuryBefore = await token.balanceOf(treasury.address);
+      const bets = [bet(STRAIGHT, chip.mul(5), 17), bet(BLACK, chip.mul(5))];
+      const { spinId, requestId } = await placeTokenBets(bets);
+
+      const spin = await roulette.getSpin(spinId);
+      expect(spin.token).to.equal(token.address);
+      bnEq(await token.balanceOf(treasury.address), treasuryBefore.add(chip.mul(10)), "Stake in Treasury");
+      // 17 is black, so both bets win on it: 5 * 36 + 5 * 2
+      const expectedPayout = chip.mul(190);
+      bnEq(spin.maxPayout, expectedPayout, "Worst case");
+      bnEq((await treasury.getGameTokenConfig(roulette.address, token.address)).liability, expectedPayout, "Token liability");
+
+      await spinTo(requestId, 17);
+
+      bnEq(await token.balanceOf(player1.address), chip.mul(90).add(expectedPayout), "Player tokens");
+      const config = await treasury.getGameTokenConfig(roulette.address, token.address);
+      bnEq(config.liability, BigNumber.from(0), "Liability released");
+      bnEq(config.deposited, chip.mul(10), "Token deposits");
+      bnEq(config.paidOut, expectedPayout, "Token payouts");
+      // The ETH side of the game is untouched
+      bnEq((await treasury.getGameConfig(roulette.address)).deposited, BigNumber.from(0), "ETH deposits");
+    });
+
+    it("should refund a stuck token spin in tokens", async function () {
+      const { spinId } = await placeTokenBets([bet(RED, chip.mul(10))]);
+
+      await network.provider.send("evm_increaseTime", [refundTimeout]);
+      await network.provider.send("evm_mine", []);
+      await (await roulette.connect(player2).claimRefund(spinId)).wait();
+
+      expect((await roulette.getSpin(spinId)).status).to.equal(REFUNDED);
+      bnEq(await token.balanceOf(player1.address), chip.mul(100), "Player refunded");
+    });
+
+    it("should reject invalid tokens, zero bets and spins above the token cap", async function () {
+      await mustRevert(
+        roulette.connect(player1).placeTokenBets(ethers.constants.AddressZero, [bet(RED, chip)]),
+        "Roulette__InvalidToken"
+      );
+      await mustRevert(
+        roulette.connect(player1).placeTokenBets(token.address, [bet(RED, chip), bet(ODD, BigNumber.from(0))]),
+        "Roulette__BetTooLow"
+      );
+      // 1000 CHIP payout cap: 30 CHIP straight would pay 1080
+      await mustRevert(
+        roulette.connect(player1).placeTokenBets(token.address, [bet(STRAIGHT, chip.mul(30), 7)]),
+        "Roulette__ExceedsMaxPayout"
+      );
+    });
+  });
+});
@@ -57,10 +57,10 @@ describe("Gas measurements (local, txReceipt.gasUsed)", function () {
     // ---- Raffle: enter + performUpkeep + VRF fulfill ----
     const fee = await raffle.getEntrancyFee();
 
-    const gasEnter1 = await gasOf(raffle.connect(user1).enterRaffle({ value: fee }));
+    const gasEnter1 = await gasOf(raffle.connect(user1).enterRaffle(1, { value: fee }));
     rows.push({ op: "Raffle.enterRaffle (p1)", gas: gasEnter1 });
 
-    const gasEnter2 = await gasOf(raffle.connect(user2).enterRaffle({ value: fee }));
+    const gasEnter2 = await gasOf(raffle.connect(user2).enterRaffle(1, { value: fee }));
     rows.push({ op: "Raffle.enterRaffle (p2)", gas: gasEnter2 });
 
     const interval = await raffle.getInterval();
@@ -77,17 +77,19 @@ describe("Gas measurements (local, txReceipt.gasUsed)", function () {
     const gasFulfillRaffle = await gasOf(vrf.fulfillRandomWords(requestIdRaffle, provider.address));
     rows.push({ op: "VRF.fulfillRandomWords (Raffle path)", gas: gasFulfillRaffle });
 
-    // ---- Treasury: adminWithdraw (if exists) ----
-    // Many treasuries have owner-only adminWithdraw(address,uint256)
-    if (treasury.adminWithdraw) {
-      // withdraw a tiny amount if treasury has any balance; otherwise skip
-      const bal = await ethers.provider.getBalance(treasury.address);
-      if (bal.gt(0)) {
-        const amt = bal.div(100); // 1% to avoid draining
-        const gasAdminWd = await gasOf(treasury.connect(deployer).adminWithdraw(deployer.address, amt));
-        rows.push({ op: "Treasury.adminWithdraw", gas: gasAdminWd });
-      }
-    }
+    // ---- Treasury: LP liquidity ----
+    // The deploy funds the bankroll as LP liquidity, so this deposit waits out the entry cooldown
+    const gasLpDeposit = await gasOf(
+      treasury.connect(user1).depositLiquidity(user1.address, { value: ethers.utils.parseEther("1") })
+    );
+    rows.push({ op: "Treasury.depositLiquidity", gas: gasLpDeposit });
+
+    await increaseTime((await treasury.withdrawCooldown()).toNumber());
+    const gasCompleteDeposit = await gasOf(treasury.connect(user1).completeDeposit());
+    rows.push({ op: "Treasury.completeDeposit", gas: gasCompleteDeposit });
+
+    const gasRequestRedeem = await gasOf(treasury.connect(user1).requestRedeem(await treasury.sharesOf(user1.address)));
+    rows.push({ op: "Treasury.requestRedeem", gas: gasRequestRedeem });
 
     // Print a simple table (copy into report)
     console.log("\nGasUsed (local / Hardhat):");
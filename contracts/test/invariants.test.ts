@@ -88,8 +88,8 @@ describe("Invariant-style checks (local, Hardhat + VRFCoordinatorMock)", functio
   it("INV-4: Raffle E2E round completes with VRF mock and returns to OPEN", async () => {
     const fee = await raffle.getEntrancyFee();
 
-    await (await raffle.connect(user1).enterRaffle({ value: fee })).wait();
-    await (await raffle.connect(user2).enterRaffle({ value: fee })).wait();
+    await (await raffle.connect(user1).enterRaffle(1, { value: fee })).wait();
+    await (await raffle.connect(user2).enterRaffle(1, { value: fee })).wait();
 
     const interval = await raffle.getInterval();
     await increaseTime(interval.toNumber() + 1);
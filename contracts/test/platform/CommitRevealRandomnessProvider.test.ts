@@ -0,0 +1,260 @@
+import { assert } from "chai";
+import { deployments, ethers, network } from "hardhat";
+
+async function mustRevert(p: Promise<any>, contains?: string) {
+    try {
+        await p;
+        assert.fail("Expected revert, but tx succeeded");
+    } catch (e: any) {
+        const msg = String(e?.message || "");
+        if (contains) {
+            assert.include(msg, contains);
+        }
+    }
+}
+
+describe("CommitRevealRandomnessProvider Unit Tests", async function () {
+    let provider: any;
+    let game: any;
+    let deployer: any;
+    let operator: any;
+    let stranger: any;
+
+    const revealDelay = 2;
+    const seeds = [1, 2, 3].map((i) => ethers.utils.formatBytes32String(`seed-${i}`));
+    const seedHashes = seeds.map((seed) => ethers.utils.keccak256(seed));
+
+    // Request through the mock game and return the provider's RequestSent event
+    async function requestFrom(tx: Promise<any>) {
+        const receipt = await (await tx).wait();
+        return receipt.logs
+            .filter((log: any) => log.address === provider.address)
+            .map((log: any) => provider.interface.parseLog(log))
+            .find((parsed: any) => parsed.name === "RequestSent");
+    }
+
+    async function mineBlocks(count: number) {
+        await network.provider.send("hardhat_mine", ["0x" + count.toString(16)]);
+    }
+
+    beforeEach(async function () {
+        await deployments.fixture(["all"]);
+        [deployer, operator, stranger] = await ethers.getSigners();
+
+        const providerFactory = await ethers.getContractFactory("CommitRevealRandomnessProvider");
+        provider = await providerFactory.deploy(operator.address, revealDelay);
+        await provider.deployed();
+
+        const gameFactory = await ethers.getContractFactory("RandomWordsGameMock");
+        game = await gameFactory.deploy(provider.address);
+        await game.deployed();
+        await (await provider.setGame(game.address, true)).wait();
+    });
+
+    describe("Configuration", function () {
+        it("Should set operator and reveal delay from the constructor", async function () {
+            assert.equal(await provider.s_operator(), operator.address);
+            assert.equal((await provider.s_revealDelay()).toNumber(), revealDelay);
+            assert.equal(await provider.owner(), deployer.address);
+        });
+
+        it("Should reject a zero operator and out-of-range reveal delays", async function () {
+            const providerFactory = await ethers.getContractFactory("CommitRevealRandomnessProvider");
+            await mustRevert(
+                providerFactory.deploy(ethers.constants.AddressZero, 1),
+                "CommitRevealRandomnessProvider__ZeroAddress"
+            );
+            await mustRevert(providerFactory.deploy(operator.address, 0), "CommitRevealRandomnessProvider__InvalidRevealDelay");
+            await mustRevert(providerFactory.deploy(operator.address, 201), "CommitRevealRandomnessProvider__InvalidRevealDelay");
+        });
+
+        it("Should let only the owner manage games, operator and reveal delay", async function () {
+            const asStranger = provider.connect(stranger);
+            await mustRevert(asStranger.setGame(stranger.address, true), "Only callable by owner");
+            await mustRevert(asStranger.setOperator(stranger.address), "Only callable by owner");
+            await mustRevert(asStranger.setRevealDelay(5), "Only callable by owner");
+
+            const receipt = await (await provider.setOperator(stranger.address)).wait();
+            assert.equal(receipt.events.find((e: any) => e.event === "OperatorUpdated").args.operator, stranger.address);
+            await (await provider.setRevealDelay(5)).wait();
+            assert.equal((await provider.s_revealDelay()).toNumber(), 5);
+        });
+    });
+
+    describe("Commitments and requests", function () {
+        it("Should let only the operator commit seed hashes", async function () {
+            await mustRevert(provider.commitSeeds(seedHashes), "CommitRevealRandomnessProvider__NotOperator");
+            await mustRevert(
+                provider.connect(operator).commitSeeds([ethers.constants.HashZero]),
+                "CommitRevealRandomnessProvider__InvalidSeedHash"
+            );
+
+            const receipt = await (await provider.connect(operator).commitSeeds(seedHashes)).wait();
+            const committed = receipt.events.find((e: any) => e.event === "SeedsCommitted");
+            assert.equal(committed.args.firstIndex.toNumber(), 0);
+            assert.equal(committed.args.count.toNumber(), 3);
+            assert.equal((await provider.getCommittedSeedCount()).toNumber(), 3);
+            assert.equal((await provider.getAvailableSeedCount()).toNumber(), 3);
+            assert.equal(await provider.getSeedHash(1), seedHashes[1]);
+        });
+
+        it("Should reject requests from unregistered callers and when no seed is committed", async function () {
+            await mustRevert(provider.connect(stranger)["requestRandomWords()"](), "CommitRevealRandomnessProvider__NotGame");
+            await mustRevert(
+                provider.connect(stranger)["requestRandomWords(uint32)"](2),
+                "CommitRevealRandomnessProvider__NotGame"
+            );
+            await mustRevert(game.requestSingle(), "CommitRevealRandomnessProvider__NoCommittedSeed");
+        });
+
+        it("Should assign committed seeds to requests in order", async function () {
+            await (await provider.connect(operator).commitSeeds(seedHashes)).wait();
+
+            const first = await requestFrom(game.requestSingle());
+            const second = await requestFrom(game.requestSingle());
+            assert.equal(first.args.requestId.toNumber(), 1);
+            assert.equal(first.args.requester, game.address);
+            assert.equal(first.args.seedIndex.toNumber(), 0);
+            assert.equal(second.args.seedIndex.toNumber(), 1);
+
+            const request = await provider.getRequest(first.args.requestId);
+            assert.equal(request.revealBlock.toNumber(), request.requestBlock.toNumber() + revealDelay);
+            assert.equal(first.args.revealBlock.toNumber(), request.revealBlock.toNumber());
+            assert.isFalse(request.fulfilled);
+            assert.equal((await provider.getAvailableSeedCount()).toNumber(), 1);
+            assert.equal((await provider.getRequestCount()).toNumber(), 2);
+        });
+    });
+
+    describe("Reveal", function () {
+        let requestId: any;
+
+        beforeEach(async function () {
+            await (await provider.connect(operator).commitSeeds(seedHashes)).wait();
+            requestId = (await requestFrom(game.requestSingle())).args.requestId;
+        });
+
+        it("Should reject reveals before the reveal block is mined", async function () {
+            await mustRevert(provider.reveal(requestId, seeds[0]), "CommitRevealRandomnessProvider__RevealTooEarly");
+        });
+
+        it("Should reject a seed that does not match the commitment", async function () {
+            await mineBlocks(revealDelay);
+            await mustRevert(provider.reveal(requestId, seeds[1]), "CommitRevealRandomnessProvider__InvalidSeed");
+            await mustRevert(provider.reveal(99, seeds[0]), "CommitRevealRandomnessProvider__RequestNotFound");
+        });
+
+        it("Should mix the seed with the reveal block hash and deliver it to the game", async function () {
+            await mineBlocks(revealDelay);
+            // Anyone holding the seed can reveal
+            const receipt = await (await provider.connect(stranger).reveal(requestId, seeds[0])).wait();
+
+            const request = await provider.getRequest(requestId);
+            const revealBlockHash = (await ethers.provider.getBlock(request.revealBlock.toNumber())).hash;
+            const expected = ethers.BigNumber.from(
+                ethers.utils.solidityKeccak256(["bytes32", "bytes32", "uint256"], [seeds[0], revealBlockHash, requestId])
+            );
+
+            const fulfilled = receipt.events.find((e: any) => e.event === "RandomnessFulfilled");
+            assert.equal(fulfilled.args.requester, game.address);
+            assert.isTrue(fulfilled.args.randomness.eq(expected));
+            assert.isTrue(request.fulfilled);
+            assert.isTrue(request.randomness.eq(expected));
+            assert.isTrue(await provider.isFulfilled(requestId));
+
+            const words = await game.getWords(requestId);
+            assert.equal(words.length, 1);
+            assert.isTrue(words[0].eq(expected));
+
+            await mustRevert(provider.reveal(requestId, seeds[0]), "CommitRevealRandomnessProvider__AlreadyFulfilled");
+        });
+
+        it("Should revert the reveal when the game callback reverts so it can be retried", async function () {
+            await (await game.setShouldRevert(true)).wait();
+            await mineBlocks(revealDelay);
+            await mustRevert(provider.reveal(requestId, seeds[0]), "Callback disabled");
+            assert.isFalse(await provider.isFulfilled(requestId));
+
+            await (await game.setShouldRevert(false)).wait();
+            await (await provider.reveal(requestId, seeds[0])).wait();
+            assert.equal((await game.getWords(requestId)).length, 1);
+        });
+
+        it("Should list unrevealed requests until they are revealed", async function () {
+            const second = (await requestFrom(game.requestSingle())).args.requestId;
+            assert.equal((await provider.getPendingRequestCount()).toNumber(), 2);
+            const page = await provider.getPendingRequests(0, 10);
+            assert.deepEqual(
+                page.map((id: any) => id.toNumber()),
+                [requestId.toNumber(), second.toNumber()]
+            );
+
+            await mineBlocks(revealDelay);
+            await (await provider.reveal(requestId, seeds[0])).wait();
+            assert.equal((await provider.getPendingRequestCount()).toNumber(), 1);
+            assert.deepEqual(
+                (await provider.getPendingRequests(0, 10)).map((id: any) => id.toNumber()),
+                [second.toNumber()]
+            );
+            assert.equal((await provider.getPendingRequests(1, 10)).length, 0);
+        });
+
+        it("Should expand a multi-word request from the revealed randomness", async function () {
+            const multiRequestId = (await requestFrom(game.requestMany(3))).args.requestId;
+            assert.equal((await provider.getRequest(multiRequestId)).numWords, 3);
+            await mustRevert(game.requestMany(0), "CommitRevealRandomnessProvider__InvalidNumWords");
+
+            await mineBlocks(revealDelay);
+            await (await provider.reveal(multiRequestId, seeds[1])).wait();
+
+            const randomness = (await provider.getRequest(multiRequestId)).randomness;
+            const words = await game.getWords(multiRequestId);
+            assert.equal(words.length, 3);
+            assert.isTrue(await game.s_usedMultiWordCallback(multiRequestId));
+            words.forEach((word: any, i: number) => {
+                const expected = ethers.utils.keccak256(
+                    ethers.utils.defaultAbiCoder.encode(["uint256", "uint256"], [randomness, i])
+                );
+                assert.isTrue(word.eq(expected));
+            });
+        });
+
+        it("Should expire once the reveal block hash is no longer available", async function () {
+            await mineBlocks(revealDelay + 256);
+            await mustRevert(provider.reveal(requestId, seeds[0]), "CommitRevealRandomnessProvider__RevealExpired");
+        });
+    });
+
+    describe("Drop-in for games", function () {
+        it("Should settle a DiceGame bet exactly like the VRF provider", async function () {
+            const treasury = await ethers.getContract("Treasury");
+
+            const minBet = ethers.utils.parseEther("0.001");
+            const diceFactory = await ethers.getContractFactory("DiceGame");
+            const diceGame = await diceFactory.deploy(
+                provider.address,
+                treasury.address,
+                minBet,
+                ethers.utils.parseEther("0.1"),
+                3600
+            );
+            await diceGame.deployed();
+            await (await treasury.setGame(diceGame.address, true)).wait();
+            await (await treasury.setGameLimits(diceGame.address, minBet.mul(6), minBet.mul(6))).wait();
+            await (await provider.setGame(diceGame.address, true)).wait();
+            await (await provider.connect(operator).commitSeeds(seedHashes)).wait();
+
+            const betReceipt = await (await diceGame.connect(stranger).placeBet(3, { value: minBet })).wait();
+            const requested = betReceipt.events.find((e: any) => e.event === "RandomnessRequested");
+            assert.equal((await diceGame.getBet(1)).status, 1); // CALCULATING
+
+            await mineBlocks(revealDelay);
+            await (await provider.connect(operator).reveal(requested.args.requestId, seeds[0])).wait();
+
+            const bet = await diceGame.getBet(1);
+            const randomness = (await provider.getRequest(requested.args.requestId)).randomness;
+            assert.equal(bet.status, 2); // SETTLED
+            assert.equal(bet.diceResult, randomness.mod(6).add(1).toNumber());
+        });
+    });
+});
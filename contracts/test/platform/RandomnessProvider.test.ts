@@ -1,19 +1,507 @@
 import { assert } from "chai";
 import { deployments, ethers } from "hardhat";
 
+async function mustRevert(p: Promise<any>, contains?: string) {
+    try {
+        await p;
+        assert.fail("Expected revert, but tx succeeded");
+    } catch (e: any) {
+        const msg = String(e?.message || "");
+        if (contains) {
+            assert.include(msg, contains);
+        }
+    }
+}
+
 describe("RandomnessProvider Unit Tests", async function () {
     let randomnessProvider: any;
+    let vrfCoordinatorMock: any;
+    let game: any;
+    let deployer: any;
+    let stranger: any;
+
+    // Request through the mock game and return the requestId the provider assigned
+    async function requestFrom(tx: Promise<any>) {
+        const receipt = await (await tx).wait();
+        const requestEvent = receipt.logs
+            .filter((log: any) => log.address === randomnessProvider.address)
+            .map((log: any) => randomnessProvider.interface.parseLog(log))
+            .find((parsed: any) => parsed.name === "RequestSent");
+        return requestEvent.args.requestId;
+    }
 
     beforeEach(async function () {
         await deployments.fixture(["all"]);
+        [deployer, stranger] = await ethers.getSigners();
         randomnessProvider = await ethers.getContract("RandomnessProvider");
+        vrfCoordinatorMock = await ethers.getContract("VRFCoordinatorMock");
+
+        const gameFactory = await ethers.getContractFactory("RandomWordsGameMock");
+        game = await gameFactory.deploy(randomnessProvider.address);
+        await game.deployed();
+        await (await randomnessProvider.setGame(game.address, true)).wait();
     });
 
     it("Should successfully request a random number and emit event", async function () {
-        const txResponse = await randomnessProvider.requestRandomWords();
+        await (await randomnessProvider.setGame(deployer.address, true)).wait();
+        const txResponse = await randomnessProvider["requestRandomWords()"]();
         const txReceipt = await txResponse.wait(1);
         const requestEvent = txReceipt.events.find((e: any) => e.event === "RequestSent");
         assert.isDefined(requestEvent);
         assert.isNotNull(requestEvent.args.requestId);
     });
-});
\ No newline at end of file
+
+    describe("Game allowlist", function () {
+        it("Should register the Raffle deployed by the deploy script", async function () {
+            const raffle = await ethers.getContract("Raffle");
+            assert.isTrue(await randomnessProvider.isGame(raffle.address));
+        });
+
+        it("Should reject requests from unregistered callers", async function () {
+            await mustRevert(
+                randomnessProvider.connect(stranger)["requestRandomWords()"](),
+                "RandomnessProvider__NotGame"
+            );
+            // Hardhat reports this revert as an unrecognized custom error, so match its selector
+            await mustRevert(
+                randomnessProvider.connect(stranger)["requestRandomWords(uint32)"](3),
+                randomnessProvider.interface.getSighash("RandomnessProvider__NotGame")
+            );
+        });
+
+        it("Should reject requests from a game once it is removed", async function () {
+            const txResponse = await randomnessProvider.setGame(game.address, false);
+            const txReceipt = await txResponse.wait();
+            const authEvent = txReceipt.events.find((e: any) => e.event === "GameAuthorized");
+            assert.equal(authEvent.args.game, game.address);
+            assert.isFalse(authEvent.args.allowed);
+
+            await mustRevert(game.requestSingle(), "RandomnessProvider__NotGame");
+            await mustRevert(
+                game.requestMany(2),
+                randomnessProvider.interface.getSighash("RandomnessProvider__NotGame")
+            );
+        });
+
+        it("Should only let the owner manage games", async function () {
+            await mustRevert(
+                randomnessProvider.connect(stranger).setGame(stranger.address, true),
+                "Only callable by owner"
+            );
+            assert.isFalse(await randomnessProvider.isGame(stranger.address));
+        });
+
+        it("Should reject the zero address", async function () {
+            await mustRevert(
+                randomnessProvider.setGame(ethers.constants.AddressZero, true),
+                "RandomnessProvider__ZeroAddress"
+            );
+        });
+    });
+
+    describe("Multi-word requests", function () {
+        it("Should request a single word for the legacy overload", async function () {
+            const requestId = await requestFrom(game.requestSingle());
+            const request = await vrfCoordinatorMock.getRequest(requestId);
+            assert.equal(request.numWords, 1);
+            assert.isFalse(await randomnessProvider.s_multiWordRequests(requestId));
+        });
+
+        it("Should request the given number of words", async function () {
+            const requestId = await requestFrom(game.requestMany(3));
+            const request = await vrfCoordinatorMock.getRequest(requestId);
+            assert.equal(request.numWords, 3);
+            assert.equal(await randomnessProvider.s_requestIdToAddress(requestId), game.address);
+            assert.isTrue(await randomnessProvider.s_multiWordRequests(requestId));
+        });
+
+        it("Should reject zero words and more than the coordinator limit", async function () {
+            await (await randomnessProvider.setGame(deployer.address, true)).wait();
+            await mustRevert(
+                randomnessProvider["requestRandomWords(uint32)"](0),
+                "RandomnessProvider__InvalidNumWords"
+            );
+            await mustRevert(
+                randomnessProvider["requestRandomWords(uint32)"](501),
+                "RandomnessProvider__InvalidNumWords"
+            );
+        });
+
+        it("Should forward every word through fulfillRandomWords", async function () {
+            const requestId = await requestFrom(game.requestMany(3));
+
+            const tx = await vrfCoordinatorMock.fulfillRandomWordsWithOverride(
+                requestId,
+                randomnessProvider.address,
+                [11, 22, 33]
+            );
+            const receipt = await tx.wait();
+            const fulfilledEvent = receipt.events.find((e: any) => e.event === "RandomWordsFulfilled");
+            assert.isTrue(fulfilledEvent.args.success);
+
+            const words = await game.getWords(requestId);
+            assert.deepEqual(words.map((w: any) => w.toNumber()), [11, 22, 33]);
+            assert.isTrue(await game.s_usedMultiWordCallback(requestId));
+        });
+
+        it("Should deliver a one-word multi-word request as an array", async function () {
+            const requestId = await requestFrom(game.requestMany(1));
+            await (await vrfCoordinatorMock.fulfillRandomWordsWithOverride(requestId, randomnessProvider.address, [7])).wait();
+
+            const words = await game.getWords(requestId);
+            assert.deepEqual(words.map((w: any) => w.toNumber()), [7]);
+            assert.isTrue(await game.s_usedMultiWordCallback(requestId));
+        });
+
+        it("Should keep forwarding the first word through fulfillRandomness for legacy requests", async function () {
+            const requestId = await requestFrom(game.requestSingle());
+            await (await vrfCoordinatorMock.fulfillRandomWordsWithOverride(requestId, randomnessProvider.address, [42])).wait();
+
+            const words = await game.getWords(requestId);
+            assert.deepEqual(words.map((w: any) => w.toNumber()), [42]);
+            assert.isFalse(await game.s_usedMultiWordCallback(requestId));
+        });
+
+        it("Should deliver distinct mock-generated words for a multi-word request", async function () {
+            const requestId = await requestFrom(game.requestMany(5));
+            await (await vrfCoordinatorMock.fulfillRandomWords(requestId, randomnessProvider.address)).wait();
+
+            const words = (await game.getWords(requestId)).map((w: any) => w.toString());
+            assert.equal(words.length, 5);
+            assert.equal(new Set(words).size, 5);
+        });
+    });
+
+    describe("Request records", function () {
+        it("Should record requester, block, timestamp and word count for a new request", async function () {
+            const tx = await game.requestMany(3);
+            const requestId = await requestFrom(tx);
+            const receipt = await tx.wait();
+            const block = await ethers.provider.getBlock(receipt.blockNumber);
+
+            const record = await randomnessProvider.getRequest(requestId);
+            assert.equal(record.requester, game.address);
+            assert.equal(record.requestBlock.toNumber(), receipt.blockNumber);
+            assert.equal(record.requestTimestamp.toNumber(), block.timestamp);
+            assert.equal(record.numWords, 3);
+            assert.isFalse(record.fulfilled);
+            assert.equal(record.randomness.toString(), "0");
+            assert.isFalse(await randomnessProvider.isFulfilled(requestId));
+        });
+
+        it("Should return an empty record for unknown requests", async function () {
+            const record = await randomnessProvider.getRequest(999);
+            assert.equal(record.requester, ethers.constants.AddressZero);
+            assert.isFalse(record.fulfilled);
+        });
+
+        it("Should mark the request fulfilled and emit RandomnessFulfilled", async function () {
+            const requestId = await requestFrom(game.requestSingle());
+            const receipt = await (
+                await vrfCoordinatorMock.fulfillRandomWordsWithOverride(requestId, randomnessProvider.address, [42])
+            ).wait();
+
+            const fulfilledEvent = receipt.logs
+                .filter((log: any) => log.address === randomnessProvider.address)
+                .map((log: any) => randomnessProvider.interface.parseLog(log))
+                .find((parsed: any) => parsed.name === "RandomnessFulfilled");
+            assert.equal(fulfilledEvent.args.requestId.toString(), requestId.toString());
+            assert.equal(fulfilledEvent.args.requester, game.address);
+            assert.equal(fulfilledEvent.args.randomness.toNumber(), 42);
+
+            const record = await randomnessProvider.getRequest(requestId);
+            assert.isTrue(record.fulfilled);
+            assert.equal(record.randomness.toNumber(), 42);
+            assert.isTrue(await randomnessProvider.isFulfilled(requestId));
+        });
+
+        it("Should record the first word of a multi-word request", async function () {
+            const requestId = await requestFrom(game.requestMany(3));
+            await (
+                await vrfCoordinatorMock.fulfillRandomWordsWithOverride(requestId, randomnessProvider.address, [11, 22, 33])
+            ).wait();
+            assert.equal((await randomnessProvider.getRequest(requestId)).randomness.toNumber(), 11);
+        });
+
+        it("Should mark the request fulfilled even when the game callback fails", async function () {
+            await (await game.setShouldRevert(true)).wait();
+            const requestId = await requestFrom(game.requestSingle());
+            await (
+                await vrfCoordinatorMock.fulfillRandomWordsWithOverride(requestId, randomnessProvider.address, [42])
+            ).wait();
+
+            assert.isTrue(await randomnessProvider.isFulfilled(requestId));
+            assert.equal((await randomnessProvider.getPendingRequestCount()).toNumber(), 0);
+        });
+
+        it("Should track pending requests and page through them", async function () {
+            const ids = [];
+            for (let i = 0; i < 4; i++) {
+                ids.push((await requestFrom(game.requestSingle())).toString());
+            }
+            assert.equal((await randomnessProvider.getPendingRequestCount()).toNumber(), 4);
+
+            const firstPage = await randomnessProvider.getPendingRequests(0, 3);
+            const secondPage = await randomnessProvider.getPendingRequests(3, 3);
+            assert.deepEqual([...firstPage, ...secondPage].map((id: any) => id.toString()), ids);
+            assert.equal((await randomnessProvider.getPendingRequests(4, 3)).length, 0);
+            assert.equal((await randomnessProvider.getPendingRequests(0, ethers.constants.MaxUint256)).length, 4);
+
+            // Fulfilling the first request swaps the last one into its slot
+            await (
+                await vrfCoordinatorMock.fulfillRandomWordsWithOverride(ids[0], randomnessProvider.address, [1])
+            ).wait();
+            const pending = (await randomnessProvider.getPendingRequests(0, 10)).map((id: any) => id.toString());
+            assert.deepEqual(pending, [ids[3], ids[1], ids[2]]);
+
+            for (const id of pending) {
+                await (await vrfCoordinatorMock.fulfillRandomWordsWithOverride(id, randomnessProvider.address, [1])).wait();
+            }
+            assert.equal((await randomnessProvider.getPendingRequestCount()).toNumber(), 0);
+        });
+    });
+
+    describe("Failed callbacks", function () {
+        // Fulfil through the coordinator and return the provider's CallbackFailed event, if any
+        async function fulfillWith(requestId: any, words: number[]) {
+            const receipt = await (
+                await vrfCoordinatorMock.fulfillRandomWordsWithOverride(requestId, randomnessProvider.address, words)
+            ).wait();
+            const fulfilledEvent = receipt.events.find((e: any) => e.event === "RandomWordsFulfilled");
+            assert.isTrue(fulfilledEvent.args.success);
+            return receipt.logs
+                .filter((log: any) => log.address === randomnessProvider.address)
+                .map((log: any) => randomnessProvider.interface.parseLog(log))
+                .find((parsed: any) => parsed.name === "CallbackFailed");
+        }
+
+        it("Should store every word and emit CallbackFailed when the game reverts", async function () {
+            await (await game.setShouldRevert(true)).wait();
+            const requestId = await requestFrom(game.requestMany(3));
+
+            const failedEvent = await fulfillWith(requestId, [11, 22, 33]);
+            assert.exists(failedEvent);
+            assert.equal(failedEvent.args.requestId.toString(), requestId.toString());
+            assert.equal(failedEvent.args.game, game.address);
+            assert.isAbove(ethers.utils.arrayify(failedEvent.args.reason).length, 0);
+
+            const stored = await randomnessProvider.getFailedCallbackWords(requestId);
+            assert.deepEqual(stored.map((w: any) => w.toNumber()), [11, 22, 33]);
+            assert.equal((await game.getWords(requestId)).length, 0);
+        });
+
+        it("Should not store anything when the callback succeeds", async function () {
+            const requestId = await requestFrom(game.requestSingle());
+            assert.notExists(await fulfillWith(requestId, [42]));
+            assert.equal((await randomnessProvider.getFailedCallbackWords(requestId)).length, 0);
+        });
+
+        it("Should keep the words while the game still reverts on retry", async function () {
+            await (await game.setShouldRevert(true)).wait();
+            const requestId = await requestFrom(game.requestSingle());
+            await fulfillWith(requestId, [42]);
+
+            await mustRevert(randomnessProvider.retryCallback(requestId), "Callback disabled");
+            const stored = await randomnessProvider.getFailedCallbackWords(requestId);
+            assert.deepEqual(stored.map((w: any) => w.toNumber()), [42]);
+        });
+
+        it("Should let anyone re-deliver stored words through the original callback", async function () {
+            await (await game.setShouldRevert(true)).wait();
+            const singleId = await requestFrom(game.requestSingle());
+            const manyId = await requestFrom(game.requestMany(2));
+            await fulfillWith(singleId, [42]);
+            await fulfillWith(manyId, [7, 8]);
+            await (await game.setShouldRevert(false)).wait();
+
+            const receipt = await (await randomnessProvider.connect(stranger).retryCallback(manyId)).wait();
+            const retriedEvent = receipt.events.find((e: any) => e.event === "CallbackRetried");
+            assert.equal(retriedEvent.args.requestId.toString(), manyId.toString());
+            assert.equal(retriedEvent.args.game, game.address);
+            assert.deepEqual((await game.getWords(manyId)).map((w: any) => w.toNumber()), [7, 8]);
+            assert.isTrue(await game.s_usedMultiWordCallback(manyId));
+
+            await (await randomnessProvider.connect(stranger).retryCallback(singleId)).wait();
+            assert.deepEqual((await game.getWords(singleId)).map((w: any) => w.toNumber()), [42]);
+            assert.isFalse(await game.s_usedMultiWordCallback(singleId));
+
+            assert.equal((await randomnessProvider.getFailedCallbackWords(manyId)).length, 0);
+            await mustRevert(randomnessProvider.retryCallback(manyId), "RandomnessProvider__NoFailedCallback");
+        });
+
+        it("Should reject retries for requests that never failed", async function () {
+            const requestId = await requestFrom(game.requestSingle());
+            await mustRevert(randomnessProvider.retryCallback(requestId), "RandomnessProvider__NoFailedCallback");
+            await fulfillWith(requestId, [42]);
+            await mustRevert(randomnessProvider.retryCallback(requestId), "RandomnessProvider__NoFailedCallback");
+        });
+    });
+
+    describe("VRF parameters", function () {
+        const newKeyHash = "0x" + "ab".repeat(32);
+
+        // Parameters the coordinator received for the request made in `tx`
+        async function coordinatorRequest(tx: Promise<any>) {
+            const receipt = await (await tx).wait();
+            const parsed = receipt.logs
+                .filter((log: any) => log.address === vrfCoordinatorMock.address)
+                .map((log: any) => vrfCoordinatorMock.interface.parseLog(log))
+                .find((p: any) => p.name === "RandomWordsRequested");
+            return parsed.args;
+        }
+
+        // ExtraArgsV1 is the 4-byte tag followed by the ABI-encoded nativePayment flag
+        const nativePaymentOf = (extraArgs: string) => !ethers.BigNumber.from("0x" + extraArgs.slice(-64)).isZero();
+
+        it("Should initialize from the constructor with 3 confirmations and native payment", async function () {
+            const config = await randomnessProvider.getVrfConfig();
+            assert.equal(config.callbackGasLimit, 500000);
+            assert.equal(config.requestConfirmations, 3);
+            assert.isTrue(config.nativePayment);
+            assert.notEqual(config.keyHash, ethers.constants.HashZero);
+        });
+
+        it("Should let the owner update every parameter and emit events", async function () {
+            let receipt = await (await randomnessProvider.setKeyHash(newKeyHash)).wait();
+            assert.equal(receipt.events.find((e: any) => e.event === "KeyHashUpdated").args.keyHash, newKeyHash);
+
+            receipt = await (await randomnessProvider.setCallbackGasLimit(750000)).wait();
+            assert.equal(receipt.events.find((e: any) => e.event === "CallbackGasLimitUpdated").args.gasLimit, 750000);
+
+            receipt = await (await randomnessProvider.setRequestConfirmations(10)).wait();
+            assert.equal(receipt.events.find((e: any) => e.event === "RequestConfirmationsUpdated").args.confirmations, 10);
+
+            receipt = await (await randomnessProvider.setNativePayment(false)).wait();
+            assert.isFalse(receipt.events.find((e: any) => e.event === "NativePaymentUpdated").args.nativePayment);
+
+            const config = await randomnessProvider.getVrfConfig();
+            assert.equal(config.keyHash, newKeyHash);
+            assert.equal(config.callbackGasLimit, 750000);
+            assert.equal(config.requestConfirmations, 10);
+            assert.isFalse(config.nativePayment);
+        });
+
+        it("Should use the updated parameters for new requests", async function () {
+            await (await randomnessProvider.setKeyHash(newKeyHash)).wait();
+            await (await randomnessProvider.setCallbackGasLimit(750000)).wait();
+            await (await randomnessProvider.setRequestConfirmations(10)).wait();
+            await (await randomnessProvider.setNativePayment(false)).wait();
+
+            const request = await coordinatorRequest(game.requestSingle());
+            assert.equal(request.keyHash, newKeyHash);
+            assert.equal(request.callbackGasLimit, 750000);
+            assert.equal(request.requestConfirmations, 10);
+            assert.isFalse(nativePaymentOf(request.extraArgs));
+        });
+
+        it("Should reject out-of-range values", async function () {
+            await mustRevert(randomnessProvider.setKeyHash(ethers.constants.HashZero), "RandomnessProvider__InvalidKeyHash");
+            await mustRevert(randomnessProvider.setCallbackGasLimit(49999), "RandomnessProvider__InvalidCallbackGasLimit");
+            await mustRevert(randomnessProvider.setCallbackGasLimit(2500001), "RandomnessProvider__InvalidCallbackGasLimit");
+            await mustRevert(randomnessProvider.setRequestConfirmations(2), "RandomnessProvider__InvalidRequestConfirmations");
+            await mustRevert(randomnessProvider.setRequestConfirmations(201), "RandomnessProvider__InvalidRequestConfirmations");
+            await mustRevert(
+                randomnessProvider.setGameCallbackGasLimit(game.address, 10000),
+                "RandomnessProvider__InvalidCallbackGasLimit"
+            );
+        });
+
+        it("Should only let the owner change parameters", async function () {
+            const asStranger = randomnessProvider.connect(stranger);
+            await mustRevert(asStranger.setKeyHash(newKeyHash), "Only callable by owner");
+            await mustRevert(asStranger.setCallbackGasLimit(750000), "Only callable by owner");
+            await mustRevert(asStranger.setRequestConfirmations(10), "Only callable by owner");
+            await mustRevert(asStranger.setNativePayment(false), "Only callable by owner");
+            await mustRevert(asStranger.setGameCallbackGasLimit(game.address, 750000), "Only callable by owner");
+        });
+
+        it("Should apply a per-game callback gas limit override", async function () {
+            const receipt = await (await randomnessProvider.setGameCallbackGasLimit(game.address, 1200000)).wait();
+            const updated = receipt.events.find((e: any) => e.event === "GameCallbackGasLimitUpdated");
+            assert.equal(updated.args.game, game.address);
+            assert.equal(updated.args.gasLimit, 1200000);
+            assert.equal(await randomnessProvider.getCallbackGasLimit(game.address), 1200000);
+
+            let request = await coordinatorRequest(game.requestMany(2));
+            assert.equal(request.callbackGasLimit, 1200000);
+
+            // Other callers keep the default
+            await (await randomnessProvider.setGame(deployer.address, true)).wait();
+            request = await coordinatorRequest(randomnessProvider["requestRandomWords()"]());
+            assert.equal(request.callbackGasLimit, 500000);
+
+            // Clearing the override falls back to the default
+            await (await randomnessProvider.setGameCallbackGasLimit(game.address, 0)).wait();
+            request = await coordinatorRequest(game.requestSingle());
+            assert.equal(request.callbackGasLimit, 500000);
+        });
+
+        describe("Payment mode", function () {
+            // RequestSent as emitted by the provider for the request made in `tx`
+            async function requestSentOf(tx: Promise<any>) {
+                const receipt = await (await tx).wait();
+                return receipt.logs
+                    .filter((log: any) => log.address === randomnessProvider.address)
+                    .map((log: any) => randomnessProvider.interface.parseLog(log))
+                    .find((parsed: any) => parsed.name === "RequestSent");
+            }
+
+            it("Should report native payment in RequestSent and to the coordinator by default", async function () {
+                const requestSent = await requestSentOf(game.requestSingle());
+                assert.isTrue(requestSent.args.nativePayment);
+
+                const request = await vrfCoordinatorMock.getRequest(requestSent.args.requestId);
+                assert.isTrue(request.nativePayment);
+
+                const receipt = await (
+                    await vrfCoordinatorMock.fulfillRandomWordsWithOverride(
+                        requestSent.args.requestId,
+                        randomnessProvider.address,
+                        [1]
+                    )
+                ).wait();
+                assert.isTrue(receipt.events.find((e: any) => e.event === "RandomWordsFulfilled").args.nativePayment);
+            });
+
+            it("Should switch new requests to LINK billing", async function () {
+                const before = await requestSentOf(game.requestSingle());
+                await (await randomnessProvider.setNativePayment(false)).wait();
+                const after = await requestSentOf(game.requestSingle());
+
+                assert.isFalse(after.args.nativePayment);
+                assert.isFalse((await vrfCoordinatorMock.getRequest(after.args.requestId)).nativePayment);
+                // Requests already sent keep the mode they were billed with
+                assert.isTrue((await vrfCoordinatorMock.getRequest(before.args.requestId)).nativePayment);
+
+                const receipt = await (
+                    await vrfCoordinatorMock.fulfillRandomWordsWithOverride(after.args.requestId, randomnessProvider.address, [1])
+                ).wait();
+                assert.isFalse(receipt.events.find((e: any) => e.event === "RandomWordsFulfilled").args.nativePayment);
+            });
+
+            it("Should take the initial mode from the constructor", async function () {
+                const providerFactory = await ethers.getContractFactory("RandomnessProvider");
+                const linkProvider = await providerFactory.deploy(
+                    1,
+                    vrfCoordinatorMock.address,
+                    newKeyHash,
+                    500000,
+                    false
+                );
+                await linkProvider.deployed();
+
+                assert.isFalse((await linkProvider.getVrfConfig()).nativePayment);
+                await (await linkProvider.setGame(deployer.address, true)).wait();
+                const request = await coordinatorRequest(linkProvider["requestRandomWords()"]());
+                assert.isFalse(nativePaymentOf(request.extraArgs));
+            });
+        });
+
+        it("Should give Roulette a higher callback gas limit via its deploy script", async function () {
+            await deployments.fixture(["Roulette"]);
+            const provider = await ethers.getContract("RandomnessProvider");
+            const roulette = await ethers.getContract("Roulette");
+            assert.equal(await provider.getCallbackGasLimit(roulette.address), 800000);
+        });
+    });
+});
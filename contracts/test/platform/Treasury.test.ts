@@ -1,5 +1,5 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
 import { BigNumber } from "ethers";
 
 async function mustRevert(p: Promise<any>, contains?: string) {
@@ -48,8 +48,9 @@ describe("Treasury (strict, no chai-matchers)", function () {
       treasury.connect(attacker).payout(user.address, amount)
     );
 
-    // authorize game
+    // authorize game and give it a bankroll allocation to pay out of
     await treasury.connect(owner).setGame(game.address, true);
+    await treasury.connect(owner).setGameLimits(game.address, ethers.utils.parseEther("1"), 0);
 
     // measure balances before
     const tBefore = await ethers.provider.getBalance(treasury.address);
@@ -91,22 +92,28 @@ describe("Treasury (strict, no chai-matchers)", function () {
       value: ethers.utils.parseEther("2"),
     });
 
-    // non-owner admin operations must revert with Ownable message (OZ v4)
+    // admin operations without the matching role must revert with AccessControl message (OZ v4)
     await mustRevert(
       treasury.connect(attacker).setGame(game.address, true),
-      "Ownable: caller is not the owner"
+      "is missing role"
     );
     await mustRevert(
       treasury.connect(attacker).pause(),
-      "Ownable: caller is not the owner"
+      "is missing role"
     );
     await mustRevert(
       treasury.connect(attacker).adminWithdraw(attacker.address, ethers.utils.parseEther("0.1")),
-      "Ownable: caller is not the owner"
+      "is missing role"
+    );
+
+    await mustRevert(
+      treasury.connect(attacker).setGameLimits(game.address, 1, 1),
+      "is missing role"
     );
 
     // owner authorizes game and pauses
     await treasury.connect(owner).setGame(game.address, true);
+    await treasury.connect(owner).setGameLimits(game.address, ethers.utils.parseEther("1"), 0);
     await treasury.connect(owner).pause();
 
     // payout must revert while paused (OZ v4 string)
@@ -141,4 +148,978 @@ describe("Treasury (strict, no chai-matchers)", function () {
     const t2After = await ethers.provider.getBalance(treasury.address);
     bnEq(t2Before.sub(t2After), w, "Treasury diff after adminWithdraw");
   });
+
+  describe("Per-game limits", function () {
+    async function limitsFixture() {
+      const fixture = await deployFixture();
+      const { treasury, owner, game } = fixture;
+
+      await owner.sendTransaction({ to: treasury.address, value: ethers.utils.parseEther("5") });
+      await treasury.connect(owner).setGame(game.address, true);
+      await treasury
+        .connect(owner)
+        .setGameLimits(game.address, ethers.utils.parseEther("1"), ethers.utils.parseEther("2"));
+
+      return fixture;
+    }
+
+    it("lists configured games with their limits", async function () {
+      const { treasury, owner, game, user } = await limitsFixture();
+
+      // Re-configuring does not list a game twice
+      await treasury.connect(owner).setGame(game.address, false);
+      await treasury.connect(owner).setGame(user.address, true);
+      expect(await treasury.getGames()).to.deep.equal([game.address, user.address]);
+
+      const config = await treasury.getGameConfig(game.address);
+      expect(config.authorized).to.equal(false);
+      bnEq(config.allocation, ethers.utils.parseEther("1"), "Allocation");
+      bnEq(config.maxLiability, ethers.utils.parseEther("2"), "Max liability");
+      expect(await treasury.isGame(user.address)).to.equal(true);
+    });
+
+    it("refuses to remove a game while it has liability reserved", async function () {
+      const { treasury, owner, game } = await limitsFixture();
+
+      await treasury.connect(game).reserveLiability(ethers.utils.parseEther("0.5"), ethers.utils.parseEther("0.1"));
+      await mustRevert(treasury.connect(owner).setGame(game.address, false), "GameHasOpenBets");
+
+      await treasury.connect(game).releaseLiability(ethers.utils.parseEther("0.5"), ethers.utils.parseEther("0.1"));
+      await (await treasury.connect(owner).setGame(game.address, false)).wait();
+      expect(await treasury.isGame(game.address)).to.equal(false);
+    });
+
+    it("reserves liability up to maxLiability and the game's allocation", async function () {
+      const { treasury, game } = await limitsFixture();
+
+      // Without deposits only the 1 ETH allocation backs new liability
+      await mustRevert(treasury.connect(game).reserveLiability(ethers.utils.parseEther("1.5"), ethers.utils.parseEther("1")), "ExceedsGameAllocation");
+
+      // Stakes deposited by the game extend what it can cover
+      await treasury.connect(game).deposit({ value: ethers.utils.parseEther("1") });
+      await (await treasury.connect(game).reserveLiability(ethers.utils.parseEther("1.5"), ethers.utils.parseEther("1"))).wait();
+      await mustRevert(treasury.connect(game).reserveLiability(ethers.utils.parseEther("0.6"), ethers.utils.parseEther("0.1")), "ExceedsMaxLiability");
+
+      bnEq((await treasury.getGameConfig(game.address)).liability, ethers.utils.parseEther("1.5"), "Liability");
+      bnEq(await treasury.totalLiability(), ethers.utils.parseEther("1.5"), "Total liability");
+      bnEq(await treasury.totalOpenStakes(), ethers.utils.parseEther("1"), "Total open stakes");
+
+      const usage = await treasury.getAllocationUsage(game.address);
+      bnEq(usage.used, ethers.utils.parseEther("0.5"), "Allocation used");
+      bnEq(usage.available, ethers.utils.parseEther("0.5"), "Allocation available");
+    });
+
+    it("releases liability and caps payouts at the game's allocation", async function () {
+      const { treasury, game, user } = await limitsFixture();
+
+      await (await treasury.connect(game).reserveLiability(ethers.utils.parseEther("1"), ethers.utils.parseEther("0.5"))).wait();
+      // Reserved liability is not available for payouts until released
+      await mustRevert(treasury.connect(game).payout(user.address, ethers.utils.parseEther("0.5")), "ExceedsGameAllocation");
+      await mustRevert(treasury.connect(game).releaseLiability(ethers.utils.parseEther("2"), ethers.utils.parseEther("0.5")), "ReleaseExceedsLiability");
+      await mustRevert(treasury.connect(game).releaseLiability(ethers.utils.parseEther("1"), ethers.utils.parseEther("1")), "ReleaseExceedsOpenStakes");
+
+      await (await treasury.connect(game).releaseLiability(ethers.utils.parseEther("1"), ethers.utils.parseEther("0.5"))).wait();
+      await (await treasury.connect(game).payout(user.address, ethers.utils.parseEther("0.8"))).wait();
+      await mustRevert(treasury.connect(game).payout(user.address, ethers.utils.parseEther("0.3")), "ExceedsGameAllocation");
+
+      const config = await treasury.getGameConfig(game.address);
+      bnEq(config.liability, BigNumber.from(0), "Liability after release");
+      bnEq(config.openStakes, BigNumber.from(0), "Open stakes after release");
+      bnEq(config.paidOut, ethers.utils.parseEther("0.8"), "Paid out");
+      bnEq((await treasury.getAllocationUsage(game.address)).available, ethers.utils.parseEther("0.2"), "Left");
+    });
+
+    it("reports per-game profit and loss from attributed deposits and payouts", async function () {
+      const { treasury, owner, game, user } = await limitsFixture();
+
+      const receipt = await (await treasury.connect(game).deposit({ value: ethers.utils.parseEther("0.5") })).wait();
+      const deposited = receipt.events.find((e: any) => e.event === "GameDeposited");
+      expect(deposited.args.game).to.equal(game.address);
+      bnEq(deposited.args.deposited, ethers.utils.parseEther("0.5"), "Running total in");
+      // Plain transfers from games count too; deposits from anyone else do not
+      await (await game.sendTransaction({ to: treasury.address, value: ethers.utils.parseEther("0.25") })).wait();
+      const donation = await (await treasury.connect(user).deposit({ value: ethers.utils.parseEther("1") })).wait();
+      expect(donation.events.some((e: any) => e.event === "Deposited")).to.equal(true);
+
+      await (await treasury.connect(game).payout(user.address, ethers.utils.parseEther("1"))).wait();
+
+      let pnl = await treasury.getGameProfitAndLoss(game.address);
+      bnEq(pnl.totalIn, ethers.utils.parseEther("0.75"), "Total in");
+      bnEq(pnl.totalOut, ethers.utils.parseEther("1"), "Total out");
+      bnEq(pnl.net, ethers.utils.parseEther("-0.25"), "Net loss");
+
+      pnl = await treasury.getGameProfitAndLoss(owner.address);
+      bnEq(pnl.net, BigNumber.from(0), "Unknown game");
+    });
+
+    it("keeps reserved liability out of adminWithdraw", async function () {
+      const { treasury, owner, game } = await limitsFixture();
+
+      await (await treasury.connect(game).reserveLiability(ethers.utils.parseEther("1"), 0)).wait();
+
+      // 5 ETH balance, 1 ETH reserved for open bets
+      await mustRevert(
+        treasury.connect(owner).adminWithdraw(owner.address, ethers.utils.parseEther("4.5")),
+        "InsufficientTreasuryBalance"
+      );
+      await (await treasury.connect(owner).adminWithdraw(owner.address, ethers.utils.parseEther("4"))).wait();
+    });
+  });
+
+  describe("Liquidity provider shares", function () {
+    async function lpFixture() {
+      const fixture = await deployFixture();
+      const { treasury, owner, game } = fixture;
+
+      await treasury.connect(owner).setGame(game.address, true);
+      await treasury
+        .connect(owner)
+        .setGameLimits(game.address, ethers.utils.parseEther("1"), ethers.utils.parseEther("2"));
+
+      return fixture;
+    }
+
+    async function passCooldown(treasury: any) {
+      await network.provider.send("evm_increaseTime", [(await treasury.withdrawCooldown()).toNumber()]);
+      await network.provider.send("evm_mine");
+    }
+
+    // Once shares exist a deposit waits out the cooldown before it mints shares
+    async function provideLiquidity(treasury: any, provider: any, value: BigNumber) {
+      await (await treasury.connect(provider).depositLiquidity(provider.address, { value })).wait();
+      await passCooldown(treasury);
+      await (await treasury.connect(provider).completeDeposit()).wait();
+    }
+
+    it("mints shares against total assets and tracks house P&L", async function () {
+      const { treasury, game, attacker, user } = await lpFixture();
+
+      await treasury.connect(user).depositLiquidity(user.address, { value: ethers.utils.parseEther("2") });
+      const userShares = await treasury.sharesOf(user.address);
+      bnEq(await treasury.totalShares(), userShares, "Total shares");
+      bnEq(await treasury.totalAssets(), ethers.utils.parseEther("2"), "Total assets");
+
+      // A lost stake raises the share price: the next LP gets fewer shares for the same ETH
+      await treasury.connect(game).deposit({ value: ethers.utils.parseEther("2") });
+      await provideLiquidity(treasury, attacker, ethers.utils.parseEther("2"));
+      bnEq((await treasury.sharesOf(attacker.address)).mul(2), userShares, "Shares at double price");
+
+      // An open bet is valued at its stake, not its worst case, and a payout lowers every LP's value
+      await treasury.connect(game).reserveLiability(ethers.utils.parseEther("1"), ethers.utils.parseEther("0.5"));
+      bnEq(await treasury.totalAssets(), ethers.utils.parseEther("5.5"), "Assets net of open stakes");
+      await treasury.connect(game).releaseLiability(ethers.utils.parseEther("1"), ethers.utils.parseEther("0.5"));
+      await treasury.connect(game).payout(attacker.address, ethers.utils.parseEther("1"));
+
+      const userValue = await treasury.convertToAssets(userShares);
+      expect(userValue.gt(ethers.utils.parseEther("3.33")) && userValue.lt(ethers.utils.parseEther("3.34"))).to.equal(true);
+    });
+
+    it("does not dilute incumbent LPs with a deposit made while a bet is open", async function () {
+      const { treasury, owner, game, attacker, user } = await lpFixture();
+      await treasury.connect(owner).setGameLimits(game.address, ethers.utils.parseEther("10"), ethers.utils.parseEther("10"));
+
+      await treasury.connect(user).depositLiquidity(user.address, { value: ethers.utils.parseEther("20") });
+      await (await treasury.connect(user).requestRedeem(await treasury.sharesOf(user.address))).wait();
+      await passCooldown(treasury);
+
+      // A 1 ETH dice bet that could pay 5.88 ETH is open
+      await treasury.connect(game).deposit({ value: ethers.utils.parseEther("1") });
+      await treasury.connect(game).reserveLiability(ethers.utils.parseEther("5.88"), ethers.utils.parseEther("1"));
+      bnEq(await treasury.totalAssets(), ethers.utils.parseEther("20"), "Assets while the bet is open");
+      // Redeeming the incumbent's 20 ETH now would leave less than the bet's worst case
+      await mustRevert(treasury.connect(user).redeem(user.address), "InsufficientTreasuryBalance");
+
+      await provideLiquidity(treasury, attacker, ethers.utils.parseEther("5"));
+      const attackerShares = await treasury.sharesOf(attacker.address);
+
+      // The bet loses: the stake is house profit shared pro rata (26 ETH for 25 ETH contributed)
+      await treasury.connect(game).releaseLiability(ethers.utils.parseEther("5.88"), ethers.utils.parseEther("1"));
+      const attackerValue = await treasury.convertToAssets(attackerShares);
+      expect(attackerValue.gt(ethers.utils.parseEther("5.19")) && attackerValue.lt(ethers.utils.parseEther("5.21"))).to.equal(true);
+
+      const before = await ethers.provider.getBalance(treasury.address);
+      await (await treasury.connect(user).redeem(user.address)).wait();
+      const redeemed = before.sub(await ethers.provider.getBalance(treasury.address));
+      expect(redeemed.gt(ethers.utils.parseEther("20.79")) && redeemed.lt(ethers.utils.parseEther("20.81"))).to.equal(true);
+    });
+
+    it("redeems requested shares only after the cooldown, at the price at redemption", async function () {
+      const { treasury, game, user } = await lpFixture();
+
+      await treasury.connect(user).depositLiquidity(user.address, { value: ethers.utils.parseEther("2") });
+      const shares = await treasury.sharesOf(user.address);
+
+      await mustRevert(treasury.connect(user).requestRedeem(shares.add(1)), "InsufficientShares");
+      await mustRevert(treasury.connect(user).redeem(user.address), "NoRedeemRequest");
+
+      await (await treasury.connect(user).requestRedeem(shares)).wait();
+      bnEq(await treasury.sharesOf(user.address), BigNumber.from(0), "Shares locked");
+      await mustRevert(treasury.connect(user).redeem(user.address), "RedeemLocked");
+
+      // A payout during the cooldown is still borne by the redeeming LP
+      await treasury.connect(game).payout(game.address, ethers.utils.parseEther("0.5"));
+      await passCooldown(treasury);
+
+      const before = await ethers.provider.getBalance(treasury.address);
+      await (await treasury.connect(user).redeem(user.address)).wait();
+      const after = await ethers.provider.getBalance(treasury.address);
+
+      const redeemed = before.sub(after);
+      expect(redeemed.lte(ethers.utils.parseEther("1.5"))).to.equal(true);
+      expect(redeemed.gt(ethers.utils.parseEther("1.4999"))).to.equal(true);
+      bnEq(await treasury.totalShares(), BigNumber.from(0), "Shares burned");
+    });
+
+    it("cancels a redeem request and keeps adminWithdraw away from LP funds", async function () {
+      const { treasury, owner, user } = await lpFixture();
+
+      await treasury.connect(user).depositLiquidity(user.address, { value: ethers.utils.parseEther("1") });
+      const shares = await treasury.sharesOf(user.address);
+
+      await (await treasury.connect(user).requestRedeem(shares)).wait();
+      const request = await treasury.getRedeemRequest(user.address);
+      bnEq(request.shares, shares, "Requested shares");
+
+      await (await treasury.connect(user).cancelRedeem()).wait();
+      bnEq(await treasury.sharesOf(user.address), shares, "Shares returned");
+      await mustRevert(treasury.connect(user).cancelRedeem(), "NoRedeemRequest");
+
+      // Without house shares the treasurer cannot touch LP funds
+      await mustRevert(
+        treasury.connect(owner).adminWithdraw(owner.address, ethers.utils.parseEther("0.1")),
+        "InsufficientShares"
+      );
+      await mustRevert(treasury.connect(user).setWithdrawCooldown(0), "is missing role");
+      await mustRevert(treasury.connect(owner).setWithdrawCooldown(31 * 24 * 3600), "InvalidWithdrawCooldown");
+    });
+
+    it("mints house shares for a funded Treasury's bankroll when the first LP enters", async function () {
+      const { treasury, owner, attacker, user } = await lpFixture();
+      await owner.sendTransaction({ to: treasury.address, value: ethers.utils.parseEther("10") });
+
+      // The house bankroll is an incumbent, so even the first LP waits out the cooldown
+      await (await treasury.connect(user).depositLiquidity(user.address, { value: ethers.utils.parseEther("15") })).wait();
+      bnEq(await treasury.totalShares(), BigNumber.from(0), "No shares before completion");
+      await passCooldown(treasury);
+      await (await treasury.connect(user).completeDeposit()).wait();
+      const houseShares = await treasury.sharesOf(treasury.address);
+      bnEq(houseShares, ethers.utils.parseEther("10"), "House shares");
+
+      const userValue = await treasury.convertToAssets(await treasury.sharesOf(user.address));
+      expect(userValue.gt(ethers.utils.parseEther("14.9999")) && userValue.lte(ethers.utils.parseEther("15"))).to.equal(true);
+
+      // The treasurer withdraws the house portion, burning house shares, but nothing beyond it
+      await mustRevert(
+        treasury.connect(owner).adminWithdraw(owner.address, ethers.utils.parseEther("10.1")),
+        "InsufficientShares"
+      );
+      await mustRevert(treasury.connect(attacker).adminWithdraw(attacker.address, ethers.utils.parseEther("1")), "is missing role");
+      await (await treasury.connect(owner).adminWithdraw(owner.address, ethers.utils.parseEther("4"))).wait();
+      const houseValue = await treasury.convertToAssets(await treasury.sharesOf(treasury.address));
+      expect(houseValue.gt(ethers.utils.parseEther("5.9999")) && houseValue.lte(ethers.utils.parseEther("6"))).to.equal(true);
+      const userValueAfter = await treasury.convertToAssets(await treasury.sharesOf(user.address));
+      expect(userValueAfter.gte(userValue)).to.equal(true);
+    });
+
+    it("queues deposits once shares exist so an entrant cannot front-run a settlement", async function () {
+      const { treasury, owner, game, attacker, user } = await lpFixture();
+      await treasury.connect(user).depositLiquidity(user.address, { value: ethers.utils.parseEther("2") });
+      const userShares = await treasury.sharesOf(user.address);
+
+      // A 1 ETH bet is open when the attacker deposits, planning to trigger its losing settlement
+      await treasury.connect(game).deposit({ value: ethers.utils.parseEther("1") });
+      await treasury.connect(game).reserveLiability(ethers.utils.parseEther("2"), ethers.utils.parseEther("1"));
+      const receipt = await (
+        await treasury.connect(attacker).depositLiquidity(attacker.address, { value: ethers.utils.parseEther("5") })
+      ).wait();
+      const requested = receipt.events.find((e: any) => e.event === "DepositRequested");
+      bnEq(requested.args.assets, ethers.utils.parseEther("5"), "Requested assets");
+      bnEq(await treasury.sharesOf(attacker.address), BigNumber.from(0), "No shares yet");
+      bnEq(await treasury.totalPendingDeposits(), ethers.utils.parseEther("5"), "Pending deposits");
+      bnEq(await treasury.totalAssets(), ethers.utils.parseEther("2"), "Pending deposit outside assets");
+      await mustRevert(treasury.connect(attacker).completeDeposit(), "DepositLocked");
+
+      // The bet loses: its stake goes to the incumbent alone
+      await treasury.connect(game).releaseLiability(ethers.utils.parseEther("2"), ethers.utils.parseEther("1"));
+      await passCooldown(treasury);
+      await (await treasury.connect(attacker).completeDeposit()).wait();
+      await mustRevert(treasury.connect(attacker).completeDeposit(), "NoDepositRequest");
+
+      const userValue = await treasury.convertToAssets(userShares);
+      expect(userValue.gt(ethers.utils.parseEther("2.9999")) && userValue.lte(ethers.utils.parseEther("3"))).to.equal(true);
+      const attackerValue = await treasury.convertToAssets(await treasury.sharesOf(attacker.address));
+      expect(attackerValue.gt(ethers.utils.parseEther("4.9999")) && attackerValue.lte(ethers.utils.parseEther("5"))).to.equal(true);
+
+      // A pending deposit can be cancelled for a refund
+      await (await treasury.connect(user).depositLiquidity(user.address, { value: ethers.utils.parseEther("1") })).wait();
+      const treasuryBefore = await ethers.provider.getBalance(treasury.address);
+      await (await treasury.connect(user).cancelDeposit()).wait();
+      bnEq(
+        treasuryBefore.sub(await ethers.provider.getBalance(treasury.address)),
+        ethers.utils.parseEther("1"),
+        "Refunded"
+      );
+      bnEq(await treasury.totalPendingDeposits(), BigNumber.from(0), "No pending deposits");
+      await mustRevert(treasury.connect(user).cancelDeposit(), "NoDepositRequest");
+
+      // Without a cooldown deposits mint immediately
+      await (await treasury.connect(owner).setWithdrawCooldown(0)).wait();
+      await (await treasury.connect(user).depositLiquidity(user.address, { value: ethers.utils.parseEther("1") })).wait();
+      expect((await treasury.sharesOf(user.address)).gt(userShares)).to.equal(true);
+    });
+  });
+
+  describe("Timelock", function () {
+    const delay = 3600;
+
+    async function timelockFixture() {
+      const fixture = await deployFixture();
+      const { treasury, owner } = fixture;
+
+      await owner.sendTransaction({ to: treasury.address, value: ethers.utils.parseEther("2") });
+      // Direct owner calls work until a delay is set
+      await (await treasury.connect(owner).setTimelockDelay(delay)).wait();
+
+      return fixture;
+    }
+
+    async function queue(treasury: any, owner: any, functionName: string, args: any[]) {
+      const data = treasury.interface.encodeFunctionData(functionName, args);
+      const receipt = await (await treasury.connect(owner).queueOperation(data)).wait();
+      return receipt.events.find((e: any) => e.event === "OperationQueued").args;
+    }
+
+    async function passDelay() {
+      await network.provider.send("evm_increaseTime", [delay]);
+      await network.provider.send("evm_mine");
+    }
+
+    it("requires queueing once a delay is set, but keeps pause instant", async function () {
+      const { treasury, owner, game, attacker } = await timelockFixture();
+
+      await mustRevert(treasury.connect(owner).setGame(game.address, true), "TimelockRequired");
+      await mustRevert(treasury.connect(owner).setMaxPayoutPerTx(1), "TimelockRequired");
+      await mustRevert(treasury.connect(owner).adminWithdraw(owner.address, 1), "TimelockRequired");
+      await mustRevert(treasury.connect(attacker).setGame(game.address, true), "is missing role");
+      await mustRevert(
+        treasury.connect(attacker).queueOperation(treasury.interface.encodeFunctionData("setMaxPayoutPerTx", [1])),
+        "is missing role"
+      );
+
+      // Only the timelocked admin functions can be queued
+      await mustRevert(
+        treasury.connect(owner).queueOperation(treasury.interface.encodeFunctionData("pause")),
+        "NotTimelockedOperation"
+      );
+
+      await (await treasury.connect(owner).pause()).wait();
+      expect(await treasury.paused()).to.equal(true);
+    });
+
+    it("executes a queued change only after the delay", async function () {
+      const { treasury, owner, game } = await timelockFixture();
+
+      const queued = await queue(treasury, owner, "setGame", [game.address, true]);
+      const block = await ethers.provider.getBlock("latest");
+      expect(queued.eta.toNumber()).to.equal(block.timestamp + delay);
+      expect((await treasury.getPendingOperationIds()).map((id: BigNumber) => id.toNumber())).to.deep.equal([
+        queued.operationId.toNumber(),
+      ]);
+
+      await mustRevert(treasury.connect(owner).executeOperation(queued.operationId), "OperationNotReady");
+      expect(await treasury.isGame(game.address)).to.equal(false);
+
+      await passDelay();
+      const receipt = await (await treasury.connect(owner).executeOperation(queued.operationId)).wait();
+      expect(receipt.events.some((e: any) => e.event === "OperationExecuted")).to.equal(true);
+      expect(await treasury.isGame(game.address)).to.equal(true);
+      expect((await treasury.getPendingOperationIds()).length).to.equal(0);
+      expect((await treasury.getOperation(queued.operationId)).status).to.equal(2); // EXECUTED
+
+      await mustRevert(treasury.connect(owner).executeOperation(queued.operationId), "OperationNotPending");
+    });
+
+    it("holds back operations queued before the delay was raised", async function () {
+      const { treasury, owner, game } = await deployFixture();
+
+      // Queued while the timelock is off, so its eta has already passed
+      const queued = await queue(treasury, owner, "setGame", [game.address, true]);
+      await (await treasury.connect(owner).setTimelockDelay(delay)).wait();
+
+      await mustRevert(treasury.connect(owner).executeOperation(queued.operationId), "OperationNotReady");
+      expect(await treasury.isGame(game.address)).to.equal(false);
+
+      await passDelay();
+      await (await treasury.connect(owner).executeOperation(queued.operationId)).wait();
+      expect(await treasury.isGame(game.address)).to.equal(true);
+    });
+
+    it("cancels a queued withdrawal", async function () {
+      const { treasury, owner } = await timelockFixture();
+
+      const withdrawal = await queue(treasury, owner, "adminWithdraw", [owner.address, ethers.utils.parseEther("1")]);
+      const limit = await queue(treasury, owner, "setMaxPayoutPerTx", [ethers.utils.parseEther("5")]);
+
+      const receipt = await (await treasury.connect(owner).cancelOperation(withdrawal.operationId)).wait();
+      expect(receipt.events.some((e: any) => e.event === "OperationCancelled")).to.equal(true);
+      expect((await treasury.getPendingOperationIds()).map((id: BigNumber) => id.toNumber())).to.deep.equal([
+        limit.operationId.toNumber(),
+      ]);
+
+      await passDelay();
+      await mustRevert(treasury.connect(owner).executeOperation(withdrawal.operationId), "OperationNotPending");
+      await mustRevert(treasury.connect(owner).cancelOperation(withdrawal.operationId), "OperationNotPending");
+      bnEq(await treasury.treasuryBalance(), ethers.utils.parseEther("2"), "Balance untouched");
+
+      await (await treasury.connect(owner).executeOperation(limit.operationId)).wait();
+      bnEq(await treasury.maxPayoutPerTx(), ethers.utils.parseEther("5"), "Max payout updated");
+    });
+
+    it("keeps a failing operation queued and reverts with its error", async function () {
+      const { treasury, owner } = await timelockFixture();
+
+      const withdrawal = await queue(treasury, owner, "adminWithdraw", [owner.address, ethers.utils.parseEther("3")]);
+      await passDelay();
+
+      await mustRevert(treasury.connect(owner).executeOperation(withdrawal.operationId), "InsufficientTreasuryBalance");
+      expect((await treasury.getOperation(withdrawal.operationId)).status).to.equal(1); // PENDING
+
+      // Top up, then the same operation goes through
+      await owner.sendTransaction({ to: treasury.address, value: ethers.utils.parseEther("1") });
+      await (await treasury.connect(owner).executeOperation(withdrawal.operationId)).wait();
+      bnEq(await treasury.treasuryBalance(), BigNumber.from(0), "Balance withdrawn");
+    });
+  });
+
+  describe("Pull payments", function () {
+    const ACCEPT = 2; // RejectingReceiverMock.Mode
+
+    async function pullFixture() {
+      const fixture = await deployFixture();
+      const { treasury, owner, game } = fixture;
+
+      await owner.sendTransaction({ to: treasury.address, value: ethers.utils.parseEther("2") });
+      await treasury.connect(owner).setGame(game.address, true);
+      await treasury.connect(owner).setGameLimits(game.address, ethers.utils.parseEther("2"), 0);
+
+      const Receiver = await ethers.getContractFactory("RejectingReceiverMock");
+      const receiver = await Receiver.deploy();
+      await receiver.deployed();
+
+      return { ...fixture, receiver };
+    }
+
+    it("credits a payout the recipient rejects instead of reverting", async function () {
+      const { treasury, game, receiver } = await pullFixture();
+      const amount = ethers.utils.parseEther("0.5");
+
+      const receipt = await (await treasury.connect(game).payout(receiver.address, amount)).wait();
+      const deferred = receipt.events.find((e: any) => e.event === "PayoutDeferred");
+      expect(deferred.args.to).to.equal(receiver.address);
+      bnEq(deferred.args.amount, amount, "Deferred amount");
+      expect(receipt.events.some((e: any) => e.event === "PaidOut")).to.equal(false);
+
+      bnEq(await treasury.pendingWithdrawals(receiver.address), amount, "Pending balance");
+      bnEq(await treasury.totalPendingWithdrawals(), amount, "Total pending");
+      // Owed to the player, so no longer backing LPs or new bets
+      bnEq(await treasury.totalAssets(), ethers.utils.parseEther("1.5"), "Total assets");
+      bnEq((await treasury.getGameConfig(game.address)).paidOut, amount, "Counted as paid out");
+    });
+
+    it("lets the recipient claim its pending balance to itself or another address", async function () {
+      const { treasury, game, user, receiver } = await pullFixture();
+      const amount = ethers.utils.parseEther("0.5");
+      await (await treasury.connect(game).payout(receiver.address, amount)).wait();
+      await (await treasury.connect(game).payout(receiver.address, amount)).wait();
+
+      const claim = (to: string) => treasury.interface.encodeFunctionData("claimPayout", [to]);
+      await mustRevert(treasury.connect(user).claimPayout(user.address), "NothingToClaim");
+      // Still rejecting, so claiming to itself fails and keeps the balance
+      await mustRevert(receiver.execute(treasury.address, claim(receiver.address)), "TREASURY_CLAIM_FAILED");
+
+      const userBefore = await ethers.provider.getBalance(user.address);
+      const receipt = await (await receiver.execute(treasury.address, claim(user.address))).wait();
+      const claimed = receipt.logs
+        .filter((log: any) => log.address === treasury.address)
+        .map((log: any) => treasury.interface.parseLog(log))
+        .find((parsed: any) => parsed.name === "PayoutClaimed");
+      expect(claimed.args.account).to.equal(receiver.address);
+      bnEq(claimed.args.amount, amount.mul(2), "Claimed amount");
+      bnEq((await ethers.provider.getBalance(user.address)).sub(userBefore), amount.mul(2), "User diff");
+      bnEq(await treasury.pendingWithdrawals(receiver.address), BigNumber.from(0), "Pending cleared");
+      bnEq(await treasury.totalPendingWithdrawals(), BigNumber.from(0), "Total pending cleared");
+
+      // A recipient that accepts ETH again is paid directly
+      await (await receiver.setMode(ACCEPT)).wait();
+      const pushed = await (await treasury.connect(game).payout(receiver.address, amount)).wait();
+      expect(pushed.events.some((e: any) => e.event === "PaidOut")).to.equal(true);
+      bnEq(await ethers.provider.getBalance(receiver.address), amount, "Pushed to receiver");
+    });
+  });
+
+  describe("Token bankroll", function () {
+    async function tokenFixture() {
+      const fixture = await deployFixture();
+      const { treasury, owner, game } = fixture;
+
+      const Token = await ethers.getContractFactory("MockERC20");
+      const token = await Token.deploy("Test Chip", "CHIP");
+      await token.deployed();
+
+      await treasury.connect(owner).setGame(game.address, true);
+      await treasury
+        .connect(owner)
+        .setGameTokenLimits(game.address, token.address, ethers.utils.parseEther("1000"), ethers.utils.parseEther("1000"));
+      await (await token.mint(owner.address, ethers.utils.parseEther("1000"))).wait();
+      await (await token.connect(owner).approve(treasury.address, ethers.constants.MaxUint256)).wait();
+
+      return { ...fixture, token };
+    }
+
+    it("accepts deposits and bets only in allowlisted tokens, within the token's payout cap", async function () {
+      const { treasury, owner, game, token } = await tokenFixture();
+      const fund = ethers.utils.parseEther("100");
+
+      await mustRevert(treasury.connect(owner).depositToken(token.address, fund), "TokenNotAllowed");
+      await mustRevert(treasury.connect(game).reserveTokenLiability(token.address, 1), "TokenNotAllowed");
+
+      const configured = await (await treasury.connect(owner).setToken(token.address, true, ethers.utils.parseEther("50"))).wait();
+      expect(configured.events.some((e: any) => e.event === "TokenConfigured")).to.equal(true);
+      expect(await treasury.getTokens()).to.deep.equal([token.address]);
+
+      // Fee-on-transfer tokens are rejected: the bankroll must grow by exactly the amount
+      await (await token.setTransferFeeBps(100)).wait();
+      await mustRevert(treasury.connect(owner).depositToken(token.address, fund), "TokenAmountMismatch");
+      await (await token.setTransferFeeBps(0)).wait();
+
+      await (await treasury.connect(owner).depositToken(token.address, fund)).wait();
+      bnEq(await treasury.tokenBalance(token.address), fund, "Token bankroll");
+
+      await mustRevert(
+        treasury.connect(game).reserveTokenLiability(token.address, ethers.utils.parseEther("51")),
+        "ExceedsMaxPayout"
+      );
+      await (await treasury.connect(game).reserveTokenLiability(token.address, ethers.utils.parseEther("50"))).wait();
+      await (await treasury.connect(game).reserveTokenLiability(token.address, ethers.utils.parseEther("50"))).wait();
+      // The whole bankroll is now reserved
+      await mustRevert(treasury.connect(game).reserveTokenLiability(token.address, 1), "InsufficientTreasuryBalance");
+      bnEq((await treasury.getTokenConfig(token.address)).liability, fund, "Token liability");
+      bnEq((await treasury.getGameTokenConfig(game.address, token.address)).liability, fund, "Game token liability");
+
+      // Delisting stops new bets but the ETH side is unaffected
+      await (await treasury.connect(owner).setToken(token.address, false, 0)).wait();
+      expect(await treasury.isTokenAllowed(token.address)).to.equal(false);
+      await mustRevert(treasury.connect(owner).depositToken(token.address, fund), "TokenNotAllowed");
+    });
+
+    it("pays token prizes and keeps reserved liability out of adminWithdrawToken", async function () {
+      const { treasury, owner, game, user, token } = await tokenFixture();
+      await (await treasury.connect(owner).setToken(token.address, true, ethers.utils.parseEther("30"))).wait();
+      await (await treasury.connect(owner).depositToken(token.address, ethers.utils.parseEther("100"))).wait();
+
+      await (await treasury.connect(game).reserveTokenLiability(token.address, ethers.utils.parseEther("30"))).wait();
+      await mustRevert(
+        treasury.connect(owner).adminWithdrawToken(token.address, owner.address, ethers.utils.parseEther("71")),
+        "InsufficientTreasuryBalance"
+      );
+      await mustRevert(
+        treasury.connect(user).releaseTokenLiability(token.address, 1),
+        "ReleaseExceedsLiability"
+      );
+
+      await (await treasury.connect(game).releaseTokenLiability(token.address, ethers.utils.parseEther("30"))).wait();
+      await mustRevert(
+        treasury.connect(game).payoutToken(token.address, user.address, ethers.utils.parseEther("31")),
+        "ExceedsMaxPayout"
+      );
+      await mustRevert(
+        treasury.connect(user).payoutToken(token.address, user.address, 1),
+        "NotGame"
+      );
+      const receipt = await (
+        await treasury.connect(game).payoutToken(token.address, user.address, ethers.utils.parseEther("30"))
+      ).wait();
+      expect(receipt.events.some((e: any) => e.event === "TokenPaidOut")).to.equal(true);
+      bnEq(await token.balanceOf(user.address), ethers.utils.parseEther("30"), "User token balance");
+
+      await (await treasury.connect(owner).adminWithdrawToken(token.address, owner.address, ethers.utils.parseEther("70"))).wait();
+      bnEq(await treasury.tokenBalance(token.address), BigNumber.from(0), "Token bankroll withdrawn");
+      // ETH accounting is untouched by the token bankroll
+      bnEq(await treasury.totalAssets(), BigNumber.from(0), "ETH assets");
+    });
+
+    it("holds games to their per-token allocation and liability limits and attributes their deposits", async function () {
+      const { treasury, owner, game, attacker, user, token } = await tokenFixture();
+      await (await treasury.connect(owner).setToken(token.address, true, 0)).wait();
+      await (await treasury.connect(owner).depositToken(token.address, ethers.utils.parseEther("100"))).wait();
+
+      await mustRevert(
+        treasury.connect(attacker).setGameTokenLimits(game.address, token.address, 0, 0),
+        "is missing role"
+      );
+      const limits = await (
+        await treasury
+          .connect(owner)
+          .setGameTokenLimits(game.address, token.address, ethers.utils.parseEther("20"), ethers.utils.parseEther("30"))
+      ).wait();
+      expect(limits.events.some((e: any) => e.event === "GameTokenLimitsUpdated")).to.equal(true);
+
+      await mustRevert(
+        treasury.connect(game).reserveTokenLiability(token.address, ethers.utils.parseEther("31")),
+        "ExceedsMaxLiability"
+      );
+      await mustRevert(
+        treasury.connect(game).reserveTokenLiability(token.address, ethers.utils.parseEther("21")),
+        "ExceedsGameAllocation"
+      );
+
+      // A stake deposited by the game adds to what it may pay out
+      const stake = ethers.utils.parseEther("10");
+      await (await token.mint(game.address, stake)).wait();
+      await (await token.connect(game).approve(treasury.address, stake)).wait();
+      const deposited = await (await treasury.connect(game).depositToken(token.address, stake)).wait();
+      expect(deposited.events.some((e: any) => e.event === "GameTokenDeposited")).to.equal(true);
+      await (await treasury.connect(game).reserveTokenLiability(token.address, ethers.utils.parseEther("30"))).wait();
+
+      await (await treasury.connect(game).releaseTokenLiability(token.address, ethers.utils.parseEther("30"))).wait();
+      await mustRevert(
+        treasury.connect(game).payoutToken(token.address, user.address, ethers.utils.parseEther("31")),
+        "ExceedsGameAllocation"
+      );
+      await (await treasury.connect(game).payoutToken(token.address, user.address, ethers.utils.parseEther("30"))).wait();
+
+      const config = await treasury.getGameTokenConfig(game.address, token.address);
+      bnEq(config.deposited, stake, "Game token deposits");
+      bnEq(config.paidOut, ethers.utils.parseEther("30"), "Game token payouts");
+      bnEq(config.liability, BigNumber.from(0), "Game token liability");
+      // The ETH side of the game is untouched
+      bnEq((await treasury.getGameConfig(game.address)).deposited, BigNumber.from(0), "Game ETH deposits");
+    });
+
+    it("credits token payouts the token refuses to pendingTokenWithdrawals", async function () {
+      const { treasury, owner, game, attacker, user, token } = await tokenFixture();
+      await (await treasury.connect(owner).setToken(token.address, true, 0)).wait();
+      await (await treasury.connect(owner).depositToken(token.address, ethers.utils.parseEther("100"))).wait();
+      const amount = ethers.utils.parseEther("30");
+
+      await (await token.setBlocked(user.address, true)).wait();
+      const receipt = await (await treasury.connect(game).payoutToken(token.address, user.address, amount)).wait();
+      expect(receipt.events.some((e: any) => e.event === "TokenPayoutDeferred")).to.equal(true);
+      bnEq(await treasury.pendingTokenWithdrawals(token.address, user.address), amount, "Pending token payout");
+      bnEq((await treasury.getTokenConfig(token.address)).pendingWithdrawals, amount, "Token pending total");
+
+      // The held payout belongs to the player, not the bankroll
+      await mustRevert(
+        treasury.connect(owner).adminWithdrawToken(token.address, owner.address, ethers.utils.parseEther("71")),
+        "InsufficientTreasuryBalance"
+      );
+      await mustRevert(treasury.connect(attacker).claimTokenPayout(token.address, attacker.address), "NothingToClaim");
+      await mustRevert(treasury.connect(user).claimTokenPayout(token.address, user.address), "Recipient blocked");
+
+      const claimed = await (await treasury.connect(user).claimTokenPayout(token.address, attacker.address)).wait();
+      expect(claimed.events.some((e: any) => e.event === "TokenPayoutClaimed")).to.equal(true);
+      bnEq(await token.balanceOf(attacker.address), amount, "Claimed to another address");
+      bnEq(await treasury.pendingTokenWithdrawals(token.address, user.address), BigNumber.from(0), "Pending cleared");
+      bnEq((await treasury.getTokenConfig(token.address)).pendingWithdrawals, BigNumber.from(0), "Token pending cleared");
+    });
+
+    it("timelocks token allowlisting and withdrawals under their roles", async function () {
+      const { treasury, owner, attacker, token } = await tokenFixture();
+
+      await mustRevert(treasury.connect(attacker).setToken(token.address, true, 0), "is missing role");
+      await mustRevert(treasury.connect(attacker).adminWithdrawToken(token.address, attacker.address, 1), "is missing role");
+
+      await (await treasury.connect(owner).setTimelockDelay(60)).wait();
+      await mustRevert(treasury.connect(owner).setToken(token.address, true, 0), "TimelockRequired");
+      await (
+        await treasury.connect(owner).queueOperation(treasury.interface.encodeFunctionData("setToken", [token.address, true, 0]))
+      ).wait();
+      await (
+        await treasury
+          .connect(owner)
+          .queueOperation(treasury.interface.encodeFunctionData("adminWithdrawToken", [token.address, owner.address, 1]))
+      ).wait();
+      expect((await treasury.getPendingOperationIds()).length).to.equal(2);
+    });
+  });
+
+  describe("Circuit breaker", function () {
+    const budget = ethers.utils.parseEther("1");
+    const window = 1000; // seconds, so the meter drains 0.001 ETH per second
+
+    async function breakerFixture() {
+      const fixture = await deployFixture();
+      const { treasury, owner, game } = fixture;
+
+      await owner.sendTransaction({ to: treasury.address, value: ethers.utils.parseEther("5") });
+      await treasury.connect(owner).setGame(game.address, true);
+      await treasury.connect(owner).setGameLimits(game.address, ethers.utils.parseEther("5"), 0);
+      const receipt = await (await treasury.connect(owner).setPayoutBudget(budget, window)).wait();
+      const updated = receipt.events.find((e: any) => e.event === "PayoutBudgetUpdated");
+      bnEq(updated.args.payoutBudget, budget, "Configured budget");
+
+      return fixture;
+    }
+
+    it("meters payouts over a rolling window that drains over time", async function () {
+      const { treasury, owner, game, attacker, user } = await breakerFixture();
+      await mustRevert(treasury.connect(attacker).setPayoutBudget(budget, window), "is missing role");
+      await mustRevert(treasury.connect(owner).setPayoutBudget(budget, 0), "InvalidPayoutWindow");
+      await mustRevert(treasury.connect(owner).setPayoutBudget(budget, 8 * 24 * 60 * 60), "InvalidPayoutWindow");
+
+      const amount = ethers.utils.parseEther("0.4");
+      const first = await (await treasury.connect(game).payout(user.address, amount)).wait();
+      const firstBlock = await ethers.provider.getBlock(first.blockNumber);
+      await network.provider.send("evm_setNextBlockTimestamp", [firstBlock.timestamp + 1]);
+      await (await treasury.connect(game).payout(user.address, amount)).wait();
+      const outflow = await treasury.windowOutflow();
+      // One second passed between the payouts
+      bnEq(outflow, amount.mul(2).sub(ethers.utils.parseEther("0.001")), "Outflow after two payouts");
+      bnEq(await treasury.remainingPayoutBudget(), budget.sub(outflow), "Remaining budget");
+
+      // Half a window later half the budget has drained
+      await network.provider.send("evm_setNextBlockTimestamp", [firstBlock.timestamp + 1 + window / 2]);
+      await network.provider.send("evm_mine");
+      bnEq(await treasury.windowOutflow(), outflow.sub(budget.div(2)), "Drained outflow");
+      await (await treasury.connect(game).payout(user.address, ethers.utils.parseEther("0.6"))).wait();
+      expect(await treasury.paused()).to.equal(false);
+
+      // Disabling the breaker lifts the cap
+      await (await treasury.connect(owner).setPayoutBudget(0, 0)).wait();
+      bnEq(await treasury.remainingPayoutBudget(), ethers.constants.MaxUint256, "Disabled");
+    });
+
+    it("pauses and holds payouts that overflow the budget until a pauser releases them", async function () {
+      const { treasury, owner, game, attacker, user } = await breakerFixture();
+      const amount = ethers.utils.parseEther("0.6");
+      await (await treasury.connect(game).payout(user.address, amount)).wait();
+
+      const userBefore = await ethers.provider.getBalance(user.address);
+      const receipt = await (await treasury.connect(game).payout(user.address, amount)).wait();
+      const tripped = receipt.events.find((e: any) => e.event === "CircuitBreakerTripped");
+      expect(tripped.args.game).to.equal(game.address);
+      bnEq(tripped.args.amount, amount, "Tripping payout");
+      bnEq(tripped.args.payoutBudget, budget, "Budget in event");
+      expect(receipt.events.some((e: any) => e.event === "PaidOut")).to.equal(false);
+      expect(await treasury.paused()).to.equal(true);
+      expect(await treasury.breakerTripped()).to.equal(true);
+
+      // Held for review, but nothing leaves the Treasury and nothing is claimable yet
+      const held = receipt.events.find((e: any) => e.event === "PayoutHeld");
+      expect(held.args.game).to.equal(game.address);
+      expect(held.args.token).to.equal(ethers.constants.AddressZero);
+      expect(held.args.account).to.equal(user.address);
+      bnEq(held.args.amount, amount, "Held payout");
+      bnEq(await ethers.provider.getBalance(user.address), userBefore, "Not paid");
+      bnEq(await treasury.pendingWithdrawals(user.address), BigNumber.from(0), "Not claimable");
+      bnEq(await treasury.totalHeldPayouts(), amount, "Held total");
+
+      // Later payouts keep being metered and held rather than reverting the pause away
+      const outflow = await treasury.windowOutflow();
+      const heldReceipt = await (await treasury.connect(game).payout(user.address, amount)).wait();
+      const heldAgain = heldReceipt.events.find((e: any) => e.event === "PayoutHeld");
+      expect(heldReceipt.events.some((e: any) => e.event === "CircuitBreakerTripped")).to.equal(false);
+      expect((await treasury.windowOutflow()).gt(outflow)).to.equal(true);
+      const heldIds = [held.args.heldPayoutId, heldAgain.args.heldPayoutId];
+      expect((await treasury.getHeldPayoutIds()).map((id: BigNumber) => id.toNumber())).to.deep.equal(
+        heldIds.map((id: BigNumber) => id.toNumber())
+      );
+      const entry = await treasury.getHeldPayout(heldIds[1]);
+      expect(entry.account).to.equal(user.address);
+      bnEq(entry.amount, amount, "Second held payout");
+
+      // Unpausing resets the meter but leaves the held payouts to the review
+      await (await treasury.connect(owner).unpause()).wait();
+      expect(await treasury.breakerTripped()).to.equal(false);
+      bnEq(await treasury.remainingPayoutBudget(), budget, "Budget after review");
+      bnEq(await treasury.pendingWithdrawals(user.address), BigNumber.from(0), "Still held");
+      expect((await treasury.getHeldPayoutIds()).length).to.equal(2);
+
+      // Releasing credits the recipient's pending withdrawals
+      await mustRevert(treasury.connect(attacker).releaseHeldPayout(heldIds[0]), "is missing role");
+      for (const heldPayoutId of heldIds) {
+        const released = await (await treasury.connect(owner).releaseHeldPayout(heldPayoutId)).wait();
+        expect(released.events.some((e: any) => e.event === "HeldPayoutReleased")).to.equal(true);
+      }
+      await mustRevert(treasury.connect(owner).releaseHeldPayout(heldIds[0]), "HeldPayoutNotFound");
+      bnEq(await treasury.pendingWithdrawals(user.address), amount.mul(2), "Released");
+      bnEq(await treasury.totalHeldPayouts(), BigNumber.from(0), "Nothing held");
+      expect((await treasury.getHeldPayoutIds()).length).to.equal(0);
+      await (await treasury.connect(user).claimPayout(user.address)).wait();
+      bnEq(await treasury.pendingWithdrawals(user.address), BigNumber.from(0), "Claimed");
+
+      // A manual pause still stops payouts outright
+      await (await treasury.connect(owner).pause()).wait();
+      await mustRevert(treasury.connect(game).payout(user.address, 1), "Pausable: paused");
+    });
+
+    it("returns a voided held payout to the bankroll and the game's allocation", async function () {
+      const { treasury, owner, game, attacker, user } = await breakerFixture();
+      const amount = ethers.utils.parseEther("0.6");
+      await (await treasury.connect(game).payout(user.address, amount)).wait();
+      const receipt = await (await treasury.connect(game).payout(user.address, amount)).wait();
+      const heldPayoutId = receipt.events.find((e: any) => e.event === "PayoutHeld").args.heldPayoutId;
+
+      // The held amount is kept out of the LP assets while under review
+      const [, paidOutBefore] = await treasury.getGameProfitAndLoss(game.address);
+      bnEq(paidOutBefore, amount.mul(2), "Both payouts attributed");
+      const assetsBefore = await treasury.totalAssets();
+
+      await mustRevert(treasury.connect(attacker).voidHeldPayout(heldPayoutId), "is missing role");
+      const voided = await (await treasury.connect(owner).voidHeldPayout(heldPayoutId)).wait();
+      const event = voided.events.find((e: any) => e.event === "HeldPayoutVoided");
+      expect(event.args.account).to.equal(user.address);
+      bnEq(event.args.amount, amount, "Voided amount");
+      await mustRevert(treasury.connect(owner).voidHeldPayout(heldPayoutId), "HeldPayoutNotFound");
+
+      // The winner gets nothing and the game's P&L and bankroll get the amount back
+      bnEq(await treasury.pendingWithdrawals(user.address), BigNumber.from(0), "Nothing claimable");
+      bnEq(await treasury.totalHeldPayouts(), BigNumber.from(0), "Nothing held");
+      const [, paidOutAfter] = await treasury.getGameProfitAndLoss(game.address);
+      bnEq(paidOutAfter, amount, "Voided payout unattributed");
+      bnEq(await treasury.totalAssets(), assetsBefore.add(amount), "Returned to the bankroll");
+      expect(await treasury.paused()).to.equal(true);
+    });
+
+    it("meters token payouts against the token's own budget and trips the same breaker", async function () {
+      const { treasury, owner, game, attacker, user } = await breakerFixture();
+      const Token = await ethers.getContractFactory("MockERC20");
+      const token = await Token.deploy("Test Chip", "CHIP");
+      await token.deployed();
+      const fund = ethers.utils.parseEther("1000");
+      await (await treasury.connect(owner).setToken(token.address, true, 0)).wait();
+      await (await treasury.connect(owner).setGameTokenLimits(game.address, token.address, fund, fund)).wait();
+      await (await token.mint(owner.address, fund)).wait();
+      await (await token.connect(owner).approve(treasury.address, fund)).wait();
+      await (await treasury.connect(owner).depositToken(token.address, fund)).wait();
+
+      const tokenBudget = ethers.utils.parseEther("100");
+      await mustRevert(treasury.connect(attacker).setTokenPayoutBudget(token.address, tokenBudget, window), "is missing role");
+      await mustRevert(treasury.connect(owner).setTokenPayoutBudget(token.address, tokenBudget, 0), "InvalidPayoutWindow");
+      const configured = await (await treasury.connect(owner).setTokenPayoutBudget(token.address, tokenBudget, window)).wait();
+      const updated = configured.events.find((e: any) => e.event === "TokenPayoutBudgetUpdated");
+      expect(updated.args.token).to.equal(token.address);
+      bnEq(updated.args.payoutBudget, tokenBudget, "Configured token budget");
+      const [configuredBudget, configuredWindow] = await treasury.getTokenPayoutBudget(token.address);
+      bnEq(configuredBudget, tokenBudget, "Token budget");
+      bnEq(configuredWindow, BigNumber.from(window), "Token window");
+
+      // Token payouts count against the token's budget only
+      const amount = ethers.utils.parseEther("60");
+      await (await treasury.connect(game).payoutToken(token.address, user.address, amount)).wait();
+      bnEq(await token.balanceOf(user.address), amount, "Paid within the budget");
+      bnEq(await treasury.tokenWindowOutflow(token.address), amount, "Token outflow");
+      bnEq(await treasury.remainingTokenPayoutBudget(token.address), tokenBudget.sub(amount), "Remaining token budget");
+      bnEq(await treasury.remainingPayoutBudget(), budget, "ETH budget untouched");
+
+      // Overflowing it pauses the Treasury and holds the payout, like an ETH payout
+      const receipt = await (await treasury.connect(game).payoutToken(token.address, user.address, amount)).wait();
+      const tripped = receipt.events.find((e: any) => e.event === "TokenCircuitBreakerTripped");
+      expect(tripped.args.game).to.equal(game.address);
+      expect(tripped.args.token).to.equal(token.address);
+      bnEq(tripped.args.amount, amount, "Tripping token payout");
+      bnEq(tripped.args.payoutBudget, tokenBudget, "Token budget in event");
+      expect(receipt.events.some((e: any) => e.event === "TokenPaidOut")).to.equal(false);
+      expect(await treasury.paused()).to.equal(true);
+      expect(await treasury.breakerTripped()).to.equal(true);
+      bnEq(await token.balanceOf(user.address), amount, "Not paid");
+      const held = receipt.events.find((e: any) => e.event === "PayoutHeld");
+      expect(held.args.token).to.equal(token.address);
+      bnEq(held.args.amount, amount, "Held token payout");
+      bnEq((await treasury.getTokenConfig(token.address)).heldPayouts, amount, "Held token total");
+
+      // While tripped, ETH and token payouts alike are held
+      await (await treasury.connect(game).payout(user.address, ethers.utils.parseEther("0.1"))).wait();
+      bnEq(await treasury.totalHeldPayouts(), ethers.utils.parseEther("0.1"), "Held ETH payout");
+      await (await treasury.connect(game).payoutToken(token.address, user.address, amount)).wait();
+      const [tokenHeldId, ethHeldId, voidedHeldId] = await treasury.getHeldPayoutIds();
+      bnEq((await treasury.getTokenConfig(token.address)).heldPayouts, amount.mul(2), "Both token payouts held");
+
+      // Unpausing resets the token meter too, and the review releases or voids each token payout
+      await (await treasury.connect(owner).unpause()).wait();
+      bnEq(await treasury.remainingTokenPayoutBudget(token.address), tokenBudget, "Token budget after review");
+      await (await treasury.connect(owner).releaseHeldPayout(tokenHeldId)).wait();
+      await (await treasury.connect(owner).releaseHeldPayout(ethHeldId)).wait();
+      await (await treasury.connect(owner).voidHeldPayout(voidedHeldId)).wait();
+      bnEq((await treasury.getTokenConfig(token.address)).heldPayouts, BigNumber.from(0), "Token review done");
+      bnEq((await treasury.getGameTokenConfig(game.address, token.address)).paidOut, amount.mul(2), "Voided payout unattributed");
+      bnEq(await treasury.pendingTokenWithdrawals(token.address, user.address), amount, "Released token payout");
+      await (await treasury.connect(user).claimTokenPayout(token.address, user.address)).wait();
+      bnEq(await token.balanceOf(user.address), amount.mul(2), "Claimed");
+
+      // Disabling the token budget lifts its cap
+      await (await treasury.connect(owner).setTokenPayoutBudget(token.address, 0, 0)).wait();
+      bnEq(await treasury.remainingTokenPayoutBudget(token.address), ethers.constants.MaxUint256, "Disabled");
+    });
+  });
+
+  describe("Roles", function () {
+    it("splits admin powers across roles", async function () {
+      const { treasury, owner, game, attacker, user } = await deployFixture();
+      const [pauserRole, gameManagerRole, riskManagerRole, treasurerRole] = await Promise.all([
+        treasury.PAUSER_ROLE(),
+        treasury.GAME_MANAGER_ROLE(),
+        treasury.RISK_MANAGER_ROLE(),
+        treasury.TREASURER_ROLE(),
+      ]);
+
+      // The deployer starts with every role
+      for (const role of [pauserRole, gameManagerRole, riskManagerRole, treasurerRole]) {
+        expect(await treasury.hasRole(role, owner.address)).to.equal(true);
+      }
+
+      await owner.sendTransaction({ to: treasury.address, value: ethers.utils.parseEther("1") });
+      await (await treasury.connect(owner).grantRole(gameManagerRole, user.address)).wait();
+
+      // A game manager can authorize games but not set limits, pause or withdraw
+      await (await treasury.connect(user).setGame(game.address, true)).wait();
+      expect(await treasury.isGame(game.address)).to.equal(true);
+      await mustRevert(treasury.connect(user).setGameLimits(game.address, 1, 1), "is missing role");
+      await mustRevert(treasury.connect(user).pause(), "is missing role");
+      await mustRevert(treasury.connect(user).adminWithdraw(user.address, 1), "is missing role");
+
+      // Only the admin grants roles
+      await mustRevert(treasury.connect(user).grantRole(riskManagerRole, user.address), "is missing role");
+
+      await (await treasury.connect(owner).grantRole(riskManagerRole, attacker.address)).wait();
+      await (await treasury.connect(attacker).setGameLimits(game.address, 1, 1)).wait();
+      await mustRevert(treasury.connect(attacker).setGame(game.address, false), "is missing role");
+
+      await (await treasury.connect(owner).revokeRole(gameManagerRole, user.address)).wait();
+      await mustRevert(treasury.connect(user).setGame(game.address, false), "is missing role");
+    });
+
+    it("requires the operation's role to queue, execute and cancel", async function () {
+      const { treasury, owner, attacker, user } = await deployFixture();
+      await owner.sendTransaction({ to: treasury.address, value: ethers.utils.parseEther("1") });
+      await (await treasury.connect(owner).setTimelockDelay(60)).wait();
+
+      const treasurerRole = await treasury.TREASURER_ROLE();
+      await (await treasury.connect(owner).grantRole(treasurerRole, user.address)).wait();
+
+      const withdrawal = treasury.interface.encodeFunctionData("adminWithdraw", [user.address, 1]);
+      await mustRevert(treasury.connect(attacker).queueOperation(withdrawal), "is missing role");
+      await mustRevert(
+        treasury.connect(user).queueOperation(treasury.interface.encodeFunctionData("setMaxPayoutPerTx", [1])),
+        "is missing role"
+      );
+
+      const receipt = await (await treasury.connect(user).queueOperation(withdrawal)).wait();
+      const { operationId } = receipt.events.find((e: any) => e.event === "OperationQueued").args;
+      await network.provider.send("evm_increaseTime", [60]);
+      await network.provider.send("evm_mine");
+
+      await mustRevert(treasury.connect(attacker).executeOperation(operationId), "is missing role");
+      await mustRevert(treasury.connect(attacker).cancelOperation(operationId), "is missing role");
+      await (await treasury.connect(user).executeOperation(operationId)).wait();
+      expect((await treasury.getOperation(operationId)).status).to.equal(2); // EXECUTED
+
+      // The admin can cancel any queued operation
+      const queued = await (await treasury.connect(user).queueOperation(withdrawal)).wait();
+      const second = queued.events.find((e: any) => e.event === "OperationQueued").args.operationId;
+      await (await treasury.connect(owner).revokeRole(treasurerRole, owner.address)).wait();
+      await (await treasury.connect(owner).cancelOperation(second)).wait();
+      expect((await treasury.getOperation(second)).status).to.equal(3); // CANCELLED
+    });
+  });
 });
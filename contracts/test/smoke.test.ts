@@ -100,8 +100,8 @@ describe("Smoke (Hardhat-deploy) — Dice + Raffle + VRFCoordinatorMock", functi
     // entranceFee has a getter getEntrancyFee() (typo in contract)
     const fee = await raffle.getEntrancyFee();
 
-    await (await raffle.connect(p1).enterRaffle({ value: fee })).wait();
-    await (await raffle.connect(p2).enterRaffle({ value: fee })).wait();
+    await (await raffle.connect(p1).enterRaffle(1, { value: fee })).wait();
+    await (await raffle.connect(p2).enterRaffle(1, { value: fee })).wait();
 
     // Interval must pass before upkeep is needed
     const interval = await raffle.getInterval();
@@ -2,7 +2,7 @@
 
 import { useAccount, useConnect, useDisconnect, useReadContract, useWriteContract, useWatchContractEvent, usePublicClient } from "wagmi";
 import { injected } from "wagmi/connectors";
-import { formatEther, parseEther } from "viem";
+import { formatEther, formatUnits, parseEther, parseUnits, zeroAddress } from "viem";
 import Link from "next/link";
 import { useState, useEffect } from "react";
 
@@ -11,6 +11,49 @@ import { useState, useEffect } from "react";
 // For development: update this address after running deployment script (04-deploy-dicegame.ts)
 const DICEGAME_ADDRESS = (process.env.NEXT_PUBLIC_DICE_ADDRESS ??
   "0x0000000000000000000000000000000000000000") as `0x${string}`;
+
+// ERC-20 accepted for bets (allowlisted in Treasury); MockToken from 00-deploy-mocks.ts locally
+const BET_TOKEN_ADDRESS = (process.env.NEXT_PUBLIC_BET_TOKEN_ADDRESS ??
+  "0x0000000000000000000000000000000000000000") as `0x${string}`;
+
+// ERC-20 ABI (only the functions we need)
+const ERC20_ABI = [
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [{ name: "", type: "uint8" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+    ],
+    name: "allowance",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    name: "approve",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
 // DiceGame contract ABI (only the functions we need)
 const DICEGAME_ABI = [
   {
@@ -20,6 +63,35 @@ const DICEGAME_ABI = [
     stateMutability: "payable",
     type: "function",
   },
+  {
+    inputs: [
+      { name: "target", type: "uint8" },
+      { name: "rollOver", type: "bool" },
+    ],
+    name: "placeRangeBet",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "faceMask", type: "uint8" }],
+    name: "placeMultiFaceBet",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "amount", type: "uint256" },
+      { name: "mode", type: "uint8" },
+      { name: "choice", type: "uint8" },
+    ],
+    name: "placeTokenBet",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [{ name: "betId", type: "uint256" }],
     name: "getBet",
@@ -30,10 +102,12 @@ const DICEGAME_ABI = [
           { name: "status", type: "uint8" },
           { name: "player", type: "address" },
           { name: "amount", type: "uint256" },
+          { name: "mode", type: "uint8" },
           { name: "choice", type: "uint8" },
           { name: "diceResult", type: "uint8" },
           { name: "payout", type: "uint256" },
           { name: "timestamp", type: "uint64" },
+          { name: "token", type: "address" },
         ],
         name: "",
         type: "tuple",
@@ -64,7 +138,25 @@ const DICEGAME_ABI = [
     type: "function",
   },
   {
-    inputs: [{ name: "betAmount", type: "uint256" }],
+    inputs: [],
+    name: "getRefundTimeout",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "betId", type: "uint256" }],
+    name: "claimRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "betAmount", type: "uint256" },
+      { name: "mode", type: "uint8" },
+      { name: "choice", type: "uint8" },
+    ],
     name: "calculatePayout",
     outputs: [{ name: "", type: "uint256" }],
     stateMutability: "pure",
@@ -76,6 +168,7 @@ const DICEGAME_ABI = [
       { indexed: true, name: "betId", type: "uint256" },
       { indexed: true, name: "player", type: "address" },
       { indexed: false, name: "amount", type: "uint256" },
+      { indexed: false, name: "mode", type: "uint8" },
       { indexed: false, name: "choice", type: "uint8" },
       { indexed: false, name: "timestamp", type: "uint64" },
     ],
@@ -94,6 +187,16 @@ const DICEGAME_ABI = [
     name: "BetSettled",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "betId", type: "uint256" },
+      { indexed: true, name: "player", type: "address" },
+      { indexed: false, name: "amount", type: "uint256" },
+    ],
+    name: "BetRefunded",
+    type: "event",
+  },
 ] as const;
 
 // Bet status enum
@@ -101,24 +204,84 @@ enum BetStatus {
   OPEN = 0,
   CALCULATING = 1,
   SETTLED = 2,
+  REFUNDED = 3,
 }
 
 const statusText = {
   [BetStatus.OPEN]: "Open",
   [BetStatus.CALCULATING]: "Rolling...",
   [BetStatus.SETTLED]: "Settled",
+  [BetStatus.REFUNDED]: "Refunded",
+};
+
+// Bet mode enum (matches DiceGame.BetMode)
+enum BetMode {
+  EXACT = 0,
+  ROLL_UNDER = 1,
+  ROLL_OVER = 2,
+  FACES = 3,
+}
+
+// Valid choices per mode ("roll <= 6" / "roll >= 1" would always win)
+const modeChoices = {
+  [BetMode.EXACT]: [1, 2, 3, 4, 5, 6],
+  [BetMode.ROLL_UNDER]: [1, 2, 3, 4, 5],
+  [BetMode.ROLL_OVER]: [2, 3, 4, 5, 6],
+  [BetMode.FACES]: [1, 2, 3, 4, 5, 6],
 };
 
+// FACES bets store a bitmask: bit 0 = face 1 ... bit 5 = face 6
+const ALL_FACES_MASK = 0x3f;
+const faceBit = (face: number) => 1 << (face - 1);
+const maskFaces = (mask: number) => [1, 2, 3, 4, 5, 6].filter((face) => (mask & faceBit(face)) !== 0);
+
+const winningFaces = (mode: BetMode, choice: number) =>
+  mode === BetMode.ROLL_UNDER
+    ? choice
+    : mode === BetMode.ROLL_OVER
+      ? 7 - choice
+      : mode === BetMode.FACES
+        ? maskFaces(choice).length
+        : 1;
+
+const formatChoice = (mode: number, choice: number) =>
+  mode === BetMode.ROLL_UNDER
+    ? `≤ ${choice}`
+    : mode === BetMode.ROLL_OVER
+      ? `≥ ${choice}`
+      : mode === BetMode.FACES
+        ? `{${maskFaces(choice).join(",")}}`
+        : `${choice}`;
+
+const isWinningRoll = (bet: { mode: number; choice: number; diceResult: number }) =>
+  bet.mode === BetMode.ROLL_UNDER
+    ? bet.diceResult <= bet.choice
+    : bet.mode === BetMode.ROLL_OVER
+      ? bet.diceResult >= bet.choice
+      : bet.mode === BetMode.FACES
+        ? (bet.choice & faceBit(bet.diceResult)) !== 0
+        : bet.diceResult === bet.choice;
+
 export default function DiceGamePage() {
   const { address, isConnected } = useAccount();
   const { connect } = useConnect();
   const { disconnect } = useDisconnect();
   const publicClient = usePublicClient();
 
+  const [betMode, setBetMode] = useState<BetMode>(BetMode.EXACT);
   const [selectedChoice, setSelectedChoice] = useState<number>(1);
+  const [selectedFaces, setSelectedFaces] = useState<number>(faceBit(1));
   const [betAmount, setBetAmount] = useState<string>("0.01");
+  const [useToken, setUseToken] = useState<boolean>(false);
   const [playerBets, setPlayerBets] = useState<any[]>([]);
   const [latestBet, setLatestBet] = useState<any>(null);
+  const [now, setNow] = useState<number>(() => Math.floor(Date.now() / 1000));
+
+  // Tick the clock so stale bets become refundable without a reload
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 10000);
+    return () => clearInterval(timer);
+  }, []);
 
   // Read min and max bet
   const { data: minBet } = useReadContract({
@@ -133,6 +296,45 @@ export default function DiceGamePage() {
     functionName: "getMaxBet",
   });
 
+  const { data: refundTimeout } = useReadContract({
+    address: DICEGAME_ADDRESS,
+    abi: DICEGAME_ABI,
+    functionName: "getRefundTimeout",
+  });
+
+  // Bet token details and the player's allowance for DiceGame
+  const isTokenConfigured = BET_TOKEN_ADDRESS !== zeroAddress;
+
+  const { data: tokenSymbol } = useReadContract({
+    address: BET_TOKEN_ADDRESS,
+    abi: ERC20_ABI,
+    functionName: "symbol",
+    query: { enabled: isTokenConfigured },
+  });
+
+  const { data: tokenDecimals } = useReadContract({
+    address: BET_TOKEN_ADDRESS,
+    abi: ERC20_ABI,
+    functionName: "decimals",
+    query: { enabled: isTokenConfigured },
+  });
+
+  const { data: tokenAllowance } = useReadContract({
+    address: BET_TOKEN_ADDRESS,
+    abi: ERC20_ABI,
+    functionName: "allowance",
+    args: address ? [address, DICEGAME_ADDRESS] : undefined,
+    query: { enabled: isTokenConfigured && !!address, refetchInterval: 5000 },
+  });
+
+  const currency = useToken ? (tokenSymbol ?? "tokens") : "ETH";
+  const parseAmount = (value: string) => (useToken ? parseUnits(value, tokenDecimals ?? 18) : parseEther(value));
+  // Amounts of past bets are in the bet's own currency
+  const formatBetAmount = (amount: bigint, token: string) =>
+    token === zeroAddress
+      ? `${formatEther(amount)} ETH`
+      : `${formatUnits(amount, tokenDecimals ?? 18)} ${tokenSymbol ?? "tokens"}`;
+
   // Read player's bets
   const { data: betIds, refetch: refetchBetIds } = useReadContract({
     address: DICEGAME_ADDRESS,
@@ -141,17 +343,31 @@ export default function DiceGamePage() {
     args: address ? [address] : undefined,
   });
 
-  // Calculate expected payout
+  // Chosen number, range target or face bitmask, depending on mode
+  const betChoice = betMode === BetMode.FACES ? selectedFaces : selectedChoice;
+  const isValidSelection =
+    betMode === BetMode.FACES
+      ? selectedFaces !== 0 && selectedFaces !== ALL_FACES_MASK
+      : modeChoices[betMode].includes(selectedChoice);
+
+  // Calculate expected payout (live preview; reverts on-chain for invalid selections)
   const { data: expectedPayout } = useReadContract({
     address: DICEGAME_ADDRESS,
     abi: DICEGAME_ABI,
     functionName: "calculatePayout",
-    args: betAmount ? [parseEther(betAmount)] : undefined,
+    args: betAmount && isValidSelection ? [parseAmount(betAmount), betMode, betChoice] : undefined,
+    query: { enabled: !!betAmount && isValidSelection },
   });
 
   // Place bet
   const { writeContract: placeBet, isPending: isPlacingBet } = useWriteContract();
 
+  // Approve DiceGame to pull the token stake
+  const { writeContract: approveToken, isPending: isApproving } = useWriteContract();
+
+  // Claim refund for bets whose VRF callback never arrived
+  const { writeContract: claimRefund, isPending: isClaimingRefund } = useWriteContract();
+
   // Watch for BetPlaced events
   useWatchContractEvent({
     address: DICEGAME_ADDRESS,
@@ -183,6 +399,21 @@ export default function DiceGamePage() {
     },
   });
 
+  // Watch for BetRefunded events
+  useWatchContractEvent({
+    address: DICEGAME_ADDRESS,
+    abi: DICEGAME_ABI,
+    eventName: "BetRefunded",
+    onLogs(logs) {
+      logs.forEach((log) => {
+        if (log.args.player?.toLowerCase() === address?.toLowerCase()) {
+          fetchBetDetails(Number(log.args.betId));
+        }
+      });
+      refetchBetIds();
+    },
+  });
+
   // Fetch bet details (using publicClient instead of useReadContract hook)
   const fetchBetDetails = async (betId: number) => {
     if (!publicClient) return;
@@ -245,8 +476,37 @@ export default function DiceGamePage() {
       return;
     }
 
-    if (selectedChoice < 1 || selectedChoice > 6) {
-      alert("Please select a number between 1 and 6");
+    if (!isValidSelection) {
+      alert(
+        betMode === BetMode.FACES
+          ? "Please select between 1 and 5 faces"
+          : "Please select a valid number for this bet type"
+      );
+      return;
+    }
+
+    if (useToken) {
+      const amount = parseAmount(betAmount);
+      if (amount === BigInt(0)) {
+        alert("Please enter a bet amount");
+        return;
+      }
+      // Approve-then-bet: the first click approves, the next one places the bet
+      if (tokenAllowance === undefined || tokenAllowance < amount) {
+        approveToken({
+          address: BET_TOKEN_ADDRESS,
+          abi: ERC20_ABI,
+          functionName: "approve",
+          args: [DICEGAME_ADDRESS, amount],
+        });
+        return;
+      }
+      placeBet({
+        address: DICEGAME_ADDRESS,
+        abi: DICEGAME_ABI,
+        functionName: "placeTokenBet",
+        args: [BET_TOKEN_ADDRESS, amount, betMode, betChoice],
+      });
       return;
     }
 
@@ -260,15 +520,70 @@ export default function DiceGamePage() {
       return;
     }
 
-    placeBet({
+    if (betMode === BetMode.EXACT) {
+      placeBet({
+        address: DICEGAME_ADDRESS,
+        abi: DICEGAME_ABI,
+        functionName: "placeBet",
+        args: [selectedChoice],
+        value: amount,
+      });
+    } else if (betMode === BetMode.FACES) {
+      placeBet({
+        address: DICEGAME_ADDRESS,
+        abi: DICEGAME_ABI,
+        functionName: "placeMultiFaceBet",
+        args: [selectedFaces],
+        value: amount,
+      });
+    } else {
+      placeBet({
+        address: DICEGAME_ADDRESS,
+        abi: DICEGAME_ABI,
+        functionName: "placeRangeBet",
+        args: [selectedChoice, betMode === BetMode.ROLL_OVER],
+        value: amount,
+      });
+    }
+  };
+
+  // A bet is stale once it has been rolling for longer than the refund timeout
+  const isStaleBet = (bet: { status: number; timestamp: bigint }) =>
+    bet.status === BetStatus.CALCULATING &&
+    refundTimeout !== undefined &&
+    now >= Number(bet.timestamp) + Number(refundTimeout);
+
+  const handleClaimRefund = (betId: bigint) => {
+    claimRefund({
       address: DICEGAME_ADDRESS,
       abi: DICEGAME_ABI,
-      functionName: "placeBet",
-      args: [selectedChoice],
-      value: amount,
+      functionName: "claimRefund",
+      args: [betId],
     });
   };
 
+  const handleModeChange = (mode: BetMode) => {
+    setBetMode(mode);
+    // Keep the selected number if it is still valid for the new mode
+    if (!modeChoices[mode].includes(selectedChoice)) {
+      setSelectedChoice(modeChoices[mode][0]);
+    }
+  };
+
+  const handleDiceClick = (num: number) => {
+    if (betMode === BetMode.FACES) {
+      setSelectedFaces((mask) => mask ^ faceBit(num));
+    } else {
+      setSelectedChoice(num);
+    }
+  };
+
+  const needsApproval =
+    useToken && !!betAmount && (tokenAllowance === undefined || tokenAllowance < parseAmount(betAmount));
+
+  const isDiceSelected = (num: number) =>
+    betMode === BetMode.FACES ? (selectedFaces & faceBit(num)) !== 0 : selectedChoice === num;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 text-white">
       {/* Header */}
@@ -315,34 +630,98 @@ export default function DiceGamePage() {
           <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20">
             <h2 className="text-2xl font-bold mb-6">🎲 Roll the Dice</h2>
             
+            {/* Bet Type */}
+            <div className="mb-6">
+              <label className="block text-sm font-medium mb-3">
+                Bet type:
+              </label>
+              <div className="grid grid-cols-4 gap-2">
+                {[
+                  { mode: BetMode.EXACT, label: "Exact" },
+                  { mode: BetMode.ROLL_UNDER, label: "Roll Under" },
+                  { mode: BetMode.ROLL_OVER, label: "Roll Over" },
+                  { mode: BetMode.FACES, label: "Multi" },
+                ].map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    onClick={() => handleModeChange(mode)}
+                    className={`
+                      py-2 rounded-lg text-sm font-bold transition
+                      ${betMode === mode
+                        ? "bg-purple-600 ring-2 ring-purple-400"
+                        : "bg-white/20 hover:bg-white/30"
+                      }
+                    `}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             {/* Dice Selection */}
             <div className="mb-6">
               <label className="block text-sm font-medium mb-3">
-                Choose your number (1-6):
+                {betMode === BetMode.EXACT
+                  ? "Choose your number (1-6):"
+                  : betMode === BetMode.ROLL_UNDER
+                    ? "Win if the roll is at most:"
+                    : betMode === BetMode.ROLL_OVER
+                      ? "Win if the roll is at least:"
+                      : "Pick the faces to cover (1-5 faces):"}
               </label>
               <div className="grid grid-cols-6 gap-2">
-                {[1, 2, 3, 4, 5, 6].map((num) => (
+                {modeChoices[betMode].map((num) => (
                   <button
                     key={num}
-                    onClick={() => setSelectedChoice(num)}
+                    onClick={() => handleDiceClick(num)}
                     className={`
                       aspect-square rounded-xl text-2xl font-bold transition
-                      ${selectedChoice === num
+                      ${isDiceSelected(num)
                         ? "bg-purple-600 ring-4 ring-purple-400"
                         : "bg-white/20 hover:bg-white/30"
                       }
                     `}
                   >
-                    {num}
+                    {betMode === BetMode.EXACT || betMode === BetMode.FACES ? num : formatChoice(betMode, num)}
                   </button>
                 ))}
               </div>
             </div>
 
+            {/* Bet Currency */}
+            {isTokenConfigured && (
+              <div className="mb-6">
+                <label className="block text-sm font-medium mb-3">
+                  Bet with:
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {[
+                    { token: false, label: "ETH" },
+                    { token: true, label: tokenSymbol ?? "Token" },
+                  ].map(({ token, label }) => (
+                    <button
+                      key={label}
+                      onClick={() => setUseToken(token)}
+                      className={`
+                        py-2 rounded-lg text-sm font-bold transition
+                        ${useToken === token
+                          ? "bg-purple-600 ring-2 ring-purple-400"
+                          : "bg-white/20 hover:bg-white/30"
+                        }
+                      `}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Bet Amount */}
             <div className="mb-6">
               <label className="block text-sm font-medium mb-2">
-                Bet Amount (ETH):
+                Bet Amount ({currency}):
               </label>
               <input
                 type="number"
@@ -355,19 +734,22 @@ export default function DiceGamePage() {
                 placeholder="0.01"
               />
               <div className="mt-2 text-xs text-gray-300">
-                Min: {minBet ? formatEther(minBet) : "..."} ETH | Max: {maxBet ? formatEther(maxBet) : "..."} ETH
+                {useToken
+                  ? `Token bets are limited by the Treasury's ${currency} payout cap`
+                  : `Min: ${minBet ? formatEther(minBet) : "..."} ETH | Max: ${maxBet ? formatEther(maxBet) : "..."} ETH`}
               </div>
             </div>
 
             {/* Expected Payout */}
-            {expectedPayout && (
+            {expectedPayout && isValidSelection && (
               <div className="mb-6 p-4 bg-green-500/20 border border-green-500/30 rounded-lg">
                 <div className="text-sm text-gray-300">Expected payout if you win:</div>
                 <div className="text-2xl font-bold text-green-400">
-                  {formatEther(expectedPayout)} ETH
+                  {useToken ? formatUnits(expectedPayout, tokenDecimals ?? 18) : formatEther(expectedPayout)} {currency}
                 </div>
                 <div className="text-xs text-gray-400 mt-1">
-                  (6x multiplier with 2% house edge)
+                  ({+(6 / winningFaces(betMode, betChoice)).toFixed(2)}x multiplier with 2% house edge, win chance{" "}
+                  {winningFaces(betMode, betChoice)}/6)
                 </div>
               </div>
             )}
@@ -375,10 +757,16 @@ export default function DiceGamePage() {
             {/* Place Bet Button */}
             <button
               onClick={handlePlaceBet}
-              disabled={!isConnected || isPlacingBet}
+              disabled={!isConnected || isPlacingBet || isApproving}
               className="w-full py-4 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 rounded-lg font-bold text-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isPlacingBet ? "Placing Bet..." : "🎲 Place Bet"}
+              {isApproving
+                ? "Approving..."
+                : needsApproval
+                  ? `Approve ${currency}`
+                  : isPlacingBet
+                    ? "Placing Bet..."
+                    : "🎲 Place Bet"}
             </button>
           </div>
 
@@ -401,11 +789,11 @@ export default function DiceGamePage() {
                     </div>
                     <div>
                       <div className="text-gray-400">Your Choice</div>
-                      <div className="font-bold text-2xl">🎲 {latestBet.choice}</div>
+                      <div className="font-bold text-2xl">🎲 {formatChoice(latestBet.mode, latestBet.choice)}</div>
                     </div>
                     <div>
                       <div className="text-gray-400">Bet Amount</div>
-                      <div className="font-bold">{formatEther(latestBet.amount)} ETH</div>
+                      <div className="font-bold">{formatBetAmount(latestBet.amount, latestBet.token)}</div>
                     </div>
                   </div>
                 </div>
@@ -413,22 +801,22 @@ export default function DiceGamePage() {
                 {/* Result (if settled) */}
                 {latestBet.status === BetStatus.SETTLED && (
                   <div className={`p-6 rounded-xl text-center ${
-                    latestBet.diceResult === latestBet.choice
+                    isWinningRoll(latestBet)
                       ? "bg-green-500/20 border-2 border-green-500"
                       : "bg-red-500/20 border-2 border-red-500"
                   }`}>
                     <div className="text-6xl mb-4">
-                      {latestBet.diceResult === latestBet.choice ? "🎉" : "😢"}
+                      {isWinningRoll(latestBet) ? "🎉" : "😢"}
                     </div>
                     <div className="text-3xl font-bold mb-2">
                       Dice rolled: {latestBet.diceResult}
                     </div>
                     <div className="text-xl">
-                      {latestBet.diceResult === latestBet.choice ? (
+                      {isWinningRoll(latestBet) ? (
                         <>
                           <div className="text-green-400 font-bold mb-2">YOU WON!</div>
                           <div className="text-2xl">
-                            +{formatEther(latestBet.payout)} ETH
+                            +{formatBetAmount(latestBet.payout, latestBet.token)}
                           </div>
                         </>
                       ) : (
@@ -439,7 +827,7 @@ export default function DiceGamePage() {
                 )}
 
                 {/* Waiting for result */}
-                {latestBet.status === BetStatus.CALCULATING && (
+                {latestBet.status === BetStatus.CALCULATING && !isStaleBet(latestBet) && (
                   <div className="p-6 bg-yellow-500/20 border-2 border-yellow-500 rounded-xl text-center">
                     <div className="text-4xl mb-4 animate-spin">🎲</div>
                     <div className="text-xl font-bold">Rolling the dice...</div>
@@ -448,6 +836,35 @@ export default function DiceGamePage() {
                     </div>
                   </div>
                 )}
+
+                {/* VRF callback never arrived */}
+                {isStaleBet(latestBet) && (
+                  <div className="p-6 bg-orange-500/20 border-2 border-orange-500 rounded-xl text-center">
+                    <div className="text-4xl mb-4">⏳</div>
+                    <div className="text-xl font-bold">Randomness timed out</div>
+                    <div className="text-sm text-gray-300 mt-2 mb-4">
+                      The VRF callback did not arrive in time. You can reclaim your stake.
+                    </div>
+                    <button
+                      onClick={() => handleClaimRefund(latestBet.betId)}
+                      disabled={!isConnected || isClaimingRefund}
+                      className="px-6 py-3 bg-orange-600 hover:bg-orange-700 rounded-lg font-bold transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isClaimingRefund ? "Claiming..." : `Claim refund (${formatBetAmount(latestBet.amount, latestBet.token)})`}
+                    </button>
+                  </div>
+                )}
+
+                {/* Refunded */}
+                {latestBet.status === BetStatus.REFUNDED && (
+                  <div className="p-6 bg-blue-500/20 border-2 border-blue-500 rounded-xl text-center">
+                    <div className="text-4xl mb-4">↩️</div>
+                    <div className="text-xl font-bold">Bet refunded</div>
+                    <div className="text-sm text-gray-300 mt-2">
+                      {formatBetAmount(latestBet.amount, latestBet.token)} returned to your wallet
+                    </div>
+                  </div>
+                )}
               </div>
             ) : (
               <div className="text-center text-gray-400 py-12">
@@ -478,8 +895,8 @@ export default function DiceGamePage() {
                   {playerBets.map((bet) => (
                     <tr key={bet.betId.toString()} className="border-b border-white/10">
                       <td className="px-4 py-3">#{bet.betId.toString()}</td>
-                      <td className="px-4 py-3">🎲 {bet.choice}</td>
-                      <td className="px-4 py-3">{formatEther(bet.amount)} ETH</td>
+                      <td className="px-4 py-3">🎲 {formatChoice(bet.mode, bet.choice)}</td>
+                      <td className="px-4 py-3">{formatBetAmount(bet.amount, bet.token)}</td>
                       <td className="px-4 py-3">
                         {bet.status === BetStatus.SETTLED ? (
                           <span>{bet.diceResult}</span>
@@ -491,7 +908,9 @@ export default function DiceGamePage() {
                         <span className={`px-2 py-1 rounded text-xs ${
                           bet.status === BetStatus.SETTLED
                             ? "bg-green-500/20 text-green-400"
-                            : "bg-yellow-500/20 text-yellow-400"
+                            : bet.status === BetStatus.REFUNDED
+                              ? "bg-blue-500/20 text-blue-400"
+                              : "bg-yellow-500/20 text-yellow-400"
                         }`}>
                           {statusText[bet.status as BetStatus]}
                         </span>
@@ -499,8 +918,16 @@ export default function DiceGamePage() {
                       <td className="px-4 py-3">
                         {bet.status === BetStatus.SETTLED && bet.payout > 0 ? (
                           <span className="text-green-400 font-bold">
-                            +{formatEther(bet.payout)} ETH
+                            +{formatBetAmount(bet.payout, bet.token)}
                           </span>
+                        ) : isStaleBet(bet) ? (
+                          <button
+                            onClick={() => handleClaimRefund(bet.betId)}
+                            disabled={!isConnected || isClaimingRefund}
+                            className="px-3 py-1 bg-orange-600 hover:bg-orange-700 rounded text-xs font-bold transition disabled:opacity-50"
+                          >
+                            Claim refund
+                          </button>
                         ) : (
                           <span className="text-gray-400">-</span>
                         )}
@@ -518,11 +945,13 @@ export default function DiceGamePage() {
           <h3 className="text-xl font-bold mb-4">ℹ️ How to Play</h3>
           <div className="space-y-2 text-sm text-gray-300">
             <p>1. Connect your wallet and ensure you have some ETH</p>
-            <p>2. Choose a number between 1 and 6</p>
+            <p>2. Choose a number between 1 and 6, bet on a range (e.g. roll ≤ 2 or roll ≥ 4), or cover several faces (e.g. {"{1,3,5}"})</p>
             <p>3. Enter your bet amount (min: {minBet ? formatEther(minBet) : "..."} ETH, max: {maxBet ? formatEther(maxBet) : "..."} ETH)</p>
-            <p>4. Click "Place Bet" and confirm the transaction</p>
+            <p>4. Click "Place Bet" and confirm the transaction (token bets ask for an approval first)</p>
             <p>5. Wait for the dice to roll (using Chainlink VRF for provably fair randomness)</p>
             <p>6. If your number matches, you win 6x your bet (minus 2% house edge = 5.88x)</p>
+            <p>7. Range and multi-face bets pay 6x divided by the number of winning faces (e.g. roll ≥ 4 pays 2x, minus 2% house edge = 1.96x)</p>
+            <p>8. If the randomness never arrives, the bet becomes refundable after {refundTimeout ? `${Number(refundTimeout) / 60} minutes` : "the refund timeout"}</p>
           </div>
         </div>
     </main>
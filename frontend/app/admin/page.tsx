@@ -1,9 +1,11 @@
 "use client";
 
 import { useState } from "react";
+import { decodeFunctionData, formatEther, isAddress, isHex, keccak256, toHex, zeroAddress, zeroHash } from "viem";
 import {
   useAccount,
   useReadContract,
+  useReadContracts,
   useWriteContract,
   useWatchContractEvent,
 } from "wagmi";
@@ -12,12 +14,92 @@ import {
 const RANDOMNESS_PROVIDER_ADDRESS = (process.env.NEXT_PUBLIC_RANDOMNESS_PROVIDER_ADDRESS ??
   "0x0000000000000000000000000000000000000000") as `0x${string}`;
 
+const TREASURY_ADDRESS = (process.env.NEXT_PUBLIC_TREASURY_ADDRESS ??
+  "0x0000000000000000000000000000000000000000") as `0x${string}`;
+
 // Minimal ABI
 const ABI = [
+  {
+    inputs: [
+      { internalType: "address", name: "game", type: "address" },
+      { internalType: "bool", name: "allowed", type: "bool" },
+    ],
+    name: "setGame",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "", type: "address" }],
+    name: "isGame",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "game", type: "address" },
+      { indexed: false, internalType: "bool", name: "allowed", type: "bool" },
+    ],
+    name: "GameAuthorized",
+    type: "event",
+  },
   {
     inputs: [],
-    name: "requestRandomWords",
-    outputs: [{ internalType: "uint256", name: "requestId", type: "uint256" }],
+    name: "getVrfConfig",
+    outputs: [
+      { internalType: "uint256", name: "subscriptionId", type: "uint256" },
+      { internalType: "bytes32", name: "keyHash", type: "bytes32" },
+      { internalType: "uint32", name: "callbackGasLimit", type: "uint32" },
+      { internalType: "uint16", name: "requestConfirmations", type: "uint16" },
+      { internalType: "bool", name: "nativePayment", type: "bool" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "game", type: "address" }],
+    name: "getCallbackGasLimit",
+    outputs: [{ internalType: "uint32", name: "", type: "uint32" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bytes32", name: "keyHash", type: "bytes32" }],
+    name: "setKeyHash",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint32", name: "gasLimit", type: "uint32" }],
+    name: "setCallbackGasLimit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint16", name: "confirmations", type: "uint16" }],
+    name: "setRequestConfirmations",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "bool", name: "nativePayment", type: "bool" }],
+    name: "setNativePayment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "game", type: "address" },
+      { internalType: "uint32", name: "gasLimit", type: "uint32" },
+    ],
+    name: "setGameCallbackGasLimit",
+    outputs: [],
     stateMutability: "nonpayable",
     type: "function",
   },
@@ -26,10 +108,38 @@ const ABI = [
     inputs: [
       { indexed: true, internalType: "uint256", name: "requestId", type: "uint256" },
       { indexed: true, internalType: "address", name: "requester", type: "address" },
+      { indexed: false, internalType: "bool", name: "nativePayment", type: "bool" },
     ],
     name: "RequestSent",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "requestId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "requester", type: "address" },
+      { indexed: false, internalType: "uint256", name: "randomness", type: "uint256" },
+    ],
+    name: "RandomnessFulfilled",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "getPendingRequestCount",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "offset", type: "uint256" },
+      { internalType: "uint256", name: "limit", type: "uint256" },
+    ],
+    name: "getPendingRequests",
+    outputs: [{ internalType: "uint256[]", name: "page", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "owner",
@@ -39,11 +149,433 @@ const ABI = [
   },
 ] as const;
 
+// Views and events only CommitRevealRandomnessProvider has (used instead of VRF on localhost)
+const COMMIT_REVEAL_ABI = [
+  {
+    inputs: [],
+    name: "s_revealDelay",
+    outputs: [{ internalType: "uint64", name: "", type: "uint64" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "s_operator",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAvailableSeedCount",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "requestId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "requester", type: "address" },
+      { indexed: false, internalType: "uint256", name: "seedIndex", type: "uint256" },
+      { indexed: false, internalType: "uint64", name: "revealBlock", type: "uint64" },
+    ],
+    name: "RequestSent",
+    type: "event",
+  },
+] as const;
+
+// Minimal Treasury ABI (per-game bankroll limits, roles, timelock, circuit breaker)
+const TREASURY_ABI = [
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "breakerTripped",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "payoutBudget",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "payoutWindow",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "windowOutflow",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getTokens",
+    outputs: [{ internalType: "address[]", name: "", type: "address[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "token", type: "address" }],
+    name: "getTokenPayoutBudget",
+    outputs: [
+      { internalType: "uint256", name: "budget", type: "uint256" },
+      { internalType: "uint256", name: "window", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "token", type: "address" }],
+    name: "tokenWindowOutflow",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "bytes32", name: "role", type: "bytes32" },
+      { internalType: "address", name: "account", type: "address" },
+    ],
+    name: "hasRole",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getGames",
+    outputs: [{ internalType: "address[]", name: "", type: "address[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "game", type: "address" }],
+    name: "getGameConfig",
+    outputs: [
+      {
+        components: [
+          { internalType: "bool", name: "authorized", type: "bool" },
+          { internalType: "uint256", name: "allocation", type: "uint256" },
+          { internalType: "uint256", name: "maxLiability", type: "uint256" },
+          { internalType: "uint256", name: "liability", type: "uint256" },
+          { internalType: "uint256", name: "openStakes", type: "uint256" },
+          { internalType: "uint256", name: "deposited", type: "uint256" },
+          { internalType: "uint256", name: "paidOut", type: "uint256" },
+        ],
+        internalType: "struct Treasury.GameConfig",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "game", type: "address" }],
+    name: "getAllocationUsage",
+    outputs: [
+      { internalType: "uint256", name: "used", type: "uint256" },
+      { internalType: "uint256", name: "available", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalLiability",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "timelockDelay",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getPendingOperationIds",
+    outputs: [{ internalType: "uint256[]", name: "", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "operationId", type: "uint256" }],
+    name: "getOperation",
+    outputs: [
+      {
+        components: [
+          { internalType: "bytes", name: "data", type: "bytes" },
+          { internalType: "uint64", name: "eta", type: "uint64" },
+          { internalType: "uint64", name: "queuedAt", type: "uint64" },
+          { internalType: "enum Treasury.OperationStatus", name: "status", type: "uint8" },
+        ],
+        internalType: "struct Treasury.Operation",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "operationId", type: "uint256" }],
+    name: "executeOperation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "operationId", type: "uint256" }],
+    name: "cancelOperation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getHeldPayoutIds",
+    outputs: [{ internalType: "uint256[]", name: "", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "heldPayoutId", type: "uint256" }],
+    name: "getHeldPayout",
+    outputs: [
+      {
+        components: [
+          { internalType: "address", name: "game", type: "address" },
+          { internalType: "address", name: "token", type: "address" },
+          { internalType: "address", name: "account", type: "address" },
+          { internalType: "uint256", name: "amount", type: "uint256" },
+        ],
+        internalType: "struct Treasury.HeldPayout",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "heldPayoutId", type: "uint256" }],
+    name: "releaseHeldPayout",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "heldPayoutId", type: "uint256" }],
+    name: "voidHeldPayout",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+// Timelocked Treasury functions, used only to decode queued operations
+const TREASURY_TIMELOCKED_ABI = [
+  {
+    inputs: [
+      { internalType: "address", name: "game", type: "address" },
+      { internalType: "bool", name: "allowed", type: "bool" },
+    ],
+    name: "setGame",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "game", type: "address" },
+      { internalType: "uint256", name: "allocation", type: "uint256" },
+      { internalType: "uint256", name: "maxLiability", type: "uint256" },
+    ],
+    name: "setGameLimits",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "game", type: "address" },
+      { internalType: "address", name: "token", type: "address" },
+      { internalType: "uint256", name: "allocation", type: "uint256" },
+      { internalType: "uint256", name: "maxLiability", type: "uint256" },
+    ],
+    name: "setGameTokenLimits",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "_maxPayoutPerTx", type: "uint256" }],
+    name: "setMaxPayoutPerTx",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "_payoutBudget", type: "uint256" },
+      { internalType: "uint256", name: "_payoutWindow", type: "uint256" },
+    ],
+    name: "setPayoutBudget",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "token", type: "address" },
+      { internalType: "uint256", name: "budget", type: "uint256" },
+      { internalType: "uint256", name: "window", type: "uint256" },
+    ],
+    name: "setTokenPayoutBudget",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "_withdrawCooldown", type: "uint256" }],
+    name: "setWithdrawCooldown",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "_timelockDelay", type: "uint256" }],
+    name: "setTimelockDelay",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address payable", name: "to", type: "address" },
+      { internalType: "uint256", name: "amount", type: "uint256" },
+    ],
+    name: "adminWithdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "token", type: "address" },
+      { internalType: "bool", name: "allowed", type: "bool" },
+      { internalType: "uint256", name: "tokenMaxPayoutPerTx", type: "uint256" },
+    ],
+    name: "setToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "token", type: "address" },
+      { internalType: "address", name: "to", type: "address" },
+      { internalType: "uint256", name: "amount", type: "uint256" },
+    ],
+    name: "adminWithdrawToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+// Positions of queued-call uint256 arguments that are not ETH amounts (durations, or raw ERC-20 units)
+const NON_ETH_ARGUMENTS: Record<string, readonly number[]> = {
+  setWithdrawCooldown: [0],
+  setTimelockDelay: [0],
+  setPayoutBudget: [1],
+  setTokenPayoutBudget: [1, 2],
+  setGameTokenLimits: [2, 3],
+  setToken: [2],
+  adminWithdrawToken: [2],
+};
+
+// Treasury AccessControl roles and the admin actions each one allows
+const TREASURY_ROLES = [
+  { name: "DEFAULT_ADMIN_ROLE", role: zeroHash, actions: "grant/revoke roles, setTimelockDelay, cancel any operation" },
+  {
+    name: "PAUSER_ROLE",
+    role: keccak256(toHex("PAUSER_ROLE")),
+    actions: "pause, unpause, releaseHeldPayout, voidHeldPayout",
+  },
+  { name: "GAME_MANAGER_ROLE", role: keccak256(toHex("GAME_MANAGER_ROLE")), actions: "setGame" },
+  {
+    name: "RISK_MANAGER_ROLE",
+    role: keccak256(toHex("RISK_MANAGER_ROLE")),
+    actions:
+      "setGameLimits, setGameTokenLimits, setMaxPayoutPerTx, setPayoutBudget, setTokenPayoutBudget, setWithdrawCooldown, setToken",
+  },
+  {
+    name: "TREASURER_ROLE",
+    role: keccak256(toHex("TREASURER_ROLE")),
+    actions: "adminWithdraw, adminWithdrawToken",
+  },
+] as const;
+
+// Readable summary of a queued Treasury call
+const describeOperation = (data: `0x${string}`) => {
+  try {
+    const { functionName, args } = decodeFunctionData({ abi: TREASURY_TIMELOCKED_ABI, data });
+    const formatted = (args ?? []).map((arg, i) =>
+      typeof arg === "bigint" && !NON_ETH_ARGUMENTS[functionName]?.includes(i)
+        ? `${formatEther(arg)} ETH`
+        : typeof arg === "string"
+          ? `${arg.slice(0, 6)}...${arg.slice(-4)}`
+          : String(arg)
+    );
+    return `${functionName}(${formatted.join(", ")})`;
+  } catch {
+    return data.slice(0, 10);
+  }
+};
+
+// Bounds enforced by RandomnessProvider (mirrors the VRF v2.5 coordinator limits)
+const MIN_CALLBACK_GAS_LIMIT = 50000;
+const MAX_CALLBACK_GAS_LIMIT = 2500000;
+const MIN_REQUEST_CONFIRMATIONS = 3;
+const MAX_REQUEST_CONFIRMATIONS = 200;
+
+const PENDING_PAGE_SIZE = 10;
+
+const inRange = (value: string, min: number, max: number) =>
+  /^\d+$/.test(value) && Number(value) >= min && Number(value) <= max;
+
 export default function AdminPanel() {
-  const { isConnected } = useAccount();
+  const { address, isConnected } = useAccount();
   const [logs, setLogs] = useState<string[]>([]);
+  const [gameAddress, setGameAddress] = useState<string>("");
+  const [keyHashInput, setKeyHashInput] = useState<string>("");
+  const [gasLimitInput, setGasLimitInput] = useState<string>("");
+  const [confirmationsInput, setConfirmationsInput] = useState<string>("");
+  const [gameGasInput, setGameGasInput] = useState<string>("");
+  const [pendingPage, setPendingPage] = useState<number>(0);
   const { writeContract, isPending, isSuccess } = useWriteContract();
 
+  const isValidGame = isAddress(gameAddress);
+
   // Read owner
   const { data: owner } = useReadContract({
     address: RANDOMNESS_PROVIDER_ADDRESS,
@@ -51,29 +583,348 @@ export default function AdminPanel() {
     functionName: "owner",
   });
 
+  // Registration status of the entered game address
+  const { data: gameRegistered, refetch: refetchGameRegistered } = useReadContract({
+    address: RANDOMNESS_PROVIDER_ADDRESS,
+    abi: ABI,
+    functionName: "isGame",
+    args: isValidGame ? [gameAddress as `0x${string}`] : undefined,
+    query: { enabled: isValidGame },
+  });
+
+  // Only the commit-reveal provider has a reveal delay; it has no VRF config or callback gas limits
+  const { data: revealDelay, isFetched: isProviderTypeKnown } = useReadContract({
+    address: RANDOMNESS_PROVIDER_ADDRESS,
+    abi: COMMIT_REVEAL_ABI,
+    functionName: "s_revealDelay",
+  });
+  const isCommitReveal = revealDelay !== undefined;
+  const isVrf = isProviderTypeKnown && !isCommitReveal;
+
+  const { data: revealOperator } = useReadContract({
+    address: RANDOMNESS_PROVIDER_ADDRESS,
+    abi: COMMIT_REVEAL_ABI,
+    functionName: "s_operator",
+    query: { enabled: isCommitReveal },
+  });
+
+  const { data: availableSeeds } = useReadContract({
+    address: RANDOMNESS_PROVIDER_ADDRESS,
+    abi: COMMIT_REVEAL_ABI,
+    functionName: "getAvailableSeedCount",
+    query: { enabled: isCommitReveal, refetchInterval: 5000 },
+  });
+
+  // Current VRF request parameters
+  const { data: vrfConfig } = useReadContract({
+    address: RANDOMNESS_PROVIDER_ADDRESS,
+    abi: ABI,
+    functionName: "getVrfConfig",
+    query: { enabled: isVrf, refetchInterval: 5000 },
+  });
+
+  // Effective callback gas limit of the entered game (override or default)
+  const { data: gameGasLimit } = useReadContract({
+    address: RANDOMNESS_PROVIDER_ADDRESS,
+    abi: ABI,
+    functionName: "getCallbackGasLimit",
+    args: isValidGame ? [gameAddress as `0x${string}`] : undefined,
+    query: { enabled: isVrf && isValidGame, refetchInterval: 5000 },
+  });
+
+  // Requests still waiting for VRF or a reveal, one page at a time
+  const { data: pendingCount, refetch: refetchPendingCount } = useReadContract({
+    address: RANDOMNESS_PROVIDER_ADDRESS,
+    abi: ABI,
+    functionName: "getPendingRequestCount",
+    query: { refetchInterval: 5000 },
+  });
+
+  const { data: pendingRequests, refetch: refetchPendingRequests } = useReadContract({
+    address: RANDOMNESS_PROVIDER_ADDRESS,
+    abi: ABI,
+    functionName: "getPendingRequests",
+    args: [BigInt(pendingPage * PENDING_PAGE_SIZE), BigInt(PENDING_PAGE_SIZE)],
+    query: { refetchInterval: 5000 },
+  });
+
+  // Treasury games with their allocation and liability usage
+  const isTreasuryConfigured = TREASURY_ADDRESS !== "0x0000000000000000000000000000000000000000";
+
+  const { data: treasuryGames } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "getGames",
+    query: { enabled: isTreasuryConfigured, refetchInterval: 5000 },
+  });
+
+  const { data: totalLiability } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "totalLiability",
+    query: { enabled: isTreasuryConfigured, refetchInterval: 5000 },
+  });
+
+  const { data: gameLimits } = useReadContracts({
+    contracts: (treasuryGames ?? []).flatMap((game) => [
+      { address: TREASURY_ADDRESS, abi: TREASURY_ABI, functionName: "getGameConfig", args: [game] } as const,
+      { address: TREASURY_ADDRESS, abi: TREASURY_ABI, functionName: "getAllocationUsage", args: [game] } as const,
+    ]),
+    query: { enabled: !!treasuryGames && treasuryGames.length > 0, refetchInterval: 5000 },
+  });
+
+  // Payout circuit breaker status: [paused, payoutBudget, payoutWindow, windowOutflow, breakerTripped]
+  const { data: circuitBreaker } = useReadContracts({
+    contracts: (["paused", "payoutBudget", "payoutWindow", "windowOutflow", "breakerTripped"] as const).map(
+      (functionName) => ({ address: TREASURY_ADDRESS, abi: TREASURY_ABI, functionName }) as const
+    ),
+    query: { enabled: isTreasuryConfigured, refetchInterval: 5000 },
+  });
+
+  // Per-token payout meters: [getTokenPayoutBudget, tokenWindowOutflow] for each configured token
+  const { data: treasuryTokens } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "getTokens",
+    query: { enabled: isTreasuryConfigured, refetchInterval: 5000 },
+  });
+
+  const { data: tokenMeters } = useReadContracts({
+    contracts: (treasuryTokens ?? []).flatMap((token) => [
+      { address: TREASURY_ADDRESS, abi: TREASURY_ABI, functionName: "getTokenPayoutBudget", args: [token] } as const,
+      { address: TREASURY_ADDRESS, abi: TREASURY_ABI, functionName: "tokenWindowOutflow", args: [token] } as const,
+    ]),
+    query: { enabled: !!treasuryTokens && treasuryTokens.length > 0, refetchInterval: 5000 },
+  });
+
+  // Payouts held by the tripped circuit breaker, awaiting release or void
+  const { data: heldPayoutIds } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "getHeldPayoutIds",
+    query: { enabled: isTreasuryConfigured, refetchInterval: 5000 },
+  });
+
+  const { data: heldPayouts } = useReadContracts({
+    contracts: (heldPayoutIds ?? []).map(
+      (heldPayoutId) =>
+        ({ address: TREASURY_ADDRESS, abi: TREASURY_ABI, functionName: "getHeldPayout", args: [heldPayoutId] }) as const
+    ),
+    query: { enabled: !!heldPayoutIds && heldPayoutIds.length > 0, refetchInterval: 5000 },
+  });
+
+  // Treasury roles held by the connected wallet
+  const { data: treasuryRoles } = useReadContracts({
+    contracts: TREASURY_ROLES.map(
+      ({ role }) =>
+        ({
+          address: TREASURY_ADDRESS,
+          abi: TREASURY_ABI,
+          functionName: "hasRole",
+          args: [role, address ?? zeroAddress],
+        }) as const
+    ),
+    query: { enabled: isTreasuryConfigured && !!address, refetchInterval: 5000 },
+  });
+
+  // Timelocked admin operations waiting to be executed
+  const { data: timelockDelay } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "timelockDelay",
+    query: { enabled: isTreasuryConfigured, refetchInterval: 5000 },
+  });
+
+  const { data: pendingOperationIds } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "getPendingOperationIds",
+    query: { enabled: isTreasuryConfigured, refetchInterval: 5000 },
+  });
+
+  const { data: pendingOperations } = useReadContracts({
+    contracts: (pendingOperationIds ?? []).map(
+      (operationId) =>
+        ({ address: TREASURY_ADDRESS, abi: TREASURY_ABI, functionName: "getOperation", args: [operationId] }) as const
+    ),
+    query: { enabled: !!pendingOperationIds && pendingOperationIds.length > 0, refetchInterval: 5000 },
+  });
+
+  const isTreasuryPaused = circuitBreaker?.[0]?.result as boolean | undefined;
+  const payoutBudget = circuitBreaker?.[1]?.result as bigint | undefined;
+  const payoutWindow = circuitBreaker?.[2]?.result as bigint | undefined;
+  const windowOutflow = circuitBreaker?.[3]?.result as bigint | undefined;
+  const isBreakerTripped = circuitBreaker?.[4]?.result as boolean | undefined;
+  const isBreakerEnabled = payoutBudget !== undefined && payoutBudget > BigInt(0);
+  const outflowPercent =
+    isBreakerEnabled && windowOutflow !== undefined
+      ? Math.min(100, Number((windowOutflow * BigInt(10000)) / payoutBudget) / 100)
+      : 0;
+
+  // Tokens with a payout budget, with the share of it used in the current window
+  const tokenMeterRows = (treasuryTokens ?? []).flatMap((token, i) => {
+    const [budget, window] = (tokenMeters?.[i * 2]?.result as readonly [bigint, bigint] | undefined) ?? [];
+    const outflow = tokenMeters?.[i * 2 + 1]?.result as bigint | undefined;
+    if (!budget || outflow === undefined) return [];
+    const percent = Math.min(100, Number((outflow * BigInt(10000)) / budget) / 100);
+    return [{ token, window: window ?? BigInt(0), percent }];
+  });
+
+  const pendingPageCount = Math.max(1, Math.ceil(Number(pendingCount ?? 0) / PENDING_PAGE_SIZE));
+
+  const [subscriptionId, keyHash, callbackGasLimit, requestConfirmations, nativePayment] = vrfConfig ?? [];
+
+  const isOwner = !!owner && !!address && String(owner).toLowerCase() === address.toLowerCase();
+
   // Watch event logs
   useWatchContractEvent({
     address: RANDOMNESS_PROVIDER_ADDRESS,
     abi: ABI,
     eventName: "RequestSent",
+    enabled: isVrf,
     onLogs(newLogs) {
       newLogs.forEach((log: any) => {
         const requestId = log.args?.requestId?.toString?.() ?? "";
         const requester = log.args?.requester ?? "";
-        const message = `[${new Date().toLocaleTimeString()}] Request ID: ${requestId} | By: ${requester}`;
+        const payment = log.args?.nativePayment ? "ETH" : "LINK";
+        const message = `[${new Date().toLocaleTimeString()}] Request ID: ${requestId} | By: ${requester} | Paid in: ${payment}`;
+        setLogs((prev) => [message, ...prev]);
+      });
+      refetchPendingCount();
+      refetchPendingRequests();
+    },
+  });
+
+  useWatchContractEvent({
+    address: RANDOMNESS_PROVIDER_ADDRESS,
+    abi: COMMIT_REVEAL_ABI,
+    eventName: "RequestSent",
+    enabled: isCommitReveal,
+    onLogs(newLogs) {
+      newLogs.forEach((log) => {
+        const requestId = log.args.requestId?.toString() ?? "";
+        const requester = log.args.requester ?? "";
+        const revealBlock = log.args.revealBlock?.toString() ?? "";
+        const message = `[${new Date().toLocaleTimeString()}] Request ID: ${requestId} | By: ${requester} | Reveal block: ${revealBlock}`;
+        setLogs((prev) => [message, ...prev]);
+      });
+      refetchPendingCount();
+      refetchPendingRequests();
+    },
+  });
+
+  useWatchContractEvent({
+    address: RANDOMNESS_PROVIDER_ADDRESS,
+    abi: ABI,
+    eventName: "RandomnessFulfilled",
+    onLogs(newLogs) {
+      newLogs.forEach((log) => {
+        const requestId = log.args.requestId?.toString() ?? "";
+        const randomness = log.args.randomness?.toString() ?? "";
+        const message = `[${new Date().toLocaleTimeString()}] Fulfilled ID: ${requestId} | Randomness: ${randomness}`;
+        setLogs((prev) => [message, ...prev]);
+      });
+      refetchPendingCount();
+      refetchPendingRequests();
+    },
+  });
+
+  useWatchContractEvent({
+    address: RANDOMNESS_PROVIDER_ADDRESS,
+    abi: ABI,
+    eventName: "GameAuthorized",
+    onLogs(newLogs) {
+      newLogs.forEach((log) => {
+        const action = log.args.allowed ? "Registered" : "Removed";
+        const message = `[${new Date().toLocaleTimeString()}] ${action} game: ${log.args.game ?? ""}`;
         setLogs((prev) => [message, ...prev]);
       });
+      refetchGameRegistered();
     },
   });
 
-  const handleRequest = () => {
+  const handleSetGame = (allowed: boolean) => {
+    if (!isValidGame) return;
+    writeContract({
+      address: RANDOMNESS_PROVIDER_ADDRESS,
+      abi: ABI,
+      functionName: "setGame",
+      args: [gameAddress as `0x${string}`, allowed],
+    });
+  };
+
+  const handleSetKeyHash = () => {
+    if (!isHex(keyHashInput) || keyHashInput.length !== 66) return;
+    writeContract({
+      address: RANDOMNESS_PROVIDER_ADDRESS,
+      abi: ABI,
+      functionName: "setKeyHash",
+      args: [keyHashInput],
+    });
+  };
+
+  const handleSetCallbackGasLimit = () => {
+    if (!inRange(gasLimitInput, MIN_CALLBACK_GAS_LIMIT, MAX_CALLBACK_GAS_LIMIT)) return;
+    writeContract({
+      address: RANDOMNESS_PROVIDER_ADDRESS,
+      abi: ABI,
+      functionName: "setCallbackGasLimit",
+      args: [Number(gasLimitInput)],
+    });
+  };
+
+  const handleSetRequestConfirmations = () => {
+    if (!inRange(confirmationsInput, MIN_REQUEST_CONFIRMATIONS, MAX_REQUEST_CONFIRMATIONS)) return;
+    writeContract({
+      address: RANDOMNESS_PROVIDER_ADDRESS,
+      abi: ABI,
+      functionName: "setRequestConfirmations",
+      args: [Number(confirmationsInput)],
+    });
+  };
+
+  const handleToggleNativePayment = () => {
+    if (nativePayment === undefined) return;
+    writeContract({
+      address: RANDOMNESS_PROVIDER_ADDRESS,
+      abi: ABI,
+      functionName: "setNativePayment",
+      args: [!nativePayment],
+    });
+  };
+
+  // 0 clears the override so the game falls back to the default gas limit
+  const handleSetGameGasLimit = () => {
+    if (!isValidGame) return;
+    if (gameGasInput !== "0" && !inRange(gameGasInput, MIN_CALLBACK_GAS_LIMIT, MAX_CALLBACK_GAS_LIMIT)) return;
     writeContract({
       address: RANDOMNESS_PROVIDER_ADDRESS,
       abi: ABI,
-      functionName: "requestRandomWords",
+      functionName: "setGameCallbackGasLimit",
+      args: [gameAddress as `0x${string}`, Number(gameGasInput)],
     });
   };
 
+  const handleOperation = (functionName: "executeOperation" | "cancelOperation", operationId: bigint) => {
+    writeContract({
+      address: TREASURY_ADDRESS,
+      abi: TREASURY_ABI,
+      functionName,
+      args: [operationId],
+    });
+  };
+
+  const handleHeldPayout = (functionName: "releaseHeldPayout" | "voidHeldPayout", heldPayoutId: bigint) => {
+    writeContract({
+      address: TREASURY_ADDRESS,
+      abi: TREASURY_ABI,
+      functionName,
+      args: [heldPayoutId],
+    });
+  };
+
+  const canWrite = isConnected && !isPending;
+
   const isConfigured =
     RANDOMNESS_PROVIDER_ADDRESS !== "0x0000000000000000000000000000000000000000";
 
@@ -116,13 +967,14 @@ export default function AdminPanel() {
             </div>
 
             <div className="mt-6 glass-card p-6">
-              <h3 className="text-xl font-bold mb-2">⚡ Action</h3>
+              <h3 className="text-xl font-bold mb-2">🎮 Game Registry</h3>
               <p className="muted text-sm mb-4">
-                Trigger a randomness request (event{" "}
+                Only registered game contracts can request randomness. Registering or removing a game (owner only)
+                emits{" "}
                 <code className="px-2 py-1 rounded bg-white/10 border border-white/10">
-                  RequestSent
-                </code>{" "}
-                will appear on the right).
+                  GameAuthorized
+                </code>
+                .
               </p>
 
               {!isConnected && (
@@ -131,21 +983,370 @@ export default function AdminPanel() {
                 </div>
               )}
 
+              {isConnected && !isOwner && (
+                <div className="mb-4 p-3 rounded-lg bg-yellow-500/15 border border-yellow-500/25 text-sm">
+                  ⚠️ Connected wallet is not the owner; transactions will revert
+                </div>
+              )}
+
               {isSuccess && (
                 <div className="mb-4 p-3 rounded-lg bg-green-500/15 border border-green-500/25 text-sm text-green-100">
-                  ✅ Request transaction sent!
+                  ✅ Transaction sent!
                 </div>
               )}
 
-              <button
-                onClick={handleRequest}
-                disabled={!isConnected || isPending}
-                className={`btn w-full py-4 text-lg ${
-                  !isConnected || isPending ? "opacity-60 cursor-not-allowed" : "btn-primary"
-                }`}
-              >
-                {isPending ? "Requesting..." : "⚡ Trigger Randomness Request"}
-              </button>
+              <input
+                type="text"
+                value={gameAddress}
+                onChange={(e) => setGameAddress(e.target.value.trim())}
+                placeholder="Game contract address (0x...)"
+                className="w-full mb-3 px-4 py-3 font-mono text-sm bg-white/10 border border-white/20 rounded-lg"
+              />
+              <div className="mb-4 text-sm muted">
+                Status:{" "}
+                {!isValidGame
+                  ? "enter a valid address"
+                  : gameRegistered === undefined
+                    ? "Loading..."
+                    : gameRegistered
+                      ? "✅ registered"
+                      : "❌ not registered"}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                  onClick={() => handleSetGame(true)}
+                  disabled={!isConnected || isPending || !isValidGame || gameRegistered === true}
+                  className="btn btn-primary w-full py-3 disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  {isPending ? "Sending..." : "Register Game"}
+                </button>
+                <button
+                  onClick={() => handleSetGame(false)}
+                  disabled={!isConnected || isPending || !isValidGame || gameRegistered === false}
+                  className="btn w-full py-3 disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  {isPending ? "Sending..." : "Remove Game"}
+                </button>
+              </div>
+
+              {isValidGame && isVrf && (
+                <div className="mt-6 pt-4 border-t border-white/10">
+                  <div className="text-sm mb-2">
+                    Callback gas limit for this game:{" "}
+                    <span className="font-mono">{gameGasLimit !== undefined ? gameGasLimit.toString() : "..."}</span>
+                  </div>
+                  <div className="flex gap-3">
+                    <input
+                      type="number"
+                      value={gameGasInput}
+                      onChange={(e) => setGameGasInput(e.target.value)}
+                      placeholder="Override (0 = default)"
+                      className="flex-1 px-4 py-2 font-mono text-sm bg-white/10 border border-white/20 rounded-lg"
+                    />
+                    <button
+                      onClick={handleSetGameGasLimit}
+                      disabled={!canWrite || gameGasInput === ""}
+                      className="btn px-4 disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                      Set
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="mt-6 glass-card p-6">
+              <div className="flex items-center justify-between gap-4 mb-2">
+                <h3 className="text-xl font-bold">🚨 Payout Circuit Breaker</h3>
+                {isTreasuryConfigured && isTreasuryPaused !== undefined && (
+                  <span
+                    className={`px-3 py-1 rounded-full text-xs font-bold ${
+                      isTreasuryPaused
+                        ? "bg-red-500/20 border border-red-500/40 text-red-200"
+                        : "bg-green-500/20 border border-green-500/40 text-green-200"
+                    }`}
+                  >
+                    {isBreakerTripped ? "⛔ Breaker tripped" : isTreasuryPaused ? "⛔ Treasury paused" : "✅ Payouts flowing"}
+                  </span>
+                )}
+              </div>
+              <p className="muted text-sm mb-4">
+                ETH payouts are metered against a rolling budget, and token payouts against a budget per token. A
+                payout that would exceed one pauses the Treasury and is held, as is every payout settled while it is
+                tripped. After reviewing the outflow, a pauser releases each held payout to its winner or voids it back
+                into the bankroll; unpausing does neither.
+              </p>
+
+              {!isTreasuryConfigured ? (
+                <div className="p-3 rounded-lg bg-yellow-500/15 border border-yellow-500/25 text-sm">
+                  ⚠️ Set NEXT_PUBLIC_TREASURY_ADDRESS to show the circuit breaker
+                </div>
+              ) : payoutBudget === undefined ? (
+                <div className="muted italic text-sm">Loading...</div>
+              ) : !isBreakerEnabled ? (
+                <div className="muted italic text-sm">
+                  Disabled. The risk manager can enable it with{" "}
+                  <code className="px-2 py-1 rounded bg-white/10 border border-white/10">setPayoutBudget</code>.
+                </div>
+              ) : (
+                <div className="text-sm">
+                  <div className="flex justify-between mb-2">
+                    <span className="muted">Paid out in the current window</span>
+                    <span className="font-mono">
+                      {formatEther(windowOutflow ?? BigInt(0))} / {formatEther(payoutBudget)} ETH per{" "}
+                      {Number(payoutWindow ?? BigInt(0)) / 60} min
+                    </span>
+                  </div>
+                  <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+                    <div
+                      className={`h-full ${outflowPercent >= 80 ? "bg-red-500" : "bg-green-500"}`}
+                      style={{ width: `${outflowPercent}%` }}
+                    />
+                  </div>
+                  {isTreasuryPaused && (
+                    <div className="mt-3 p-3 rounded-lg bg-red-500/15 border border-red-500/25">
+                      {isBreakerTripped
+                        ? "Bets and claims are stopped and every payout is held. Unpausing resets the meters."
+                        : "Payouts, bets and claims are stopped. Unpausing resets the meters."}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {tokenMeterRows.length > 0 && (
+                <div className="mt-4 space-y-3 text-sm">
+                  {tokenMeterRows.map(({ token, window, percent }) => (
+                    <div key={token}>
+                      <div className="flex justify-between mb-2">
+                        <span className="muted font-mono">
+                          {token.slice(0, 6)}...{token.slice(-4)}
+                        </span>
+                        <span className="font-mono">
+                          {percent}% of budget per {Number(window) / 60} min
+                        </span>
+                      </div>
+                      <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+                        <div
+                          className={`h-full ${percent >= 80 ? "bg-red-500" : "bg-green-500"}`}
+                          style={{ width: `${percent}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {heldPayoutIds && heldPayoutIds.length > 0 && (
+                <div className="mt-4 space-y-3">
+                  <h4 className="font-semibold">Held payouts awaiting review</h4>
+                  {heldPayoutIds.map((heldPayoutId, i) => {
+                    const held = heldPayouts?.[i]?.result;
+                    return (
+                      <div
+                        key={heldPayoutId.toString()}
+                        className="p-4 rounded-xl border border-white/10 bg-black/25 text-sm"
+                      >
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="font-semibold">#{heldPayoutId.toString()}</span>
+                          <span className="font-mono">
+                            {!held
+                              ? "..."
+                              : held.token === zeroAddress
+                                ? `${formatEther(held.amount)} ETH`
+                                : `${held.amount.toString()} units of ${held.token.slice(0, 6)}...${held.token.slice(-4)}`}
+                          </span>
+                        </div>
+                        <div className="font-mono break-all muted mb-3">
+                          {held ? `to ${held.account} from game ${held.game}` : "Loading..."}
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                          <button
+                            onClick={() => handleHeldPayout("releaseHeldPayout", heldPayoutId)}
+                            disabled={!canWrite}
+                            className="btn btn-primary py-2 disabled:opacity-60 disabled:cursor-not-allowed"
+                          >
+                            Release
+                          </button>
+                          <button
+                            onClick={() => handleHeldPayout("voidHeldPayout", heldPayoutId)}
+                            disabled={!canWrite}
+                            className="btn py-2 disabled:opacity-60 disabled:cursor-not-allowed"
+                          >
+                            Void
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            <div className="mt-6 glass-card p-6">
+              <h3 className="text-xl font-bold mb-2">🔑 Your Treasury Roles</h3>
+              <p className="muted text-sm mb-4">
+                Treasury admin powers are split across roles granted by the admin. Actions for roles you do not hold
+                will revert.
+              </p>
+
+              {!isTreasuryConfigured ? (
+                <div className="p-3 rounded-lg bg-yellow-500/15 border border-yellow-500/25 text-sm">
+                  ⚠️ Set NEXT_PUBLIC_TREASURY_ADDRESS to show your roles
+                </div>
+              ) : !isConnected ? (
+                <div className="muted italic text-sm">Connect a wallet to see its roles</div>
+              ) : (
+                <div className="space-y-2">
+                  {TREASURY_ROLES.map(({ name, actions }, i) => {
+                    const held = treasuryRoles?.[i]?.result;
+                    return (
+                      <div
+                        key={name}
+                        className="flex items-center justify-between gap-4 p-3 rounded-xl border border-white/10 bg-black/25 text-sm"
+                      >
+                        <div>
+                          <div className="font-mono">{name}</div>
+                          <div className="text-xs muted">{actions}</div>
+                        </div>
+                        <span className="text-xs muted whitespace-nowrap">
+                          {held === undefined ? "..." : held ? "✅ allowed" : "❌ not granted"}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            <div className="mt-6 glass-card p-6">
+              <h3 className="text-xl font-bold mb-2">🏦 Treasury Game Limits</h3>
+              <p className="muted text-sm mb-4">
+                Allocation used is the game&apos;s net losses plus the payouts reserved for its open bets. Limits are
+                set by the Treasury risk manager with{" "}
+                <code className="px-2 py-1 rounded bg-white/10 border border-white/10">setGameLimits</code>.
+              </p>
+
+              {!isTreasuryConfigured ? (
+                <div className="p-3 rounded-lg bg-yellow-500/15 border border-yellow-500/25 text-sm">
+                  ⚠️ Set NEXT_PUBLIC_TREASURY_ADDRESS to show per-game limits
+                </div>
+              ) : !treasuryGames || treasuryGames.length === 0 ? (
+                <div className="muted italic text-sm">No games configured in Treasury</div>
+              ) : (
+                <div className="space-y-3">
+                  {treasuryGames.map((game, i) => {
+                    const config = gameLimits?.[2 * i]?.result as
+                      | { authorized: boolean; allocation: bigint; maxLiability: bigint; liability: bigint }
+                      | undefined;
+                    const usage = gameLimits?.[2 * i + 1]?.result as readonly [bigint, bigint] | undefined;
+                    return (
+                      <div key={game} className="p-4 rounded-xl border border-white/10 bg-black/25 text-sm">
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="font-mono">
+                            {game.slice(0, 6)}...{game.slice(-4)}
+                          </span>
+                          <span className="text-xs muted">
+                            {config === undefined ? "..." : config.authorized ? "✅ authorized" : "❌ not authorized"}
+                          </span>
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                          <div>
+                            <div className="text-xs muted mb-1">Allocation used</div>
+                            <div className="font-mono">
+                              {config && usage
+                                ? `${formatEther(usage[0])} / ${formatEther(config.allocation)} ETH`
+                                : "Loading..."}
+                            </div>
+                          </div>
+                          <div>
+                            <div className="text-xs muted mb-1">Open liability</div>
+                            <div className="font-mono">
+                              {config
+                                ? `${formatEther(config.liability)} / ${formatEther(config.maxLiability)} ETH`
+                                : "Loading..."}
+                            </div>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                  <div className="text-xs muted">
+                    Total reserved across games:{" "}
+                    <span className="font-mono">
+                      {totalLiability !== undefined ? `${formatEther(totalLiability)} ETH` : "..."}
+                    </span>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="mt-6 glass-card p-6">
+              <h3 className="text-xl font-bold mb-2">⏳ Timelocked Treasury Operations</h3>
+              <p className="muted text-sm mb-4">
+                Game changes, limits and withdrawals are queued and executable after the{" "}
+                {timelockDelay === undefined
+                  ? "..."
+                  : timelockDelay === BigInt(0)
+                    ? "timelock delay (currently disabled)"
+                    : `${Number(timelockDelay) / 3600} hour delay`}
+                . Executing or cancelling needs the role of the queued call; the admin can cancel any operation.
+              </p>
+
+              {!isTreasuryConfigured ? (
+                <div className="p-3 rounded-lg bg-yellow-500/15 border border-yellow-500/25 text-sm">
+                  ⚠️ Set NEXT_PUBLIC_TREASURY_ADDRESS to show queued operations
+                </div>
+              ) : !pendingOperationIds || pendingOperationIds.length === 0 ? (
+                <div className="muted italic text-sm">No pending operations</div>
+              ) : (
+                <div className="space-y-3">
+                  {pendingOperationIds.map((operationId, i) => {
+                    const operation = pendingOperations?.[i]?.result;
+                    // A delay raised after queueing applies to the operation too
+                    const eta = operation
+                      ? Math.max(Number(operation.eta), Number(operation.queuedAt) + Number(timelockDelay ?? BigInt(0)))
+                      : 0;
+                    const isReady = !!operation && Date.now() / 1000 >= eta;
+                    return (
+                      <div
+                        key={operationId.toString()}
+                        className="p-4 rounded-xl border border-white/10 bg-black/25 text-sm"
+                      >
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="font-semibold">#{operationId.toString()}</span>
+                          <span className="text-xs muted">
+                            {!operation
+                              ? "..."
+                              : isReady
+                                ? "✅ ready"
+                                : `executable ${new Date(eta * 1000).toLocaleString()}`}
+                          </span>
+                        </div>
+                        <div className="font-mono break-all mb-3">
+                          {operation ? describeOperation(operation.data) : "Loading..."}
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                          <button
+                            onClick={() => handleOperation("executeOperation", operationId)}
+                            disabled={!canWrite || !isReady}
+                            className="btn btn-primary py-2 disabled:opacity-60 disabled:cursor-not-allowed"
+                          >
+                            Execute
+                          </button>
+                          <button
+                            onClick={() => handleOperation("cancelOperation", operationId)}
+                            disabled={!canWrite}
+                            className="btn py-2 disabled:opacity-60 disabled:cursor-not-allowed"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
             </div>
           </section>
 
@@ -155,7 +1356,7 @@ export default function AdminPanel() {
 
             <div className="glass-card p-5 border border-white/10">
               <div className="flex items-center justify-between mb-3">
-                <div className="font-semibold text-white/90">RequestSent</div>
+                <div className="font-semibold text-white/90">RequestSent / RandomnessFulfilled / GameAuthorized</div>
                 <div className="muted text-xs">{logs.length} entries</div>
               </div>
 
@@ -168,7 +1369,156 @@ export default function AdminPanel() {
               </div>
             </div>
 
-            
+            <div className="mt-6 glass-card p-5 border border-white/10">
+              <div className="flex items-center justify-between mb-3">
+                <div className="font-semibold text-white/90">⏳ Pending Requests</div>
+                <div className="muted text-xs">
+                  {pendingCount?.toString() ?? "..."} waiting for {isCommitReveal ? "a reveal" : "VRF"}
+                </div>
+              </div>
+
+              <div className="max-h-48 overflow-y-auto rounded-xl border border-white/10 bg-black/35 p-4 font-mono text-sm">
+                {!pendingRequests || pendingRequests.length === 0 ? (
+                  <div className="muted italic">No pending requests</div>
+                ) : (
+                  pendingRequests.map((id) => (
+                    <div key={id.toString()} className="py-1 break-all">
+                      {id.toString()}
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <div className="flex items-center justify-between mt-3 text-sm">
+                <button
+                  onClick={() => setPendingPage((p) => Math.max(0, p - 1))}
+                  disabled={pendingPage === 0}
+                  className="btn px-4 py-1 disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  Prev
+                </button>
+                <span className="muted">
+                  Page {pendingPage + 1} / {pendingPageCount}
+                </span>
+                <button
+                  onClick={() => setPendingPage((p) => p + 1)}
+                  disabled={pendingPage + 1 >= pendingPageCount}
+                  className="btn px-4 py-1 disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+
+            {isCommitReveal && (
+              <div className="mt-6 glass-card p-6">
+                <h3 className="text-xl font-bold mb-4">⚙️ Commit-Reveal Parameters</h3>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                  <div className="sm:col-span-2">
+                    <div className="text-xs muted mb-1">Operator (commits seeds, runs the reveal script)</div>
+                    <div className="font-mono break-all">{revealOperator ?? "Loading..."}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs muted mb-1">Reveal Delay</div>
+                    <div className="font-mono">{revealDelay.toString()} blocks</div>
+                  </div>
+                  <div>
+                    <div className="text-xs muted mb-1">Committed Seeds Left</div>
+                    <div className="font-mono">{availableSeeds?.toString() ?? "Loading..."}</div>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {isVrf && (
+              <div className="mt-6 glass-card p-6">
+                <h3 className="text-xl font-bold mb-4">⚙️ VRF Parameters</h3>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6 text-sm">
+                  <div>
+                    <div className="text-xs muted mb-1">Subscription ID</div>
+                    <div className="font-mono break-all">{subscriptionId?.toString() ?? "Loading..."}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs muted mb-1">Payment</div>
+                    <div className="font-mono">
+                      {nativePayment === undefined ? "Loading..." : nativePayment ? "Native (ETH)" : "LINK"}
+                    </div>
+                  </div>
+                  <div className="sm:col-span-2">
+                    <div className="text-xs muted mb-1">Key Hash (gas lane)</div>
+                    <div className="font-mono break-all">{keyHash ?? "Loading..."}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs muted mb-1">Default Callback Gas Limit</div>
+                    <div className="font-mono">{callbackGasLimit?.toString() ?? "Loading..."}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs muted mb-1">Request Confirmations</div>
+                    <div className="font-mono">{requestConfirmations?.toString() ?? "Loading..."}</div>
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex gap-3">
+                    <input
+                      type="text"
+                      value={keyHashInput}
+                      onChange={(e) => setKeyHashInput(e.target.value.trim())}
+                      placeholder="New key hash (0x + 64 hex)"
+                      className="flex-1 px-4 py-2 font-mono text-sm bg-white/10 border border-white/20 rounded-lg"
+                    />
+                    <button
+                      onClick={handleSetKeyHash}
+                      disabled={!canWrite || !isHex(keyHashInput) || keyHashInput.length !== 66}
+                      className="btn px-4 disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                      Set
+                    </button>
+                  </div>
+                  <div className="flex gap-3">
+                    <input
+                      type="number"
+                      value={gasLimitInput}
+                      onChange={(e) => setGasLimitInput(e.target.value)}
+                      placeholder={`Gas limit (${MIN_CALLBACK_GAS_LIMIT}-${MAX_CALLBACK_GAS_LIMIT})`}
+                      className="flex-1 px-4 py-2 font-mono text-sm bg-white/10 border border-white/20 rounded-lg"
+                    />
+                    <button
+                      onClick={handleSetCallbackGasLimit}
+                      disabled={!canWrite || !inRange(gasLimitInput, MIN_CALLBACK_GAS_LIMIT, MAX_CALLBACK_GAS_LIMIT)}
+                      className="btn px-4 disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                      Set
+                    </button>
+                  </div>
+                  <div className="flex gap-3">
+                    <input
+                      type="number"
+                      value={confirmationsInput}
+                      onChange={(e) => setConfirmationsInput(e.target.value)}
+                      placeholder={`Confirmations (${MIN_REQUEST_CONFIRMATIONS}-${MAX_REQUEST_CONFIRMATIONS})`}
+                      className="flex-1 px-4 py-2 font-mono text-sm bg-white/10 border border-white/20 rounded-lg"
+                    />
+                    <button
+                      onClick={handleSetRequestConfirmations}
+                      disabled={!canWrite || !inRange(confirmationsInput, MIN_REQUEST_CONFIRMATIONS, MAX_REQUEST_CONFIRMATIONS)}
+                      className="btn px-4 disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                      Set
+                    </button>
+                  </div>
+                  <button
+                    onClick={handleToggleNativePayment}
+                    disabled={!canWrite || nativePayment === undefined}
+                    className="btn w-full py-3 disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    {nativePayment ? "Switch to LINK payment" : "Switch to native (ETH) payment"}
+                  </button>
+                </div>
+              </div>
+            )}
           </section>
         </div>
       )}
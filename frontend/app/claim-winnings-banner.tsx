@@ -0,0 +1,213 @@
+"use client";
+
+import { useAccount, useReadContract, useWriteContract, useWatchContractEvent } from "wagmi";
+import { formatEther, formatUnits } from "viem";
+
+// Treasury contract address
+// Set NEXT_PUBLIC_TREASURY_ADDRESS in .env.local after running 03-deploy-raffle.ts
+const TREASURY_ADDRESS = (process.env.NEXT_PUBLIC_TREASURY_ADDRESS ??
+  "0x0000000000000000000000000000000000000000") as `0x${string}`;
+
+// ERC-20 accepted for bets (allowlisted in Treasury); MockToken from 00-deploy-mocks.ts locally
+const BET_TOKEN_ADDRESS = (process.env.NEXT_PUBLIC_BET_TOKEN_ADDRESS ??
+  "0x0000000000000000000000000000000000000000") as `0x${string}`;
+
+// Treasury pull-payment ABI (only the functions we need)
+const TREASURY_ABI = [
+  {
+    inputs: [{ name: "", type: "address" }],
+    name: "pendingWithdrawals",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "receiver", type: "address" }],
+    name: "claimPayout",
+    outputs: [{ name: "amount", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "", type: "address" },
+      { name: "", type: "address" },
+    ],
+    name: "pendingTokenWithdrawals",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "receiver", type: "address" },
+    ],
+    name: "claimTokenPayout",
+    outputs: [{ name: "amount", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "account", type: "address" },
+      { indexed: true, name: "receiver", type: "address" },
+      { indexed: false, name: "amount", type: "uint256" },
+    ],
+    name: "PayoutClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "account", type: "address" },
+      { indexed: true, name: "token", type: "address" },
+      { indexed: false, name: "receiver", type: "address" },
+      { indexed: false, name: "amount", type: "uint256" },
+    ],
+    name: "TokenPayoutClaimed",
+    type: "event",
+  },
+] as const;
+
+// ERC-20 ABI (only the functions we need)
+const ERC20_ABI = [
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [{ name: "", type: "uint8" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+/**
+ * Shown on every page while the connected wallet has winnings (ETH or the bet token) that Treasury could not push to it
+ */
+export default function ClaimWinningsBanner() {
+  const { address } = useAccount();
+  const isConfigured = TREASURY_ADDRESS !== "0x0000000000000000000000000000000000000000";
+  const isTokenConfigured = isConfigured && BET_TOKEN_ADDRESS !== "0x0000000000000000000000000000000000000000";
+
+  const { data: pending, refetch: refetchPending } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "pendingWithdrawals",
+    args: address ? [address] : undefined,
+    query: { enabled: isConfigured && !!address, refetchInterval: 5000 },
+  });
+
+  const { data: pendingToken, refetch: refetchPendingToken } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "pendingTokenWithdrawals",
+    args: address ? [BET_TOKEN_ADDRESS, address] : undefined,
+    query: { enabled: isTokenConfigured && !!address, refetchInterval: 5000 },
+  });
+
+  const { data: tokenSymbol } = useReadContract({
+    address: BET_TOKEN_ADDRESS,
+    abi: ERC20_ABI,
+    functionName: "symbol",
+    query: { enabled: isTokenConfigured },
+  });
+
+  const { data: tokenDecimals } = useReadContract({
+    address: BET_TOKEN_ADDRESS,
+    abi: ERC20_ABI,
+    functionName: "decimals",
+    query: { enabled: isTokenConfigured },
+  });
+
+  const { writeContract, isPending } = useWriteContract();
+
+  useWatchContractEvent({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    eventName: "PayoutClaimed",
+    enabled: isConfigured && !!address,
+    onLogs() {
+      refetchPending();
+    },
+  });
+
+  useWatchContractEvent({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    eventName: "TokenPayoutClaimed",
+    enabled: isTokenConfigured && !!address,
+    onLogs() {
+      refetchPendingToken();
+    },
+  });
+
+  const handleClaim = () => {
+    if (!address) return;
+    writeContract({
+      address: TREASURY_ADDRESS,
+      abi: TREASURY_ABI,
+      functionName: "claimPayout",
+      args: [address],
+    });
+  };
+
+  const handleClaimToken = () => {
+    if (!address) return;
+    writeContract({
+      address: TREASURY_ADDRESS,
+      abi: TREASURY_ABI,
+      functionName: "claimTokenPayout",
+      args: [BET_TOKEN_ADDRESS, address],
+    });
+  };
+
+  const hasPending = pending !== undefined && pending > BigInt(0);
+  const hasPendingToken = pendingToken !== undefined && pendingToken > BigInt(0);
+  if (!address || (!hasPending && !hasPendingToken)) return null;
+
+  return (
+    <div className="bg-green-500/20 border-b border-green-500/30 text-white">
+      {hasPending && (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between gap-4">
+          <div className="text-sm">
+            🎉 You have <span className="font-bold">{formatEther(pending)} ETH</span> of winnings that could not be sent
+            to your wallet automatically.
+          </div>
+          <button
+            onClick={handleClaim}
+            disabled={isPending}
+            className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg font-bold text-sm transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isPending ? "Claiming..." : "Claim winnings"}
+          </button>
+        </div>
+      )}
+      {hasPendingToken && (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between gap-4">
+          <div className="text-sm">
+            🎉 You have{" "}
+            <span className="font-bold">
+              {formatUnits(pendingToken, tokenDecimals ?? 18)} {tokenSymbol ?? "tokens"}
+            </span>{" "}
+            of winnings that could not be sent to your wallet automatically.
+          </div>
+          <button
+            onClick={handleClaimToken}
+            disabled={isPending}
+            className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg font-bold text-sm transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isPending ? "Claiming..." : "Claim winnings"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,804 @@
+"use client";
+
+import { useAccount, useConnect, useDisconnect, useReadContract, useWriteContract, useWatchContractEvent, usePublicClient } from "wagmi";
+import { injected } from "wagmi/connectors";
+import { formatEther, formatUnits, parseEther, parseUnits, zeroAddress } from "viem";
+import Link from "next/link";
+import { useState, useEffect } from "react";
+
+// CoinFlip contract address
+// Set NEXT_PUBLIC_COINFLIP_ADDRESS in .env.local after running 05-deploy-coinflip.ts
+const COINFLIP_ADDRESS = (process.env.NEXT_PUBLIC_COINFLIP_ADDRESS ??
+  "0x0000000000000000000000000000000000000000") as `0x${string}`;
+
+// ERC-20 accepted for bets (allowlisted in Treasury); MockToken from 00-deploy-mocks.ts locally
+const BET_TOKEN_ADDRESS = (process.env.NEXT_PUBLIC_BET_TOKEN_ADDRESS ??
+  "0x0000000000000000000000000000000000000000") as `0x${string}`;
+
+// ERC-20 ABI (only the functions we need)
+const ERC20_ABI = [
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [{ name: "", type: "uint8" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+    ],
+    name: "allowance",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    name: "approve",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+// CoinFlip contract ABI (only the functions we need)
+const COINFLIP_ABI = [
+  {
+    inputs: [{ name: "side", type: "uint8" }],
+    name: "placeBet",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "amount", type: "uint256" },
+      { name: "side", type: "uint8" },
+    ],
+    name: "placeTokenBet",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "betId", type: "uint256" }],
+    name: "getBet",
+    outputs: [
+      {
+        components: [
+          { name: "betId", type: "uint256" },
+          { name: "status", type: "uint8" },
+          { name: "player", type: "address" },
+          { name: "amount", type: "uint256" },
+          { name: "choice", type: "uint8" },
+          { name: "result", type: "uint8" },
+          { name: "payout", type: "uint256" },
+          { name: "timestamp", type: "uint64" },
+          { name: "token", type: "address" },
+        ],
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "player", type: "address" }],
+    name: "getPlayerBets",
+    outputs: [{ name: "", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getMinBet",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getMaxBet",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getRefundTimeout",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "betId", type: "uint256" }],
+    name: "claimRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "betAmount", type: "uint256" }],
+    name: "calculatePayout",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "betId", type: "uint256" },
+      { indexed: true, name: "player", type: "address" },
+      { indexed: false, name: "amount", type: "uint256" },
+      { indexed: false, name: "choice", type: "uint8" },
+      { indexed: false, name: "timestamp", type: "uint64" },
+    ],
+    name: "BetPlaced",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "betId", type: "uint256" },
+      { indexed: true, name: "player", type: "address" },
+      { indexed: false, name: "result", type: "uint8" },
+      { indexed: false, name: "won", type: "bool" },
+      { indexed: false, name: "payout", type: "uint256" },
+    ],
+    name: "BetSettled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "betId", type: "uint256" },
+      { indexed: true, name: "player", type: "address" },
+      { indexed: false, name: "amount", type: "uint256" },
+    ],
+    name: "BetRefunded",
+    type: "event",
+  },
+] as const;
+
+// Bet status enum
+enum BetStatus {
+  OPEN = 0,
+  CALCULATING = 1,
+  SETTLED = 2,
+  REFUNDED = 3,
+}
+
+const statusText = {
+  [BetStatus.OPEN]: "Open",
+  [BetStatus.CALCULATING]: "Flipping...",
+  [BetStatus.SETTLED]: "Settled",
+  [BetStatus.REFUNDED]: "Refunded",
+};
+
+// Coin side enum (matches CoinFlip.CoinSide)
+enum CoinSide {
+  HEADS = 0,
+  TAILS = 1,
+}
+
+const sideText = {
+  [CoinSide.HEADS]: "👑 Heads",
+  [CoinSide.TAILS]: "🦅 Tails",
+};
+
+type CoinBet = {
+  betId: bigint;
+  status: number;
+  amount: bigint;
+  choice: number;
+  result: number;
+  payout: bigint;
+  timestamp: bigint;
+  token: string;
+};
+
+export default function CoinFlipPage() {
+  const { address, isConnected } = useAccount();
+  const { connect } = useConnect();
+  const { disconnect } = useDisconnect();
+  const publicClient = usePublicClient();
+
+  const [selectedSide, setSelectedSide] = useState<CoinSide>(CoinSide.HEADS);
+  const [betAmount, setBetAmount] = useState<string>("0.01");
+  const [useToken, setUseToken] = useState<boolean>(false);
+  const [playerBets, setPlayerBets] = useState<CoinBet[]>([]);
+  const [latestBet, setLatestBet] = useState<CoinBet | null>(null);
+  const [now, setNow] = useState<number>(() => Math.floor(Date.now() / 1000));
+
+  // Tick the clock so stale bets become refundable without a reload
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 10000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Read min and max bet
+  const { data: minBet } = useReadContract({
+    address: COINFLIP_ADDRESS,
+    abi: COINFLIP_ABI,
+    functionName: "getMinBet",
+  });
+
+  const { data: maxBet } = useReadContract({
+    address: COINFLIP_ADDRESS,
+    abi: COINFLIP_ABI,
+    functionName: "getMaxBet",
+  });
+
+  const { data: refundTimeout } = useReadContract({
+    address: COINFLIP_ADDRESS,
+    abi: COINFLIP_ABI,
+    functionName: "getRefundTimeout",
+  });
+
+  // Bet token details and the player's allowance for CoinFlip
+  const isTokenConfigured = BET_TOKEN_ADDRESS !== zeroAddress;
+
+  const { data: tokenSymbol } = useReadContract({
+    address: BET_TOKEN_ADDRESS,
+    abi: ERC20_ABI,
+    functionName: "symbol",
+    query: { enabled: isTokenConfigured },
+  });
+
+  const { data: tokenDecimals } = useReadContract({
+    address: BET_TOKEN_ADDRESS,
+    abi: ERC20_ABI,
+    functionName: "decimals",
+    query: { enabled: isTokenConfigured },
+  });
+
+  const { data: tokenAllowance } = useReadContract({
+    address: BET_TOKEN_ADDRESS,
+    abi: ERC20_ABI,
+    functionName: "allowance",
+    args: address ? [address, COINFLIP_ADDRESS] : undefined,
+    query: { enabled: isTokenConfigured && !!address, refetchInterval: 5000 },
+  });
+
+  const currency = useToken ? (tokenSymbol ?? "tokens") : "ETH";
+  const parseAmount = (value: string) => (useToken ? parseUnits(value, tokenDecimals ?? 18) : parseEther(value));
+  // Amounts of past bets are in the bet's own currency
+  const formatBetAmount = (amount: bigint, token: string) =>
+    token === zeroAddress
+      ? `${formatEther(amount)} ETH`
+      : `${formatUnits(amount, tokenDecimals ?? 18)} ${tokenSymbol ?? "tokens"}`;
+
+  // Read player's bets
+  const { data: betIds, refetch: refetchBetIds } = useReadContract({
+    address: COINFLIP_ADDRESS,
+    abi: COINFLIP_ABI,
+    functionName: "getPlayerBets",
+    args: address ? [address] : undefined,
+  });
+
+  // Calculate expected payout
+  const { data: expectedPayout } = useReadContract({
+    address: COINFLIP_ADDRESS,
+    abi: COINFLIP_ABI,
+    functionName: "calculatePayout",
+    args: betAmount ? [parseAmount(betAmount)] : undefined,
+    query: { enabled: !!betAmount },
+  });
+
+  // Place bet
+  const { writeContract: placeBet, isPending: isPlacingBet } = useWriteContract();
+
+  // Approve CoinFlip to pull the token stake
+  const { writeContract: approveToken, isPending: isApproving } = useWriteContract();
+
+  // Claim refund for bets whose VRF callback never arrived
+  const { writeContract: claimRefund, isPending: isClaimingRefund } = useWriteContract();
+
+  // Fetch bet details (using publicClient instead of useReadContract hook)
+  const fetchBetDetails = async (betId: bigint) => {
+    if (!publicClient) return;
+
+    try {
+      const data = await publicClient.readContract({
+        address: COINFLIP_ADDRESS,
+        abi: COINFLIP_ABI,
+        functionName: "getBet",
+        args: [betId],
+      });
+      if (data) {
+        setLatestBet(data);
+      }
+    } catch (error) {
+      console.error("Error fetching bet:", error);
+    }
+  };
+
+  // Watch for BetPlaced events
+  useWatchContractEvent({
+    address: COINFLIP_ADDRESS,
+    abi: COINFLIP_ABI,
+    eventName: "BetPlaced",
+    onLogs() {
+      refetchBetIds();
+    },
+  });
+
+  // Watch for BetSettled / BetRefunded events for this player
+  useWatchContractEvent({
+    address: COINFLIP_ADDRESS,
+    abi: COINFLIP_ABI,
+    eventName: "BetSettled",
+    onLogs(logs) {
+      logs.forEach((log) => {
+        if (log.args.player?.toLowerCase() === address?.toLowerCase() && log.args.betId !== undefined) {
+          fetchBetDetails(log.args.betId);
+        }
+      });
+      refetchBetIds();
+    },
+  });
+
+  useWatchContractEvent({
+    address: COINFLIP_ADDRESS,
+    abi: COINFLIP_ABI,
+    eventName: "BetRefunded",
+    onLogs(logs) {
+      logs.forEach((log) => {
+        if (log.args.player?.toLowerCase() === address?.toLowerCase() && log.args.betId !== undefined) {
+          fetchBetDetails(log.args.betId);
+        }
+      });
+      refetchBetIds();
+    },
+  });
+
+  // Load all player bets when betIds change
+  useEffect(() => {
+    const loadPlayerBets = async () => {
+      if (!publicClient || !betIds || betIds.length === 0) {
+        setPlayerBets([]);
+        return;
+      }
+
+      try {
+        const bets = await Promise.all(
+          betIds.map((betId: bigint) =>
+            publicClient.readContract({
+              address: COINFLIP_ADDRESS,
+              abi: COINFLIP_ABI,
+              functionName: "getBet",
+              args: [betId],
+            })
+          )
+        );
+        if (bets.length > 0) {
+          setLatestBet(bets[bets.length - 1]);
+        }
+        setPlayerBets(bets.reverse()); // Show newest first
+      } catch (error) {
+        console.error("Error loading player bets:", error);
+      }
+    };
+
+    loadPlayerBets();
+  }, [betIds, publicClient]);
+
+  const handlePlaceBet = () => {
+    if (!isConnected) {
+      alert("Please connect your wallet first");
+      return;
+    }
+
+    if (useToken) {
+      const amount = parseAmount(betAmount);
+      if (amount === BigInt(0)) {
+        alert("Please enter a bet amount");
+        return;
+      }
+      // Approve-then-bet: the first click approves, the next one places the bet
+      if (tokenAllowance === undefined || tokenAllowance < amount) {
+        approveToken({
+          address: BET_TOKEN_ADDRESS,
+          abi: ERC20_ABI,
+          functionName: "approve",
+          args: [COINFLIP_ADDRESS, amount],
+        });
+        return;
+      }
+      placeBet({
+        address: COINFLIP_ADDRESS,
+        abi: COINFLIP_ABI,
+        functionName: "placeTokenBet",
+        args: [BET_TOKEN_ADDRESS, amount, selectedSide],
+      });
+      return;
+    }
+
+    const amount = parseEther(betAmount);
+    if (minBet && amount < minBet) {
+      alert(`Bet amount must be at least ${formatEther(minBet)} ETH`);
+      return;
+    }
+    if (maxBet && amount > maxBet) {
+      alert(`Bet amount must be at most ${formatEther(maxBet)} ETH`);
+      return;
+    }
+
+    placeBet({
+      address: COINFLIP_ADDRESS,
+      abi: COINFLIP_ABI,
+      functionName: "placeBet",
+      args: [selectedSide],
+      value: amount,
+    });
+  };
+
+  // A bet is stale once it has been flipping for longer than the refund timeout
+  const isStaleBet = (bet: { status: number; timestamp: bigint }) =>
+    bet.status === BetStatus.CALCULATING &&
+    refundTimeout !== undefined &&
+    now >= Number(bet.timestamp) + Number(refundTimeout);
+
+  const handleClaimRefund = (betId: bigint) => {
+    claimRefund({
+      address: COINFLIP_ADDRESS,
+      abi: COINFLIP_ABI,
+      functionName: "claimRefund",
+      args: [betId],
+    });
+  };
+
+  const needsApproval =
+    useToken && !!betAmount && (tokenAllowance === undefined || tokenAllowance < parseAmount(betAmount));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 text-white">
+      {/* Header */}
+      <header className="border-b border-white/10 backdrop-blur-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex justify-between items-center">
+            <div className="app-title">
+              🪙 CoinFlip
+              <span className="muted text-lg font-medium">Game</span>
+            </div>
+            <div>
+              {isConnected ? (
+                <div className="flex items-center space-x-4">
+                  <Link href="/" className="btn">
+                    ← Back
+                  </Link>
+                  <span className="text-sm">
+                    {address?.slice(0, 6)}...{address?.slice(-4)}
+                  </span>
+                  <button
+                    onClick={() => disconnect()}
+                    className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg text-sm font-medium transition"
+                  >
+                    Disconnect
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => connect({ connector: injected() })}
+                  className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg text-sm font-medium transition"
+                >
+                  Connect Wallet
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Place Bet Section */}
+          <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20">
+            <h2 className="text-2xl font-bold mb-6">🪙 Flip the Coin</h2>
+
+            {/* Side Selection */}
+            <div className="mb-6">
+              <label className="block text-sm font-medium mb-3">
+                Call it:
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                {[CoinSide.HEADS, CoinSide.TAILS].map((side) => (
+                  <button
+                    key={side}
+                    onClick={() => setSelectedSide(side)}
+                    className={`
+                      py-6 rounded-xl text-2xl font-bold transition
+                      ${selectedSide === side
+                        ? "bg-purple-600 ring-4 ring-purple-400"
+                        : "bg-white/20 hover:bg-white/30"
+                      }
+                    `}
+                  >
+                    {sideText[side]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Bet Currency */}
+            {isTokenConfigured && (
+              <div className="mb-6">
+                <label className="block text-sm font-medium mb-3">
+                  Bet with:
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {[
+                    { token: false, label: "ETH" },
+                    { token: true, label: tokenSymbol ?? "Token" },
+                  ].map(({ token, label }) => (
+                    <button
+                      key={label}
+                      onClick={() => setUseToken(token)}
+                      className={`
+                        py-2 rounded-lg text-sm font-bold transition
+                        ${useToken === token
+                          ? "bg-purple-600 ring-2 ring-purple-400"
+                          : "bg-white/20 hover:bg-white/30"
+                        }
+                      `}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Bet Amount */}
+            <div className="mb-6">
+              <label className="block text-sm font-medium mb-2">
+                Bet Amount ({currency}):
+              </label>
+              <input
+                type="number"
+                value={betAmount}
+                onChange={(e) => setBetAmount(e.target.value)}
+                step="0.001"
+                min={minBet ? formatEther(minBet) : "0.001"}
+                max={maxBet ? formatEther(maxBet) : "1"}
+                className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                placeholder="0.01"
+              />
+              <div className="mt-2 text-xs text-gray-300">
+                {useToken
+                  ? `Token bets are limited by the Treasury's ${currency} payout cap`
+                  : `Min: ${minBet ? formatEther(minBet) : "..."} ETH | Max: ${maxBet ? formatEther(maxBet) : "..."} ETH`}
+              </div>
+            </div>
+
+            {/* Expected Payout */}
+            {expectedPayout && (
+              <div className="mb-6 p-4 bg-green-500/20 border border-green-500/30 rounded-lg">
+                <div className="text-sm text-gray-300">Expected payout if you win:</div>
+                <div className="text-2xl font-bold text-green-400">
+                  {useToken ? formatUnits(expectedPayout, tokenDecimals ?? 18) : formatEther(expectedPayout)} {currency}
+                </div>
+                <div className="text-xs text-gray-400 mt-1">
+                  (1.96x: 2x multiplier with 2% house edge, win chance 1/2)
+                </div>
+              </div>
+            )}
+
+            {/* Place Bet Button */}
+            <button
+              onClick={handlePlaceBet}
+              disabled={!isConnected || isPlacingBet || isApproving}
+              className="w-full py-4 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 rounded-lg font-bold text-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isApproving
+                ? "Approving..."
+                : needsApproval
+                  ? `Approve ${currency}`
+                  : isPlacingBet
+                    ? "Placing Bet..."
+                    : "🪙 Flip"}
+            </button>
+          </div>
+
+          {/* Latest Bet Result */}
+          <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20">
+            <h2 className="text-2xl font-bold mb-6">📊 Latest Result</h2>
+
+            {latestBet ? (
+              <div className="space-y-4">
+                {/* Bet Info */}
+                <div className="p-4 bg-white/5 rounded-lg">
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <div className="text-gray-400">Bet ID</div>
+                      <div className="font-bold">#{latestBet.betId.toString()}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-400">Status</div>
+                      <div className="font-bold">{statusText[latestBet.status as BetStatus]}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-400">Your Call</div>
+                      <div className="font-bold text-2xl">{sideText[latestBet.choice as CoinSide]}</div>
+                    </div>
+                    <div>
+                      <div className="text-gray-400">Bet Amount</div>
+                      <div className="font-bold">{formatBetAmount(latestBet.amount, latestBet.token)}</div>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Result (if settled) */}
+                {latestBet.status === BetStatus.SETTLED && (
+                  <div className={`p-6 rounded-xl text-center ${
+                    latestBet.result === latestBet.choice
+                      ? "bg-green-500/20 border-2 border-green-500"
+                      : "bg-red-500/20 border-2 border-red-500"
+                  }`}>
+                    <div className="text-6xl mb-4">
+                      {latestBet.result === latestBet.choice ? "🎉" : "😢"}
+                    </div>
+                    <div className="text-3xl font-bold mb-2">
+                      Coin landed: {sideText[latestBet.result as CoinSide]}
+                    </div>
+                    <div className="text-xl">
+                      {latestBet.result === latestBet.choice ? (
+                        <>
+                          <div className="text-green-400 font-bold mb-2">YOU WON!</div>
+                          <div className="text-2xl">
+                            +{formatBetAmount(latestBet.payout, latestBet.token)}
+                          </div>
+                        </>
+                      ) : (
+                        <div className="text-red-400 font-bold">You Lost</div>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {/* Waiting for result */}
+                {latestBet.status === BetStatus.CALCULATING && !isStaleBet(latestBet) && (
+                  <div className="p-6 bg-yellow-500/20 border-2 border-yellow-500 rounded-xl text-center">
+                    <div className="text-4xl mb-4 animate-spin">🪙</div>
+                    <div className="text-xl font-bold">Flipping the coin...</div>
+                    <div className="text-sm text-gray-300 mt-2">
+                      Waiting for VRF randomness
+                    </div>
+                  </div>
+                )}
+
+                {/* VRF callback never arrived */}
+                {isStaleBet(latestBet) && (
+                  <div className="p-6 bg-orange-500/20 border-2 border-orange-500 rounded-xl text-center">
+                    <div className="text-4xl mb-4">⏳</div>
+                    <div className="text-xl font-bold">Randomness timed out</div>
+                    <div className="text-sm text-gray-300 mt-2 mb-4">
+                      The VRF callback did not arrive in time. You can reclaim your stake.
+                    </div>
+                    <button
+                      onClick={() => handleClaimRefund(latestBet.betId)}
+                      disabled={!isConnected || isClaimingRefund}
+                      className="px-6 py-3 bg-orange-600 hover:bg-orange-700 rounded-lg font-bold transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isClaimingRefund ? "Claiming..." : `Claim refund (${formatBetAmount(latestBet.amount, latestBet.token)})`}
+                    </button>
+                  </div>
+                )}
+
+                {/* Refunded */}
+                {latestBet.status === BetStatus.REFUNDED && (
+                  <div className="p-6 bg-blue-500/20 border-2 border-blue-500 rounded-xl text-center">
+                    <div className="text-4xl mb-4">↩️</div>
+                    <div className="text-xl font-bold">Bet refunded</div>
+                    <div className="text-sm text-gray-300 mt-2">
+                      {formatBetAmount(latestBet.amount, latestBet.token)} returned to your wallet
+                    </div>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="text-center text-gray-400 py-12">
+                <div className="text-4xl mb-4">🪙</div>
+                <div>No bets yet. Call heads or tails to start playing!</div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Bet History */}
+        {playerBets.length > 0 && (
+          <div className="mt-8 bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20">
+            <h2 className="text-2xl font-bold mb-6">📜 Recent Bets</h2>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-white/20">
+                    <th className="px-4 py-2 text-left">ID</th>
+                    <th className="px-4 py-2 text-left">Call</th>
+                    <th className="px-4 py-2 text-left">Amount</th>
+                    <th className="px-4 py-2 text-left">Result</th>
+                    <th className="px-4 py-2 text-left">Status</th>
+                    <th className="px-4 py-2 text-left">Payout</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {playerBets.map((bet) => (
+                    <tr key={bet.betId.toString()} className="border-b border-white/10">
+                      <td className="px-4 py-3">#{bet.betId.toString()}</td>
+                      <td className="px-4 py-3">{sideText[bet.choice as CoinSide]}</td>
+                      <td className="px-4 py-3">{formatBetAmount(bet.amount, bet.token)}</td>
+                      <td className="px-4 py-3">
+                        {bet.status === BetStatus.SETTLED ? (
+                          <span>{sideText[bet.result as CoinSide]}</span>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 rounded text-xs ${
+                          bet.status === BetStatus.SETTLED
+                            ? "bg-green-500/20 text-green-400"
+                            : bet.status === BetStatus.REFUNDED
+                              ? "bg-blue-500/20 text-blue-400"
+                              : "bg-yellow-500/20 text-yellow-400"
+                        }`}>
+                          {statusText[bet.status as BetStatus]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        {bet.status === BetStatus.SETTLED && bet.payout > BigInt(0) ? (
+                          <span className="text-green-400 font-bold">
+                            +{formatBetAmount(bet.payout, bet.token)}
+                          </span>
+                        ) : isStaleBet(bet) ? (
+                          <button
+                            onClick={() => handleClaimRefund(bet.betId)}
+                            disabled={!isConnected || isClaimingRefund}
+                            className="px-3 py-1 bg-orange-600 hover:bg-orange-700 rounded text-xs font-bold transition disabled:opacity-50"
+                          >
+                            Claim refund
+                          </button>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Game Rules */}
+        <div className="mt-8 bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
+          <h3 className="text-xl font-bold mb-4">ℹ️ How to Play</h3>
+          <div className="space-y-2 text-sm text-gray-300">
+            <p>1. Connect your wallet and ensure you have some ETH</p>
+            <p>2. Call heads or tails</p>
+            <p>3. Enter your bet amount (min: {minBet ? formatEther(minBet) : "..."} ETH, max: {maxBet ? formatEther(maxBet) : "..."} ETH)</p>
+            <p>4. Click &quot;Flip&quot; and confirm the transaction (token bets ask for an approval first)</p>
+            <p>5. Wait for the coin to land (using Chainlink VRF for provably fair randomness)</p>
+            <p>6. If your call is right, you win 2x your bet (minus 2% house edge = 1.96x)</p>
+            <p>7. If the randomness never arrives, the bet becomes refundable after {refundTimeout ? `${Number(refundTimeout) / 60} minutes` : "the refund timeout"}</p>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
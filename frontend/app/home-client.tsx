@@ -1,9 +1,9 @@
 "use client";
 
 import Link from "next/link";
-import { useAccount, useConnect, useDisconnect, useBalance } from "wagmi";
+import { useAccount, useConnect, useDisconnect, useBalance, useReadContract, useReadContracts } from "wagmi";
 import { injected } from "wagmi/connectors";
-import { formatUnits, isAddress, type Address } from "viem";
+import { formatEther, formatUnits, isAddress, type Address } from "viem";
 
 const TREASURY_ADDRESS_RAW = (process.env.NEXT_PUBLIC_TREASURY_ADDRESS ??
   "0x0000000000000000000000000000000000000000") as `0x${string}`;
@@ -12,6 +12,44 @@ const TREASURY_ADDRESS: Address | undefined = isAddress(TREASURY_ADDRESS_RAW)
   ? (TREASURY_ADDRESS_RAW as Address)
   : undefined;
 
+// Names for the games the frontend knows about; other Treasury games are shown by address
+const GAME_NAMES: Record<string, string> = Object.fromEntries(
+  [
+    [process.env.NEXT_PUBLIC_DICE_ADDRESS, "🎲 DiceGame"],
+    [process.env.NEXT_PUBLIC_COINFLIP_ADDRESS, "🪙 CoinFlip"],
+    [process.env.NEXT_PUBLIC_ROULETTE_ADDRESS, "🎡 Roulette"],
+    [process.env.NEXT_PUBLIC_RAFFLE_ADDRESS, "🎟️ Raffle"],
+  ]
+    .filter(([gameAddress]) => !!gameAddress)
+    .map(([gameAddress, name]) => [String(gameAddress).toLowerCase(), String(name)])
+);
+
+// Treasury ABI (only the functions we need)
+const TREASURY_ABI = [
+  {
+    inputs: [],
+    name: "getGames",
+    outputs: [{ name: "", type: "address[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "game", type: "address" }],
+    name: "getGameProfitAndLoss",
+    outputs: [
+      { name: "totalIn", type: "uint256" },
+      { name: "totalOut", type: "uint256" },
+      { name: "net", type: "int256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+// Signed ETH amount, e.g. "+0.1 ETH" / "-0.25 ETH"
+const formatNet = (net: bigint) =>
+  `${net > BigInt(0) ? "+" : net < BigInt(0) ? "-" : ""}${formatEther(net < BigInt(0) ? -net : net)} ETH`;
+
 export default function HomeClient() {
   const { address, isConnected } = useAccount();
   const { connect, isPending } = useConnect();
@@ -22,6 +60,28 @@ export default function HomeClient() {
     query: { enabled: isConnected && !!TREASURY_ADDRESS },
   });
 
+  // Per-game P&L from the house's point of view (stakes and pools in, payouts and refunds out)
+  const { data: treasuryGames } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "getGames",
+    query: { enabled: !!TREASURY_ADDRESS, refetchInterval: 5000 },
+  });
+
+  const { data: gameProfitAndLoss } = useReadContracts({
+    contracts: (treasuryGames ?? []).map(
+      (game) =>
+        ({ address: TREASURY_ADDRESS, abi: TREASURY_ABI, functionName: "getGameProfitAndLoss", args: [game] }) as const
+    ),
+    query: { enabled: !!treasuryGames && treasuryGames.length > 0, refetchInterval: 5000 },
+  });
+
+  const gameRows = (treasuryGames ?? []).map((game, i) => ({
+    game,
+    pnl: gameProfitAndLoss?.[i]?.result as readonly [bigint, bigint, bigint] | undefined,
+  }));
+  const totalNet = gameRows.reduce((sum, { pnl }) => sum + (pnl ? pnl[2] : BigInt(0)), BigInt(0));
+
   return (
     <main className="container-app">
       {/* Top bar */}
@@ -80,6 +140,15 @@ export default function HomeClient() {
               <Link href="/DiceGame" className="btn w-full py-4 text-base">
                 Go to DiceGame
               </Link>
+              <Link href="/coinflip" className="btn w-full py-4 text-base">
+                Go to CoinFlip
+              </Link>
+              <Link href="/roulette" className="btn w-full py-4 text-base">
+                Go to Roulette
+              </Link>
+              <Link href="/lp" className="btn w-full py-4 text-base">
+                Provide Liquidity
+              </Link>
             </div>
 
             
@@ -119,6 +188,61 @@ export default function HomeClient() {
             </div>
           </div>
 
+          <div className="glass-card p-5 mt-6">
+            <div className="text-xs muted mb-3">Profit &amp; Loss by Game (house view, ETH)</div>
+
+            {!TREASURY_ADDRESS ? (
+              <div className="muted text-sm">TBD</div>
+            ) : gameRows.length === 0 ? (
+              <div className="muted text-sm">No games configured in Treasury</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs muted">
+                    <th className="pb-2 font-medium">Game</th>
+                    <th className="pb-2 font-medium text-right">In</th>
+                    <th className="pb-2 font-medium text-right">Out</th>
+                    <th className="pb-2 font-medium text-right">Net</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {gameRows.map(({ game, pnl }) => (
+                    <tr key={game} className="border-t border-white/10">
+                      <td className="py-2">
+                        {GAME_NAMES[game.toLowerCase()] ?? (
+                          <span className="font-mono">
+                            {game.slice(0, 6)}...{game.slice(-4)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right font-mono">{pnl ? formatEther(pnl[0]) : "..."}</td>
+                      <td className="py-2 text-right font-mono">{pnl ? formatEther(pnl[1]) : "..."}</td>
+                      <td
+                        className={`py-2 text-right font-mono font-bold ${
+                          pnl && pnl[2] < BigInt(0) ? "text-red-300" : "text-green-300"
+                        }`}
+                      >
+                        {pnl ? formatNet(pnl[2]) : "..."}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="border-t border-white/20">
+                    <td className="pt-2 font-bold" colSpan={3}>
+                      Total
+                    </td>
+                    <td
+                      className={`pt-2 text-right font-mono font-bold ${
+                        totalNet < BigInt(0) ? "text-red-300" : "text-green-300"
+                      }`}
+                    >
+                      {formatNet(totalNet)}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            )}
+          </div>
+
           <div className="mt-6 p-4 rounded-xl bg-blue-500/15 border border-blue-500/25 text-sm text-white/90">
             <strong>🔒 Note:</strong> Game randomness is verifiable on-chain via Chainlink VRF.
             Payouts go through Treasury for transparency.
@@ -0,0 +1,594 @@
+"use client";
+
+import { useAccount, useConnect, useDisconnect, useReadContract, useWriteContract, useWatchContractEvent } from "wagmi";
+import { injected } from "wagmi/connectors";
+import { formatEther, parseEther } from "viem";
+import Link from "next/link";
+import { useState, useEffect } from "react";
+
+// Treasury contract address
+// Set NEXT_PUBLIC_TREASURY_ADDRESS in .env.local after running 03-deploy-raffle.ts
+const TREASURY_ADDRESS = (process.env.NEXT_PUBLIC_TREASURY_ADDRESS ??
+  "0x0000000000000000000000000000000000000000") as `0x${string}`;
+
+// Treasury LP ABI (only the functions we need)
+const TREASURY_ABI = [
+  {
+    inputs: [{ name: "receiver", type: "address" }],
+    name: "depositLiquidity",
+    outputs: [{ name: "shares", type: "uint256" }],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "completeDeposit",
+    outputs: [{ name: "shares", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cancelDeposit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "shares", type: "uint256" }],
+    name: "requestRedeem",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cancelRedeem",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "receiver", type: "address" }],
+    name: "redeem",
+    outputs: [{ name: "assets", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalAssets",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalShares",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalLiability",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "withdrawCooldown",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "shares", type: "uint256" }],
+    name: "convertToAssets",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "provider", type: "address" }],
+    name: "sharesOf",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "provider", type: "address" }],
+    name: "getRedeemRequest",
+    outputs: [
+      {
+        components: [
+          { name: "shares", type: "uint256" },
+          { name: "unlockTime", type: "uint64" },
+        ],
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "provider", type: "address" }],
+    name: "getDepositRequest",
+    outputs: [
+      {
+        components: [
+          { name: "assets", type: "uint256" },
+          { name: "unlockTime", type: "uint64" },
+        ],
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "provider", type: "address" },
+      { indexed: false, name: "assets", type: "uint256" },
+      { indexed: false, name: "unlockTime", type: "uint64" },
+    ],
+    name: "DepositRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "sender", type: "address" },
+      { indexed: true, name: "receiver", type: "address" },
+      { indexed: false, name: "assets", type: "uint256" },
+      { indexed: false, name: "shares", type: "uint256" },
+    ],
+    name: "LiquidityDeposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "provider", type: "address" },
+      { indexed: true, name: "receiver", type: "address" },
+      { indexed: false, name: "assets", type: "uint256" },
+      { indexed: false, name: "shares", type: "uint256" },
+    ],
+    name: "LiquidityRedeemed",
+    type: "event",
+  },
+] as const;
+
+// Share amounts are shown with 18 decimals, like ETH
+const formatShares = (shares: bigint) => Number(formatEther(shares)).toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+export default function LiquidityPage() {
+  const { address, isConnected } = useAccount();
+  const { connect } = useConnect();
+  const { disconnect } = useDisconnect();
+
+  const [depositAmount, setDepositAmount] = useState<string>("0.1");
+  const [redeemShares, setRedeemShares] = useState<string>("");
+  const [now, setNow] = useState<number>(() => Math.floor(Date.now() / 1000));
+
+  // Tick the clock so the complete and redeem buttons unlock without a reload
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 10000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Pool state
+  const { data: totalAssets, refetch: refetchTotalAssets } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "totalAssets",
+    query: { refetchInterval: 5000 },
+  });
+
+  const { data: totalShares, refetch: refetchTotalShares } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "totalShares",
+    query: { refetchInterval: 5000 },
+  });
+
+  const { data: totalLiability } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "totalLiability",
+    query: { refetchInterval: 5000 },
+  });
+
+  const { data: withdrawCooldown } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "withdrawCooldown",
+  });
+
+  // Value of one whole share
+  const { data: sharePrice } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "convertToAssets",
+    args: [parseEther("1")],
+    query: { refetchInterval: 5000 },
+  });
+
+  // Connected LP's position
+  const { data: myShares, refetch: refetchMyShares } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "sharesOf",
+    args: address ? [address] : undefined,
+    query: { enabled: !!address, refetchInterval: 5000 },
+  });
+
+  const { data: redeemRequest, refetch: refetchRedeemRequest } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "getRedeemRequest",
+    args: address ? [address] : undefined,
+    query: { enabled: !!address, refetchInterval: 5000 },
+  });
+
+  const { data: depositRequest, refetch: refetchDepositRequest } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "getDepositRequest",
+    args: address ? [address] : undefined,
+    query: { enabled: !!address, refetchInterval: 5000 },
+  });
+
+  const { data: myValue } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "convertToAssets",
+    args: myShares !== undefined ? [myShares] : undefined,
+    query: { enabled: myShares !== undefined, refetchInterval: 5000 },
+  });
+
+  const { data: requestValue } = useReadContract({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    functionName: "convertToAssets",
+    args: redeemRequest ? [redeemRequest.shares] : undefined,
+    query: { enabled: !!redeemRequest && redeemRequest.shares > BigInt(0), refetchInterval: 5000 },
+  });
+
+  const { writeContract, isPending } = useWriteContract();
+
+  const refetchPosition = () => {
+    refetchTotalAssets();
+    refetchTotalShares();
+    refetchMyShares();
+    refetchRedeemRequest();
+    refetchDepositRequest();
+  };
+
+  useWatchContractEvent({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    eventName: "LiquidityDeposited",
+    onLogs() {
+      refetchPosition();
+    },
+  });
+
+  useWatchContractEvent({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    eventName: "DepositRequested",
+    onLogs() {
+      refetchPosition();
+    },
+  });
+
+  useWatchContractEvent({
+    address: TREASURY_ADDRESS,
+    abi: TREASURY_ABI,
+    eventName: "LiquidityRedeemed",
+    onLogs() {
+      refetchPosition();
+    },
+  });
+
+  const handleDeposit = () => {
+    if (!isConnected || !address) {
+      alert("Please connect your wallet first");
+      return;
+    }
+    writeContract({
+      address: TREASURY_ADDRESS,
+      abi: TREASURY_ABI,
+      functionName: "depositLiquidity",
+      args: [address],
+      value: parseEther(depositAmount),
+    });
+  };
+
+  const handleCompleteDeposit = () => {
+    writeContract({
+      address: TREASURY_ADDRESS,
+      abi: TREASURY_ABI,
+      functionName: "completeDeposit",
+    });
+  };
+
+  const handleCancelDeposit = () => {
+    writeContract({
+      address: TREASURY_ADDRESS,
+      abi: TREASURY_ABI,
+      functionName: "cancelDeposit",
+    });
+  };
+
+  const handleRequestRedeem = () => {
+    if (!redeemShares) return;
+    const shares = parseEther(redeemShares);
+    if (myShares !== undefined && shares > myShares) {
+      alert("You do not have that many shares");
+      return;
+    }
+    writeContract({
+      address: TREASURY_ADDRESS,
+      abi: TREASURY_ABI,
+      functionName: "requestRedeem",
+      args: [shares],
+    });
+  };
+
+  const handleRedeem = () => {
+    if (!address) return;
+    writeContract({
+      address: TREASURY_ADDRESS,
+      abi: TREASURY_ABI,
+      functionName: "redeem",
+      args: [address],
+    });
+  };
+
+  const handleCancelRedeem = () => {
+    writeContract({
+      address: TREASURY_ADDRESS,
+      abi: TREASURY_ABI,
+      functionName: "cancelRedeem",
+    });
+  };
+
+  const hasRequest = !!redeemRequest && redeemRequest.shares > BigInt(0);
+  const unlockTime = hasRequest ? Number(redeemRequest.unlockTime) : 0;
+  const isUnlocked = hasRequest && now >= unlockTime;
+
+  const hasDeposit = !!depositRequest && depositRequest.assets > BigInt(0);
+  const depositUnlockTime = hasDeposit ? Number(depositRequest.unlockTime) : 0;
+  const isDepositUnlocked = hasDeposit && now >= depositUnlockTime;
+
+  const isConfigured = TREASURY_ADDRESS !== "0x0000000000000000000000000000000000000000";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 text-white">
+      {/* Header */}
+      <header className="border-b border-white/10 backdrop-blur-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex justify-between items-center">
+            <div className="app-title">
+              💧 Liquidity
+              <span className="muted text-lg font-medium">Bankroll the House</span>
+            </div>
+            <div>
+              {isConnected ? (
+                <div className="flex items-center space-x-4">
+                  <Link href="/" className="btn">
+                    ← Back
+                  </Link>
+                  <span className="text-sm">
+                    {address?.slice(0, 6)}...{address?.slice(-4)}
+                  </span>
+                  <button
+                    onClick={() => disconnect()}
+                    className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg text-sm font-medium transition"
+                  >
+                    Disconnect
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => connect({ connector: injected() })}
+                  className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg text-sm font-medium transition"
+                >
+                  Connect Wallet
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!isConfigured ? (
+          <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20">
+            <h2 className="text-xl font-bold mb-2">⚠️ Treasury Not Configured</h2>
+            <p className="text-gray-300">Please set NEXT_PUBLIC_TREASURY_ADDRESS in .env.local.</p>
+          </div>
+        ) : (
+          <>
+            {/* Pool Stats */}
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+              <div className="bg-white/10 backdrop-blur-md rounded-2xl p-5 border border-white/20">
+                <div className="text-sm text-gray-400">Pool Assets</div>
+                <div className="text-2xl font-bold">{totalAssets !== undefined ? formatEther(totalAssets) : "..."} ETH</div>
+              </div>
+              <div className="bg-white/10 backdrop-blur-md rounded-2xl p-5 border border-white/20">
+                <div className="text-sm text-gray-400">Reserved for Open Bets</div>
+                <div className="text-2xl font-bold">{totalLiability !== undefined ? formatEther(totalLiability) : "..."} ETH</div>
+              </div>
+              <div className="bg-white/10 backdrop-blur-md rounded-2xl p-5 border border-white/20">
+                <div className="text-sm text-gray-400">Total Shares</div>
+                <div className="text-2xl font-bold">{totalShares !== undefined ? formatShares(totalShares) : "..."}</div>
+              </div>
+              <div className="bg-white/10 backdrop-blur-md rounded-2xl p-5 border border-white/20">
+                <div className="text-sm text-gray-400">Share Price</div>
+                <div className="text-2xl font-bold">{sharePrice !== undefined ? formatEther(sharePrice) : "..."} ETH</div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              {/* Deposit */}
+              <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20">
+                <h2 className="text-2xl font-bold mb-6">➕ Provide Liquidity</h2>
+
+                <label className="block text-sm font-medium mb-2">Amount (ETH):</label>
+                <input
+                  type="number"
+                  value={depositAmount}
+                  onChange={(e) => setDepositAmount(e.target.value)}
+                  step="0.01"
+                  min="0"
+                  className="w-full px-4 py-3 mb-6 bg-white/10 border border-white/20 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  placeholder="0.1"
+                />
+
+                <button
+                  onClick={handleDeposit}
+                  disabled={!isConnected || isPending || !depositAmount || Number(depositAmount) <= 0}
+                  className="w-full py-4 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 rounded-lg font-bold text-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isPending ? "Sending..." : "Deposit"}
+                </button>
+
+                {hasDeposit && (
+                  <div className="mt-6 p-4 bg-yellow-500/20 border border-yellow-500/30 rounded-lg text-sm">
+                    <div className="font-bold mb-1">Pending deposit of {formatEther(depositRequest.assets)} ETH</div>
+                    <div className="text-gray-300 mb-4">
+                      {isDepositUnlocked
+                        ? "Cooldown over: you can mint your shares now."
+                        : `Unlocks ${new Date(depositUnlockTime * 1000).toLocaleString()}`}
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <button
+                        onClick={handleCompleteDeposit}
+                        disabled={!isDepositUnlocked || isPending}
+                        className="py-2 bg-green-600 hover:bg-green-700 rounded-lg font-bold transition disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Mint Shares
+                      </button>
+                      <button
+                        onClick={handleCancelDeposit}
+                        disabled={isPending}
+                        className="py-2 bg-white/20 hover:bg-white/30 rounded-lg font-bold transition disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Position + Withdraw */}
+              <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20">
+                <h2 className="text-2xl font-bold mb-6">📊 Your Position</h2>
+
+                {!isConnected ? (
+                  <div className="text-center text-gray-400 py-12">Connect your wallet to see your shares.</div>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="p-4 bg-white/5 rounded-lg grid grid-cols-2 gap-4 text-sm">
+                      <div>
+                        <div className="text-gray-400">Shares</div>
+                        <div className="font-bold">{myShares !== undefined ? formatShares(myShares) : "..."}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-400">Current Value</div>
+                        <div className="font-bold">{myValue !== undefined ? formatEther(myValue) : "..."} ETH</div>
+                      </div>
+                    </div>
+
+                    {hasRequest ? (
+                      <div className="p-4 bg-yellow-500/20 border border-yellow-500/30 rounded-lg text-sm">
+                        <div className="font-bold mb-1">
+                          Redeeming {formatShares(redeemRequest.shares)} shares (
+                          {requestValue !== undefined ? formatEther(requestValue) : "..."} ETH at today&apos;s price)
+                        </div>
+                        <div className="text-gray-300 mb-4">
+                          {isUnlocked
+                            ? "Cooldown over: you can redeem now."
+                            : `Unlocks ${new Date(unlockTime * 1000).toLocaleString()}`}
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                          <button
+                            onClick={handleRedeem}
+                            disabled={!isUnlocked || isPending}
+                            className="py-2 bg-green-600 hover:bg-green-700 rounded-lg font-bold transition disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Redeem
+                          </button>
+                          <button
+                            onClick={handleCancelRedeem}
+                            disabled={isPending}
+                            className="py-2 bg-white/20 hover:bg-white/30 rounded-lg font-bold transition disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div>
+                        <label className="block text-sm font-medium mb-2">Shares to redeem:</label>
+                        <div className="flex gap-3">
+                          <input
+                            type="number"
+                            value={redeemShares}
+                            onChange={(e) => setRedeemShares(e.target.value)}
+                            min="0"
+                            className="flex-1 px-4 py-3 bg-white/10 border border-white/20 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                            placeholder="0.0"
+                          />
+                          <button
+                            onClick={() => myShares !== undefined && setRedeemShares(formatEther(myShares))}
+                            className="px-4 bg-white/20 hover:bg-white/30 rounded-lg text-sm font-medium transition"
+                          >
+                            Max
+                          </button>
+                        </div>
+                        <button
+                          onClick={handleRequestRedeem}
+                          disabled={isPending || !redeemShares || Number(redeemShares) <= 0}
+                          className="w-full mt-4 py-3 bg-orange-600 hover:bg-orange-700 rounded-lg font-bold transition disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Request Withdrawal
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* How it works */}
+            <div className="mt-8 bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
+              <h3 className="text-xl font-bold mb-4">ℹ️ How It Works</h3>
+              <div className="space-y-2 text-sm text-gray-300">
+                <p>
+                  1. Deposit ETH into the Treasury; once the pool has LPs the deposit waits out the same cooldown as
+                  withdrawals, then mints shares of the house bankroll at the share price at that time
+                </p>
+                <p>2. Share value follows house P&amp;L: lost stakes and raffle rake raise it, player wins lower it</p>
+                <p>3. Payouts reserved for open bets are excluded from pool assets until those bets settle</p>
+                <p>
+                  4. Withdrawals are requested first and can be redeemed after a{" "}
+                  {withdrawCooldown !== undefined ? `${Number(withdrawCooldown) / 3600} hour` : "..."} cooldown, at the
+                  share price at redemption time
+                </p>
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
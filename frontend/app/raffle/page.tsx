@@ -5,12 +5,13 @@ import {
   useConnect,
   useDisconnect,
   useReadContract,
+  useReadContracts,
   useWriteContract,
   useWatchContractEvent,
   usePublicClient,
 } from "wagmi";
 import { injected } from "wagmi/connectors";
-import { formatEther } from "viem";
+import { formatUnits, zeroAddress } from "viem";
 import Link from "next/link";
 import { useState, useEffect } from "react";
 
@@ -18,15 +19,81 @@ import { useState, useEffect } from "react";
 const RAFFLE_ADDRESS = (process.env.NEXT_PUBLIC_RAFFLE_ADDRESS ??
   "0x0000000000000000000000000000000000000000") as `0x${string}`;
 
+// ERC-20 accepted for tickets (allowlisted in Treasury); MockToken from 00-deploy-mocks.ts locally
+const BET_TOKEN_ADDRESS = (process.env.NEXT_PUBLIC_BET_TOKEN_ADDRESS ??
+  "0x0000000000000000000000000000000000000000") as `0x${string}`;
+
+// ERC-20 ABI (only the functions we need)
+const ERC20_ABI = [
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [{ name: "", type: "uint8" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+    ],
+    name: "allowance",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    name: "approve",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
 // Raffle contract ABI (only the functions we need)
 const RAFFLE_ABI = [
   {
-    inputs: [],
+    inputs: [{ name: "tickets", type: "uint256" }],
     name: "enterRaffle",
     outputs: [],
     stateMutability: "payable",
     type: "function",
   },
+  {
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "tickets", type: "uint256" },
+    ],
+    name: "enterRaffleWithToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "token", type: "address" }],
+    name: "getTokenEntranceFee",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "roundId", type: "uint256" }],
+    name: "getRoundToken",
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "getCurrentRound",
@@ -36,7 +103,7 @@ const RAFFLE_ABI = [
       { name: "startTime", type: "uint64" },
       { name: "playerCount", type: "uint256" },
       { name: "prizePool", type: "uint256" },
-      { name: "winner", type: "address" },
+      { name: "totalTickets", type: "uint256" },
     ],
     stateMutability: "view",
     type: "function",
@@ -48,6 +115,18 @@ const RAFFLE_ABI = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "getRaffleConfig",
+    outputs: [
+      { name: "entranceFee", type: "uint256" },
+      { name: "interval", type: "uint256" },
+      { name: "vrfTimeout", type: "uint256" },
+      { name: "rakeBps", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "getInterval",
@@ -55,6 +134,33 @@ const RAFFLE_ABI = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      { name: "roundId", type: "uint256" },
+      { name: "player", type: "address" },
+    ],
+    name: "getPlayerTickets",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getPlayerLimits",
+    outputs: [
+      { name: "minPlayers", type: "uint256" },
+      { name: "maxPlayers", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getPrizeSplits",
+    outputs: [{ name: "", type: "uint16[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "getTimeUntilDraw",
@@ -74,6 +180,7 @@ const RAFFLE_ABI = [
     inputs: [
       { indexed: true, name: "roundId", type: "uint256" },
       { indexed: true, name: "player", type: "address" },
+      { indexed: false, name: "tickets", type: "uint256" },
       { indexed: false, name: "amount", type: "uint256" },
     ],
     name: "RaffleEntered",
@@ -85,20 +192,50 @@ const RAFFLE_ABI = [
       { indexed: true, name: "roundId", type: "uint256" },
       { indexed: true, name: "winner", type: "address" },
       { indexed: false, name: "amount", type: "uint256" },
+      { indexed: false, name: "rank", type: "uint8" },
     ],
     name: "WinnerPicked",
     type: "event",
   },
 ] as const;
 
-const STATE_NAMES = ["OPEN", "CALCULATING", "SETTLED"];
+const STATE_NAMES = ["OPEN", "CALCULATING", "SETTLED", "CANCELLED"];
+
+const PLACE_MEDALS = ["🥇", "🥈", "🥉"];
+
+// Keep enough WinnerPicked events for the last 10 podiums (up to 5 winners each)
+const MAX_WINNER_EVENTS = 50;
+const MAX_PODIUMS = 10;
 
 interface WinnerEvent {
   roundId: string;
   winner: string;
-  amount: string;
+  amount: bigint; // In the round's currency
+  rank: number;
+}
+
+interface RoundPodium {
+  roundId: string;
+  places: WinnerEvent[];
 }
 
+// Group WinnerPicked events (most recent first) into one podium per round
+const toPodiums = (events: WinnerEvent[]): RoundPodium[] => {
+  const podiums: RoundPodium[] = [];
+  for (const e of events) {
+    let podium = podiums.find((p) => p.roundId === e.roundId);
+    if (!podium) {
+      podium = { roundId: e.roundId, places: [] };
+      podiums.push(podium);
+    }
+    podium.places.push(e);
+  }
+  podiums.forEach((p) => p.places.sort((a, b) => a.rank - b.rank));
+  return podiums.slice(0, MAX_PODIUMS);
+};
+
+const placeLabel = (rank: number) => PLACE_MEDALS[rank - 1] ?? `#${rank}`;
+
 export default function RafflePage() {
   const { address, isConnected } = useAccount();
   const { connect, isPending: isConnecting } = useConnect();
@@ -108,7 +245,9 @@ export default function RafflePage() {
 
   const [winners, setWinners] = useState<WinnerEvent[]>([]);
   const [timeLeft, setTimeLeft] = useState<number>(0);
+  const [ticketCount, setTicketCount] = useState<string>("1");
   const [mounted, setMounted] = useState(false);
+  const [useToken, setUseToken] = useState<boolean>(false);
 
   useEffect(() => {
     setMounted(true);
@@ -135,6 +274,7 @@ export default function RafflePage() {
               { indexed: true, name: "roundId", type: "uint256" },
               { indexed: true, name: "winner", type: "address" },
               { indexed: false, name: "amount", type: "uint256" },
+              { indexed: false, name: "rank", type: "uint8" },
             ],
           },
           fromBlock: fromBlock > deploymentBlock ? fromBlock : deploymentBlock,
@@ -144,10 +284,11 @@ export default function RafflePage() {
         const pastWinners = logs.map((log: any) => ({
           roundId: log.args.roundId?.toString() || "0",
           winner: log.args.winner || "",
-          amount: log.args.amount ? formatEther(log.args.amount) : "0",
+          amount: log.args.amount ?? BigInt(0),
+          rank: Number(log.args.rank ?? 1),
         })).reverse(); // Most recent first
 
-        setWinners(pastWinners.slice(0, 10));
+        setWinners(pastWinners.slice(0, MAX_WINNER_EVENTS));
       } catch (error) {
         console.error("Error fetching past winners:", error);
         // Fallback: try with smaller range if error
@@ -162,6 +303,7 @@ export default function RafflePage() {
                 { indexed: true, name: "roundId", type: "uint256" },
                 { indexed: true, name: "winner", type: "address" },
                 { indexed: false, name: "amount", type: "uint256" },
+                { indexed: false, name: "rank", type: "uint8" },
               ],
             },
             fromBlock: currentBlock - BigInt(500),
@@ -171,10 +313,11 @@ export default function RafflePage() {
           const pastWinners = logs.map((log: any) => ({
             roundId: log.args.roundId?.toString() || "0",
             winner: log.args.winner || "",
-            amount: log.args.amount ? formatEther(log.args.amount) : "0",
+            amount: log.args.amount ?? BigInt(0),
+            rank: Number(log.args.rank ?? 1),
           })).reverse();
 
-          setWinners(pastWinners.slice(0, 10));
+          setWinners(pastWinners.slice(0, MAX_WINNER_EVENTS));
         } catch (fallbackError) {
           console.error("Fallback also failed:", fallbackError);
         }
@@ -203,6 +346,69 @@ export default function RafflePage() {
     },
   });
 
+  const isTokenConfigured = BET_TOKEN_ADDRESS !== zeroAddress;
+
+  const { data: tokenEntranceFee } = useReadContract({
+    address: RAFFLE_ADDRESS,
+    abi: RAFFLE_ABI,
+    functionName: "getTokenEntranceFee",
+    args: [BET_TOKEN_ADDRESS],
+    query: {
+      enabled: mounted && isTokenConfigured && RAFFLE_ADDRESS !== "0x0000000000000000000000000000000000000000",
+    },
+  });
+
+  const { data: tokenSymbol } = useReadContract({
+    address: BET_TOKEN_ADDRESS,
+    abi: ERC20_ABI,
+    functionName: "symbol",
+    query: { enabled: mounted && isTokenConfigured },
+  });
+
+  const { data: tokenDecimals } = useReadContract({
+    address: BET_TOKEN_ADDRESS,
+    abi: ERC20_ABI,
+    functionName: "decimals",
+    query: { enabled: mounted && isTokenConfigured },
+  });
+
+  const { data: tokenAllowance } = useReadContract({
+    address: BET_TOKEN_ADDRESS,
+    abi: ERC20_ABI,
+    functionName: "allowance",
+    args: address ? [address, RAFFLE_ADDRESS] : undefined,
+    query: { enabled: mounted && isTokenConfigured && !!address, refetchInterval: 5000 },
+  });
+
+  const { data: raffleConfig } = useReadContract({
+    address: RAFFLE_ADDRESS,
+    abi: RAFFLE_ABI,
+    functionName: "getRaffleConfig",
+    query: {
+      enabled: mounted && RAFFLE_ADDRESS !== "0x0000000000000000000000000000000000000000",
+    },
+  });
+
+  const { data: playerLimits } = useReadContract({
+    address: RAFFLE_ADDRESS,
+    abi: RAFFLE_ABI,
+    functionName: "getPlayerLimits",
+    query: {
+      enabled: mounted && RAFFLE_ADDRESS !== "0x0000000000000000000000000000000000000000",
+      refetchInterval: 5000,
+    },
+  });
+
+  const { data: prizeSplits } = useReadContract({
+    address: RAFFLE_ADDRESS,
+    abi: RAFFLE_ABI,
+    functionName: "getPrizeSplits",
+    query: {
+      enabled: mounted && RAFFLE_ADDRESS !== "0x0000000000000000000000000000000000000000",
+      refetchInterval: 5000,
+    },
+  });
+
   const { data: timeUntilDraw } = useReadContract({
     address: RAFFLE_ADDRESS,
     abi: RAFFLE_ABI,
@@ -221,30 +427,97 @@ export default function RafflePage() {
       const newWinners = logs.map((log: any) => ({
         roundId: log.args.roundId?.toString() || "0",
         winner: log.args.winner || "",
-        amount: log.args.amount ? formatEther(log.args.amount) : "0",
-      }));
-      setWinners((prev) => [...newWinners, ...prev].slice(0, 10));
+        amount: log.args.amount ?? BigInt(0),
+        rank: Number(log.args.rank ?? 1),
+      })).reverse();
+      setWinners((prev) => [...newWinners, ...prev].slice(0, MAX_WINNER_EVENTS));
       refetchRound();
     },
   });
 
+  const currentRoundId = currentRound ? currentRound[0] : undefined;
+
+  const { data: myTickets, refetch: refetchMyTickets } = useReadContract({
+    address: RAFFLE_ADDRESS,
+    abi: RAFFLE_ABI,
+    functionName: "getPlayerTickets",
+    args: currentRoundId !== undefined && address ? [currentRoundId, address] : undefined,
+    query: {
+      enabled:
+        mounted &&
+        !!address &&
+        currentRoundId !== undefined &&
+        RAFFLE_ADDRESS !== "0x0000000000000000000000000000000000000000",
+      refetchInterval: 5000,
+    },
+  });
+
+  // A round's currency is fixed by its first entry (zero address = ETH or no entries yet)
+  const { data: roundToken } = useReadContract({
+    address: RAFFLE_ADDRESS,
+    abi: RAFFLE_ABI,
+    functionName: "getRoundToken",
+    args: currentRoundId !== undefined ? [currentRoundId] : undefined,
+    query: {
+      enabled:
+        mounted && currentRoundId !== undefined && RAFFLE_ADDRESS !== "0x0000000000000000000000000000000000000000",
+      refetchInterval: 5000,
+    },
+  });
+
   useWatchContractEvent({
     address: mounted ? RAFFLE_ADDRESS : undefined,
     abi: RAFFLE_ABI,
     eventName: "RaffleEntered",
     onLogs() {
       refetchRound();
+      refetchMyTickets();
     },
   });
 
+  // Whole tickets only; anything else disables the buy button
+  const tickets = /^[1-9][0-9]*$/.test(ticketCount) ? BigInt(ticketCount) : BigInt(0);
+
+  const canUseToken = isTokenConfigured && !!tokenEntranceFee && tokenEntranceFee > BigInt(0);
+  const hasEntries = !!currentRound && currentRound[5] > BigInt(0);
+  // Once someone has entered, every further ticket must be bought in the round's currency
+  const isTokenRound = hasEntries ? !!roundToken && roundToken !== zeroAddress : useToken && canUseToken;
+  const ticketPrice = isTokenRound ? tokenEntranceFee : entranceFee;
+  const currency = isTokenRound ? (tokenSymbol ?? "tokens") : "ETH";
+  const formatAmount = (amount: bigint, isToken: boolean) =>
+    formatUnits(amount, isToken ? (tokenDecimals ?? 18) : 18);
+  const needsApproval =
+    isTokenRound && !!ticketPrice && (tokenAllowance === undefined || tokenAllowance < ticketPrice * tickets);
+
   const handleEnterRaffle = () => {
-    if (!entranceFee) return;
+    if (!ticketPrice || tickets === BigInt(0)) return;
+
+    if (isTokenRound) {
+      // Approve-then-enter: the first click approves, the next one buys the tickets
+      if (needsApproval) {
+        writeContract({
+          address: BET_TOKEN_ADDRESS,
+          abi: ERC20_ABI,
+          functionName: "approve",
+          args: [RAFFLE_ADDRESS, ticketPrice * tickets],
+        });
+        return;
+      }
+      writeContract({
+        address: RAFFLE_ADDRESS,
+        abi: RAFFLE_ABI,
+        functionName: "enterRaffleWithToken",
+        args: [BET_TOKEN_ADDRESS, tickets],
+      });
+      return;
+    }
 
     writeContract({
       address: RAFFLE_ADDRESS,
       abi: RAFFLE_ABI,
       functionName: "enterRaffle",
-      value: entranceFee,
+      args: [tickets],
+      value: ticketPrice * tickets,
     });
   };
 
@@ -259,18 +532,64 @@ export default function RafflePage() {
     if (timeUntilDraw) setTimeLeft(Number(timeUntilDraw));
   }, [timeUntilDraw]);
 
+  const rakeBps = raffleConfig ? raffleConfig[3] : BigInt(0);
+
   const roundData =
     mounted && currentRound
       ? {
           roundId: currentRound[0]?.toString() || "0",
           state: Number(currentRound[1] || 0),
           startTime: Number(currentRound[2] || 0),
-          playerCount: currentRound[3]?.toString() || "0",
-          prizePool: currentRound[4] ? formatEther(currentRound[4]) : "0",
-          winner: currentRound[5] || "0x0000000000000000000000000000000000000000",
+          playerCount: Number(currentRound[3] || 0),
+          prizePool: currentRound[4] ? formatAmount(currentRound[4], isTokenRound) : "0",
+          // Winners share what is left after the Treasury rake
+          netPrizePool: currentRound[4]
+            ? formatAmount(currentRound[4] - (currentRound[4] * rakeBps) / BigInt(10000), isTokenRound)
+            : "0",
+          totalTickets: Number(currentRound[5] || 0),
         }
       : null;
 
+  const myTicketCount = myTickets ? Number(myTickets) : 0;
+  // Chance that one of your tickets is drawn for first place
+  const winOdds =
+    roundData && roundData.totalTickets > 0 ? (myTicketCount / roundData.totalTickets) * 100 : 0;
+
+  const minPlayers = playerLimits ? Number(playerLimits[0]) : 1;
+  const maxPlayers = playerLimits ? Number(playerLimits[1]) : 0; // 0 = no cap
+  const playersNeeded = roundData ? Math.max(minPlayers - roundData.playerCount, 0) : 0;
+  // New players are turned away once the cap is hit; existing players can still add tickets
+  const isRoundFull =
+    !!roundData && maxPlayers > 0 && roundData.playerCount >= maxPlayers && myTicketCount === 0;
+
+  // Why the draw has not happened yet (null when nothing is blocking it)
+  const drawWaitReason = !roundData
+    ? null
+    : roundData.state === 1
+      ? "Waiting for Chainlink VRF to pick the winners"
+      : roundData.state !== 0
+        ? null
+        : playersNeeded > 0
+          ? `Waiting for ${playersNeeded} more player${playersNeeded === 1 ? "" : "s"} (minimum ${minPlayers}). The timer restarts if the minimum isn't reached in time.`
+          : timeLeft <= 0
+            ? "Waiting for Chainlink Automation to trigger the draw"
+            : null;
+
+  const podiums = toPodiums(winners);
+
+  // Currency of each podium's round, so past token rounds are labelled correctly
+  const { data: podiumTokens } = useReadContracts({
+    contracts: podiums.map((podium) => ({
+      address: RAFFLE_ADDRESS,
+      abi: RAFFLE_ABI,
+      functionName: "getRoundToken" as const,
+      args: [BigInt(podium.roundId)] as const,
+    })),
+    query: { enabled: mounted && podiums.length > 0 },
+  });
+
+  const splits = prizeSplits ? prizeSplits.map((bps) => Number(bps)) : [];
+
   const isContractConfigured = RAFFLE_ADDRESS !== "0x0000000000000000000000000000000000000000";
 
   if (!mounted) {
@@ -284,7 +603,8 @@ export default function RafflePage() {
     );
   }
 
-  const canEnter = isConnected && roundData?.state === 0 && !isWriting;
+  const canEnter =
+    isConnected && roundData?.state === 0 && !isWriting && tickets > BigInt(0) && !isRoundFull;
 
   return (
     <main className="container-app" suppressHydrationWarning>
@@ -345,14 +665,22 @@ export default function RafflePage() {
               </div>
 
               <div className="glass-card p-4">
-                <div className="text-xs muted mb-1">Players</div>
-                <div className="text-lg font-bold">{roundData?.playerCount || "0"}</div>
+                <div className="text-xs muted mb-1">Players / Tickets</div>
+                <div className="text-lg font-bold">
+                  {roundData?.playerCount ?? 0}
+                  {maxPlayers > 0 ? ` / ${maxPlayers} max` : ""}
+                  <span className="muted text-sm font-medium"> · {roundData?.totalTickets ?? 0} tickets</span>
+                </div>
+                <div className="muted text-xs mt-1">Minimum {minPlayers} to draw</div>
               </div>
 
               <div className="glass-card p-4">
-                <div className="text-xs muted mb-1">Prize Pool</div>
+                <div className="text-xs muted mb-1">Net Prize</div>
                 <div className="text-lg font-bold" suppressHydrationWarning>
-                  {roundData?.prizePool || "0"} ETH
+                  {roundData?.netPrizePool || "0"} {currency}
+                </div>
+                <div className="muted text-xs mt-1" suppressHydrationWarning>
+                  Pool {roundData?.prizePool || "0"} {currency} − {Number(rakeBps) / 100}% rake
                 </div>
               </div>
 
@@ -362,8 +690,34 @@ export default function RafflePage() {
                   className={`text-base font-bold ${timeLeft <= 0 ? "text-green-300" : "text-white/90"}`}
                   suppressHydrationWarning
                 >
-                  {formatTime(timeLeft)}
+                  {playersNeeded > 0 && timeLeft <= 0 ? "Waiting for players" : formatTime(timeLeft)}
                 </div>
+                {drawWaitReason && (
+                  <div className="muted text-xs mt-1" suppressHydrationWarning>
+                    {drawWaitReason}
+                  </div>
+                )}
+              </div>
+
+              <div className="glass-card p-4 sm:col-span-2">
+                <div className="text-xs muted mb-2">Prize Split</div>
+                {splits.length === 0 ? (
+                  <div className="text-base font-bold">...</div>
+                ) : (
+                  <div className="flex flex-wrap gap-3">
+                    {splits.map((bps, i) => (
+                      <div key={i} className="px-3 py-2 rounded-lg bg-white/10 border border-white/10 text-sm">
+                        <span className="mr-1">{placeLabel(i + 1)}</span>
+                        <span className="font-bold">{bps / 100}%</span>
+                        {roundData && (
+                          <span className="muted ml-2" suppressHydrationWarning>
+                            ≈ {((Number(roundData.netPrizePool) * bps) / 10000).toFixed(4)} {currency}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
 
@@ -371,12 +725,12 @@ export default function RafflePage() {
             <div className="mt-6 glass-card p-6">
               <div className="flex items-start justify-between gap-4 mb-4">
                 <div>
-                  <h3 className="text-xl font-bold mb-1">🎟️ Buy Ticket</h3>
-                  <div className="muted text-sm">Entrance Fee</div>
+                  <h3 className="text-xl font-bold mb-1">🎟️ Buy Tickets</h3>
+                  <div className="muted text-sm">Price per Ticket</div>
                 </div>
                 <div className="text-right">
                   <div className="text-2xl font-extrabold text-green-300" suppressHydrationWarning>
-                    {entranceFee ? formatEther(entranceFee) : "..."} ETH
+                    {ticketPrice ? formatAmount(ticketPrice, isTokenRound) : "..."} {currency}
                   </div>
                   {isConnected && (
                     <div className="muted text-xs mt-1">
@@ -386,6 +740,66 @@ export default function RafflePage() {
                 </div>
               </div>
 
+              {canUseToken && (
+                <div className="mb-4">
+                  <label className="block text-sm font-medium mb-2">Pay with</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {[
+                      { token: false, label: "ETH" },
+                      { token: true, label: tokenSymbol ?? "Token" },
+                    ].map(({ token, label }) => (
+                      <button
+                        key={label}
+                        onClick={() => setUseToken(token)}
+                        disabled={hasEntries}
+                        className={`btn py-2 ${isTokenRound === token ? "btn-primary" : ""} ${
+                          hasEntries ? "cursor-not-allowed" : ""
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  {hasEntries && (
+                    <div className="muted text-xs mt-2">This round is played in {currency}, set by its first entry</div>
+                  )}
+                </div>
+              )}
+
+              <div className="mb-4">
+                <label className="block text-sm font-medium mb-2">Number of Tickets</label>
+                <input
+                  type="number"
+                  value={ticketCount}
+                  onChange={(e) => setTicketCount(e.target.value)}
+                  step="1"
+                  min="1"
+                  className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  placeholder="1"
+                />
+                <div className="flex justify-between mt-2 text-sm" suppressHydrationWarning>
+                  <span className="muted">Total cost</span>
+                  <span className="font-bold">
+                    {ticketPrice ? formatAmount(ticketPrice * tickets, isTokenRound) : "..."} {currency}
+                  </span>
+                </div>
+              </div>
+
+              {isConnected && roundData && (
+                <div className="mb-4 p-3 rounded-lg bg-white/5 border border-white/10 text-sm" suppressHydrationWarning>
+                  <div className="flex justify-between">
+                    <span className="muted">Your tickets</span>
+                    <span className="font-bold">
+                      {myTicketCount} / {roundData.totalTickets}
+                    </span>
+                  </div>
+                  <div className="flex justify-between mt-1">
+                    <span className="muted">Chance to win 1st place</span>
+                    <span className="font-bold">{winOdds.toFixed(2)}%</span>
+                  </div>
+                </div>
+              )}
+
               {/* Status messages */}
               {!isConnected && (
                 <div className="mb-4 p-3 rounded-lg bg-yellow-500/15 border border-yellow-500/25 text-sm">
@@ -397,7 +811,12 @@ export default function RafflePage() {
                   ⚠️ Round is currently {STATE_NAMES[roundData.state as number]}. Please wait for the next round.
                 </div>
               )}
-              {isConnected && roundData && roundData.state === 0 && (
+              {isConnected && roundData && roundData.state === 0 && isRoundFull && (
+                <div className="mb-4 p-3 rounded-lg bg-yellow-500/15 border border-yellow-500/25 text-sm">
+                  ⚠️ This round already has the maximum of {maxPlayers} players. Please wait for the next round.
+                </div>
+              )}
+              {isConnected && roundData && roundData.state === 0 && !isRoundFull && (
                 <div className="mb-4 p-3 rounded-lg bg-green-500/15 border border-green-500/25 text-sm text-green-100">
                   ✅ Round is OPEN! You can buy tickets now.
                 </div>
@@ -405,7 +824,7 @@ export default function RafflePage() {
 
               <button
                 onClick={handleEnterRaffle}
-                disabled={!isConnected || isWriting || roundData?.state !== 0}
+                disabled={!canEnter}
                 className={`btn w-full py-4 text-lg ${
                   canEnter ? "btn-primary" : "opacity-60 cursor-not-allowed"
                 }`}
@@ -416,13 +835,19 @@ export default function RafflePage() {
                     ? "⏳ Processing Transaction..."
                     : roundData?.state !== 0
                       ? `⏸️ Round is ${STATE_NAMES[roundData?.state || 0]}`
-                      : "🎟️ Buy Ticket Now"}
+                      : isRoundFull
+                        ? "⏸️ Round is full"
+                        : tickets === BigInt(0)
+                          ? "Enter a ticket count"
+                          : needsApproval
+                            ? `Approve ${currency}`
+                            : `🎟️ Buy ${tickets.toString()} Ticket${tickets === BigInt(1) ? "" : "s"} Now`}
               </button>
 
               {isConnected && roundData?.state === 0 && (
                 <div className="mt-3 muted text-xs text-center" suppressHydrationWarning>
-                  Click to purchase a ticket for{" "}
-                  {entranceFee ? formatEther(entranceFee) : "0.01"} ETH
+                  Each ticket costs{" "}
+                  {ticketPrice ? formatAmount(ticketPrice, isTokenRound) : "0.01"} {currency}; more tickets mean better odds
                 </div>
               )}
             </div>
@@ -432,41 +857,48 @@ export default function RafflePage() {
           <section className="glass-card p-8">
             <h2 className="text-2xl font-bold mb-4">🏆 Recent Winners</h2>
 
-            {winners.length === 0 ? (
+            {podiums.length === 0 ? (
               <p className="muted italic">No winners yet. Be the first!</p>
             ) : (
-              <div className="max-h-[320px] overflow-y-auto rounded-xl border border-white/10">
-                <table className="w-full border-collapse text-sm">
-                  <thead className="sticky top-0 bg-white/10 backdrop-blur">
-                    <tr className="text-left">
-                      <th className="px-3 py-3">Round</th>
-                      <th className="px-3 py-3">Winner</th>
-                      <th className="px-3 py-3">Prize</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {winners.map((w, i) => (
-                      <tr key={i} className="border-t border-white/10">
-                        <td className="px-3 py-3">#{w.roundId}</td>
-                        <td className="px-3 py-3 font-mono">
-                          {w.winner.slice(0, 6)}...{w.winner.slice(-4)}
-                        </td>
-                        <td className="px-3 py-3 font-bold">{w.amount} ETH</td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
+              <div className="max-h-[320px] overflow-y-auto space-y-3 pr-1">
+                {podiums.map((podium, i) => {
+                  const podiumToken = podiumTokens?.[i]?.result;
+                  const isTokenPodium = !!podiumToken && podiumToken !== zeroAddress;
+                  return (
+                    <div key={podium.roundId} className="rounded-xl border border-white/10 p-4">
+                      <div className="text-sm font-bold mb-2">Round #{podium.roundId}</div>
+                      <div className="space-y-1 text-sm">
+                        {podium.places.map((w) => (
+                          <div key={w.rank} className="flex items-center justify-between gap-3">
+                            <span>
+                              <span className="mr-2">{placeLabel(w.rank)}</span>
+                              <span className="font-mono">
+                                {w.winner.slice(0, 6)}...{w.winner.slice(-4)}
+                              </span>
+                            </span>
+                            <span className="font-bold">
+                              {formatAmount(w.amount, isTokenPodium)} {isTokenPodium ? (tokenSymbol ?? "tokens") : "ETH"}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
             )}
 
             <div className="mt-8 glass-card p-6">
               <h3 className="text-xl font-bold mb-3">📖 How It Works</h3>
               <ol className="list-decimal pl-5 leading-7 text-sm text-white/90">
-                <li>Connect your wallet and buy a ticket with the entrance fee</li>
+                <li>Connect your wallet and buy one or more tickets (price per ticket shown on the left)</li>
                 <li>Wait for the draw time (countdown shown on the left)</li>
                 <li>Chainlink Keeper automatically triggers the draw when time is up</li>
-                <li>Chainlink VRF provides verifiable randomness to pick the winner</li>
-                <li>Winner receives the entire prize pool through Treasury</li>
+                <li>Chainlink VRF provides verifiable randomness to pick the winners</li>
+                <li>
+                  Treasury keeps a {Number(rakeBps) / 100}% platform rake; each place receives its share of the
+                  net prize (see Prize Split)
+                </li>
                 <li>New round starts automatically</li>
               </ol>
 
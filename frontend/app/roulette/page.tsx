@@ -0,0 +1,959 @@
+"use client";
+
+import { useAccount, useConnect, useDisconnect, useReadContract, useWriteContract, useWatchContractEvent, usePublicClient } from "wagmi";
+import { injected } from "wagmi/connectors";
+import { formatEther, formatUnits, parseEther, parseUnits, zeroAddress } from "viem";
+import Link from "next/link";
+import { useState, useEffect } from "react";
+
+// Roulette contract address
+// Set NEXT_PUBLIC_ROULETTE_ADDRESS in .env.local after running 06-deploy-roulette.ts
+const ROULETTE_ADDRESS = (process.env.NEXT_PUBLIC_ROULETTE_ADDRESS ??
+  "0x0000000000000000000000000000000000000000") as `0x${string}`;
+
+// ERC-20 accepted for bets (allowlisted in Treasury); MockToken from 00-deploy-mocks.ts locally
+const BET_TOKEN_ADDRESS = (process.env.NEXT_PUBLIC_BET_TOKEN_ADDRESS ??
+  "0x0000000000000000000000000000000000000000") as `0x${string}`;
+
+// ERC-20 ABI (only the functions we need)
+const ERC20_ABI = [
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [{ name: "", type: "uint8" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+    ],
+    name: "allowance",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    name: "approve",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const BET_COMPONENTS = [
+  { name: "betType", type: "uint8" },
+  { name: "number", type: "uint8" },
+  { name: "splitNumber", type: "uint8" },
+  { name: "amount", type: "uint256" },
+] as const;
+
+// Roulette contract ABI (only the functions we need)
+const ROULETTE_ABI = [
+  {
+    inputs: [{ components: BET_COMPONENTS, name: "bets", type: "tuple[]" }],
+    name: "placeBets",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "token", type: "address" },
+      { components: BET_COMPONENTS, name: "bets", type: "tuple[]" },
+    ],
+    name: "placeTokenBets",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "spinId", type: "uint256" }],
+    name: "getSpin",
+    outputs: [
+      {
+        components: [
+          { name: "spinId", type: "uint256" },
+          { name: "status", type: "uint8" },
+          { name: "player", type: "address" },
+          { name: "totalAmount", type: "uint256" },
+          { name: "maxPayout", type: "uint256" },
+          { name: "result", type: "uint8" },
+          { name: "payout", type: "uint256" },
+          { name: "timestamp", type: "uint64" },
+          { name: "token", type: "address" },
+        ],
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "player", type: "address" }],
+    name: "getPlayerSpins",
+    outputs: [{ name: "", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getMinBet",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getMaxBet",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getRefundTimeout",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "spinId", type: "uint256" }],
+    name: "claimRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ components: BET_COMPONENTS, name: "bets", type: "tuple[]" }],
+    name: "calculateMaxPayout",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "spinId", type: "uint256" },
+      { indexed: true, name: "player", type: "address" },
+      { indexed: false, name: "totalAmount", type: "uint256" },
+      { indexed: false, name: "betCount", type: "uint256" },
+      { indexed: false, name: "timestamp", type: "uint64" },
+    ],
+    name: "SpinPlaced",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "spinId", type: "uint256" },
+      { indexed: true, name: "player", type: "address" },
+      { indexed: false, name: "result", type: "uint8" },
+      { indexed: false, name: "payout", type: "uint256" },
+    ],
+    name: "SpinSettled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "spinId", type: "uint256" },
+      { indexed: true, name: "player", type: "address" },
+      { indexed: false, name: "amount", type: "uint256" },
+    ],
+    name: "SpinRefunded",
+    type: "event",
+  },
+] as const;
+
+// Spin status enum
+enum SpinStatus {
+  OPEN = 0,
+  CALCULATING = 1,
+  SETTLED = 2,
+  REFUNDED = 3,
+}
+
+const statusText = {
+  [SpinStatus.OPEN]: "Open",
+  [SpinStatus.CALCULATING]: "Spinning...",
+  [SpinStatus.SETTLED]: "Settled",
+  [SpinStatus.REFUNDED]: "Refunded",
+};
+
+// Bet type enum (matches Roulette.BetType)
+enum BetType {
+  STRAIGHT = 0,
+  SPLIT = 1,
+  RED = 2,
+  BLACK = 3,
+  ODD = 4,
+  EVEN = 5,
+  DOZEN = 6,
+  COLUMN = 7,
+}
+
+// Total returned per unit staked, mirrors Roulette.getPayoutTable()
+const MULTIPLIERS: Record<BetType, number> = {
+  [BetType.STRAIGHT]: 36,
+  [BetType.SPLIT]: 18,
+  [BetType.RED]: 2,
+  [BetType.BLACK]: 2,
+  [BetType.ODD]: 2,
+  [BetType.EVEN]: 2,
+  [BetType.DOZEN]: 3,
+  [BetType.COLUMN]: 3,
+};
+
+const MAX_BETS_PER_SPIN = 10;
+
+const RED_NUMBERS = new Set([1, 3, 5, 7, 9, 12, 14, 16, 18, 19, 21, 23, 25, 27, 30, 32, 34, 36]);
+
+// Board rows, top to bottom: column 3 (3..36), column 2 (2..35), column 1 (1..34)
+const BOARD_ROWS = [3, 2, 1].map((offset) => Array.from({ length: 12 }, (_, i) => i * 3 + offset));
+
+type RouletteBet = {
+  betType: BetType;
+  number: number;
+  splitNumber: number;
+  amount: bigint;
+};
+
+type RouletteSpin = {
+  spinId: bigint;
+  status: number;
+  totalAmount: bigint;
+  maxPayout: bigint;
+  result: number;
+  payout: bigint;
+  timestamp: bigint;
+  token: string;
+};
+
+const numberColor = (n: number) =>
+  n === 0 ? "bg-green-600" : RED_NUMBERS.has(n) ? "bg-red-600" : "bg-gray-900";
+
+// Splits must touch on the table: same row neighbours, (n, n+3), or 0 with 1-3
+const isAdjacent = (a: number, b: number) => {
+  const low = Math.min(a, b);
+  const high = Math.max(a, b);
+  if (low === 0) return high >= 1 && high <= 3;
+  return (high === low + 1 && low % 3 !== 0) || high === low + 3;
+};
+
+const betLabel = (bet: { betType: number; number: number; splitNumber: number }) => {
+  switch (bet.betType) {
+    case BetType.STRAIGHT:
+      return `Straight ${bet.number}`;
+    case BetType.SPLIT:
+      return `Split ${bet.number}/${bet.splitNumber}`;
+    case BetType.RED:
+      return "Red";
+    case BetType.BLACK:
+      return "Black";
+    case BetType.ODD:
+      return "Odd";
+    case BetType.EVEN:
+      return "Even";
+    case BetType.DOZEN:
+      return `${["1st", "2nd", "3rd"][bet.number - 1]} 12`;
+    default:
+      return `Column ${bet.number}`;
+  }
+};
+
+export default function RoulettePage() {
+  const { address, isConnected } = useAccount();
+  const { connect } = useConnect();
+  const { disconnect } = useDisconnect();
+  const publicClient = usePublicClient();
+
+  const [chipAmount, setChipAmount] = useState<string>("0.001");
+  const [useToken, setUseToken] = useState<boolean>(false);
+  const [splitMode, setSplitMode] = useState<boolean>(false);
+  const [splitFirst, setSplitFirst] = useState<number | null>(null);
+  const [betSlip, setBetSlip] = useState<RouletteBet[]>([]);
+  const [playerSpins, setPlayerSpins] = useState<RouletteSpin[]>([]);
+  const [latestSpin, setLatestSpin] = useState<RouletteSpin | null>(null);
+  const [now, setNow] = useState<number>(() => Math.floor(Date.now() / 1000));
+
+  // Tick the clock so stale spins become refundable without a reload
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 10000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { data: minBet } = useReadContract({
+    address: ROULETTE_ADDRESS,
+    abi: ROULETTE_ABI,
+    functionName: "getMinBet",
+  });
+
+  const { data: maxBet } = useReadContract({
+    address: ROULETTE_ADDRESS,
+    abi: ROULETTE_ABI,
+    functionName: "getMaxBet",
+  });
+
+  const { data: refundTimeout } = useReadContract({
+    address: ROULETTE_ADDRESS,
+    abi: ROULETTE_ABI,
+    functionName: "getRefundTimeout",
+  });
+
+  // Bet token details and the player's allowance for Roulette
+  const isTokenConfigured = BET_TOKEN_ADDRESS !== zeroAddress;
+
+  const { data: tokenSymbol } = useReadContract({
+    address: BET_TOKEN_ADDRESS,
+    abi: ERC20_ABI,
+    functionName: "symbol",
+    query: { enabled: isTokenConfigured },
+  });
+
+  const { data: tokenDecimals } = useReadContract({
+    address: BET_TOKEN_ADDRESS,
+    abi: ERC20_ABI,
+    functionName: "decimals",
+    query: { enabled: isTokenConfigured },
+  });
+
+  const { data: tokenAllowance } = useReadContract({
+    address: BET_TOKEN_ADDRESS,
+    abi: ERC20_ABI,
+    functionName: "allowance",
+    args: address ? [address, ROULETTE_ADDRESS] : undefined,
+    query: { enabled: isTokenConfigured && !!address, refetchInterval: 5000 },
+  });
+
+  const currency = useToken ? (tokenSymbol ?? "tokens") : "ETH";
+  const parseAmount = (value: string) => (useToken ? parseUnits(value, tokenDecimals ?? 18) : parseEther(value));
+  const formatAmount = (amount: bigint) => (useToken ? formatUnits(amount, tokenDecimals ?? 18) : formatEther(amount));
+  // Amounts of past spins are in the spin's own currency
+  const formatSpinAmount = (amount: bigint, token: string) =>
+    token === zeroAddress
+      ? `${formatEther(amount)} ETH`
+      : `${formatUnits(amount, tokenDecimals ?? 18)} ${tokenSymbol ?? "tokens"}`;
+
+  const { data: spinIds, refetch: refetchSpinIds } = useReadContract({
+    address: ROULETTE_ADDRESS,
+    abi: ROULETTE_ABI,
+    functionName: "getPlayerSpins",
+    args: address ? [address] : undefined,
+  });
+
+  // Worst-case payout of the current slip (the contract checks it against Treasury limits)
+  const { data: maxPayout } = useReadContract({
+    address: ROULETTE_ADDRESS,
+    abi: ROULETTE_ABI,
+    functionName: "calculateMaxPayout",
+    args: [betSlip],
+    query: { enabled: betSlip.length > 0 },
+  });
+
+  const { writeContract: placeBets, isPending: isSpinning } = useWriteContract();
+  const { writeContract: claimRefund, isPending: isClaimingRefund } = useWriteContract();
+
+  // Approve Roulette to pull the token stake
+  const { writeContract: approveToken, isPending: isApproving } = useWriteContract();
+
+  const totalStake = betSlip.reduce((sum, bet) => sum + bet.amount, BigInt(0));
+  const needsApproval =
+    useToken && betSlip.length > 0 && (tokenAllowance === undefined || tokenAllowance < totalStake);
+
+  const fetchSpinDetails = async (spinId: bigint) => {
+    if (!publicClient) return;
+
+    try {
+      const data = await publicClient.readContract({
+        address: ROULETTE_ADDRESS,
+        abi: ROULETTE_ABI,
+        functionName: "getSpin",
+        args: [spinId],
+      });
+      if (data) {
+        setLatestSpin(data);
+      }
+    } catch (error) {
+      console.error("Error fetching spin:", error);
+    }
+  };
+
+  useWatchContractEvent({
+    address: ROULETTE_ADDRESS,
+    abi: ROULETTE_ABI,
+    eventName: "SpinPlaced",
+    onLogs() {
+      refetchSpinIds();
+    },
+  });
+
+  useWatchContractEvent({
+    address: ROULETTE_ADDRESS,
+    abi: ROULETTE_ABI,
+    eventName: "SpinSettled",
+    onLogs(logs) {
+      logs.forEach((log) => {
+        if (log.args.player?.toLowerCase() === address?.toLowerCase() && log.args.spinId !== undefined) {
+          fetchSpinDetails(log.args.spinId);
+        }
+      });
+      refetchSpinIds();
+    },
+  });
+
+  useWatchContractEvent({
+    address: ROULETTE_ADDRESS,
+    abi: ROULETTE_ABI,
+    eventName: "SpinRefunded",
+    onLogs(logs) {
+      logs.forEach((log) => {
+        if (log.args.player?.toLowerCase() === address?.toLowerCase() && log.args.spinId !== undefined) {
+          fetchSpinDetails(log.args.spinId);
+        }
+      });
+      refetchSpinIds();
+    },
+  });
+
+  // Load all player spins when spinIds change
+  useEffect(() => {
+    const loadPlayerSpins = async () => {
+      if (!publicClient || !spinIds || spinIds.length === 0) {
+        setPlayerSpins([]);
+        return;
+      }
+
+      try {
+        const spins = await Promise.all(
+          spinIds.map((spinId: bigint) =>
+            publicClient.readContract({
+              address: ROULETTE_ADDRESS,
+              abi: ROULETTE_ABI,
+              functionName: "getSpin",
+              args: [spinId],
+            })
+          )
+        );
+        if (spins.length > 0) {
+          setLatestSpin(spins[spins.length - 1]);
+        }
+        setPlayerSpins(spins.reverse()); // Show newest first
+      } catch (error) {
+        console.error("Error loading player spins:", error);
+      }
+    };
+
+    loadPlayerSpins();
+  }, [spinIds, publicClient]);
+
+  const addBet = (betType: BetType, number = 0, splitNumber = 0) => {
+    if (betSlip.length >= MAX_BETS_PER_SPIN) {
+      alert(`At most ${MAX_BETS_PER_SPIN} bets per spin`);
+      return;
+    }
+    const amount = parseAmount(chipAmount || "0");
+    if (useToken ? amount === BigInt(0) : minBet && amount < minBet) {
+      alert(useToken ? "Please enter a chip amount" : `Each bet must be at least ${formatEther(minBet ?? BigInt(0))} ETH`);
+      return;
+    }
+    setBetSlip([...betSlip, { betType, number, splitNumber, amount }]);
+  };
+
+  const handleNumberClick = (n: number) => {
+    if (!splitMode) {
+      addBet(BetType.STRAIGHT, n);
+      return;
+    }
+    if (splitFirst === null) {
+      setSplitFirst(n);
+      return;
+    }
+    if (!isAdjacent(splitFirst, n) || splitFirst === n) {
+      alert(`${splitFirst} and ${n} are not adjacent on the table`);
+    } else {
+      addBet(BetType.SPLIT, splitFirst, n);
+    }
+    setSplitFirst(null);
+  };
+
+  const removeBet = (index: number) => {
+    setBetSlip(betSlip.filter((_, i) => i !== index));
+  };
+
+  // Chips on the slip are in the selected currency, so switching clears it
+  const handleCurrencyChange = (token: boolean) => {
+    if (token === useToken) return;
+    setUseToken(token);
+    setBetSlip([]);
+  };
+
+  const handleSpin = () => {
+    if (!isConnected) {
+      alert("Please connect your wallet first");
+      return;
+    }
+    if (betSlip.length === 0) {
+      alert("Place at least one bet on the board");
+      return;
+    }
+    if (useToken) {
+      // Approve-then-spin: the first click approves, the next one places the bets
+      if (tokenAllowance === undefined || tokenAllowance < totalStake) {
+        approveToken({
+          address: BET_TOKEN_ADDRESS,
+          abi: ERC20_ABI,
+          functionName: "approve",
+          args: [ROULETTE_ADDRESS, totalStake],
+        });
+        return;
+      }
+      placeBets(
+        {
+          address: ROULETTE_ADDRESS,
+          abi: ROULETTE_ABI,
+          functionName: "placeTokenBets",
+          args: [BET_TOKEN_ADDRESS, betSlip],
+        },
+        { onSuccess: () => setBetSlip([]) }
+      );
+      return;
+    }
+    if (maxBet && totalStake > maxBet) {
+      alert(`Total stake must be at most ${formatEther(maxBet)} ETH per spin`);
+      return;
+    }
+
+    placeBets(
+      {
+        address: ROULETTE_ADDRESS,
+        abi: ROULETTE_ABI,
+        functionName: "placeBets",
+        args: [betSlip],
+        value: totalStake,
+      },
+      { onSuccess: () => setBetSlip([]) }
+    );
+  };
+
+  // A spin is stale once it has been spinning for longer than the refund timeout
+  const isStaleSpin = (spin: { status: number; timestamp: bigint }) =>
+    spin.status === SpinStatus.CALCULATING &&
+    refundTimeout !== undefined &&
+    now >= Number(spin.timestamp) + Number(refundTimeout);
+
+  const handleClaimRefund = (spinId: bigint) => {
+    claimRefund({
+      address: ROULETTE_ADDRESS,
+      abi: ROULETTE_ABI,
+      functionName: "claimRefund",
+      args: [spinId],
+    });
+  };
+
+  const outsideButton = (label: string, betType: BetType, number = 0, extra = "bg-white/20 hover:bg-white/30") => (
+    <button
+      key={`${betType}-${number}`}
+      onClick={() => addBet(betType, number)}
+      className={`py-3 rounded-lg text-sm font-bold transition ${extra}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 text-white">
+      {/* Header */}
+      <header className="border-b border-white/10 backdrop-blur-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex justify-between items-center">
+            <div className="app-title">
+              🎡 Roulette
+              <span className="muted text-lg font-medium">European</span>
+            </div>
+            <div>
+              {isConnected ? (
+                <div className="flex items-center space-x-4">
+                  <Link href="/" className="btn">
+                    ← Back
+                  </Link>
+                  <span className="text-sm">
+                    {address?.slice(0, 6)}...{address?.slice(-4)}
+                  </span>
+                  <button
+                    onClick={() => disconnect()}
+                    className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg text-sm font-medium transition"
+                  >
+                    Disconnect
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => connect({ connector: injected() })}
+                  className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg text-sm font-medium transition"
+                >
+                  Connect Wallet
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Board */}
+        <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20">
+          <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+            <h2 className="text-2xl font-bold">🎡 Board</h2>
+            <div className="flex items-center gap-4">
+              {isTokenConfigured && (
+                <div className="flex gap-2">
+                  {[
+                    { token: false, label: "ETH" },
+                    { token: true, label: tokenSymbol ?? "Token" },
+                  ].map(({ token, label }) => (
+                    <button
+                      key={label}
+                      onClick={() => handleCurrencyChange(token)}
+                      className={`px-4 py-2 rounded-lg text-sm font-bold transition ${
+                        useToken === token ? "bg-purple-600 ring-2 ring-purple-400" : "bg-white/20 hover:bg-white/30"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <label className="text-sm">
+                Chip ({currency}):
+                <input
+                  type="number"
+                  value={chipAmount}
+                  onChange={(e) => setChipAmount(e.target.value)}
+                  step="0.001"
+                  min={minBet ? formatEther(minBet) : "0.001"}
+                  className="ml-2 w-28 px-3 py-2 bg-white/10 border border-white/20 rounded-lg"
+                />
+              </label>
+              <button
+                onClick={() => {
+                  setSplitMode(!splitMode);
+                  setSplitFirst(null);
+                }}
+                className={`px-4 py-2 rounded-lg text-sm font-bold transition ${
+                  splitMode ? "bg-purple-600 ring-2 ring-purple-400" : "bg-white/20 hover:bg-white/30"
+                }`}
+              >
+                {splitMode ? "Split mode: on" : "Split mode: off"}
+              </button>
+            </div>
+          </div>
+
+          <div className="text-xs text-gray-300 mb-3">
+            {splitMode
+              ? splitFirst === null
+                ? "Split: pick the first number"
+                : `Split: pick a number next to ${splitFirst}`
+              : "Click a number for a straight bet (35:1)"}
+          </div>
+
+          <div className="overflow-x-auto">
+            <div className="flex gap-1 min-w-[720px]">
+              {/* Zero */}
+              <button
+                onClick={() => handleNumberClick(0)}
+                className={`w-14 rounded-lg font-bold text-lg transition hover:opacity-80 ${numberColor(0)} ${
+                  splitFirst === 0 ? "ring-4 ring-yellow-400" : ""
+                }`}
+              >
+                0
+              </button>
+
+              <div className="flex-1 space-y-1">
+                {BOARD_ROWS.map((row, rowIndex) => (
+                  <div key={rowIndex} className="grid grid-cols-[repeat(12,minmax(0,1fr))_4rem] gap-1">
+                    {row.map((n) => (
+                      <button
+                        key={n}
+                        onClick={() => handleNumberClick(n)}
+                        className={`py-3 rounded-lg font-bold transition hover:opacity-80 ${numberColor(n)} ${
+                          splitFirst === n ? "ring-4 ring-yellow-400" : ""
+                        }`}
+                      >
+                        {n}
+                      </button>
+                    ))}
+                    {outsideButton("2:1", BetType.COLUMN, 3 - rowIndex)}
+                  </div>
+                ))}
+
+                {/* Dozens */}
+                <div className="grid grid-cols-[repeat(3,minmax(0,1fr))_4rem] gap-1">
+                  {outsideButton("1st 12", BetType.DOZEN, 1)}
+                  {outsideButton("2nd 12", BetType.DOZEN, 2)}
+                  {outsideButton("3rd 12", BetType.DOZEN, 3)}
+                  <div />
+                </div>
+
+                {/* Even-money bets */}
+                <div className="grid grid-cols-[repeat(4,minmax(0,1fr))_4rem] gap-1">
+                  {outsideButton("Even", BetType.EVEN)}
+                  {outsideButton("Red", BetType.RED, 0, "bg-red-600 hover:bg-red-700")}
+                  {outsideButton("Black", BetType.BLACK, 0, "bg-gray-900 hover:bg-black")}
+                  {outsideButton("Odd", BetType.ODD)}
+                  <div />
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Bet Slip */}
+          <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20">
+            <h2 className="text-2xl font-bold mb-6">🧾 Bet Slip</h2>
+
+            {betSlip.length > 0 ? (
+              <div className="space-y-2 mb-6">
+                {betSlip.map((bet, i) => (
+                  <div key={i} className="flex justify-between items-center p-3 bg-white/5 rounded-lg text-sm">
+                    <div>
+                      <span className="font-bold">{betLabel(bet)}</span>
+                      <span className="text-gray-400 ml-2">pays {MULTIPLIERS[bet.betType] - 1}:1</span>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span>{formatAmount(bet.amount)} {currency}</span>
+                      <button onClick={() => removeBet(i)} className="text-red-400 hover:text-red-300">
+                        ✕
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center text-gray-400 py-8 mb-6">
+                No bets yet. Click the board to place chips.
+              </div>
+            )}
+
+            <div className="p-4 bg-green-500/20 border border-green-500/30 rounded-lg mb-6 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-300">Total stake</span>
+                <span className="font-bold">{formatAmount(totalStake)} {currency}</span>
+              </div>
+              <div className="flex justify-between mt-1">
+                <span className="text-gray-300">Best-case payout</span>
+                <span className="font-bold text-green-400">
+                  {betSlip.length > 0 && maxPayout !== undefined ? formatAmount(maxPayout) : "0"} {currency}
+                </span>
+              </div>
+              <div className="text-xs text-gray-400 mt-2">
+                {useToken
+                  ? `Limited by the Treasury's ${currency} payout cap`
+                  : `Min ${minBet ? formatEther(minBet) : "..."} ETH per bet | Max ${maxBet ? formatEther(maxBet) : "..."} ETH per spin`}{" "}
+                | {betSlip.length}/{MAX_BETS_PER_SPIN} bets
+              </div>
+            </div>
+
+            <button
+              onClick={handleSpin}
+              disabled={!isConnected || isSpinning || isApproving || betSlip.length === 0}
+              className="w-full py-4 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 rounded-lg font-bold text-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isApproving
+                ? "Approving..."
+                : needsApproval
+                  ? `Approve ${currency}`
+                  : isSpinning
+                    ? "Placing Bets..."
+                    : "🎡 Spin"}
+            </button>
+          </div>
+
+          {/* Latest Spin */}
+          <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20">
+            <h2 className="text-2xl font-bold mb-6">📊 Latest Spin</h2>
+
+            {latestSpin ? (
+              <div className="space-y-4">
+                <div className="p-4 bg-white/5 rounded-lg grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <div className="text-gray-400">Spin ID</div>
+                    <div className="font-bold">#{latestSpin.spinId.toString()}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-400">Status</div>
+                    <div className="font-bold">{statusText[latestSpin.status as SpinStatus]}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-400">Staked</div>
+                    <div className="font-bold">{formatSpinAmount(latestSpin.totalAmount, latestSpin.token)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-400">Best-case payout</div>
+                    <div className="font-bold">{formatSpinAmount(latestSpin.maxPayout, latestSpin.token)}</div>
+                  </div>
+                </div>
+
+                {latestSpin.status === SpinStatus.SETTLED && (
+                  <div className={`p-6 rounded-xl text-center ${
+                    latestSpin.payout > BigInt(0)
+                      ? "bg-green-500/20 border-2 border-green-500"
+                      : "bg-red-500/20 border-2 border-red-500"
+                  }`}>
+                    <div className={`inline-flex w-20 h-20 items-center justify-center rounded-full text-3xl font-bold mb-4 ${numberColor(latestSpin.result)}`}>
+                      {latestSpin.result}
+                    </div>
+                    {latestSpin.payout > BigInt(0) ? (
+                      <>
+                        <div className="text-green-400 font-bold text-xl mb-2">YOU WON!</div>
+                        <div className="text-2xl">+{formatSpinAmount(latestSpin.payout, latestSpin.token)}</div>
+                      </>
+                    ) : (
+                      <div className="text-red-400 font-bold text-xl">No winning bets</div>
+                    )}
+                  </div>
+                )}
+
+                {latestSpin.status === SpinStatus.CALCULATING && !isStaleSpin(latestSpin) && (
+                  <div className="p-6 bg-yellow-500/20 border-2 border-yellow-500 rounded-xl text-center">
+                    <div className="text-4xl mb-4 animate-spin">🎡</div>
+                    <div className="text-xl font-bold">Spinning the wheel...</div>
+                    <div className="text-sm text-gray-300 mt-2">
+                      Waiting for VRF randomness
+                    </div>
+                  </div>
+                )}
+
+                {/* VRF callback never arrived */}
+                {isStaleSpin(latestSpin) && (
+                  <div className="p-6 bg-orange-500/20 border-2 border-orange-500 rounded-xl text-center">
+                    <div className="text-4xl mb-4">⏳</div>
+                    <div className="text-xl font-bold">Randomness timed out</div>
+                    <div className="text-sm text-gray-300 mt-2 mb-4">
+                      The VRF callback did not arrive in time. You can reclaim your stake.
+                    </div>
+                    <button
+                      onClick={() => handleClaimRefund(latestSpin.spinId)}
+                      disabled={!isConnected || isClaimingRefund}
+                      className="px-6 py-3 bg-orange-600 hover:bg-orange-700 rounded-lg font-bold transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isClaimingRefund ? "Claiming..." : `Claim refund (${formatSpinAmount(latestSpin.totalAmount, latestSpin.token)})`}
+                    </button>
+                  </div>
+                )}
+
+                {latestSpin.status === SpinStatus.REFUNDED && (
+                  <div className="p-6 bg-blue-500/20 border-2 border-blue-500 rounded-xl text-center">
+                    <div className="text-4xl mb-4">↩️</div>
+                    <div className="text-xl font-bold">Spin refunded</div>
+                    <div className="text-sm text-gray-300 mt-2">
+                      {formatSpinAmount(latestSpin.totalAmount, latestSpin.token)} returned to your wallet
+                    </div>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="text-center text-gray-400 py-12">
+                <div className="text-4xl mb-4">🎡</div>
+                <div>No spins yet. Place your chips and spin!</div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Spin History */}
+        {playerSpins.length > 0 && (
+          <div className="mt-8 bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20">
+            <h2 className="text-2xl font-bold mb-6">📜 Recent Spins</h2>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-white/20">
+                    <th className="px-4 py-2 text-left">ID</th>
+                    <th className="px-4 py-2 text-left">Staked</th>
+                    <th className="px-4 py-2 text-left">Result</th>
+                    <th className="px-4 py-2 text-left">Status</th>
+                    <th className="px-4 py-2 text-left">Payout</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {playerSpins.map((spin) => (
+                    <tr key={spin.spinId.toString()} className="border-b border-white/10">
+                      <td className="px-4 py-3">#{spin.spinId.toString()}</td>
+                      <td className="px-4 py-3">{formatSpinAmount(spin.totalAmount, spin.token)}</td>
+                      <td className="px-4 py-3">
+                        {spin.status === SpinStatus.SETTLED ? (
+                          <span className={`inline-block w-8 text-center rounded font-bold ${numberColor(spin.result)}`}>
+                            {spin.result}
+                          </span>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 rounded text-xs ${
+                          spin.status === SpinStatus.SETTLED
+                            ? "bg-green-500/20 text-green-400"
+                            : spin.status === SpinStatus.REFUNDED
+                              ? "bg-blue-500/20 text-blue-400"
+                              : "bg-yellow-500/20 text-yellow-400"
+                        }`}>
+                          {statusText[spin.status as SpinStatus]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        {spin.status === SpinStatus.SETTLED && spin.payout > BigInt(0) ? (
+                          <span className="text-green-400 font-bold">
+                            +{formatSpinAmount(spin.payout, spin.token)}
+                          </span>
+                        ) : isStaleSpin(spin) ? (
+                          <button
+                            onClick={() => handleClaimRefund(spin.spinId)}
+                            disabled={!isConnected || isClaimingRefund}
+                            className="px-3 py-1 bg-orange-600 hover:bg-orange-700 rounded text-xs font-bold transition disabled:opacity-50"
+                          >
+                            Claim refund
+                          </button>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Game Rules */}
+        <div className="mt-8 bg-white/5 backdrop-blur-md rounded-2xl p-6 border border-white/10">
+          <h3 className="text-xl font-bold mb-4">ℹ️ How to Play</h3>
+          <div className="space-y-2 text-sm text-gray-300">
+            <p>1. Set your chip size and click the board: numbers for straight bets, or turn on split mode and pick two adjacent numbers</p>
+            <p>2. Add outside bets: red/black, odd/even (1:1), dozens and columns (2:1)</p>
+            <p>3. Click &quot;Spin&quot;: all bets on the slip settle on one wheel result (Chainlink VRF). Token spins ask for an approval first</p>
+            <p>4. Payouts: straight 35:1, split 17:1, dozen/column 2:1, even-money 1:1. Outside bets lose on 0</p>
+            <p>5. The best-case payout must fit within the Treasury payout limit, otherwise the spin is rejected</p>
+            <p>6. If the randomness never arrives, the spin becomes refundable after {refundTimeout ? `${Number(refundTimeout) / 60} minutes` : "the refund timeout"}</p>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
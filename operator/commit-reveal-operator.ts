@@ -0,0 +1,167 @@
+import fs from "fs";
+import path from "path";
+import { BigNumber, Event } from "ethers";
+import { ethers, network } from "hardhat";
+import { developmentChains } from "../utils.data";
+
+/**
+ * Commit-reveal operator for CommitRevealRandomnessProvider
+ *
+ * Usage:
+ * 1. Deploy on a commit-reveal network (see randomnessProviderTypes in utils.data.ts):
+ *    npx hardhat deploy --network localhost
+ * 2. Run the operator with the deployer (operator) account:
+ *    npx hardhat run operator/commit-reveal-operator.ts --network localhost
+ *
+ * Features:
+ * - Keeps SEED_BUFFER committed seeds available so games can always request randomness
+ * - Watches RequestSent and reveals each request's seed once its reveal block is mined
+ * - Mines empty blocks on development chains so reveals do not wait for other traffic
+ * - Backs off reveals that revert (e.g. the game refunded the bet and rejects the callback)
+ *   and drops them after MAX_REVEAL_ATTEMPTS
+ * - OPERATOR_ONCE=true makes a single pass over outstanding requests and exits instead of watching
+ *
+ * Seeds are written to operator/.seeds/<network>.json BEFORE their hashes are committed.
+ * Losing that file means assigned requests can never be revealed (games refund them after timeout).
+ */
+
+const SEED_BUFFER = 10;
+const POLL_INTERVAL_MS = 2000;
+// blockhash() only covers the most recent 256 blocks
+const BLOCKHASH_WINDOW = 256;
+// A reverting reveal is retried after 2, 4, 8... polls, then dropped
+const MAX_REVEAL_ATTEMPTS = 5;
+
+type SeedStore = { [seedIndex: string]: string };
+
+const seedFile = path.join(__dirname, ".seeds", `${network.name}.json`);
+
+function loadSeeds(): SeedStore {
+    if (!fs.existsSync(seedFile)) return {};
+    return JSON.parse(fs.readFileSync(seedFile, "utf8"));
+}
+
+function saveSeeds(seeds: SeedStore) {
+    fs.mkdirSync(path.dirname(seedFile), { recursive: true });
+    fs.writeFileSync(seedFile, JSON.stringify(seeds, null, 2));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function main() {
+    const provider = await ethers.getContract("RandomnessProvider");
+    const [operator] = await ethers.getSigners();
+
+    if ((await provider.s_operator()).toLowerCase() !== operator.address.toLowerCase()) {
+        throw new Error(`${operator.address} is not the operator of ${provider.address}`);
+    }
+
+    const seeds = loadSeeds();
+    const pending = new Set<string>();
+    // Reverted reveals: attempts so far and the poll from which to try again
+    const failures = new Map<string, { attempts: number; retryAt: number }>();
+    let poll = 0;
+
+    console.log(`🔐 Commit-reveal operator for ${provider.address} on ${network.name}`);
+
+    // Keep enough committed seeds for upcoming requests
+    async function topUpSeeds() {
+        const available = (await provider.getAvailableSeedCount()).toNumber();
+        if (available >= SEED_BUFFER) return;
+
+        const firstIndex = (await provider.getCommittedSeedCount()).toNumber();
+        const hashes: string[] = [];
+        for (let i = 0; i < SEED_BUFFER - available; i++) {
+            const seed = ethers.utils.hexlify(ethers.utils.randomBytes(32));
+            seeds[firstIndex + i] = seed;
+            hashes.push(ethers.utils.keccak256(seed));
+        }
+        saveSeeds(seeds);
+
+        await (await provider.commitSeeds(hashes)).wait();
+        console.log(`🌱 Committed seeds ${firstIndex}-${firstIndex + hashes.length - 1}`);
+    }
+
+    // Reveal a request if its reveal block has been mined; returns true once it needs no more work
+    async function tryReveal(requestId: string): Promise<boolean> {
+        const request = await provider.getRequest(requestId);
+        if (request.fulfilled) return true;
+
+        const revealBlock = request.revealBlock.toNumber();
+        let blockNumber = await ethers.provider.getBlockNumber();
+        if (blockNumber > revealBlock + BLOCKHASH_WINDOW) {
+            console.log(`⌛ Request ${requestId} expired (reveal block ${revealBlock}); the game must refund it`);
+            return true;
+        }
+
+        // The reveal transaction lands in blockNumber + 1, which must be after the reveal block
+        if (blockNumber < revealBlock) {
+            if (!developmentChains.includes(network.name)) return false;
+            while (blockNumber < revealBlock) {
+                await network.provider.send("evm_mine", []);
+                blockNumber++;
+            }
+        }
+
+        const seed = seeds[request.seedIndex.toString()];
+        if (!seed) {
+            console.log(`❌ No stored seed ${request.seedIndex} for request ${requestId}`);
+            return true;
+        }
+
+        try {
+            const receipt = await (await provider.reveal(requestId, seed)).wait();
+            const fulfilled = (receipt.events ?? []).find((e: Event) => e.event === "RandomnessFulfilled");
+            console.log(`🎲 Revealed request ${requestId} -> ${fulfilled?.args?.randomness.toString()}`);
+            return true;
+        } catch (error: unknown) {
+            // Most likely the game callback reverted. It may be temporary (e.g. a Treasury limit) or
+            // permanent (the bet was refunded), so back off and eventually give up
+            const message = error instanceof Error ? error.message : String(error);
+            const attempts = (failures.get(requestId)?.attempts ?? 0) + 1;
+            if (attempts >= MAX_REVEAL_ATTEMPTS) {
+                console.log(`❌ Reveal of request ${requestId} failed ${attempts} times, dropping it: ${message}`);
+                return true;
+            }
+            failures.set(requestId, { attempts, retryAt: poll + 2 ** attempts });
+            console.log(`⚠️  Reveal of request ${requestId} failed, retrying in ${2 ** attempts} polls: ${message}`);
+            return false;
+        }
+    }
+
+    // Requests made while the operator was offline
+    const requestCount = (await provider.getRequestCount()).toNumber();
+    for (let requestId = 1; requestId <= requestCount; requestId++) {
+        if (!(await provider.isFulfilled(requestId))) pending.add(requestId.toString());
+    }
+    console.log(`📋 ${pending.size} outstanding request(s)`);
+
+    const once = process.env.OPERATOR_ONCE === "true";
+    if (!once) {
+        provider.on("RequestSent", (requestId: BigNumber, requester: string) => {
+            console.log(`📨 Request ${requestId.toString()} from ${requester}`);
+            pending.add(requestId.toString());
+        });
+    }
+
+    while (true) {
+        poll++;
+        await topUpSeeds();
+        for (const requestId of Array.from(pending)) {
+            if (poll < (failures.get(requestId)?.retryAt ?? 0)) continue;
+            if (await tryReveal(requestId)) {
+                pending.delete(requestId);
+                failures.delete(requestId);
+            }
+        }
+        if (once) break;
+        await sleep(POLL_INTERVAL_MS);
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
@@ -19,6 +19,14 @@ const deployMocks: DeployFunction = async function (hre: HardhatRuntimeEnvironme
         });
         
         log("VRF v2.5 Mock 部署完成!");
+
+        // Mintable ERC-20 for token bankroll and token bets (allowlisted in 03-deploy-raffle.ts)
+        await deploy("MockToken", {
+            contract: "MockERC20",
+            from: deployer,
+            log: true,
+            args: ["Test Chip", "CHIP"],
+        });
         log("----------------------------------------------------");
     }
 };
@@ -1,6 +1,11 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
-import { networkConfig, developmentChains } from "../utils.data";
+import {
+    networkConfig,
+    developmentChains,
+    getRandomnessProviderType,
+    commitRevealDelay,
+} from "../utils.data";
 import { verify } from "../utils/verify";
 
 const deployRandomnessProvider: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
@@ -8,6 +13,31 @@ const deployRandomnessProvider: DeployFunction = async function (hre: HardhatRun
     const { deploy, log } = deployments;
     const { deployer } = await getNamedAccounts();
     const chainId = network.config.chainId ?? 31337;
+
+    // Networks without Chainlink VRF get the commit-reveal provider under the same deployment name,
+    // so game deploy scripts pick it up unchanged
+    if (getRandomnessProviderType(network.name) === "commitReveal") {
+        const commitRevealArgs = [deployer, commitRevealDelay];
+
+        log("正在部署 CommitRevealRandomnessProvider...");
+        log(`  Operator: ${deployer}`);
+        log(`  Reveal delay: ${commitRevealDelay} block(s)`);
+
+        const commitRevealProvider = await deploy("RandomnessProvider", {
+            contract: "CommitRevealRandomnessProvider",
+            from: deployer,
+            args: commitRevealArgs,
+            log: true,
+            waitConfirmations: 1,
+        });
+        log("✅ Run operator/commit-reveal-operator.ts to commit seeds and reveal requests");
+
+        if (!developmentChains.includes(network.name) && process.env.ETHERSCAN_API_KEY) {
+            await verify(commitRevealProvider.address, commitRevealArgs);
+        }
+        return;
+    }
+
     let vrfCoordinatorV2Address;
     let subscriptionId;
 
@@ -30,13 +60,16 @@ const deployRandomnessProvider: DeployFunction = async function (hre: HardhatRun
     const cfg = networkConfig[chainId] ?? networkConfig[31337] ?? {
         gasLane: "0x79d3d8832d904592c0bf9818b621522c988bb8b0c05cdc3b15aea1b6e8db0c15",
         callbackGasLimit: "500000",
+        nativePayment: true,
     };
+    const nativePayment = cfg.nativePayment ?? true;
 
     const args = [
         subscriptionId,
         vrfCoordinatorV2Address,
         cfg.gasLane,
         cfg.callbackGasLimit,
+        nativePayment,
     ];
 
     log("正在部署 RandomnessProvider...");
@@ -44,6 +77,7 @@ const deployRandomnessProvider: DeployFunction = async function (hre: HardhatRun
     log(`  VRF Coordinator: ${vrfCoordinatorV2Address}`);
     log(`  Key Hash: ${cfg.gasLane}`);
     log(`  Callback Gas Limit: ${cfg.callbackGasLimit}`);
+    log(`  Payment: ${nativePayment ? "native (ETH)" : "LINK"}`);
     
     const randomnessProvider = await deploy("RandomnessProvider", {
         from: deployer,
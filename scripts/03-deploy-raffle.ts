@@ -1,5 +1,7 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
+import { getRandomnessProviderType, commitRevealDelay, treasuryPayoutBudgets } from "../utils.data";
+import getRoleSigner from "../utils/role-signer";
 
 // Verify function (inline to avoid import issues)
 const verify = async (contractAddress: string, args: any[]) => {
@@ -27,6 +29,7 @@ const networkConfig: { [key: number]: any } = {
     name: "localhost",
     gasLane: "0x474e34a077df58807dbe9c96d3c009b23b3c6d0cce433e59bbf5b34f823bc56c",
     callbackGasLimit: "500000",
+    nativePayment: true, // VRF billed in ETH (false = LINK)
   },
   // Sepolia 测试网
   11155111: {
@@ -35,6 +38,7 @@ const networkConfig: { [key: number]: any } = {
     gasLane: "0x787d74caea10b2b357790d5b5247c2f63d1d91572a9846f780606e4d953677ae", // 500 gwei (Sepolia 唯一选项)
     subscriptionId: "3066552608327859797891664654094611013914157956849122446945087242953245848080",
     callbackGasLimit: "500000",
+    nativePayment: true,
   },
 };
 
@@ -46,7 +50,7 @@ const networkConfig: { [key: number]: any } = {
 const deployRafflePlatform: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
     const { getNamedAccounts, deployments, network, ethers } = hre;
     const { deploy, log, get } = deployments;
-    const { deployer } = await getNamedAccounts();
+    const { deployer, pauser, gameManager, riskManager, treasurer } = await getNamedAccounts();
     const chainId = network.config.chainId;
 
     log("====================================================");
@@ -77,16 +81,54 @@ const deployRafflePlatform: DeployFunction = async function (hre: HardhatRuntime
 
     log(`✅ Treasury deployed at: ${treasury.address}`);
 
-    // Fund Treasury (for testing)
+    // Grant Treasury roles to the named accounts from hardhat.config.ts. The deployer keeps its copies
+    // (and the admin role) so later scripts can configure games even without the holders' keys;
+    // 07-configure-treasury-timelock.ts renounces them at the end.
+    const treasuryAdmin = await ethers.getContractAt("Treasury", treasury.address, await ethers.getSigner(deployer));
+    const roleHolders: [string, string][] = [
+        ["PAUSER_ROLE", pauser],
+        ["GAME_MANAGER_ROLE", gameManager],
+        ["RISK_MANAGER_ROLE", riskManager],
+        ["TREASURER_ROLE", treasurer],
+    ];
+    for (const [roleName, account] of roleHolders) {
+        const role = await treasuryAdmin[roleName]();
+        if (!(await treasuryAdmin.hasRole(role, account))) {
+            await (await treasuryAdmin.grantRole(role, account)).wait(1);
+            log(`✅ Granted ${roleName} to ${account}`);
+        }
+    }
+
+    // Payout circuit breaker (must run before 07 enables the timelock)
+    const payoutBudget = treasuryPayoutBudgets[network.name];
+    if (payoutBudget) {
+        const budget = ethers.utils.parseEther(payoutBudget.budget);
+        const treasuryAsRiskManager = await ethers.getContractAt("Treasury", treasury.address, await getRoleSigner(hre, riskManager));
+        if (!(await treasuryAsRiskManager.payoutBudget()).eq(budget)) {
+            await (await treasuryAsRiskManager.setPayoutBudget(budget, payoutBudget.window)).wait(1);
+        }
+        log(`✅ Payout circuit breaker: ${payoutBudget.budget} ETH per ${payoutBudget.window}s`);
+    }
+
+    // Fund Treasury (for testing) as LP liquidity, so the deployer holds the bankroll's shares
     if (developmentChains.includes(network.name)) {
         const deployerSigner = await ethers.getSigner(deployer);
         const fundAmount = ethers.utils.parseEther("10");
-        const fundTx = await deployerSigner.sendTransaction({
-            to: treasury.address,
-            value: fundAmount,
-        });
+        const treasuryAsDeployer = await ethers.getContractAt("Treasury", treasury.address, deployerSigner);
+        const fundTx = await treasuryAsDeployer.depositLiquidity(deployer, { value: fundAmount });
         await fundTx.wait(1);
-        log(`✅ Funded Treasury with ${ethers.utils.formatEther(fundAmount)} ETH`);
+        log(`✅ Funded Treasury with ${ethers.utils.formatEther(fundAmount)} ETH of LP liquidity`);
+
+        // Allowlist the mock token and fund its bankroll, so games can take token bets locally
+        const mockToken = await ethers.getContract("MockToken", deployerSigner);
+        const tokenMaxPayout = ethers.utils.parseEther("1000");
+        const tokenFundAmount = ethers.utils.parseEther("10000");
+        const treasuryAsRiskManager = await ethers.getContractAt("Treasury", treasury.address, await getRoleSigner(hre, riskManager));
+        await (await treasuryAsRiskManager.setToken(mockToken.address, true, tokenMaxPayout)).wait(1);
+        await (await mockToken.mint(deployer, tokenFundAmount)).wait(1);
+        await (await mockToken.approve(treasury.address, tokenFundAmount)).wait(1);
+        await (await treasuryAsDeployer.depositToken(mockToken.address, tokenFundAmount)).wait(1);
+        log(`✅ Allowlisted MockToken (${mockToken.address}) and funded ${ethers.utils.formatEther(tokenFundAmount)} CHIP`);
     }
 
     // ============================================================
@@ -96,57 +138,80 @@ const deployRafflePlatform: DeployFunction = async function (hre: HardhatRuntime
     log("🎲 Step 2: Deploying RandomnessProvider...");
     log("----------------------------------------------------");
 
-    let vrfCoordinatorV2Address, subscriptionId, keyHash, callbackGasLimit;
+    let randomnessProvider;
 
-    // Configure for local or testnet
-    if (developmentChains.includes(network.name)) {
-        // Local network: use VRF v2.5 mock
-        const vrfCoordinatorV2Mock = await ethers.getContract("VRFCoordinatorMock");
-        vrfCoordinatorV2Address = vrfCoordinatorV2Mock.address;
+    if (getRandomnessProviderType(network.name) === "commitReveal") {
+        // No VRF on this network: commit-reveal provider under the same deployment name
+        const commitRevealArgs = [deployer, commitRevealDelay];
+        randomnessProvider = await deploy("RandomnessProvider", {
+            contract: "CommitRevealRandomnessProvider",
+            from: deployer,
+            args: commitRevealArgs,
+            log: true,
+            waitConfirmations: 1,
+        });
+        log("✅ Using CommitRevealRandomnessProvider (run operator/commit-reveal-operator.ts to reveal)");
+
+        if (!developmentChains.includes(network.name) && process.env.ETHERSCAN_API_KEY) {
+            log("Verifying CommitRevealRandomnessProvider...");
+            await verify(randomnessProvider.address, commitRevealArgs);
+        }
+    } else {
+        let vrfCoordinatorV2Address, subscriptionId, keyHash, callbackGasLimit, nativePayment;
+
+        // Configure for local or testnet
+        if (developmentChains.includes(network.name)) {
+            // Local network: use VRF v2.5 mock
+            const vrfCoordinatorV2Mock = await ethers.getContract("VRFCoordinatorMock");
+            vrfCoordinatorV2Address = vrfCoordinatorV2Mock.address;
         
-        // VRF v2.5 mock doesn't need subscription creation, use fixed ID
-        subscriptionId = "1";
+            // VRF v2.5 mock doesn't need subscription creation, use fixed ID
+            subscriptionId = "1";
         
-        // Use config values or defaults
-        keyHash = networkConfig[chainId!]?.gasLane || "0x474e34a077df58807dbe9c96d3c009b23b3c6d0cce433e59bbf5b34f823bc56c";
-        callbackGasLimit = networkConfig[chainId!]?.callbackGasLimit || "500000";
+            // Use config values or defaults
+            keyHash = networkConfig[chainId!]?.gasLane || "0x474e34a077df58807dbe9c96d3c009b23b3c6d0cce433e59bbf5b34f823bc56c";
+            callbackGasLimit = networkConfig[chainId!]?.callbackGasLimit || "500000";
+            nativePayment = networkConfig[chainId!]?.nativePayment ?? true;
         
-        log(`✅ Using VRF v2.5 Mock with subscription ID: ${subscriptionId}`);
-    } else {
-        // Testnet: use real Chainlink VRF
-        if (!networkConfig[chainId!]) {
-            throw new Error(`Network config not found for chainId: ${chainId}`);
+            log(`✅ Using VRF v2.5 Mock with subscription ID: ${subscriptionId}`);
+        } else {
+            // Testnet: use real Chainlink VRF
+            if (!networkConfig[chainId!]) {
+                throw new Error(`Network config not found for chainId: ${chainId}`);
+            }
+            vrfCoordinatorV2Address = networkConfig[chainId!]["vrfCoordinatorV2"];
+            subscriptionId = networkConfig[chainId!]["subscriptionId"];
+            keyHash = networkConfig[chainId!]["gasLane"];
+            callbackGasLimit = networkConfig[chainId!]["callbackGasLimit"];
+            nativePayment = networkConfig[chainId!]["nativePayment"] ?? true;
         }
-        vrfCoordinatorV2Address = networkConfig[chainId!]["vrfCoordinatorV2"];
-        subscriptionId = networkConfig[chainId!]["subscriptionId"];
-        keyHash = networkConfig[chainId!]["gasLane"];
-        callbackGasLimit = networkConfig[chainId!]["callbackGasLimit"];
-    }
 
-    const providerArgs = [
-        subscriptionId,
-        vrfCoordinatorV2Address,
-        keyHash,
-        callbackGasLimit,
-    ];
+        const providerArgs = [
+            subscriptionId,
+            vrfCoordinatorV2Address,
+            keyHash,
+            callbackGasLimit,
+            nativePayment,
+        ];
 
-    const randomnessProvider = await deploy("RandomnessProvider", {
-        from: deployer,
-        args: providerArgs,
-        log: true,
-        waitConfirmations: network.config.blockConfirmations || 1,
-    });
+        randomnessProvider = await deploy("RandomnessProvider", {
+            from: deployer,
+            args: providerArgs,
+            log: true,
+            waitConfirmations: network.config.blockConfirmations || 1,
+        });
 
-    // Add consumer to subscription (local only)
-    if (developmentChains.includes(network.name)) {
-        // VRF v2.5 mock doesn't require manual consumer addition
-        log("✅ VRF v2.5 Mock ready (no consumer registration needed)");
-    }
+        // Add consumer to subscription (local only)
+        if (developmentChains.includes(network.name)) {
+            // VRF v2.5 mock doesn't require manual consumer addition
+            log("✅ VRF v2.5 Mock ready (no consumer registration needed)");
+        }
 
-    // Verify on testnets
-    if (!developmentChains.includes(network.name) && process.env.ETHERSCAN_API_KEY) {
-        log("Verifying RandomnessProvider...");
-        await verify(randomnessProvider.address, providerArgs);
+        // Verify on testnets
+        if (!developmentChains.includes(network.name) && process.env.ETHERSCAN_API_KEY) {
+            log("Verifying RandomnessProvider...");
+            await verify(randomnessProvider.address, providerArgs);
+        }
     }
 
     log(`✅ RandomnessProvider deployed at: ${randomnessProvider.address}`);
@@ -160,12 +225,16 @@ const deployRafflePlatform: DeployFunction = async function (hre: HardhatRuntime
 
     const entranceFee = "10000000000000000"; // 0.01 ETH
     const interval = 300; // 300 seconds (5 minutes) - 可以根据需要修改
+    const vrfTimeout = 3600; // 1 hour without VRF callback -> re-request / cancel allowed
+    const rakeBps = 500; // 5% of each prize pool retained in Treasury (max 2000)
 
     const raffleArgs = [
         randomnessProvider.address,
         treasury.address,
         entranceFee,
         interval,
+        vrfTimeout,
+        rakeBps,
     ];
 
     const raffle = await deploy("Raffle", {
@@ -176,11 +245,25 @@ const deployRafflePlatform: DeployFunction = async function (hre: HardhatRuntime
     });
 
     // Authorize Raffle as a game in Treasury
-    const treasuryContract = await ethers.getContractAt("Treasury", treasury.address);
+    const treasuryContract = await ethers.getContractAt("Treasury", treasury.address, await getRoleSigner(hre, gameManager));
     const authTx = await treasuryContract.setGame(raffle.address, true);
     await authTx.wait(1);
     log(`✅ Authorized Raffle (${raffle.address}) as a game in Treasury`);
 
+    // Register Raffle as a game in RandomnessProvider (only registered games may request randomness)
+    const providerContract = await ethers.getContractAt("RandomnessProvider", randomnessProvider.address);
+    const registerTx = await providerContract.setGame(raffle.address, true);
+    await registerTx.wait(1);
+    log(`✅ Registered Raffle (${raffle.address}) as a game in RandomnessProvider`);
+
+    // Sell local raffle tickets in the mock token too (10 CHIP each)
+    if (developmentChains.includes(network.name)) {
+        const mockToken = await ethers.getContract("MockToken");
+        const raffleContract = await ethers.getContractAt("Raffle", raffle.address, await ethers.getSigner(deployer));
+        await (await raffleContract.setTokenEntranceFee(mockToken.address, ethers.utils.parseEther("10"))).wait(1);
+        log(`✅ Raffle accepts MockToken at 10 CHIP per ticket`);
+    }
+
     // Verify on testnets
     if (!network.name.includes("hardhat") && !network.name.includes("localhost") && process.env.ETHERSCAN_API_KEY) {
         log("Verifying Raffle...");
@@ -197,6 +280,8 @@ const deployRafflePlatform: DeployFunction = async function (hre: HardhatRuntime
     log(`\n🎮 Raffle Configuration:`);
     log(`   Entrance Fee:        ${entranceFee} wei (0.01 ETH)`);
     log(`   Draw Interval:       ${interval} seconds`);
+    log(`   VRF Timeout:         ${vrfTimeout} seconds`);
+    log(`   Platform Rake:       ${rakeBps / 100}% (winners share ${100 - rakeBps / 100}% of the pool)`);
     log("====================================================\n");
 };
 
@@ -1,5 +1,6 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
+import getRoleSigner from "../utils/role-signer";
 import { ethers } from "hardhat";
 
 /**
@@ -12,13 +13,16 @@ import { ethers } from "hardhat";
  * Features:
  * - Uses deployments.getOrNull() to get or deploy Treasury and RandomnessProvider
  * - Uses deployments.deploy() to deploy DiceGame contract
- * - Authorizes DiceGame to access Treasury (setGame)
- * - Funds Treasury in local environment
+ * - Authorizes DiceGame to access Treasury (setGame, as the gameManager named account or the deployer)
+ * - Sets DiceGame's bankroll allocation and max liability in Treasury (setGameLimits, as the riskManager named account or the deployer),
+ *   and locally the same for token bets in MockToken (setGameTokenLimits)
+ * - Registers DiceGame in RandomnessProvider (setGame)
+ * - Funds Treasury with LP liquidity in local environment
  */
 const deployDiceGame: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployments, getNamedAccounts, network, ethers } = hre;
   const { deploy, getOrNull, log } = deployments;
-  const { deployer } = await getNamedAccounts();
+  const { deployer, gameManager, riskManager } = await getNamedAccounts();
 
   log("\n----------------------------------------------------");
   log("🎲 Starting DiceGame Deployment");
@@ -109,10 +113,11 @@ const deployDiceGame: DeployFunction = async function (hre: HardhatRuntimeEnviro
     // 1.2.3 Deploy RandomnessProvider
     const gasLane = "0xd89b2bf150e3b9e13446986e571fb9cab24b13cea0a43ea20a6049a85cc807cc"; // Local test value
     const callbackGasLimit = 500000;
+    const nativePayment = true;
     
     const providerDeployment = await deploy("RandomnessProvider", {
       from: deployer,
-      args: [subscriptionId, vrfCoordinatorAddress, gasLane, callbackGasLimit],
+      args: [subscriptionId, vrfCoordinatorAddress, gasLane, callbackGasLimit, nativePayment],
       log: true,
       waitConfirmations: 1,
     });
@@ -130,16 +135,18 @@ const deployDiceGame: DeployFunction = async function (hre: HardhatRuntimeEnviro
   
   log("\n📦 Deploying DiceGame...");
   
-  // DiceGame constructor parameters (strictly matches DiceGame.sol lines 74-78)
-  // constructor(address randomnessProvider, address treasury, uint256 minBet, uint256 maxBet)
+  // DiceGame constructor parameters
+  // constructor(address randomnessProvider, address treasury, uint256 minBet, uint256 maxBet, uint256 refundTimeout)
   const minBet = ethers.utils.parseEther("0.001"); // 0.001 ETH
   const maxBet = ethers.utils.parseEther("1");     // 1 ETH
+  const refundTimeout = 60 * 60;                   // 1 hour without VRF callback -> stake refundable
   
   const diceGameArgs = [
     randomnessProviderAddress,
     treasuryAddress,
     minBet,
     maxBet,
+    refundTimeout,
   ];
 
   const diceGame = await deploy("DiceGame", {
@@ -165,7 +172,7 @@ const deployDiceGame: DeployFunction = async function (hre: HardhatRuntimeEnviro
     
     if (!isAuthorized) {
       // Treasury.setGame(address game, bool allowed)
-      const signer = await ethers.getSigner(deployer);
+      const signer = await getRoleSigner(hre, gameManager);
       const authTx = await treasury.connect(signer).setGame(diceGame.address, true);
       await authTx.wait(1);
       log(`✅ DiceGame authorized to access Treasury`);
@@ -176,7 +183,7 @@ const deployDiceGame: DeployFunction = async function (hre: HardhatRuntimeEnviro
     // If check fails, try to authorize directly
     log("⚠️  Cannot check authorization status, attempting direct authorization...");
     try {
-      const signer = await ethers.getSigner(deployer);
+      const signer = await getRoleSigner(hre, gameManager);
       const authTx = await treasury.connect(signer).setGame(diceGame.address, true);
       await authTx.wait(1);
       log(`✅ DiceGame authorized to access Treasury`);
@@ -186,7 +193,62 @@ const deployDiceGame: DeployFunction = async function (hre: HardhatRuntimeEnviro
   }
 
   // ========================================
-  // 4. Local environment: Fund Treasury
+  // 3.1 Set DiceGame's Treasury limits (setGameLimits)
+  // ========================================
+
+  log("\n📏 Setting DiceGame bankroll allocation and max liability...");
+
+  // Bankroll the game may lose on top of its own stakes, and cap on open bets' potential payouts
+  const allocation = ethers.utils.parseEther("6");   // ~1 max-bet win (5.88 ETH)
+  const maxLiability = ethers.utils.parseEther("12"); // ~2 concurrent max bets
+
+  const limits = await treasury.getGameConfig(diceGame.address);
+  if (!limits.allocation.eq(allocation) || !limits.maxLiability.eq(maxLiability)) {
+    const signer = await getRoleSigner(hre, riskManager);
+    const limitsTx = await treasury.connect(signer).setGameLimits(diceGame.address, allocation, maxLiability);
+    await limitsTx.wait(1);
+    log(`✅ DiceGame limits set: allocation ${ethers.utils.formatEther(allocation)} ETH, max liability ${ethers.utils.formatEther(maxLiability)} ETH`);
+  } else {
+    log(`✅ DiceGame limits already set`);
+  }
+
+  // Token bets in the local mock token (allowlisted in 03-deploy-raffle.ts)
+  const mockToken = await getOrNull("MockToken");
+  if (mockToken && (network.name === "localhost" || network.name === "hardhat")) {
+    const tokenAllocation = ethers.utils.parseEther("1000");   // ~1 max token payout (1000 CHIP cap)
+    const tokenMaxLiability = ethers.utils.parseEther("2000"); // ~2 concurrent max token bets
+
+    const tokenLimits = await treasury.getGameTokenConfig(diceGame.address, mockToken.address);
+    if (!tokenLimits.allocation.eq(tokenAllocation) || !tokenLimits.maxLiability.eq(tokenMaxLiability)) {
+      const signer = await getRoleSigner(hre, riskManager);
+      const tokenLimitsTx = await treasury
+        .connect(signer)
+        .setGameTokenLimits(diceGame.address, mockToken.address, tokenAllocation, tokenMaxLiability);
+      await tokenLimitsTx.wait(1);
+      log(`✅ DiceGame MockToken limits set: allocation ${ethers.utils.formatEther(tokenAllocation)} CHIP, max liability ${ethers.utils.formatEther(tokenMaxLiability)} CHIP`);
+    } else {
+      log(`✅ DiceGame MockToken limits already set`);
+    }
+  }
+
+  // ========================================
+  // 4. Register DiceGame in RandomnessProvider (setGame)
+  // ========================================
+
+  log("\n🔐 Registering DiceGame in RandomnessProvider...");
+
+  const randomnessProvider = await ethers.getContractAt("RandomnessProvider", randomnessProviderAddress);
+  if (!(await randomnessProvider.isGame(diceGame.address))) {
+    const signer = await ethers.getSigner(deployer);
+    const registerTx = await randomnessProvider.connect(signer).setGame(diceGame.address, true);
+    await registerTx.wait(1);
+    log(`✅ DiceGame registered in RandomnessProvider`);
+  } else {
+    log(`✅ DiceGame already registered`);
+  }
+
+  // ========================================
+  // 5. Local environment: Fund Treasury
   // ========================================
   
   if (network.name === "localhost" || network.name === "hardhat") {
@@ -196,19 +258,18 @@ const deployDiceGame: DeployFunction = async function (hre: HardhatRuntimeEnviro
       const signer = await ethers.getSigner(deployer);
       const fundAmount = ethers.utils.parseEther("10"); // Fund 10 ETH
       
-      const fundTx = await signer.sendTransaction({
-        to: treasuryAddress,
-        value: fundAmount,
-      });
+      // The deployer is the only LP (03 funded the bankroll as its deposit), so a plain deposit
+      // accrues to its shares; another depositLiquidity would wait out the entry cooldown
+      const fundTx = await treasury.connect(signer).deposit({ value: fundAmount });
       await fundTx.wait(1);
-      log(`✅ Treasury funded with ${ethers.utils.formatEther(fundAmount)} ETH`);
+      log(`✅ Treasury funded with ${ethers.utils.formatEther(fundAmount)} ETH for the LP shares`);
     } catch (fundError: any) {
       log(`⚠️  Funding failed: ${fundError.message}`);
     }
   }
 
   // ========================================
-  // 5. Output deployment information using deployments.log()
+  // 6. Output deployment information using deployments.log()
   // ========================================
   
   log("\n----------------------------------------------------");
@@ -220,6 +281,7 @@ const deployDiceGame: DeployFunction = async function (hre: HardhatRuntimeEnviro
   log(`Minimum bet:                 ${ethers.utils.formatEther(minBet)} ETH`);
   log(`Maximum bet:                 ${ethers.utils.formatEther(maxBet)} ETH`);
   log(`Maximum payout:              ${ethers.utils.formatEther(maxBet.mul(6).mul(98).div(100))} ETH`);
+  log(`Refund timeout:              ${refundTimeout} seconds`);
   log(`Network:                     ${network.name}`);
   log("----------------------------------------------------\n");
 };
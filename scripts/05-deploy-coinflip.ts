@@ -0,0 +1,160 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import getRoleSigner from "../utils/role-signer";
+
+/**
+ * CoinFlip Deployment Script (hardhat-deploy standard)
+ *
+ * Usage:
+ * 1. Start local node: npx hardhat node --no-deploy
+ * 2. Deploy CoinFlip: npx hardhat deploy --tags CoinFlip --network localhost
+ *
+ * Features:
+ * - Reuses the Treasury and RandomnessProvider from the raffle platform deployment
+ *   (deployed first via the "raffle-platform" dependency)
+ * - Uses deployments.deploy() to deploy CoinFlip contract
+ * - Authorizes CoinFlip to access Treasury (setGame, as the gameManager named account or the deployer)
+ * - Sets CoinFlip's bankroll allocation and max liability in Treasury (setGameLimits, as the riskManager named account or the deployer),
+ *   and locally the same for token bets in MockToken (setGameTokenLimits)
+ * - Registers CoinFlip in RandomnessProvider (setGame)
+ */
+const deployCoinFlip: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts, network, ethers } = hre;
+  const { deploy, get, getOrNull, log } = deployments;
+  const { deployer, gameManager, riskManager } = await getNamedAccounts();
+
+  log("\n----------------------------------------------------");
+  log("🪙 Starting CoinFlip Deployment");
+  log("----------------------------------------------------");
+
+  // ========================================
+  // 1. Platform dependencies
+  // ========================================
+
+  const treasuryAddress = (await get("Treasury")).address;
+  const randomnessProviderAddress = (await get("RandomnessProvider")).address;
+  log(`✅ Found deployed Treasury: ${treasuryAddress}`);
+  log(`✅ Found deployed RandomnessProvider: ${randomnessProviderAddress}`);
+
+  // ========================================
+  // 2. Deploy CoinFlip
+  // ========================================
+
+  log("\n📦 Deploying CoinFlip...");
+
+  // constructor(address randomnessProvider, address treasury, uint256 minBet, uint256 maxBet, uint256 refundTimeout)
+  const minBet = ethers.utils.parseEther("0.001"); // 0.001 ETH
+  const maxBet = ethers.utils.parseEther("1");     // 1 ETH
+  const refundTimeout = 60 * 60;                   // 1 hour without VRF callback -> stake refundable
+
+  const coinFlipArgs = [
+    randomnessProviderAddress,
+    treasuryAddress,
+    minBet,
+    maxBet,
+    refundTimeout,
+  ];
+
+  const coinFlip = await deploy("CoinFlip", {
+    from: deployer,
+    args: coinFlipArgs,
+    log: true,
+    waitConfirmations: 1,
+  });
+
+  log(`✅ CoinFlip deployed: ${coinFlip.address}`);
+
+  // ========================================
+  // 3. Authorize CoinFlip to access Treasury (setGame)
+  // ========================================
+
+  log("\n🔐 Authorizing CoinFlip to access Treasury...");
+
+  const treasury = await ethers.getContractAt("Treasury", treasuryAddress);
+  if (!(await treasury.isGame(coinFlip.address))) {
+    const signer = await getRoleSigner(hre, gameManager);
+    const authTx = await treasury.connect(signer).setGame(coinFlip.address, true);
+    await authTx.wait(1);
+    log(`✅ CoinFlip authorized to access Treasury`);
+  } else {
+    log(`✅ CoinFlip already authorized`);
+  }
+
+  // ========================================
+  // 3.1 Set CoinFlip's Treasury limits (setGameLimits)
+  // ========================================
+
+  log("\n📏 Setting CoinFlip bankroll allocation and max liability...");
+
+  // Bankroll the game may lose on top of its own stakes, and cap on open bets' potential payouts
+  const allocation = ethers.utils.parseEther("3");   // ~1.5 max-bet wins (1.96 ETH each)
+  const maxLiability = ethers.utils.parseEther("6"); // ~3 concurrent max bets
+
+  const limits = await treasury.getGameConfig(coinFlip.address);
+  if (!limits.allocation.eq(allocation) || !limits.maxLiability.eq(maxLiability)) {
+    const signer = await getRoleSigner(hre, riskManager);
+    const limitsTx = await treasury.connect(signer).setGameLimits(coinFlip.address, allocation, maxLiability);
+    await limitsTx.wait(1);
+    log(`✅ CoinFlip limits set: allocation ${ethers.utils.formatEther(allocation)} ETH, max liability ${ethers.utils.formatEther(maxLiability)} ETH`);
+  } else {
+    log(`✅ CoinFlip limits already set`);
+  }
+
+  // Token bets in the local mock token (allowlisted in 03-deploy-raffle.ts)
+  const mockToken = await getOrNull("MockToken");
+  if (mockToken && (network.name === "localhost" || network.name === "hardhat")) {
+    const tokenAllocation = ethers.utils.parseEther("1000");   // ~1 max token payout (1000 CHIP cap)
+    const tokenMaxLiability = ethers.utils.parseEther("2000"); // ~2 concurrent max token bets
+
+    const tokenLimits = await treasury.getGameTokenConfig(coinFlip.address, mockToken.address);
+    if (!tokenLimits.allocation.eq(tokenAllocation) || !tokenLimits.maxLiability.eq(tokenMaxLiability)) {
+      const signer = await getRoleSigner(hre, riskManager);
+      const tokenLimitsTx = await treasury
+        .connect(signer)
+        .setGameTokenLimits(coinFlip.address, mockToken.address, tokenAllocation, tokenMaxLiability);
+      await tokenLimitsTx.wait(1);
+      log(`✅ CoinFlip MockToken limits set: allocation ${ethers.utils.formatEther(tokenAllocation)} CHIP, max liability ${ethers.utils.formatEther(tokenMaxLiability)} CHIP`);
+    } else {
+      log(`✅ CoinFlip MockToken limits already set`);
+    }
+  }
+
+  // ========================================
+  // 4. Register CoinFlip in RandomnessProvider (setGame)
+  // ========================================
+
+  log("\n🔐 Registering CoinFlip in RandomnessProvider...");
+
+  const randomnessProvider = await ethers.getContractAt("RandomnessProvider", randomnessProviderAddress);
+  if (!(await randomnessProvider.isGame(coinFlip.address))) {
+    const signer = await ethers.getSigner(deployer);
+    const registerTx = await randomnessProvider.connect(signer).setGame(coinFlip.address, true);
+    await registerTx.wait(1);
+    log(`✅ CoinFlip registered in RandomnessProvider`);
+  } else {
+    log(`✅ CoinFlip already registered`);
+  }
+
+  // ========================================
+  // 5. Deployment summary
+  // ========================================
+
+  log("\n----------------------------------------------------");
+  log("📋 Deployment Summary");
+  log("----------------------------------------------------");
+  log(`CoinFlip address:            ${coinFlip.address}`);
+  log(`Treasury address:            ${treasuryAddress}`);
+  log(`RandomnessProvider address:  ${randomnessProviderAddress}`);
+  log(`Minimum bet:                 ${ethers.utils.formatEther(minBet)} ETH`);
+  log(`Maximum bet:                 ${ethers.utils.formatEther(maxBet)} ETH`);
+  log(`Maximum payout:              ${ethers.utils.formatEther(maxBet.mul(2).mul(98).div(100))} ETH`);
+  log(`Refund timeout:              ${refundTimeout} seconds`);
+  log(`Network:                     ${network.name}`);
+  log("----------------------------------------------------\n");
+};
+
+export default deployCoinFlip;
+
+// Deployment tags
+deployCoinFlip.tags = ["CoinFlip", "coinflip"];
+deployCoinFlip.dependencies = ["raffle-platform"]; // Treasury + RandomnessProvider
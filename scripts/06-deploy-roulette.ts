@@ -0,0 +1,175 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import getRoleSigner from "../utils/role-signer";
+import { getRandomnessProviderType } from "../utils.data";
+
+/**
+ * Roulette Deployment Script (hardhat-deploy standard)
+ *
+ * Usage:
+ * 1. Start local node: npx hardhat node --no-deploy
+ * 2. Deploy Roulette: npx hardhat deploy --tags Roulette --network localhost
+ *
+ * Features:
+ * - Reuses the Treasury and RandomnessProvider from the raffle platform deployment
+ *   (deployed first via the "raffle-platform" dependency)
+ * - Uses deployments.deploy() to deploy Roulette contract
+ * - Authorizes Roulette to access Treasury (setGame, as the gameManager named account or the deployer)
+ * - Sets Roulette's bankroll allocation and max liability in Treasury (setGameLimits, as the riskManager named account or the deployer),
+ *   and locally the same for token bets in MockToken (setGameTokenLimits)
+ * - Registers Roulette in RandomnessProvider (setGame) with a higher callback gas limit
+ */
+const deployRoulette: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts, network, ethers } = hre;
+  const { deploy, get, getOrNull, log } = deployments;
+  const { deployer, gameManager, riskManager } = await getNamedAccounts();
+
+  log("\n----------------------------------------------------");
+  log("🎡 Starting Roulette Deployment");
+  log("----------------------------------------------------");
+
+  // ========================================
+  // 1. Platform dependencies
+  // ========================================
+
+  const treasuryAddress = (await get("Treasury")).address;
+  const randomnessProviderAddress = (await get("RandomnessProvider")).address;
+  log(`✅ Found deployed Treasury: ${treasuryAddress}`);
+  log(`✅ Found deployed RandomnessProvider: ${randomnessProviderAddress}`);
+
+  // ========================================
+  // 2. Deploy Roulette
+  // ========================================
+
+  log("\n📦 Deploying Roulette...");
+
+  // constructor(address randomnessProvider, address treasury, uint256 minBet, uint256 maxBet, uint256 refundTimeout)
+  const minBet = ethers.utils.parseEther("0.001"); // 0.001 ETH per bet
+  const maxBet = ethers.utils.parseEther("0.1");   // 0.1 ETH total per spin
+  const refundTimeout = 60 * 60;                   // 1 hour without VRF callback -> stake refundable
+
+  const rouletteArgs = [
+    randomnessProviderAddress,
+    treasuryAddress,
+    minBet,
+    maxBet,
+    refundTimeout,
+  ];
+
+  const roulette = await deploy("Roulette", {
+    from: deployer,
+    args: rouletteArgs,
+    log: true,
+    waitConfirmations: 1,
+  });
+
+  log(`✅ Roulette deployed: ${roulette.address}`);
+
+  // ========================================
+  // 3. Authorize Roulette to access Treasury (setGame)
+  // ========================================
+
+  log("\n🔐 Authorizing Roulette to access Treasury...");
+
+  const treasury = await ethers.getContractAt("Treasury", treasuryAddress);
+  if (!(await treasury.isGame(roulette.address))) {
+    const signer = await getRoleSigner(hre, gameManager);
+    const authTx = await treasury.connect(signer).setGame(roulette.address, true);
+    await authTx.wait(1);
+    log(`✅ Roulette authorized to access Treasury`);
+  } else {
+    log(`✅ Roulette already authorized`);
+  }
+
+  // ========================================
+  // 3.1 Set Roulette's Treasury limits (setGameLimits)
+  // ========================================
+
+  log("\n📏 Setting Roulette bankroll allocation and max liability...");
+
+  // Bankroll the game may lose on top of its own stakes, and cap on open bets' potential payouts
+  const allocation = ethers.utils.parseEther("4");   // ~1 worst-case spin (3.6 ETH)
+  const maxLiability = ethers.utils.parseEther("8"); // ~2 concurrent worst-case spins
+
+  const limits = await treasury.getGameConfig(roulette.address);
+  if (!limits.allocation.eq(allocation) || !limits.maxLiability.eq(maxLiability)) {
+    const signer = await getRoleSigner(hre, riskManager);
+    const limitsTx = await treasury.connect(signer).setGameLimits(roulette.address, allocation, maxLiability);
+    await limitsTx.wait(1);
+    log(`✅ Roulette limits set: allocation ${ethers.utils.formatEther(allocation)} ETH, max liability ${ethers.utils.formatEther(maxLiability)} ETH`);
+  } else {
+    log(`✅ Roulette limits already set`);
+  }
+
+  // Token bets in the local mock token (allowlisted in 03-deploy-raffle.ts)
+  const mockToken = await getOrNull("MockToken");
+  if (mockToken && (network.name === "localhost" || network.name === "hardhat")) {
+    const tokenAllocation = ethers.utils.parseEther("1000");   // ~1 max token payout (1000 CHIP cap)
+    const tokenMaxLiability = ethers.utils.parseEther("2000"); // ~2 concurrent max token bets
+
+    const tokenLimits = await treasury.getGameTokenConfig(roulette.address, mockToken.address);
+    if (!tokenLimits.allocation.eq(tokenAllocation) || !tokenLimits.maxLiability.eq(tokenMaxLiability)) {
+      const signer = await getRoleSigner(hre, riskManager);
+      const tokenLimitsTx = await treasury
+        .connect(signer)
+        .setGameTokenLimits(roulette.address, mockToken.address, tokenAllocation, tokenMaxLiability);
+      await tokenLimitsTx.wait(1);
+      log(`✅ Roulette MockToken limits set: allocation ${ethers.utils.formatEther(tokenAllocation)} CHIP, max liability ${ethers.utils.formatEther(tokenMaxLiability)} CHIP`);
+    } else {
+      log(`✅ Roulette MockToken limits already set`);
+    }
+  }
+
+  // ========================================
+  // 4. Register Roulette in RandomnessProvider (setGame)
+  // ========================================
+
+  log("\n🔐 Registering Roulette in RandomnessProvider...");
+
+  const randomnessProvider = await ethers.getContractAt("RandomnessProvider", randomnessProviderAddress);
+  if (!(await randomnessProvider.isGame(roulette.address))) {
+    const signer = await ethers.getSigner(deployer);
+    const registerTx = await randomnessProvider.connect(signer).setGame(roulette.address, true);
+    await registerTx.wait(1);
+    log(`✅ Roulette registered in RandomnessProvider`);
+  } else {
+    log(`✅ Roulette already registered`);
+  }
+
+  // Settling up to 10 bets costs more than a single-bet game, so Roulette gets its own callback gas limit.
+  // The commit-reveal provider has no VRF callback gas limit: the reveal transaction pays for settlement.
+  if (getRandomnessProviderType(network.name) === "vrf") {
+    const rouletteCallbackGasLimit = 800000;
+    if ((await randomnessProvider.s_gameCallbackGasLimit(roulette.address)) !== rouletteCallbackGasLimit) {
+      const signer = await ethers.getSigner(deployer);
+      const gasTx = await randomnessProvider
+        .connect(signer)
+        .setGameCallbackGasLimit(roulette.address, rouletteCallbackGasLimit);
+      await gasTx.wait(1);
+    }
+    log(`✅ Roulette callback gas limit: ${rouletteCallbackGasLimit}`);
+  }
+
+  // ========================================
+  // 5. Deployment summary
+  // ========================================
+
+  log("\n----------------------------------------------------");
+  log("📋 Deployment Summary");
+  log("----------------------------------------------------");
+  log(`Roulette address:            ${roulette.address}`);
+  log(`Treasury address:            ${treasuryAddress}`);
+  log(`RandomnessProvider address:  ${randomnessProviderAddress}`);
+  log(`Minimum bet:                 ${ethers.utils.formatEther(minBet)} ETH per bet`);
+  log(`Maximum stake:               ${ethers.utils.formatEther(maxBet)} ETH per spin`);
+  log(`Maximum payout:              ${ethers.utils.formatEther(maxBet.mul(36))} ETH (straight bet, 35:1)`);
+  log(`Refund timeout:              ${refundTimeout} seconds`);
+  log(`Network:                     ${network.name}`);
+  log("----------------------------------------------------\n");
+};
+
+export default deployRoulette;
+
+// Deployment tags
+deployRoulette.tags = ["Roulette", "roulette"];
+deployRoulette.dependencies = ["raffle-platform"]; // Treasury + RandomnessProvider
@@ -0,0 +1,75 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { treasuryTimelockDelays } from "../utils.data";
+
+/**
+ * Treasury Timelock Configuration Script (hardhat-deploy standard)
+ *
+ * Usage:
+ * - Runs last in a full deployment: npx hardhat deploy --network sepolia
+ *
+ * Features:
+ * - Renounces the deployer's copies of PAUSER/GAME_MANAGER/RISK_MANAGER/TREASURER_ROLE once the named holders
+ *   from hardhat.config.ts have them (earlier scripts fall back to the deployer when a holder has no local key);
+ *   a role whose holder does not have it yet is kept and reported
+ * - Sets Treasury.timelockDelay from treasuryTimelockDelays in utils.data.ts once games are configured
+ * - From then on setGame, setGameLimits, setGameTokenLimits, setMaxPayoutPerTx, setPayoutBudget, setTokenPayoutBudget,
+ *   setToken, setWithdrawCooldown, setTimelockDelay, adminWithdraw and adminWithdrawToken must be queued (queueOperation) and executed
+ *   after the delay (executeOperation)
+ * - Networks without a configured delay (development chains) keep direct role-holder calls
+ */
+const configureTreasuryTimelock: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts, network, ethers } = hre;
+  const { get, log } = deployments;
+  const { deployer, pauser, gameManager, riskManager, treasurer } = await getNamedAccounts();
+
+  const treasury = await ethers.getContractAt("Treasury", (await get("Treasury")).address, await ethers.getSigner(deployer));
+
+  // Role hand-off: the deployer only keeps DEFAULT_ADMIN_ROLE once games are configured
+  const roleHolders: [string, string][] = [
+    ["PAUSER_ROLE", pauser],
+    ["GAME_MANAGER_ROLE", gameManager],
+    ["RISK_MANAGER_ROLE", riskManager],
+    ["TREASURER_ROLE", treasurer],
+  ];
+  for (const [roleName, account] of roleHolders) {
+    const role = await treasury[roleName]();
+    if (account.toLowerCase() === deployer.toLowerCase() || !(await treasury.hasRole(role, deployer))) continue;
+    // Never leave a role without its named holder, e.g. when an earlier grant did not go through
+    if (!(await treasury.hasRole(role, account))) {
+      log(`⚠️  ${account} does not hold ${roleName}; the deployer keeps it until the role is granted`);
+      continue;
+    }
+    await (await treasury.renounceRole(role, deployer)).wait(1);
+    log(`✅ Deployer renounced ${roleName}`);
+  }
+
+  const timelockDelay = treasuryTimelockDelays[network.name] ?? 0;
+  if (timelockDelay === 0) {
+    log("⏭️  No Treasury timelock configured for this network, skipping");
+    return;
+  }
+
+  log("\n----------------------------------------------------");
+  log("⏳ Configuring Treasury Timelock");
+  log("----------------------------------------------------");
+
+  const currentDelay = (await treasury.timelockDelay()).toNumber();
+
+  if (currentDelay === timelockDelay) {
+    log(`✅ Timelock delay already ${timelockDelay}s`);
+  } else if (currentDelay !== 0) {
+    // Changing an active delay is itself timelocked
+    log(`⚠️  Timelock delay is ${currentDelay}s; queue setTimelockDelay(${timelockDelay}) from the admin flow instead`);
+  } else {
+    const delayTx = await treasury.setTimelockDelay(timelockDelay);
+    await delayTx.wait(1);
+    log(`✅ Timelock delay set to ${timelockDelay}s; Treasury admin actions now need queueOperation/executeOperation`);
+  }
+};
+
+export default configureTreasuryTimelock;
+
+// Deployment tags
+configureTreasuryTimelock.tags = ["all", "timelock"];
+configureTreasuryTimelock.dependencies = ["raffle-platform"]; // Treasury
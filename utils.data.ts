@@ -2,6 +2,36 @@ import { network } from "hardhat";
 
 export const developmentChains = ["hardhat", "localhost"];
 
+// Randomness backend per network: Chainlink VRF, or CommitRevealRandomnessProvider where VRF is
+// unavailable. Plain `hardhat node` demos use commit-reveal with operator/commit-reveal-operator.ts;
+// in-process tests keep the VRF mock.
+export type RandomnessProviderType = "vrf" | "commitReveal";
+
+export const randomnessProviderTypes: { [networkName: string]: RandomnessProviderType } = {
+    hardhat: "vrf",
+    localhost: "commitReveal",
+    sepolia: "vrf",
+};
+
+export function getRandomnessProviderType(networkName: string): RandomnessProviderType {
+    return randomnessProviderTypes[networkName] ?? "vrf";
+}
+
+// Blocks between a commit-reveal request and the block whose hash is mixed into its randomness
+export const commitRevealDelay = 1;
+
+// Treasury timelock delay (seconds) applied after deployment. Development chains keep 0 so deploy
+// scripts and tests can configure the Treasury directly.
+export const treasuryTimelockDelays: { [networkName: string]: number } = {
+    sepolia: 2 * 24 * 60 * 60, // 2 days
+};
+
+// Treasury payout circuit breaker: at most `budget` ETH paid out per rolling `window` (seconds) before
+// the Treasury pauses itself. Networks without an entry (development chains) leave it disabled.
+export const treasuryPayoutBudgets: { [networkName: string]: { budget: string; window: number } } = {
+    sepolia: { budget: "5", window: 60 * 60 }, // 5 ETH per hour
+};
+
 export const networkConfig: { [key: number]: any } = {
     11155111: {
         name: "sepolia",
@@ -9,6 +39,7 @@ export const networkConfig: { [key: number]: any } = {
         gasLane: "0x787d74caea10b2b357790d5b5247c2f63d1d91572a9846f780606e4d953677ae", // 500 gwei (Sepolia 唯一选项)
         vrfCoordinatorV2: "0x9DdfaCa8183c41ad55329BdeeD9F6A8d53168B1B", // VRF V2.5 Coordinator
         callbackGasLimit: "500000",
+        nativePayment: true, // VRF billed in ETH (false = LINK)
         keepersUpdateInterval: "30",
     },
     31337: {
@@ -16,6 +47,7 @@ export const networkConfig: { [key: number]: any } = {
         subscriptionId: "588",
         gasLane: "0x474e34a077df58807dbe9c96d3c009b23b3c6d0cce433e59bbf5b34f823bc56c",
         callbackGasLimit: "500000",
+        nativePayment: true,
         keepersUpdateInterval: "30",
     },
 };
\ No newline at end of file
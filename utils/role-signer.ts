@@ -0,0 +1,15 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Signer for a Treasury role holder named in hardhat.config.ts `namedAccounts`.
+ * Falls back to the deployer when this network has no key for the holder (e.g. a multisig address):
+ * the deployer keeps every Treasury role until 07-configure-treasury-timelock.ts hands them off.
+ */
+const getRoleSigner = async (hre: HardhatRuntimeEnvironment, account: string) => {
+	const { deployer } = await hre.getNamedAccounts();
+	const signers = await hre.ethers.getSigners();
+	const holder = signers.find((signer) => signer.address.toLowerCase() === account.toLowerCase());
+	return holder ?? (await hre.ethers.getSigner(deployer));
+};
+
+export default getRoleSigner;